@@ -120,3 +120,11 @@ export const getUserContext = (req: HttpRequest): UserContext => {
 };
 
 export const getUserId = (req: HttpRequest): string => getUserContext(req).userId;
+
+/** Admin jobs are limited to the user ids (as resolved above) listed in PROMPTCALC_ADMIN_USER_IDS. */
+export const isAdminUser = (userId: string, env: NodeJS.ProcessEnv = process.env): boolean =>
+  (env.PROMPTCALC_ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .includes(userId);
@@ -9,13 +9,14 @@ import {
   HttpRequest,
   HttpResponseInit,
   InvocationContext,
+  Timer,
 } from "@azure/functions";
 import { createHash, randomUUID } from "crypto";
 
 import { logEvent } from "@promptcalc/logger";
-import type { RefusalCode } from "@promptcalc/types";
+import type { CalculatorSpec, RefusalCode, RenderMode } from "@promptcalc/types";
 
-import { getUserContext } from "../auth";
+import { getUserContext, isAdminUser } from "../auth";
 import { getBuildStamp, type BuildStamp } from "../diagnostics/buildStamp";
 import { getGenerationConfig } from "../generation/config";
 import { resolveRuntimeScanPolicyMode, resolveScanPolicyConfig } from "../generation/scanPolicy";
@@ -25,6 +26,13 @@ import {
   selectExecutionModelFromPrompt,
 } from "../generation/executionModel";
 import { resolveGenerationGate } from "../generation/gate";
+import {
+  buildManifestFromSpec,
+  calculatorSpecSchema,
+  getCalculatorSpecInstructionLines,
+  isCalculatorSpecCandidate,
+  validateCalculatorSpec,
+} from "../generation/calculatorSpec";
 import {
   analyzeArtifactGenerationOutput,
   isArtifactGenerationCandidate,
@@ -44,9 +52,25 @@ import {
   buildGenerateScanBlockResponse,
   buildGenerateScanSkippedResponse,
   buildGenerateScanWarnResponse,
+  buildGenerateSpecOkResponse,
   type RefusalReason,
 } from "../generation/response";
+import {
+  buildArtifactRefinementLines,
+  buildSpecRefinementLines,
+  MAX_REFINEMENT_HISTORY,
+  type RefinementBase,
+} from "../generation/refinement";
 import { ensureFormSafety, normalizeCspMetaContent } from "../generation/artifactPostprocess";
+import {
+  ARTIFACT_HASH_SCHEME,
+  ARTIFACT_INTEGRITY_FAILED,
+  ArtifactIntegrityError,
+  computeArtifactHash,
+  verifyStoredArtifact,
+  verifyStoredSpec,
+  type ArtifactIntegrityCheck,
+} from "../generation/artifactIntegrity";
 import {
   callOpenAIResponses,
   OpenAIBadRequestError,
@@ -55,11 +79,111 @@ import {
   type OpenAIRequest,
   type OpenAITextFormat,
 } from "../openai/client";
-import { getPromptCalcPolicy } from "../policy/policy";
-import { scanArtifactHtml } from "../policy/scanner";
+import { getEffectivePromptCalcPolicy, type EffectivePromptCalcPolicy } from "../policy/policy";
+import {
+  buildVersionScanRecord,
+  parseRecordedScanFindings,
+  rescanArtifact,
+  type AiScanDecision,
+} from "../policy/scanRecord";
+import {
+  applyLoadFailureReport,
+  buildQuarantineRelease,
+  getLoadFailureThreshold,
+  parseViewerFailureReport,
+  pickFallbackVersionId,
+} from "../policy/quarantine";
+import { scanArtifactHtmlAll, type ScanFinding, type ScanReport } from "../policy/scanner";
+import {
+  createEmbeddedManifestRegex,
+  MANIFEST_SPEC_VERSION,
+  normalizeGeneratedManifest,
+  readManifest,
+  validateManifest,
+} from "../generation/manifest";
+import { buildVersionDiff, type VersionDiffSide } from "../generation/versionDiff";
+import {
+  IMPORT_SELF_TEST_BUDGET_MS,
+  normalizeTestVectors,
+  runArtifactSelfTest,
+  summarizeSelfTest,
+  type SelfTestLimits,
+  type SelfTestSummary,
+} from "../sandbox/selfTest";
 import { SAFE_EXPRESSION_EVALUATOR_SNIPPET } from "../templates/safeExpressionEvaluator";
 import { getTraceId } from "../trace";
-import { getBlobPath, getContainerClient, getMaxArtifactBytes, getTableClient } from "../storage";
+import {
+  buildCalcPartition,
+  buildCalcRow,
+  buildShareLinkEntity,
+  buildVersionPartition,
+  buildVersionRow,
+  CALC_BUNDLE_FORMAT,
+  CALC_BUNDLE_VERSION,
+  getArtifactStore,
+  getBlobPath,
+  describeShareLink,
+  generateShareToken,
+  getBundleSigningKey,
+  getCalcRepository,
+  getGlobalVersionRetention,
+  getMaxArtifactBytes,
+  buildCalculatorFacets,
+  buildCalculatorIndex,
+  buildCalculatorMetadataFields,
+  buildCalculatorOrganizationFields,
+  buildRestoreFields,
+  buildTrashFields,
+  buildVersionLineage,
+  getStorageBackend,
+  getTrashRetentionDays,
+  hashShareToken,
+  InvalidCalcBundleError,
+  InvalidShareLinkError,
+  InvalidCalculatorMetadataError,
+  InvalidCalculatorOrganizationError,
+  InvalidCalculatorQueryError,
+  InvalidVersionLabelError,
+  InvalidVersionRetentionError,
+  isPendingVersion,
+  isPurgeDue,
+  isStorageConflict,
+  isTrashedCalculator,
+  listChangedMetadataFields,
+  isShareLinkExpired,
+  isValidShareToken,
+  MAX_BUNDLE_VERSIONS,
+  MAX_SHARE_LINKS_PER_CALC,
+  normalizeCalculatorFolder,
+  parseCalcBundle,
+  parseCalculatorMetadataPatch,
+  parseShareLinkRequest,
+  redactShareToken,
+  parseCalculatorOrganization,
+  parseCalculatorQuery,
+  parseCalculatorTags,
+  parseVersionLabel,
+  parseVersionRetention,
+  reconcileStorage,
+  resolveVersionRetention,
+  selectVersionsToPrune,
+  signCalcBundle,
+  summarizeStorageUsage,
+  verifyCalcBundleSignature,
+  type CalcBundle,
+  type CalcBundleVersion,
+  type CalculatorEntity,
+  type ShareLinkEntity,
+  type ShareLinkRequest,
+  type CalculatorMetadataPatch,
+  type CalculatorOrganizationUpdate,
+  type CalculatorVersionEntity,
+  type CalculatorQuery,
+  type CalculatorWriteOptions,
+  type StorageReconcileReport,
+  type StorageUsage,
+  type VersionRetentionPolicy,
+} from "../storage";
 
 interface SaveCalcRequest {
   title?: string;
@@ -74,6 +198,7 @@ interface GenerateCalcRequest {
   prompt: string;
   baseCalcId?: string;
   baseVersionId?: string;
+  renderMode?: RenderMode;
   redTeamProfile?: RedTeamDebugProfile;
   proceedOverride?: boolean;
 }
@@ -144,8 +269,18 @@ interface CodeScanDecision {
 interface CalculatorSummary {
   calcId: string;
   title: string;
+  createdAt: string;
   updatedAt: string;
   currentVersionId: string;
+  etag: string;
+  description?: string;
+  executionModel?: string;
+  versionCount?: number;
+  lastVersionStatus?: string;
+  tags: string[];
+  folder?: string;
+  favorite: boolean;
+  storageBytes?: number;
 }
 
 interface CalculatorDetail {
@@ -154,37 +289,26 @@ interface CalculatorDetail {
   createdAt: string;
   updatedAt: string;
   currentVersionId: string;
-  versions: Array<{ versionId: string; createdAt: string; status: string }>;
+  etag: string;
+  tags: string[];
+  folder?: string;
+  favorite: boolean;
+  description?: string;
+  notes?: string;
+  metadataUpdatedBy?: string;
+  metadataUpdatedAt?: string;
+  retention: VersionRetentionPolicy;
+  storageBytes?: number;
+  versions: Array<{
+    versionId: string;
+    createdAt: string;
+    status: string;
+    parentVersionId?: string;
+    label?: string;
+    storedBytes?: number;
+  }>;
 }
 
-type CalculatorEntity = {
-  partitionKey: string;
-  rowKey: string;
-  entityType: "Calculator";
-  calcId: string;
-  userId: string;
-  title: string;
-  createdAt: string;
-  updatedAt: string;
-  currentVersionId: string;
-};
-
-type CalculatorVersionEntity = {
-  partitionKey: string;
-  rowKey: string;
-  entityType: "CalculatorVersion";
-  calcId: string;
-  versionId: string;
-  userId: string;
-  createdAt: string;
-  prompt?: string;
-  promptLen?: number;
-  status: "ok" | "refused" | "quarantined";
-  manifestBlobPath: string;
-  artifactBlobPath: string;
-  artifactHash: string;
-};
-
 const jsonResponse = (
   traceId: string,
   status: number,
@@ -332,6 +456,13 @@ const buildHtmlValidationFailedResponse = (
     skippedByProfile: debug?.skippedByProfile,
   });
 
+const policyLoadFailedResponse = (traceId: string): HttpResponseInit =>
+  jsonResponse(traceId, 500, {
+    code: "POLICY_LOAD_FAILED",
+    message: "Artifact policy could not be loaded.",
+    traceId,
+  });
+
 const unauthorizedResponse = (traceId: string): HttpResponseInit =>
   jsonResponse(traceId, 401, {
     code: "UNAUTHORIZED",
@@ -350,24 +481,67 @@ const storageErrorResponse = (traceId: string): HttpResponseInit =>
     traceId,
   });
 
-const sanitizeId = (value: string) => value.replace(/[\\/]/g, "_");
-const normalizeId = (value: string | undefined): string => sanitizeId(String(value ?? ""));
-
-const MAX_TABLE_KEY_LENGTH = 1024;
-const safeKey = (value: string): string => {
-  const sanitized = value.replace(/[^A-Za-z0-9_-]/g, "_");
-  if (sanitized.length <= MAX_TABLE_KEY_LENGTH) {
-    return sanitized;
-  }
-  return createHash("sha256").update(sanitized, "utf8").digest("hex");
+/** If-Match from the client; absent or "*" means the caller accepts whatever is current. */
+const readIfMatch = (req: HttpRequest): string | null => {
+  const value = req.headers.get("if-match")?.trim();
+  return value && value !== "*" ? value : null;
 };
 
-const buildCalcPartition = (userId: string) => `USER_${safeKey(userId)}`;
-const buildCalcRow = (calcId: string) => `CALC_${safeKey(calcId)}`;
-const buildVersionPartition = (userId: string, calcId: string) =>
-  `USER_${safeKey(userId)}_CALC_${safeKey(calcId)}`;
-const buildVersionRow = (versionId: string) => `VER_${safeKey(versionId)}`;
+/**
+ * 409 for a stale If-Match or a lost conditional write. Carries the head the client should reload or overwrite;
+ * `versionId` is set when the new version was already stored but could not be made current.
+ */
+const versionConflictResponse = (
+  traceId: string,
+  calcId: string,
+  head: CalculatorEntity | null,
+  versionId?: string
+): HttpResponseInit =>
+  jsonResponse(traceId, 409, {
+    code: "VERSION_CONFLICT",
+    message: "Someone else changed this calculator since it was loaded.",
+    calcId,
+    current: head
+      ? {
+          currentVersionId: head.currentVersionId,
+          title: head.title,
+          updatedAt: head.updatedAt,
+          etag: head.etag ?? "",
+        }
+      : null,
+    ...(versionId ? { versionId } : {}),
+    traceId,
+  });
+
+const integrityErrorResponse = (traceId: string): HttpResponseInit =>
+  jsonResponse(traceId, 500, {
+    code: ARTIFACT_INTEGRITY_FAILED,
+    message: "Stored calculator failed integrity verification.",
+    traceId,
+  });
+
+const logIntegrityFailure = (
+  traceId: string,
+  op: string,
+  calcId: string,
+  versionId: string,
+  check: Extract<ArtifactIntegrityCheck, { ok: false }>
+) => {
+  logEvent({
+    level: "error",
+    op,
+    traceId,
+    event: "artifact.integrity.failed",
+    calcId,
+    versionId,
+    reason: check.reason,
+    expectedHash: check.expected,
+    actualHash: check.actual,
+  });
+};
 
+const sanitizeId = (value: string) => value.replace(/[\\/]/g, "_");
+const normalizeId = (value: string | undefined): string => sanitizeId(String(value ?? ""));
 
 const truncate = (value: string, maxLength: number) =>
   value.length > maxLength ? `${value.slice(0, maxLength)}…` : value;
@@ -422,6 +596,7 @@ export const generationSchema = {
       properties: {
         specVersion: { type: "string" },
         title: { type: "string" },
+        description: { type: "string" },
         executionModel: { type: "string" },
         capabilities: {
           type: "object",
@@ -433,8 +608,90 @@ export const generationSchema = {
           },
           required: ["network", "storage", "dynamicCode"],
         },
+        inputs: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              id: { type: "string" },
+              label: { type: "string" },
+              type: { type: "string", enum: ["number", "text", "select", "checkbox"] },
+              unit: { type: ["string", "null"] },
+              min: { type: ["number", "null"] },
+              max: { type: ["number", "null"] },
+              step: { type: ["number", "null"] },
+              default: { type: ["number", "string", "boolean", "null"] },
+            },
+            required: ["id", "label", "type", "unit", "min", "max", "step", "default"],
+          },
+        },
+        outputs: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              id: { type: "string" },
+              label: { type: "string" },
+              unit: { type: ["string", "null"] },
+              precision: { type: ["integer", "null"] },
+            },
+            required: ["id", "label", "unit", "precision"],
+          },
+        },
+        limitations: { type: "array", items: { type: "string" } },
+        safetyNotes: { type: "array", items: { type: "string" } },
+        testVectors: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            properties: {
+              name: { type: "string" },
+              inputs: {
+                type: "array",
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    id: { type: "string" },
+                    value: { type: ["string", "number", "boolean"] },
+                  },
+                  required: ["id", "value"],
+                },
+              },
+              action: { type: ["string", "null"] },
+              expected: {
+                type: "array",
+                items: {
+                  type: "object",
+                  additionalProperties: false,
+                  properties: {
+                    id: { type: "string" },
+                    value: { type: "number" },
+                    tolerance: { type: ["number", "null"] },
+                  },
+                  required: ["id", "value", "tolerance"],
+                },
+              },
+            },
+            required: ["name", "inputs", "action", "expected"],
+          },
+        },
       },
-      required: ["specVersion", "title", "executionModel", "capabilities"],
+      required: [
+        "specVersion",
+        "title",
+        "description",
+        "executionModel",
+        "capabilities",
+        "inputs",
+        "outputs",
+        "limitations",
+        "safetyNotes",
+        "testVectors",
+      ],
     },
     notes: { type: "string" },
   },
@@ -485,7 +742,6 @@ export const codeScanSchema = {
   required: ["isSafe"],
 };
 
-const SUPPORTED_SPEC_VERSION = "1.1";
 const EXPRESSION_EVALUATOR_REGEX = /\bcomputeExpr\s*\(/;
 
 const logTableError = (
@@ -524,7 +780,7 @@ const buildRefusalReason = (
   code: RefusalCode | string,
   message: string,
   safeAlternative: string,
-  details?: Pick<RefusalReason, "matchIndex" | "contextSnippet" | "details">
+  details?: Pick<RefusalReason, "matchIndex" | "line" | "column" | "contextSnippet" | "details">
 ): RefusalReason => ({
   code,
   message,
@@ -532,6 +788,20 @@ const buildRefusalReason = (
   ...details,
 });
 
+const formatScanFinding = (finding: ScanFinding): string => {
+  const location = finding.line !== undefined ? ` at line ${finding.line}, column ${finding.column}` : "";
+  const rule = finding.ruleId ? ` (rule: ${finding.ruleId})` : "";
+  return `${finding.code}${location}: ${finding.message}${rule}`;
+};
+
+const buildScanRetryNotice = (findings: ScanFinding[]): string =>
+  [
+    `Your previous output was rejected by the artifact policy scanner with ${findings.length} violation(s).`,
+    "Regenerate the full artifact and fix ALL of them in one pass:",
+    ...findings.map((finding) => `- ${formatScanFinding(finding)}`),
+    "Use only normal functions and explicit arithmetic; no eval/new Function/Function, no network, no external resources.",
+  ].join("\\n");
+
 const buildAiScanIssueLogPayload = (issues: unknown[]) => {
   const summaries = summarizeAiScanIssues(issues);
   const summaryLines = summaries.map(formatAiScanIssueSummary);
@@ -582,48 +852,56 @@ const buildRefusalResponse = (
     skippedByProfile: debug?.skippedByProfile,
   });
 
-const getManifestValidationIssue = (manifest: Record<string, unknown>): string | null => {
-  const specVersion = manifest.specVersion;
-  const title = manifest.title;
-  const executionModel = manifest.executionModel;
-  const capabilities = manifest.capabilities;
-
-  if (specVersion !== SUPPORTED_SPEC_VERSION) {
-    return "manifest.specVersion_invalid";
-  }
-
-  if (typeof title !== "string" || title.trim().length === 0) {
-    return "manifest.title_missing";
-  }
-
-  if (executionModel !== "form" && executionModel !== "expression") {
-    return "manifest.executionModel_invalid";
-  }
+const runVersionSelfTest = (
+  traceId: string,
+  op: string,
+  artifactHtml: string,
+  manifest: Record<string, unknown>,
+  limits: Partial<SelfTestLimits> = {}
+): SelfTestSummary => {
+  const { vectors } = normalizeTestVectors(manifest.testVectors);
+  const summary = summarizeSelfTest(runArtifactSelfTest(artifactHtml, vectors, limits));
+  logEvent({
+    level: summary.status === "failed" ? "warn" : "info",
+    op,
+    traceId,
+    event: "artifact.selftest",
+    selfTestStatus: summary.status,
+    vectorCount: vectors.length,
+    failures: summary.failures,
+  });
+  return summary;
+};
 
-  if (!capabilities || typeof capabilities !== "object") {
-    return "manifest.capabilities_missing";
-  }
+const buildSelfTestEntityFields = (
+  summary: SelfTestSummary
+): Pick<CalculatorVersionEntity, "status" | "selfTestStatus" | "selfTestFailures" | "quarantineReason"> => ({
+  status: summary.status === "failed" ? "quarantined" : "ok",
+  selfTestStatus: summary.status,
+  ...(summary.failures.length > 0 ? { selfTestFailures: JSON.stringify(summary.failures) } : {}),
+  ...(summary.status === "failed" ? { quarantineReason: "self_test" as const } : {}),
+});
 
-  const typedCapabilities = capabilities as {
-    network?: unknown;
-    storage?: unknown;
-    dynamicCode?: unknown;
-  };
-  if (typedCapabilities.network !== false) {
-    return "manifest.capabilities.network_invalid";
-  }
-  if (typedCapabilities.storage !== false) {
-    return "manifest.capabilities.storage_invalid";
-  }
-  if (typedCapabilities.dynamicCode !== false) {
-    return "manifest.capabilities.dynamicCode_invalid";
-  }
+const MAX_INDEXED_DESCRIPTION_LENGTH = 500;
 
-  return null;
-};
+/** Manifest fields copied onto the version row for the calculator listing index. */
+const buildVersionIndexFields = (
+  manifest: Record<string, unknown>
+): Pick<CalculatorVersionEntity, "description" | "executionModel"> => ({
+  ...(typeof manifest.description === "string"
+    ? { description: manifest.description.slice(0, MAX_INDEXED_DESCRIPTION_LENGTH) }
+    : {}),
+  ...(typeof manifest.executionModel === "string" ? { executionModel: manifest.executionModel } : {}),
+});
 
-const isValidManifest = (manifest: Record<string, unknown>): boolean =>
-  !getManifestValidationIssue(manifest);
+/** Saved artifacts skip generation's refusal path, so a policy failure quarantines them instead. */
+const applyPolicyScanQuarantine = (
+  fields: ReturnType<typeof buildSelfTestEntityFields>,
+  report: ScanReport
+): ReturnType<typeof buildSelfTestEntityFields> =>
+  report.ok || fields.status === "quarantined"
+    ? fields
+    : { ...fields, status: "quarantined", quarantineReason: "policy_scan" };
 
 const parseRequestBody = async (
   req: HttpRequest
@@ -675,19 +953,17 @@ const embedManifestInHtml = (
   artifactHtml: string,
   manifest: Record<string, unknown>
 ): string => {
-  const manifestJson = JSON.stringify(manifest, null, 2);
+  // Escaping "<" keeps manifest strings from closing the script element early.
+  const manifestJson = JSON.stringify(manifest, null, 2).replace(/</g, "\\u003c");
   const scriptTag = `<script type=\"application/json\" id=\"promptcalc-manifest\">${manifestJson}</script>`;
-  const manifestRegex = new RegExp(
-    "<script[^>]*id=[\"']promptcalc-manifest[\"'][^>]*>.*?<\\\\/script>",
-    "is"
-  );
+  const manifestRegex = createEmbeddedManifestRegex();
 
   if (manifestRegex.test(artifactHtml)) {
-    return artifactHtml.replace(manifestRegex, scriptTag);
+    return artifactHtml.replace(manifestRegex, () => scriptTag);
   }
 
   if (artifactHtml.includes("</body>")) {
-    return artifactHtml.replace("</body>", `${scriptTag}</body>`);
+    return artifactHtml.replace("</body>", () => `${scriptTag}</body>`);
   }
 
   return `${artifactHtml}\n${scriptTag}`;
@@ -695,7 +971,7 @@ const embedManifestInHtml = (
 
 const READY_BOOTSTRAP_ID = "promptcalc-ready";
 const READY_BOOTSTRAP_SCRIPT =
-  "<script id=\"promptcalc-ready\">(function(){const sendReady=()=>{try{window.parent.postMessage({type:\"ready\"},\"*\");}catch{}};const handlePing=(event)=>{try{if(event&&event.data&&event.data.type===\"ping\"){window.parent.postMessage({type:\"pong\"},\"*\");}}catch{}};if(document.readyState===\"loading\"){document.addEventListener(\"DOMContentLoaded\",sendReady,{once:true});}else{sendReady();}window.addEventListener(\"message\",handlePing);})();</script>";
+  "<script id=\"promptcalc-ready\">(function(){if(window.parent===window){return;}const sendReady=()=>{try{window.parent.postMessage({type:\"ready\"},\"*\");}catch{}};const handlePing=(event)=>{try{if(event&&event.data&&event.data.type===\"ping\"){window.parent.postMessage({type:\"pong\"},\"*\");}}catch{}};if(document.readyState===\"loading\"){document.addEventListener(\"DOMContentLoaded\",sendReady,{once:true});}else{sendReady();}window.addEventListener(\"message\",handlePing);})();</script>";
 const READY_BOOTSTRAP_REGEX = new RegExp(
   `<script[^>]*id=["']${READY_BOOTSTRAP_ID}["'][^>]*>`,
   "i"
@@ -737,19 +1013,30 @@ const ensureReadyBootstrap = (artifactHtml: string): string => {
 const computeSha256 = (value: string): string =>
   createHash("sha256").update(value, "utf8").digest("hex");
 
+/** Resolves to the calculator's new etag; rejects with a storage conflict when `options.ifMatch` is stale. */
 const persistCalculatorEntity = async (
   traceId: string,
-  entity: CalculatorEntity
-): Promise<void> => {
-  const tableClient = await getTableClient(traceId);
-
+  entity: CalculatorEntity,
+  options?: CalculatorWriteOptions
+): Promise<string> => {
+  let etag: string;
   try {
-    await tableClient.upsertEntity(entity, "Merge");
+    etag = await getCalcRepository().saveCalculator(entity, options);
   } catch (error) {
-    logTableError(traceId, error, "calculator.upsert.failed", "calcs.storage", {
-      PartitionKey: entity.partitionKey,
-      RowKey: entity.rowKey,
-    });
+    if (isStorageConflict(error)) {
+      logEvent({
+        level: "warn",
+        op: "calcs.storage",
+        traceId,
+        event: "calculator.upsert.conflict",
+        calcId: entity.calcId,
+      });
+    } else {
+      logTableError(traceId, error, "calculator.upsert.failed", "calcs.storage", {
+        PartitionKey: entity.partitionKey,
+        RowKey: entity.rowKey,
+      });
+    }
     throw error;
   }
 
@@ -759,17 +1046,17 @@ const persistCalculatorEntity = async (
     traceId,
     event: "calculator.upsert",
     calcId: entity.calcId,
+    conditional: Boolean(options?.ifMatch),
   });
+  return etag;
 };
 
 const persistCalculatorVersionEntity = async (
   traceId: string,
   entity: CalculatorVersionEntity
 ): Promise<void> => {
-  const tableClient = await getTableClient(traceId);
-
   try {
-    await tableClient.upsertEntity(entity, "Replace");
+    await getCalcRepository().saveVersion(entity);
   } catch (error) {
     logTableError(traceId, error, "version.upsert.failed", "calcs.storage", {
       PartitionKey: entity.partitionKey,
@@ -790,20 +1077,59 @@ const persistCalculatorVersionEntity = async (
   });
 };
 
+/**
+ * Write-ahead version persistence: the row is stored "pending" first so an interrupted write always leaves a record
+ * the reconciler can find, then the blobs are written and the row is committed with the bytes they hold. Failures
+ * roll back best-effort.
+ */
+const persistVersionWithBlobs = async (
+  traceId: string,
+  entity: CalculatorVersionEntity,
+  writeBlobs: () => Promise<number>
+): Promise<void> => {
+  await persistCalculatorVersionEntity(traceId, { ...entity, writeState: "pending" });
+  try {
+    const storedBytes = await writeBlobs();
+    await getCalcRepository().updateVersion(entity.userId, entity.calcId, entity.versionId, {
+      writeState: "committed",
+      storedBytes,
+    });
+  } catch (error) {
+    logEvent({
+      level: "error",
+      op: "calcs.storage",
+      traceId,
+      event: "version.commit.failed",
+      calcId: entity.calcId,
+      versionId: entity.versionId,
+      message: error instanceof Error ? error.message : "unknown error",
+    });
+    try {
+      await deleteCalculatorVersion(traceId, entity);
+    } catch {
+      // Left pending; reconciliation removes it once the grace period passes.
+    }
+    throw error;
+  }
+
+  logEvent({
+    level: "info",
+    op: "calcs.storage",
+    traceId,
+    event: "version.commit",
+    calcId: entity.calcId,
+    versionId: entity.versionId,
+  });
+};
+
 const persistArtifactBlob = async (
   traceId: string,
   blobPath: string,
   artifactHtml: string
-): Promise<void> => {
-  const containerClient = await getContainerClient(traceId);
-  const blobClient = containerClient.getBlockBlobClient(blobPath);
+): Promise<number> => {
   const bytes = Buffer.byteLength(artifactHtml, "utf8");
 
-  await blobClient.upload(artifactHtml, bytes, {
-    blobHTTPHeaders: {
-      blobContentType: "text/html; charset=utf-8",
-    },
-  });
+  await getArtifactStore().write(blobPath, artifactHtml, "text/html; charset=utf-8");
 
   logEvent({
     level: "info",
@@ -812,29 +1138,41 @@ const persistArtifactBlob = async (
     event: "artifact.write",
     artifactBytes: bytes,
   });
+  return bytes;
 };
 
 const persistManifestBlob = async (
   traceId: string,
   blobPath: string,
   manifest: Record<string, unknown>
-): Promise<void> => {
-  const containerClient = await getContainerClient(traceId);
-  const blobClient = containerClient.getBlockBlobClient(blobPath);
-  const payload = JSON.stringify(manifest, null, 2);
+): Promise<number> => {
+  const contents = JSON.stringify(manifest, null, 2);
+  await getArtifactStore().write(blobPath, contents, "application/json");
 
-  await blobClient.upload(payload, Buffer.byteLength(payload, "utf8"), {
-    blobHTTPHeaders: {
-      blobContentType: "application/json",
-    },
+  logEvent({
+    level: "info",
+    op: "calcs.storage",
+    traceId,
+    event: "manifest.write",
   });
+  return Buffer.byteLength(contents, "utf8");
+};
+
+const persistSpecBlob = async (
+  traceId: string,
+  blobPath: string,
+  spec: CalculatorSpec
+): Promise<number> => {
+  const contents = JSON.stringify(spec, null, 2);
+  await getArtifactStore().write(blobPath, contents, "application/json");
 
   logEvent({
     level: "info",
     op: "calcs.storage",
     traceId,
-    event: "manifest.write",
+    event: "spec.write",
   });
+  return Buffer.byteLength(contents, "utf8");
 };
 
 const deleteCalculatorEntities = async (
@@ -842,18 +1180,12 @@ const deleteCalculatorEntities = async (
   userId: string,
   calcId: string
 ): Promise<void> => {
-  const tableClient = await getTableClient(traceId);
-  const calcPartition = buildCalcPartition(userId);
-  const versionPartition = buildVersionPartition(userId, calcId);
-
   try {
-    for await (const entity of tableClient.listEntities<CalculatorVersionEntity>({
-      queryOptions: { filter: `PartitionKey eq '${versionPartition}'` },
-    })) {
-      await tableClient.deleteEntity(entity.partitionKey, entity.rowKey);
+    // Share links live in their own partitions, so they go first or they would outlive the calculator.
+    for (const link of await getCalcRepository().listShareLinks(userId, calcId)) {
+      await getCalcRepository().deleteShareLink(link.tokenHash);
     }
-
-    await tableClient.deleteEntity(calcPartition, buildCalcRow(calcId));
+    await getCalcRepository().deleteCalculator(userId, calcId);
   } catch (error) {
     logTableError(traceId, error, "calculator.delete.failed");
     throw error;
@@ -872,11 +1204,7 @@ const deleteCalculatorBlobs = async (
   traceId: string,
   prefix: string
 ): Promise<void> => {
-  const containerClient = await getContainerClient(traceId);
-
-  for await (const blob of containerClient.listBlobsFlat({ prefix })) {
-    await containerClient.deleteBlob(blob.name);
-  }
+  const deleted = await getArtifactStore().deletePrefix(prefix);
 
   logEvent({
     level: "info",
@@ -884,25 +1212,140 @@ const deleteCalculatorBlobs = async (
     traceId,
     event: "blobs.delete",
     prefix,
+    deleted,
   });
 };
 
-const loadCalculatorEntity = async (
+/** Irreversibly removes a calculator's rows and every blob under its prefix. */
+const purgeCalculator = async (traceId: string, userId: string, calcId: string): Promise<void> => {
+  await deleteCalculatorEntities(traceId, userId, calcId);
+  await deleteCalculatorBlobs(traceId, getBlobPath(userId, calcId, "ignored").prefix);
+};
+
+const deleteCalculatorVersion = async (
+  traceId: string,
+  entity: CalculatorVersionEntity
+): Promise<void> => {
+  const artifactStore = getArtifactStore();
+  const blobPaths = [entity.manifestBlobPath, entity.artifactBlobPath, entity.specBlobPath].filter(
+    (blobPath): blobPath is string => Boolean(blobPath)
+  );
+
+  try {
+    await getCalcRepository().deleteVersion(entity.userId, entity.calcId, entity.versionId);
+  } catch (error) {
+    logTableError(traceId, error, "version.delete.failed");
+    throw error;
+  }
+  for (const blobPath of new Set(blobPaths)) {
+    await artifactStore.delete(blobPath);
+  }
+
+  logEvent({
+    level: "info",
+    op: "calcs.storage",
+    traceId,
+    event: "version.delete",
+    calcId: entity.calcId,
+    versionId: entity.versionId,
+  });
+};
+
+/**
+ * Merges the listing index, recomputed from the calculator's committed versions, into `entity`. A description the
+ * owner edited is kept.
+ */
+const withCalculatorIndex = async (traceId: string, entity: CalculatorEntity): Promise<CalculatorEntity> => {
+  let versions: CalculatorVersionEntity[];
+  try {
+    versions = (await getCalcRepository().listVersions(entity.userId, entity.calcId)).filter(
+      (version) => !isPendingVersion(version)
+    );
+  } catch (error) {
+    logTableError(traceId, error, "version.list.failed");
+    throw error;
+  }
+  const index = buildCalculatorIndex(versions, entity.currentVersionId);
+  if (entity.descriptionEdited) {
+    delete index.description;
+  }
+  return { ...entity, ...index };
+};
+
+/** Refreshes the listing index after a version status change that does not otherwise rewrite the calculator. */
+const syncCalculatorIndex = async (traceId: string, userId: string, calcId: string): Promise<void> => {
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId, { includeTrashed: true });
+  if (!calculator) {
+    return;
+  }
+  try {
+    await persistCalculatorEntity(traceId, await withCalculatorIndex(traceId, calculator), {
+      ifMatch: calculator.etag,
+    });
+  } catch (error) {
+    // Every calculator write recomputes the index, so the concurrent writer already refreshed it.
+    if (!isStorageConflict(error)) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Points the calculator at its newest servable version when `versionId` is current and can no longer be served.
+ * Returns the new current version id, or null when nothing changed.
+ */
+const moveCurrentVersionOff = async (
   traceId: string,
   userId: string,
-  calcId: string
-): Promise<CalculatorEntity | null> => {
-  const tableClient = await getTableClient(traceId);
-  const partitionKey = buildCalcPartition(userId);
-  const rowKey = buildCalcRow(calcId);
+  calcId: string,
+  versionId: string
+): Promise<string | null> => {
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId, { includeTrashed: true });
+  if (!calculator || calculator.currentVersionId !== versionId) {
+    return null;
+  }
 
+  let versions: CalculatorVersionEntity[];
   try {
-    return (await tableClient.getEntity<CalculatorEntity>(partitionKey, rowKey)) ?? null;
+    versions = (await getCalcRepository().listVersions(userId, calcId)).filter(
+      (version) => !isPendingVersion(version)
+    );
   } catch (error) {
-    const code = error && typeof error === "object" ? (error as { code?: string }).code : null;
-    const statusCode =
-      error && typeof error === "object" ? (error as { statusCode?: number }).statusCode : null;
-    if (code === "ResourceNotFound" || statusCode === 404) {
+    logTableError(traceId, error, "version.list.failed");
+    throw error;
+  }
+
+  const fallbackVersionId = pickFallbackVersionId(versions, versionId);
+  if (!fallbackVersionId) {
+    return null;
+  }
+  await persistCalculatorEntity(traceId, {
+    ...calculator,
+    currentVersionId: fallbackVersionId,
+    updatedAt: new Date().toISOString(),
+  });
+  logEvent({
+    level: "warn",
+    op: "calcs.storage",
+    traceId,
+    event: "calculator.current.moved",
+    calcId,
+    fromVersionId: versionId,
+    toVersionId: fallbackVersionId,
+  });
+  return fallbackVersionId;
+};
+
+/** Trashed calculators read as missing unless `includeTrashed` is set (trash, restore, purge, and admin jobs). */
+const loadCalculatorEntity = async (
+  traceId: string,
+  userId: string,
+  calcId: string,
+  options: { includeTrashed?: boolean } = {}
+): Promise<CalculatorEntity | null> => {
+  try {
+    const calculator = await getCalcRepository().getCalculator(userId, calcId);
+    if (!calculator) {
       logEvent({
         level: "info",
         op: "calcs.storage",
@@ -910,32 +1353,179 @@ const loadCalculatorEntity = async (
         event: "calculator.notFound",
         calcId,
       });
+    } else if (isTrashedCalculator(calculator) && !options.includeTrashed) {
+      logEvent({
+        level: "info",
+        op: "calcs.storage",
+        traceId,
+        event: "calculator.inTrash",
+        calcId,
+      });
       return null;
     }
+    return calculator;
+  } catch (error) {
     logTableError(traceId, error, "calculator.load.failed");
     return null;
   }
 };
 
-const saveCalc = async (
-  req: HttpRequest,
-  context: InvocationContext
-): Promise<HttpResponseInit> => {
-  const traceId = getTraceId(req.headers.get("traceparent"));
-  const startedAt = Date.now();
-  const op = "calcs.save";
-  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
-  const isDevUser = identityProvider === "dev";
-  const userId = normalizeId(requestUserId);
+/** For reads that go straight to version rows: versions of a trashed calculator are hidden with it. */
+const isCalculatorInTrash = async (traceId: string, userId: string, calcId: string): Promise<boolean> => {
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId, { includeTrashed: true });
+  return calculator !== null && isTrashedCalculator(calculator);
+};
 
-  logEvent({
-    level: "info",
-    op,
-    traceId,
-    event: "request.start",
-    method: req.method,
-    route: "/api/calcs/save",
-    userId,
+const loadCalculatorVersionEntity = async (
+  traceId: string,
+  userId: string,
+  calcId: string,
+  versionId: string
+): Promise<CalculatorVersionEntity | null> => {
+  try {
+    const version = await getCalcRepository().getVersion(userId, calcId, versionId);
+    // Pending rows belong to writes that have not committed and are not readable yet.
+    if (!version || isPendingVersion(version)) {
+      logEvent({
+        level: "info",
+        op: "calcs.storage",
+        traceId,
+        event: "version.notFound",
+        calcId,
+        versionId,
+      });
+      return null;
+    }
+    return version;
+  } catch (error) {
+    logTableError(traceId, error, "version.load.failed");
+    return null;
+  }
+};
+
+const describeVersionScan = (entity: CalculatorVersionEntity) =>
+  entity.policyHash
+    ? {
+        policyHash: entity.policyHash,
+        policySpecVersion: entity.policySpecVersion,
+        status: entity.scanStatus,
+        findings: parseRecordedScanFindings(entity.scanFindings),
+        scannedAt: entity.scannedAt,
+        ...(entity.aiScanDecision ? { aiScanDecision: entity.aiScanDecision } : {}),
+        ...(entity.aiScanModel ? { aiScanModel: entity.aiScanModel } : {}),
+      }
+    : undefined;
+
+const verifyVersionIntegrity = (
+  entity: CalculatorVersionEntity,
+  manifest: Record<string, unknown>,
+  artifactHtml: string | undefined,
+  spec: CalculatorSpec | undefined
+): ArtifactIntegrityCheck =>
+  spec
+    ? verifyStoredSpec(spec, manifest, entity.artifactHash)
+    : verifyStoredArtifact({
+        artifactHtml: artifactHtml ?? "",
+        manifest,
+        artifactHash: entity.artifactHash,
+        artifactHashScheme: entity.artifactHashScheme,
+      });
+
+/** Reads a version's manifest and artifact or spec blobs; throws ArtifactIntegrityError when they fail verification. */
+const loadVersionPayload = async (
+  traceId: string,
+  op: string,
+  entity: CalculatorVersionEntity
+): Promise<{ manifest: Record<string, unknown>; artifactHtml?: string; spec?: CalculatorSpec }> => {
+  const artifactStore = getArtifactStore();
+  const manifest = readManifest(
+    JSON.parse(await artifactStore.read(entity.manifestBlobPath)) as Record<string, unknown>
+  );
+
+  let artifactHtml: string | undefined;
+  let spec: CalculatorSpec | undefined;
+  if (entity.renderMode === "spec" && entity.specBlobPath) {
+    spec = JSON.parse(await artifactStore.read(entity.specBlobPath)) as CalculatorSpec;
+  } else {
+    artifactHtml = await artifactStore.read(entity.artifactBlobPath);
+  }
+  const integrity = verifyVersionIntegrity(entity, manifest, artifactHtml, spec);
+  if (!integrity.ok) {
+    logIntegrityFailure(traceId, op, entity.calcId, entity.versionId, integrity);
+    throw new ArtifactIntegrityError(integrity.reason);
+  }
+  return { manifest, artifactHtml, spec };
+};
+
+const loadRefinementBase = async (
+  traceId: string,
+  userId: string,
+  calcId: string,
+  versionId: string
+): Promise<RefinementBase | null> => {
+  if (!(await loadCalculatorEntity(traceId, userId, calcId))) {
+    return null;
+  }
+  const baseEntity = await loadCalculatorVersionEntity(traceId, userId, calcId, versionId);
+  if (!baseEntity || baseEntity.userId !== userId) {
+    return null;
+  }
+
+  const { manifest, artifactHtml, spec } = await loadVersionPayload(traceId, "calcs.storage", baseEntity);
+
+  const promptHistory: string[] = [];
+  const visited = new Set<string>();
+  let cursor: CalculatorVersionEntity | null = baseEntity;
+  while (cursor && promptHistory.length < MAX_REFINEMENT_HISTORY && !visited.has(cursor.versionId)) {
+    visited.add(cursor.versionId);
+    if (cursor.prompt) {
+      promptHistory.unshift(cursor.prompt);
+    }
+    cursor = cursor.parentVersionId
+      ? await loadCalculatorVersionEntity(traceId, userId, calcId, cursor.parentVersionId)
+      : null;
+  }
+
+  logEvent({
+    level: "info",
+    op: "calcs.storage",
+    traceId,
+    event: "refinement.base.loaded",
+    calcId,
+    versionId,
+    renderMode: baseEntity.renderMode ?? "artifact",
+    historyLen: promptHistory.length,
+  });
+
+  return {
+    calcId,
+    versionId,
+    promptHistory,
+    manifest,
+    ...(artifactHtml !== undefined ? { artifactHtml } : {}),
+    ...(spec ? { spec } : {}),
+  };
+};
+
+export const saveCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.save";
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/save",
+    userId,
     isAuthenticated,
     identityProvider,
   });
@@ -970,7 +1560,10 @@ const saveCalc = async (
     });
   }
 
-  if (!isValidManifest(body.manifest)) {
+  // Older clients still send 1.1 manifests; save stores them upgraded to 1.2.
+  const requestManifest = readManifest(body.manifest);
+  const manifestErrors = validateManifest(requestManifest, { requireHash: false });
+  if (manifestErrors.length > 0) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -979,10 +1572,37 @@ const saveCalc = async (
       event: "request.end",
       durationMs,
       status: 400,
+      reason: manifestErrors[0].code,
     });
     return jsonResponse(traceId, 400, {
       code: "INVALID_MANIFEST",
-      message: "Manifest is missing required fields.",
+      message: `Manifest validation failed: ${manifestErrors[0].code}`,
+      errors: manifestErrors,
+    });
+  }
+
+  // A client-supplied hash must describe the artifact it was submitted with.
+  const submittedHash = computeArtifactHash(body.artifactHtml);
+  if (
+    typeof requestManifest.hash === "string" &&
+    requestManifest.hash.length > 0 &&
+    requestManifest.hash !== submittedHash
+  ) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      reason: "manifest.hash_mismatch",
+    });
+    return jsonResponse(traceId, 400, {
+      code: "MANIFEST_HASH_MISMATCH",
+      message: "Manifest hash does not match the submitted artifact.",
+      expected: submittedHash,
+      actual: requestManifest.hash,
     });
   }
 
@@ -1011,12 +1631,102 @@ const saveCalc = async (
   const calcId = normalizeId(body.calcId || randomUUID());
   const versionId = normalizeId(randomUUID());
   const nowIso = new Date().toISOString();
-  const artifactHash = createHash("sha256").update(artifactHtml, "utf8").digest("hex");
+  // Post-processing may rewrite the artifact, so the stored hash is recomputed.
+  const artifactHash = computeArtifactHash(artifactHtml);
   const promptValue = typeof body.prompt === "string" ? body.prompt : undefined;
   const promptLen = promptValue ? promptValue.length : 0;
   const blobPath = getBlobPath(userId, calcId, versionId);
-
-  let calculatorEntity = await loadCalculatorEntity(traceId, userId, calcId);
+  const manifest: Record<string, unknown> = { ...requestManifest, hash: artifactHash };
+  let effectivePolicy: EffectivePromptCalcPolicy;
+  try {
+    effectivePolicy = await getEffectivePromptCalcPolicy();
+  } catch {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      reason: "policy.load_failed",
+    });
+    return policyLoadFailedResponse(traceId);
+  }
+  const scanReport = scanArtifactHtmlAll(artifactHtml, effectivePolicy.policy);
+  if (!scanReport.ok) {
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "artifact.scan.failed",
+      policyHash: effectivePolicy.hash,
+      findingCount: scanReport.findings.length,
+      findings: scanReport.findings.map(formatScanFinding),
+    });
+  }
+  const selfTest = runVersionSelfTest(traceId, op, artifactHtml, manifest);
+  const statusFields = applyPolicyScanQuarantine(buildSelfTestEntityFields(selfTest), scanReport);
+  const scanRecord = buildVersionScanRecord({ policy: effectivePolicy, report: scanReport, scannedAt: nowIso });
+
+  const ifMatch = readIfMatch(req);
+  let calculatorEntity = await loadCalculatorEntity(traceId, userId, calcId, { includeTrashed: true });
+  // Saving into a trashed calculator would resurrect it half-way; it has to be restored first.
+  if (calculatorEntity && isTrashedCalculator(calculatorEntity)) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator is in the trash; restore it before saving new versions.",
+    });
+  }
+  if (ifMatch && calculatorEntity?.etag !== ifMatch) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+    });
+    return versionConflictResponse(traceId, calcId, calculatorEntity);
+  }
+  // The lineage only links versions of this calculator, so the parent must be one of its stored versions.
+  const parentVersionId =
+    typeof body.baseVersionId === "string" && body.baseVersionId.trim() ? normalizeId(body.baseVersionId) : "";
+  const baseVersion =
+    parentVersionId && calculatorEntity
+      ? await loadCalculatorVersionEntity(traceId, userId, calcId, parentVersionId)
+      : null;
+  if (parentVersionId && baseVersion?.calcId !== calcId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      calcId,
+      reason: "base_version.invalid",
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: "baseVersionId must be a stored version of this calculator.",
+    });
+  }
+  // Without If-Match the write is still conditional on the row read above, so a racing writer is never overwritten.
+  const writeOptions: CalculatorWriteOptions = { ifMatch: ifMatch ?? calculatorEntity?.etag };
   if (!calculatorEntity) {
     calculatorEntity = {
       partitionKey: buildCalcPartition(userId),
@@ -1024,7 +1734,7 @@ const saveCalc = async (
       entityType: "Calculator",
       calcId: normalizeId(calcId),
       userId: normalizeId(userId),
-      title: body.title || (body.manifest.title as string) || "Untitled",
+      title: body.title || (manifest.title as string) || "Untitled",
       createdAt: nowIso,
       updatedAt: nowIso,
       currentVersionId: versionId,
@@ -1034,7 +1744,9 @@ const saveCalc = async (
       ...calculatorEntity,
       title: body.title || calculatorEntity.title,
       updatedAt: nowIso,
-      currentVersionId: versionId,
+      // Quarantined versions never replace a working current version.
+      currentVersionId:
+        statusFields.status === "quarantined" ? calculatorEntity.currentVersionId : versionId,
     };
   }
 
@@ -1046,14 +1758,19 @@ const saveCalc = async (
     calcId: String(calcId),
     versionId: String(versionId),
     createdAt: String(nowIso),
-    status: String("ok") as CalculatorVersionEntity["status"],
     promptLen,
     manifestBlobPath: String(blobPath.manifest),
     artifactBlobPath: String(blobPath.artifact),
     artifactHash: String(artifactHash),
+    artifactHashScheme: ARTIFACT_HASH_SCHEME,
+    ...statusFields,
+    ...scanRecord,
+    ...buildVersionIndexFields(manifest),
     ...(promptValue ? { prompt: String(promptValue) } : {}),
+    ...(parentVersionId ? { parentVersionId } : {}),
   };
 
+  let etag = "";
   try {
     if (formSafety.containsForm) {
       logEvent({
@@ -1065,11 +1782,31 @@ const saveCalc = async (
         versionId,
       });
     }
-    await persistArtifactBlob(traceId, blobPath.artifact, artifactHtml);
-    await persistManifestBlob(traceId, blobPath.manifest, body.manifest);
-    await persistCalculatorVersionEntity(traceId, versionEntity);
-    await persistCalculatorEntity(traceId, calculatorEntity);
+    await persistVersionWithBlobs(traceId, versionEntity, async () => {
+      const blobBytes = await persistArtifactBlob(traceId, blobPath.artifact, artifactHtml);
+      return blobBytes + (await persistManifestBlob(traceId, blobPath.manifest, manifest));
+    });
+    etag = await persistCalculatorEntity(
+      traceId,
+      await withCalculatorIndex(traceId, calculatorEntity),
+      writeOptions
+    );
   } catch (error) {
+    if (isStorageConflict(error)) {
+      const head = await loadCalculatorEntity(traceId, userId, calcId);
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 409,
+        calcId,
+        versionId,
+      });
+      return versionConflictResponse(traceId, calcId, head, versionId);
+    }
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "error",
@@ -1102,8 +1839,13 @@ const saveCalc = async (
   return jsonResponse(traceId, 200, {
     calcId,
     versionId,
-    status: "ok",
+    status: statusFields.status,
     currentVersionId: calculatorEntity.currentVersionId,
+    etag,
+    artifactHash,
+    selfTest,
+    ...(statusFields.quarantineReason ? { quarantineReason: statusFields.quarantineReason } : {}),
+    ...(scanReport.ok ? {} : { scanFindings: scanReport.findings }),
   });
 };
 
@@ -1227,7 +1969,101 @@ const generateCalc = async (
       });
     }
 
-    const policy = await getPromptCalcPolicy();
+    const baseVersionIdInput = typeof body.baseVersionId === "string" ? body.baseVersionId.trim() : "";
+    const baseCalcIdInput = typeof body.baseCalcId === "string" ? body.baseCalcId.trim() : "";
+    if (baseVersionIdInput && !baseCalcIdInput) {
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 400,
+        ...buildLogFields,
+      });
+      return jsonResponse(traceId, 400, {
+        code: "BAD_REQUEST",
+        message: "baseCalcId is required when baseVersionId is provided.",
+        build: buildStamp,
+      });
+    }
+
+    // If-Match only applies when refining; a stale head is refused before any model call is made.
+    const ifMatch = baseCalcIdInput ? readIfMatch(req) : null;
+    let refinementBase: RefinementBase | null = null;
+    if (baseCalcIdInput) {
+      const baseCalcId = normalizeId(baseCalcIdInput);
+      let baseVersionId = baseVersionIdInput ? normalizeId(baseVersionIdInput) : "";
+      if (!baseVersionId || ifMatch) {
+        const baseCalculator = await loadCalculatorEntity(traceId, userId, baseCalcId);
+        if (ifMatch && baseCalculator?.etag !== ifMatch) {
+          const durationMs = Date.now() - startedAt;
+          logEvent({
+            level: "warn",
+            op,
+            traceId,
+            event: "request.end",
+            durationMs,
+            status: 409,
+            calcId: baseCalcId,
+            ...buildLogFields,
+          });
+          return versionConflictResponse(traceId, baseCalcId, baseCalculator);
+        }
+        baseVersionId = baseVersionId || (baseCalculator?.currentVersionId ?? "");
+      }
+      try {
+        refinementBase = baseVersionId
+          ? await loadRefinementBase(traceId, userId, baseCalcId, baseVersionId)
+          : null;
+      } catch (error) {
+        logEvent({
+          level: "error",
+          op,
+          traceId,
+          event: "refinement.base.load_failed",
+          calcId: baseCalcId,
+          versionId: baseVersionId,
+          message: error instanceof Error ? error.message : "unknown error",
+        });
+        const durationMs = Date.now() - startedAt;
+        logEvent({
+          level: "error",
+          op,
+          traceId,
+          event: "request.end",
+          durationMs,
+          status: 500,
+        });
+        return error instanceof ArtifactIntegrityError
+          ? integrityErrorResponse(traceId)
+          : storageErrorResponse(traceId);
+      }
+      if (!refinementBase) {
+        const durationMs = Date.now() - startedAt;
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "request.end",
+          durationMs,
+          status: 404,
+          calcId: baseCalcId,
+          versionId: baseVersionId,
+        });
+        return jsonResponse(traceId, 404, {
+          code: "NOT_FOUND",
+          message: "Base calculator version not found.",
+          traceId,
+          build: buildStamp,
+        });
+      }
+    }
+    const parentVersionId = refinementBase?.versionId;
+
+    const effectivePolicy = await getEffectivePromptCalcPolicy();
+    const policy = effectivePolicy.policy;
     const openAIConfig = {
       apiKey: config.apiKey,
       baseUrl: config.baseUrl,
@@ -1574,67 +2410,376 @@ const generateCalc = async (
       }
     }
 
-  const expectedExecutionModel = selectExecutionModelFromPrompt(prompt);
-  if (!effectiveProfile.strictInstructions) {
-    skippedByProfile.add("strictInstructions");
-  }
-  const strictInstructionLines = effectiveProfile.strictInstructions
-    ? [
-        "Never use eval, Function, new Function, setTimeout(string), setInterval(string), or dynamic script injection.",
-          ]
-    : [
-        "Prefer conservative offline HTML/JS with no dynamic code execution.",
-      ];
-  const generationSystem = [
-    "Return JSON only. No markdown. No prose.",
-    "You generate a single-file offline calculator HTML artifact for PromptCalc.",
-    ...strictInstructionLines,
-    "Do not generate any <script src=...>, <link ...>, @import, or url(...).",
-    "All logic must be implemented with ordinary named functions and event listeners (e.g., addEventListener).",
-    "No network access. No connect-src usage beyond 'none'.",
-    "Do NOT use <form> tags for v1 calculators.",
-    "Use <div> layout with labeled inputs instead of forms.",
-    "Any action button MUST be <button type=\"button\">.",
-    "Attach click handlers via addEventListener after DOMContentLoaded.",
-    "Do not rely on submit/default form behavior.",
-    "Execution model selection rules:",
-    getExecutionModelRuleText(),
-    `For this prompt, set executionModel=\"${expectedExecutionModel}\".`,
-    "Execution model semantics:",
-    "- form: typed inputs + explicit arithmetic, no expression parsing.",
-    "- expression: expression input/keypad with safe evaluator only.",
-    "Safe evaluator snippet for expression mode (use verbatim or adapted, no eval/Function):",
-    SAFE_EXPRESSION_EVALUATOR_SNIPPET,
-    "If you need to compute expressions, use the safe evaluator snippet only.",
-    "For CNC/mortgage/beam domain calculators, always use executionModel=\"form\".",
-    "Rules:",
-    "- Output must be a single HTML file and a manifest JSON object.",
-    "- Output MUST be a single JSON object with no markdown, code fences, or commentary.",
-    "- Return JSON only. No markdown. No prose.",
-    "- If you cannot comply, output exactly: {\"error\":\"REFUSE\"}.",
-    "- Include this exact CSP meta tag line verbatim:",
-    "  <meta http-equiv=\"Content-Security-Policy\" content=\"default-src 'none'; connect-src 'none'; img-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'; object-src 'none'\">",
-    "- Do not add trailing punctuation or extra characters to the CSP content string.",
-    "- No external scripts, links, fonts, images, iframes, or network requests.",
-    "- No popups or navigation changes.",
-    "- Include this banner text in the body: \"Generated calculator (offline). Do not enter passwords.\"",
-    "- Embed the manifest JSON in the HTML inside:",
-    "  <script type=\"application/json\" id=\"promptcalc-manifest\">...</script>.",
-    "- Include a readiness bootstrap script with id=\"promptcalc-ready\" that posts",
-    "  window.parent.postMessage({type:\"ready\"}, \"*\") after DOMContentLoaded.",
-    "  It should also respond to {type:\"ping\"} with {type:\"pong\"}.",
-    "- The manifest capabilities.network, capabilities.storage, and capabilities.dynamicCode must all be false.",
+    if (body.renderMode === "spec") {
+      const specSystem = getCalculatorSpecInstructionLines().join("\n");
+      const specUser = [
+        ...(refinementBase ? buildSpecRefinementLines(refinementBase) : []),
+        "Prompt:",
+        prompt,
+      ].join("\n");
+      systemInstructionsForDump = specSystem;
+      const specRequestPayload: OpenAIRequest = {
+        input: [
+          { role: "system", content: [{ type: "input_text", text: specSystem }] },
+          { role: "user", content: [{ type: "input_text", text: specUser }] },
+        ],
+        max_output_tokens: openAIConfig.maxTokens,
+        text: {
+          format: buildJsonSchemaResponseFormat("CalculatorSpec", calculatorSpecSchema, effectiveProfile.schemaEnforcement),
+        },
+      };
+      lastGenRequest = specRequestPayload;
+      await dumpArtifacts({ stage: "generate", genRequest: specRequestPayload });
+
+      let specResult: unknown;
+      try {
+        const specResponse = await callOpenAIResponses<Record<string, unknown>>(
+          traceId,
+          openAIConfig,
+          specRequestPayload,
+          "openai.spec.generate",
+          {
+            maxAttempts: 2,
+            devLogOutputExtraction: isDevUser,
+            jsonResultValidator: isCalculatorSpecCandidate,
+          }
+        );
+        specResult = specResponse.parsed;
+        lastGenResponseRaw = specResponse.raw;
+        await dumpArtifacts({ stage: "generate", genResponseRaw: specResponse.raw });
+      } catch (error) {
+        await dumpArtifacts({
+          stage: "error",
+          genRequest: lastGenRequest,
+          genResponseRaw: lastGenResponseRaw,
+          error: error instanceof OpenAIRequestAbortedError
+            ? buildOpenAIAbortDumpError(error)
+            : {
+                message: error instanceof Error ? error.message : "unknown error",
+                stack: error instanceof Error ? error.stack : undefined,
+                type: error instanceof Error ? error.name : typeof error,
+              },
+        });
+        const debug = { effectiveProfile, profileId: effectiveProfileHash, skippedByProfile: [...skippedByProfile] };
+        if (error instanceof OpenAIBadRequestError) {
+          return buildOpenAIBadRequestResponse(traceId, 502, buildStamp, dumpPaths, dumpDir, debug);
+        }
+        if (error instanceof OpenAIRequestAbortedError) {
+          return buildOpenAIRequestAbortedResponse(traceId, 504, buildStamp, dumpPaths, dumpDir, debug);
+        }
+        if (error instanceof OpenAIParseError) {
+          logEvent({
+            level: "warn",
+            op,
+            traceId,
+            event: "spec.generate.parse_failed",
+            message: error.message,
+          });
+          return buildOpenAIParseFailedResponse(traceId, buildStamp, dumpPaths, dumpDir, debug);
+        }
+        logEvent({
+          level: "error",
+          op,
+          traceId,
+          event: "spec.generate.failed",
+          message: error instanceof Error ? error.message : "unknown error",
+          ...buildLogFields,
+        });
+        return buildRefusalResponse(
+          traceId,
+          502,
+          buildRefusalReason(
+            "OPENAI_ERROR",
+            "Calculator spec generation failed.",
+            "Try a simpler offline calculator prompt."
+          ),
+          buildStamp,
+          dumpPaths,
+          debug,
+          dumpDir
+        );
+      }
+
+      if (
+        specResult &&
+        typeof specResult === "object" &&
+        (specResult as { error?: unknown }).error === "REFUSE"
+      ) {
+        return buildRefusalResponse(
+          traceId,
+          200,
+          buildRefusalReason(
+            "MODEL_REFUSED",
+            `Calculator spec generation refused. traceId=${traceId}`,
+            "Describe the calculator as numeric inputs and formulas, or use HTML artifact mode."
+          ),
+          buildStamp,
+          dumpPaths,
+          { effectiveProfile, profileId: effectiveProfileHash, skippedByProfile: [...skippedByProfile] },
+          dumpDir
+        );
+      }
+
+      const specValidation = validateCalculatorSpec(specResult);
+      lastParsedGenerationJson = specResult;
+      lastValidationErrors = specValidation.errors;
+      if (!specValidation.spec) {
+        await dumpArtifacts({
+          stage: "error",
+          genRequest: lastGenRequest,
+          genResponseRaw: lastGenResponseRaw,
+          validation: {
+            validator: "calculator_spec",
+            failed: "schema",
+            errors: specValidation.errors,
+            parsedJson: specResult,
+          },
+          error: {
+            message: "Calculator spec failed validation.",
+            type: "SCHEMA_VALIDATION_FAILED",
+            code: "SCHEMA_VALIDATION_FAILED",
+          },
+        });
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "spec.generate.invalid_spec",
+          errorCount: specValidation.errors.length,
+          firstError: specValidation.errors[0]?.code,
+        });
+        const summary = specValidation.errors
+          .map((entry) => `${entry.code}${entry.path ? `@${entry.path}` : ""}`)
+          .join(", ");
+        return buildSchemaValidationFailedResponse(
+          traceId,
+          buildStamp,
+          dumpPaths,
+          dumpDir,
+          summary,
+          redTeamEnabled,
+          { effectiveProfile, profileId: effectiveProfileHash, skippedByProfile: [...skippedByProfile] }
+        );
+      }
+
+      const spec = specValidation.spec;
+      const specJson = JSON.stringify(spec);
+      const specBytes = Buffer.byteLength(specJson, "utf8");
+      if (specBytes > config.maxArtifactBytes) {
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "spec.tooLarge",
+          specBytes,
+          maxArtifactBytes: config.maxArtifactBytes,
+        });
+        return buildRefusalResponse(
+          traceId,
+          200,
+          buildRefusalReason(
+            "TOO_LARGE_ARTIFACT",
+            "Generated calculator spec exceeds size limits.",
+            "Request a smaller, simpler calculator."
+          ),
+          buildStamp,
+          dumpPaths,
+          { effectiveProfile, profileId: effectiveProfileHash, skippedByProfile: [...skippedByProfile] },
+          dumpDir
+        );
+      }
+
+      const specHash = computeSha256(specJson);
+      const specManifest = buildManifestFromSpec(spec, specHash);
+      const calcId = refinementBase?.calcId ?? normalizeId(randomUUID());
+      const versionId = normalizeId(randomUUID());
+      const nowIso = new Date().toISOString();
+      const blobPath = getBlobPath(userId, calcId, versionId);
+
+      const existingCalculator = await loadCalculatorEntity(traceId, userId, calcId);
+      const writeOptions: CalculatorWriteOptions = { ifMatch: ifMatch ?? existingCalculator?.etag };
+      const calculatorEntity: CalculatorEntity = existingCalculator
+        ? {
+            ...existingCalculator,
+            title: (!existingCalculator.titleEdited && spec.title) || existingCalculator.title,
+            updatedAt: nowIso,
+            currentVersionId: versionId,
+          }
+        : {
+            partitionKey: buildCalcPartition(userId),
+            rowKey: buildCalcRow(calcId),
+            entityType: "Calculator",
+            calcId: normalizeId(calcId),
+            userId: normalizeId(userId),
+            title: spec.title || "Untitled",
+            createdAt: nowIso,
+            updatedAt: nowIso,
+            currentVersionId: versionId,
+          };
+
+      const versionEntity: CalculatorVersionEntity = {
+        partitionKey: String(buildVersionPartition(userId, calcId)),
+        rowKey: String(buildVersionRow(versionId)),
+        entityType: "CalculatorVersion",
+        userId: String(userId),
+        calcId: String(calcId),
+        versionId: String(versionId),
+        createdAt: String(nowIso),
+        status: "ok",
+        renderMode: "spec",
+        ...buildVersionIndexFields(specManifest),
+        promptLen: prompt.length,
+        prompt,
+        ...(parentVersionId ? { parentVersionId } : {}),
+        manifestBlobPath: String(blobPath.manifest),
+        artifactBlobPath: "",
+        specBlobPath: String(blobPath.spec),
+        artifactHash: String(specHash),
+        // Spec versions have no HTML to scan; the policy is still recorded.
+        ...buildVersionScanRecord({ policy: effectivePolicy, report: null, scannedAt: nowIso }),
+      };
+
+      let etag = "";
+      try {
+        await persistVersionWithBlobs(traceId, versionEntity, async () => {
+          const blobBytes = await persistSpecBlob(traceId, blobPath.spec, spec);
+          return blobBytes + (await persistManifestBlob(traceId, blobPath.manifest, specManifest));
+        });
+        etag = await persistCalculatorEntity(
+          traceId,
+          await withCalculatorIndex(traceId, calculatorEntity),
+          writeOptions
+        );
+      } catch (error) {
+        if (isStorageConflict(error)) {
+          const head = await loadCalculatorEntity(traceId, userId, calcId);
+          const durationMs = Date.now() - startedAt;
+          logEvent({
+            level: "warn",
+            op,
+            traceId,
+            event: "request.end",
+            durationMs,
+            status: 409,
+            calcId,
+            versionId,
+          });
+          return versionConflictResponse(traceId, calcId, head, versionId);
+        }
+        const durationMs = Date.now() - startedAt;
+        logEvent({
+          level: "error",
+          op,
+          traceId,
+          event: "request.end",
+          durationMs,
+          status: 500,
+        });
+        return storageErrorResponse(traceId);
+      }
+
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "info",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 200,
+        renderMode: "spec",
+        specBytes,
+        calcId,
+        versionId,
+        scan_policy_mode: scanPolicyMode,
+        scan_outcome: scanOutcome,
+        override_armed: redTeamEnabled,
+        override_used: overrideUsed,
+      });
+      context.log(`Generated calculator spec ${calcId} version ${versionId}.`);
+
+      return jsonResponse(traceId, 200, {
+        ...buildGenerateSpecOkResponse(calcId, versionId, specManifest, spec, scanOutcome, overrideUsed),
+        ...(parentVersionId ? { parentVersionId } : {}),
+        etag,
+        traceId,
+        build: buildStamp,
+        dumpDir,
+        dumpPaths,
+        effectiveProfile,
+        profileId: effectiveProfileHash,
+        skippedByProfile: [...skippedByProfile],
+      });
+    }
+
+  const expectedExecutionModel = selectExecutionModelFromPrompt(
+    [...(refinementBase?.promptHistory ?? []), prompt].join("\n")
+  );
+  if (!effectiveProfile.strictInstructions) {
+    skippedByProfile.add("strictInstructions");
+  }
+  const strictInstructionLines = effectiveProfile.strictInstructions
+    ? [
+        "Never use eval, Function, new Function, setTimeout(string), setInterval(string), or dynamic script injection.",
+          ]
+    : [
+        "Prefer conservative offline HTML/JS with no dynamic code execution.",
+      ];
+  const generationSystem = [
+    "Return JSON only. No markdown. No prose.",
+    "You generate a single-file offline calculator HTML artifact for PromptCalc.",
+    ...strictInstructionLines,
+    "Do not generate any <script src=...>, <link ...>, @import, or url(...).",
+    "All logic must be implemented with ordinary named functions and event listeners (e.g., addEventListener).",
+    "No network access. No connect-src usage beyond 'none'.",
+    "Do NOT use <form> tags for v1 calculators.",
+    "Use <div> layout with labeled inputs instead of forms.",
+    "Any action button MUST be <button type=\"button\">.",
+    "Attach click handlers via addEventListener after DOMContentLoaded.",
+    "Do not rely on submit/default form behavior.",
+    "Execution model selection rules:",
+    getExecutionModelRuleText(),
+    `For this prompt, set executionModel=\"${expectedExecutionModel}\".`,
+    "Execution model semantics:",
+    "- form: typed inputs + explicit arithmetic, no expression parsing.",
+    "- expression: expression input/keypad with safe evaluator only.",
+    "Safe evaluator snippet for expression mode (use verbatim or adapted, no eval/Function):",
+    SAFE_EXPRESSION_EVALUATOR_SNIPPET,
+    "If you need to compute expressions, use the safe evaluator snippet only.",
+    "For CNC/mortgage/beam domain calculators, always use executionModel=\"form\".",
+    "Rules:",
+    "- Output must be a single HTML file and a manifest JSON object.",
+    "- Output MUST be a single JSON object with no markdown, code fences, or commentary.",
+    "- Return JSON only. No markdown. No prose.",
+    "- If you cannot comply, output exactly: {\"error\":\"REFUSE\"}.",
+    "- Include this exact CSP meta tag line verbatim:",
+    "  <meta http-equiv=\"Content-Security-Policy\" content=\"default-src 'none'; connect-src 'none'; img-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'; object-src 'none'\">",
+    "- Do not add trailing punctuation or extra characters to the CSP content string.",
+    "- No external scripts, links, fonts, images, iframes, or network requests.",
+    "- No popups or navigation changes.",
+    "- Include this banner text in the body: \"Generated calculator (offline). Do not enter passwords.\"",
+    "- Embed the manifest JSON in the HTML inside:",
+    "  <script type=\"application/json\" id=\"promptcalc-manifest\">...</script>.",
+    "- Include a readiness bootstrap script with id=\"promptcalc-ready\" that posts",
+    "  window.parent.postMessage({type:\"ready\"}, \"*\") after DOMContentLoaded.",
+    "  It should also respond to {type:\"ping\"} with {type:\"pong\"}, and do nothing when window.parent === window.",
+    "- The manifest capabilities.network, capabilities.storage, and capabilities.dynamicCode must all be false.",
+    `- Set manifest.specVersion to "${MANIFEST_SPEC_VERSION}". manifest.inputs lists every input as {id, label, type, unit, min, max, step, default}`,
+    "  where id is the input element id and type is number, text, select, or checkbox; use null for unused optional fields.",
+    "- manifest.outputs lists every result as {id, label, unit, precision} where id is the element showing the value.",
+    "- manifest.testVectors: 1-3 self-test cases. Each sets input element ids to values, optionally clicks the",
+    "  action button id (null when outputs update on input), and lists expected numeric outputs by element id",
+    "  with an absolute tolerance (null for 0.01). Versions whose vectors fail are quarantined.",
     "- Do not refuse; classifier already handled refusals.",
     "Return JSON that exactly matches the schema. All fields required by the manifest schema must be present.",
     "JSON schema example:",
-    "{\"artifactHtml\":\"<!doctype html>...\",\"manifest\":{\"specVersion\":\"1.1\",\"title\":\"...\",\"executionModel\":\"form\",\"capabilities\":{\"network\":false,\"storage\":false,\"dynamicCode\":false}}}",
+    `{\"artifactHtml\":\"<!doctype html>...\",\"manifest\":{\"specVersion\":\"${MANIFEST_SPEC_VERSION}\",\"title\":\"...\",\"description\":\"...\",\"executionModel\":\"form\",\"capabilities\":{\"network\":false,\"storage\":false,\"dynamicCode\":false},\"inputs\":[{\"id\":\"amount\",\"label\":\"Amount\",\"type\":\"number\",\"unit\":\"USD\",\"min\":0,\"max\":null,\"step\":0.01,\"default\":null}],\"outputs\":[{\"id\":\"total\",\"label\":\"Total\",\"unit\":\"USD\",\"precision\":2}],\"limitations\":[],\"safetyNotes\":[],\"testVectors\":[{\"name\":\"...\",\"inputs\":[{\"id\":\"...\",\"value\":1}],\"action\":\"...\",\"expected\":[{\"id\":\"...\",\"value\":2,\"tolerance\":null}]}]}}`,
   ].join("\\n");
 
-  const retryNotice =
-    'Your previous output included the banned token "Function(" (Function constructor). Regenerate without it. Use only normal functions and explicit arithmetic; no eval/new Function/Function.';
+  const refinementLines = refinementBase ? buildArtifactRefinementLines(refinementBase) : [];
 
   const buildGenerationUser = (promptText: string, retryLine?: string): string => {
     const lines = [
+      ...refinementLines,
       "Prompt:",
       promptText,
       "",
@@ -1649,6 +2794,7 @@ const generateCalc = async (
   const buildRepairUser = (promptText: string, retryLine?: string): string => {
     const lines = [
       "You returned invalid JSON. Return ONLY valid JSON for this schema. No extra text.",
+      ...refinementLines,
       "Prompt:",
       promptText,
     ];
@@ -1661,8 +2807,6 @@ const generateCalc = async (
   systemInstructionsForDump = generationSystem;
   const generationUser = buildGenerationUser(prompt);
   const repairUser = buildRepairUser(prompt);
-  const retryUser = buildGenerationUser(prompt, retryNotice);
-  const retryRepairUser = buildRepairUser(prompt, retryNotice);
 
   const runArtifactGeneration = async (
     userText: string,
@@ -1914,7 +3058,7 @@ const generateCalc = async (
 
   const generationAttempts = [
     { userText: generationUser, repairText: repairUser, opName: "openai.artifact.generate" },
-    { userText: retryUser, repairText: retryRepairUser, opName: "openai.artifact.generate.retry" },
+    { userText: generationUser, repairText: repairUser, opName: "openai.artifact.generate.retry" },
   ];
 
   let finalManifest: Record<string, unknown> | null = null;
@@ -1922,6 +3066,8 @@ const generateCalc = async (
   let finalArtifactBytes = 0;
   let artifactBytes = 0;
   let formSafetyResult: { html: string; containsForm: boolean } | null = null;
+  let finalScanReport: ScanReport | null = null;
+  let aiScanDecision: AiScanDecision = "allow";
 
   for (let attempt = 0; attempt < generationAttempts.length; attempt += 1) {
     const { userText, repairText, opName } = generationAttempts[attempt];
@@ -2020,14 +3166,15 @@ const generateCalc = async (
       );
     }
 
-    const manifestIssue = getManifestValidationIssue(parsedResult.manifest);
+    const generatedManifest = normalizeGeneratedManifest(parsedResult.manifest);
+    const manifestErrors = validateManifest(generatedManifest, { requireHash: false });
+    const manifestIssue = manifestErrors[0]?.code;
     if (manifestIssue) {
-      lastValidationErrors = [{
-        kind: "schema_error",
-        code: manifestIssue,
-        path: "$.manifest",
-        message: `Manifest validation failed: ${manifestIssue}`,
-      }];
+      // Re-root manifest paths under the generation payload ($.title -> $.manifest.title).
+      lastValidationErrors = manifestErrors.map((error) => ({
+        ...error,
+        path: `$.manifest${error.path.slice(1)}`,
+      }));
       await dumpArtifacts({
         stage: "error",
         genRequest: lastGenRequest,
@@ -2064,7 +3211,7 @@ const generateCalc = async (
     }
 
     const baseManifest = {
-      ...parsedResult.manifest,
+      ...generatedManifest,
       capabilities: { network: false, storage: false, dynamicCode: false },
       hash: "",
     } as Record<string, unknown>;
@@ -2089,7 +3236,7 @@ const generateCalc = async (
       });
     }
     const placeholderHtml = embedManifestInHtml(normalizedHtml, baseManifest);
-    const manifestHash = computeSha256(placeholderHtml);
+    const manifestHash = computeArtifactHash(placeholderHtml);
     finalManifest = { ...baseManifest, hash: manifestHash } as Record<string, unknown>;
     finalHtml = embedManifestInHtml(normalizedHtml, finalManifest);
 
@@ -2149,15 +3296,21 @@ const generateCalc = async (
       skippedByProfile.add("htmlValidation");
     } else {
       try {
-        const scanResult = scanArtifactHtml(finalHtml, policy);
-        if (!scanResult.ok) {
+        const scanReport = scanArtifactHtmlAll(finalHtml, policy);
+        finalScanReport = scanReport;
+        if (!scanReport.ok) {
+        const findings = scanReport.findings;
+        const first = findings.find((finding) => finding.severity === "block") ?? findings[0];
         const reason = buildRefusalReason(
-          scanResult.code,
-          scanResult.message,
+          first.code,
+          first.message,
           "Use a simple offline calculator without external data or scripts.",
           {
-            matchIndex: scanResult.matchIndex,
-            contextSnippet: scanResult.contextSnippet,
+            matchIndex: first.matchIndex,
+            line: first.line,
+            column: first.column,
+            contextSnippet: first.contextSnippet,
+            details: findings,
           }
         );
         logEvent({
@@ -2165,16 +3318,24 @@ const generateCalc = async (
           op,
           traceId,
           event: "artifact.scan.failed",
-          ruleId: scanResult.ruleId,
-          code: scanResult.code,
-          matchIndex: scanResult.matchIndex,
-          contextSnippet: scanResult.contextSnippet,
+          ruleId: first.ruleId,
+          code: first.code,
+          matchIndex: first.matchIndex,
+          line: first.line,
+          column: first.column,
+          contextSnippet: first.contextSnippet,
+          findingCount: findings.length,
+          findings: findings.map(formatScanFinding),
+          attempt,
         });
-        const shouldRetry =
-          attempt === 0 &&
-          scanResult.code === "DISALLOWED_PATTERN" &&
-          scanResult.ruleId?.includes("Function(");
-        if (shouldRetry) {
+        if (attempt + 1 < generationAttempts.length) {
+          // One repair attempt that lists every violation, instead of fixing them one per round trip.
+          const retryNotice = buildScanRetryNotice(findings);
+          generationAttempts[attempt + 1] = {
+            ...generationAttempts[attempt + 1],
+            userText: buildGenerationUser(prompt, retryNotice),
+            repairText: buildRepairUser(prompt, retryNotice),
+          };
           continue;
         }
         return buildRefusalResponse(
@@ -2251,6 +3412,7 @@ const generateCalc = async (
 
   if (!effectiveProfile.htmlValidation) {
     skippedByProfile.add("aiScan");
+    aiScanDecision = "skipped";
   } else {
     try {
     const codeScanSystem = [
@@ -2424,6 +3586,7 @@ const generateCalc = async (
       event: "artifact.aiScan.error",
       message: error instanceof Error ? error.message : "unknown error",
     });
+    aiScanDecision = "error";
     if (config.aiScanFailClosed) {
       const reason = buildRefusalReason(
         "AI_SCAN_FAILED",
@@ -2450,7 +3613,7 @@ const generateCalc = async (
       html: finalHtml,
     });
 
-    if (!isValidManifest(finalManifest)) {
+    if (validateManifest(finalManifest).length > 0) {
       const reason = buildRefusalReason(
         "OPENAI_ERROR",
         "Generated manifest is missing required fields.",
@@ -2467,14 +3630,17 @@ const generateCalc = async (
       );
     }
 
-    const calcId = normalizeId(body.baseCalcId || randomUUID());
+    const calcId = refinementBase?.calcId ?? normalizeId(randomUUID());
     const versionId = normalizeId(randomUUID());
     const nowIso = new Date().toISOString();
-    const artifactHash = computeSha256(finalHtml);
+    const artifactHash = String(finalManifest.hash);
     const promptLen = prompt.length;
     const blobPath = getBlobPath(userId, calcId, versionId);
+    const selfTest = runVersionSelfTest(traceId, op, finalHtml, finalManifest);
+    const selfTestFields = buildSelfTestEntityFields(selfTest);
 
     let calculatorEntity = await loadCalculatorEntity(traceId, userId, calcId);
+    const writeOptions: CalculatorWriteOptions = { ifMatch: ifMatch ?? calculatorEntity?.etag };
     if (!calculatorEntity) {
       calculatorEntity = {
         partitionKey: buildCalcPartition(userId),
@@ -2490,9 +3656,12 @@ const generateCalc = async (
     } else {
       calculatorEntity = {
         ...calculatorEntity,
-        title: (finalManifest.title as string) || calculatorEntity.title,
+        // A title the owner renamed outlives the model's title for later refinements.
+        title: (!calculatorEntity.titleEdited && (finalManifest.title as string)) || calculatorEntity.title,
         updatedAt: nowIso,
-        currentVersionId: versionId,
+        // Quarantined versions never replace a working current version.
+        currentVersionId:
+          selfTestFields.status === "quarantined" ? calculatorEntity.currentVersionId : versionId,
       };
     }
 
@@ -2504,14 +3673,24 @@ const generateCalc = async (
       calcId: String(calcId),
       versionId: String(versionId),
       createdAt: String(nowIso),
-      status: String("ok") as CalculatorVersionEntity["status"],
       promptLen,
       prompt,
       manifestBlobPath: String(blobPath.manifest),
       artifactBlobPath: String(blobPath.artifact),
       artifactHash: String(artifactHash),
+      artifactHashScheme: ARTIFACT_HASH_SCHEME,
+      ...selfTestFields,
+      ...buildVersionIndexFields(finalManifest),
+      ...buildVersionScanRecord({
+        policy: effectivePolicy,
+        report: finalScanReport,
+        scannedAt: nowIso,
+        aiScan: { decision: aiScanDecision, ...(aiScanDecision !== "skipped" ? { model: config.model } : {}) },
+      }),
+      ...(parentVersionId ? { parentVersionId } : {}),
     };
 
+    let etag = "";
     try {
       if (formSafetyResult?.containsForm) {
         logEvent({
@@ -2523,11 +3702,31 @@ const generateCalc = async (
           versionId,
         });
       }
-      await persistArtifactBlob(traceId, blobPath.artifact, finalHtml);
-      await persistManifestBlob(traceId, blobPath.manifest, finalManifest);
-      await persistCalculatorVersionEntity(traceId, versionEntity);
-      await persistCalculatorEntity(traceId, calculatorEntity);
+      await persistVersionWithBlobs(traceId, versionEntity, async () => {
+        const blobBytes = await persistArtifactBlob(traceId, blobPath.artifact, finalHtml);
+        return blobBytes + (await persistManifestBlob(traceId, blobPath.manifest, finalManifest));
+      });
+      etag = await persistCalculatorEntity(
+        traceId,
+        await withCalculatorIndex(traceId, calculatorEntity),
+        writeOptions
+      );
     } catch (error) {
+      if (isStorageConflict(error)) {
+        const head = await loadCalculatorEntity(traceId, userId, calcId);
+        const durationMs = Date.now() - startedAt;
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "request.end",
+          durationMs,
+          status: 409,
+          calcId,
+          versionId,
+        });
+        return versionConflictResponse(traceId, calcId, head, versionId);
+      }
       const durationMs = Date.now() - startedAt;
       logEvent({
         level: "error",
@@ -2562,6 +3761,10 @@ const generateCalc = async (
 
     return jsonResponse(traceId, 200, {
       ...buildGenerateOkResponse(calcId, versionId, finalManifest, finalHtml, scanOutcome, overrideUsed),
+      ...(parentVersionId ? { parentVersionId } : {}),
+      etag,
+      versionStatus: selfTestFields.status,
+      selfTest,
       traceId,
       build: buildStamp,
       dumpDir,
@@ -2641,7 +3844,7 @@ const generateCalc = async (
   }
 };
 
-const listCalcs = async (
+export const listCalcs = async (
   req: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
@@ -2675,26 +3878,75 @@ const listCalcs = async (
     });
     return unauthorizedResponse(traceId);
   }
-  const partitionKey = buildCalcPartition(userId);
-  const tableClient = await getTableClient(traceId);
-  const items: CalculatorSummary[] = [];
 
+  let query: CalculatorQuery;
   try {
-    for await (const entity of tableClient.listEntities<CalculatorEntity>({
-      queryOptions: { filter: `PartitionKey eq '${partitionKey}'` },
-    })) {
-      if (entity.entityType !== "Calculator") {
-        continue;
-      }
+    query = parseCalculatorQuery(req.query);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: error instanceof Error ? error.message : "Invalid list query.",
+      traceId,
+    });
+  }
 
+  const items: CalculatorSummary[] = [];
+  let continuationToken: string | undefined;
+  let truncated = false;
+  let usage: StorageUsage | undefined;
+  try {
+    const page = await getCalcRepository().queryCalculators(userId, query);
+    continuationToken = page.continuationToken;
+    truncated = page.truncated === true;
+    // Usage covers every calculator (trash included), so it is sent once with the first page.
+    if (!query.continuationToken) {
+      usage = summarizeStorageUsage(await getCalcRepository().listCalculators(userId));
+    }
+    for (const entity of page.items) {
       items.push({
         calcId: entity.calcId,
         title: entity.title,
+        createdAt: entity.createdAt,
         updatedAt: entity.updatedAt,
         currentVersionId: entity.currentVersionId,
+        etag: entity.etag ?? "",
+        ...(entity.description !== undefined ? { description: entity.description } : {}),
+        ...(entity.executionModel !== undefined ? { executionModel: entity.executionModel } : {}),
+        ...(entity.versionCount !== undefined ? { versionCount: entity.versionCount } : {}),
+        ...(entity.lastVersionStatus !== undefined ? { lastVersionStatus: entity.lastVersionStatus } : {}),
+        tags: parseCalculatorTags(entity),
+        ...(entity.folder ? { folder: entity.folder } : {}),
+        favorite: entity.favorite === true,
+        ...(entity.storageBytes !== undefined ? { storageBytes: entity.storageBytes } : {}),
       });
     }
   } catch (error) {
+    // Repositories decode the token again; keep that failure a 400 like the parse above.
+    if (error instanceof InvalidCalculatorQueryError) {
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 400,
+      });
+      return jsonResponse(traceId, 400, {
+        code: "INVALID_REQUEST",
+        message: error.message,
+        traceId,
+      });
+    }
     logTableError(traceId, error, "calculator.list.failed", op);
     const durationMs = Date.now() - startedAt;
     logEvent({
@@ -2708,8 +3960,6 @@ const listCalcs = async (
     return storageErrorResponse(traceId);
   }
 
-  items.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
-
   const durationMs = Date.now() - startedAt;
   logEvent({
     level: "info",
@@ -2719,21 +3969,33 @@ const listCalcs = async (
     durationMs,
     status: 200,
     count: items.length,
+    sort: query.sort,
+    order: query.order,
+    filtered: Boolean(
+      query.search || query.executionModel || query.tag || query.folder || query.favorite !== undefined
+    ),
+    hasMore: Boolean(continuationToken),
+    ...(truncated ? { truncated } : {}),
   });
 
   context.log(`Listed ${items.length} calculators.`);
 
-  return jsonResponse(traceId, 200, items);
+  return jsonResponse(traceId, 200, {
+    items,
+    ...(continuationToken ? { continuationToken } : {}),
+    ...(truncated ? { truncated } : {}),
+    ...(usage ? { usage } : {}),
+    traceId,
+  });
 };
 
-const getCalc = async (
+export const getCalcFacets = async (
   req: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
   const traceId = getTraceId(req.headers.get("traceparent"));
   const startedAt = Date.now();
-  const op = "calcs.get";
-  const calcId = req.params.calcId as string;
+  const op = "calcs.facets";
   const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
   const isDevUser = identityProvider === "dev";
   const userId = normalizeId(requestUserId);
@@ -2744,8 +4006,7 @@ const getCalc = async (
     traceId,
     event: "request.start",
     method: req.method,
-    route: "/api/calcs/{calcId}",
-    calcId,
+    route: "/api/calcs/facets",
     userId,
     isAuthenticated,
     identityProvider,
@@ -2759,60 +4020,17 @@ const getCalc = async (
       event: "request.end",
       durationMs,
       status: 401,
-      calcId,
     });
     return unauthorizedResponse(traceId);
   }
-  const tableClient = await getTableClient(traceId);
-  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
-  if (!calculator) {
-    const durationMs = Date.now() - startedAt;
-    logEvent({
-      level: "warn",
-      op,
-      traceId,
-      event: "request.end",
-      durationMs,
-      status: 404,
-      calcId,
-    });
-    return jsonResponse(traceId, 404, {
-      code: "NOT_FOUND",
-      message: "Calculator not found.",
-    });
-  }
-  if (calculator.userId !== userId) {
-    const durationMs = Date.now() - startedAt;
-    logEvent({
-      level: "warn",
-      op,
-      traceId,
-      event: "request.end",
-      durationMs,
-      status: 403,
-      calcId,
-    });
-    return forbiddenResponse(traceId);
-  }
 
-  const versions: CalculatorDetail["versions"] = [];
-  const partitionKey = buildVersionPartition(userId, calcId);
+  let calculators: CalculatorEntity[] = [];
   try {
-    for await (const entity of tableClient.listEntities<CalculatorVersionEntity>({
-      queryOptions: { filter: `PartitionKey eq '${partitionKey}'` },
-    })) {
-      if (entity.entityType !== "CalculatorVersion") {
-        continue;
-      }
-
-      versions.push({
-        versionId: entity.versionId,
-        createdAt: entity.createdAt,
-        status: entity.status,
-      });
-    }
+    calculators = (await getCalcRepository().listCalculators(userId)).filter(
+      (calculator) => !isTrashedCalculator(calculator)
+    );
   } catch (error) {
-    logTableError(traceId, error, "version.list.failed", op);
+    logTableError(traceId, error, "calculator.list.failed", op);
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "error",
@@ -2821,22 +4039,11 @@ const getCalc = async (
       event: "request.end",
       durationMs,
       status: 500,
-      calcId,
     });
     return storageErrorResponse(traceId);
   }
 
-  versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
-
-  const detail: CalculatorDetail = {
-    calcId: calculator.calcId,
-    title: calculator.title,
-    createdAt: calculator.createdAt,
-    updatedAt: calculator.updatedAt,
-    currentVersionId: calculator.currentVersionId,
-    versions,
-  };
-
+  const facets = buildCalculatorFacets(calculators);
   const durationMs = Date.now() - startedAt;
   logEvent({
     level: "info",
@@ -2845,24 +4052,27 @@ const getCalc = async (
     event: "request.end",
     durationMs,
     status: 200,
-    calcId,
-    versions: versions.length,
+    calculators: calculators.length,
+    folders: facets.folders.length,
+    tags: facets.tags.length,
   });
 
-  context.log(`Loaded calculator ${calcId}.`);
+  context.log(`Summarized folders and tags of ${calculators.length} calculators.`);
 
-  return jsonResponse(traceId, 200, detail as unknown as Record<string, unknown>);
+  return jsonResponse(traceId, 200, {
+    ...facets,
+    traceId,
+  });
 };
 
-const getVersion = async (
+export const getCalc = async (
   req: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
   const traceId = getTraceId(req.headers.get("traceparent"));
   const startedAt = Date.now();
-  const op = "calcs.version.get";
+  const op = "calcs.get";
   const calcId = req.params.calcId as string;
-  const versionId = req.params.versionId as string;
   const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
   const isDevUser = identityProvider === "dev";
   const userId = normalizeId(requestUserId);
@@ -2873,9 +4083,8 @@ const getVersion = async (
     traceId,
     event: "request.start",
     method: req.method,
-    route: "/api/calcs/{calcId}/versions/{versionId}",
+    route: "/api/calcs/{calcId}",
     calcId,
-    versionId,
     userId,
     isAuthenticated,
     identityProvider,
@@ -2890,38 +4099,11 @@ const getVersion = async (
       durationMs,
       status: 401,
       calcId,
-      versionId,
     });
     return unauthorizedResponse(traceId);
   }
-  const tableClient = await getTableClient(traceId);
-  let versionEntity: CalculatorVersionEntity | null = null;
-
-  try {
-    versionEntity = await tableClient.getEntity<CalculatorVersionEntity>(
-      buildVersionPartition(userId, calcId),
-      buildVersionRow(versionId)
-    );
-  } catch (error) {
-    const code = error && typeof error === "object" ? (error as { code?: string }).code : null;
-    if (code !== "ResourceNotFound") {
-      logTableError(traceId, error, "version.load.failed", op);
-      const durationMs = Date.now() - startedAt;
-      logEvent({
-        level: "error",
-        op,
-        traceId,
-        event: "request.end",
-        durationMs,
-        status: 500,
-        calcId,
-        versionId,
-      });
-      return storageErrorResponse(traceId);
-    }
-  }
-
-  if (!versionEntity) {
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -2931,14 +4113,13 @@ const getVersion = async (
       durationMs,
       status: 404,
       calcId,
-      versionId,
     });
     return jsonResponse(traceId, 404, {
       code: "NOT_FOUND",
-      message: "Calculator version not found.",
+      message: "Calculator not found.",
     });
   }
-  if (versionEntity.userId !== userId) {
+  if (calculator.userId !== userId) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -2948,21 +4129,60 @@ const getVersion = async (
       durationMs,
       status: 403,
       calcId,
-      versionId,
     });
     return forbiddenResponse(traceId);
   }
 
-  const containerClient = await getContainerClient(traceId);
-  const manifestBlob = containerClient.getBlockBlobClient(versionEntity.manifestBlobPath);
-  const artifactBlob = containerClient.getBlockBlobClient(versionEntity.artifactBlobPath);
+  const versions: CalculatorDetail["versions"] = [];
+  try {
+    for (const entity of await getCalcRepository().listVersions(userId, calcId)) {
+      if (isPendingVersion(entity)) {
+        continue;
+      }
+      versions.push({
+        versionId: entity.versionId,
+        createdAt: entity.createdAt,
+        status: entity.status,
+        ...(entity.parentVersionId ? { parentVersionId: entity.parentVersionId } : {}),
+        ...(entity.label ? { label: entity.label } : {}),
+        ...(entity.storedBytes !== undefined ? { storedBytes: entity.storedBytes } : {}),
+      });
+    }
+  } catch (error) {
+    logTableError(traceId, error, "version.list.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
 
-  const manifestPayload = await manifestBlob.downloadToBuffer();
-  const artifactPayload = await artifactBlob.downloadToBuffer();
+  versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
 
-  const manifest = JSON.parse(manifestPayload.toString("utf8")) as Record<string, unknown>;
-  const artifactHtml = artifactPayload.toString("utf8");
-  const artifactBytes = Buffer.byteLength(artifactHtml, "utf8");
+  const detail: CalculatorDetail = {
+    calcId: calculator.calcId,
+    title: calculator.title,
+    createdAt: calculator.createdAt,
+    updatedAt: calculator.updatedAt,
+    currentVersionId: calculator.currentVersionId,
+    etag: calculator.etag ?? "",
+    tags: parseCalculatorTags(calculator),
+    ...(calculator.folder ? { folder: calculator.folder } : {}),
+    favorite: calculator.favorite === true,
+    ...(calculator.description ? { description: calculator.description } : {}),
+    ...(calculator.notes ? { notes: calculator.notes } : {}),
+    ...(calculator.metadataUpdatedBy ? { metadataUpdatedBy: calculator.metadataUpdatedBy } : {}),
+    ...(calculator.metadataUpdatedAt ? { metadataUpdatedAt: calculator.metadataUpdatedAt } : {}),
+    retention: resolveVersionRetention(calculator, getGlobalVersionRetention()),
+    ...(calculator.storageBytes !== undefined ? { storageBytes: calculator.storageBytes } : {}),
+    versions,
+  };
 
   const durationMs = Date.now() - startedAt;
   logEvent({
@@ -2973,31 +4193,31 @@ const getVersion = async (
     durationMs,
     status: 200,
     calcId,
-    versionId,
-    artifactBytes,
-    artifactHash: versionEntity.artifactHash,
+    versions: versions.length,
   });
 
-  context.log(`Loaded calculator ${calcId} version ${versionId}.`);
+  context.log(`Loaded calculator ${calcId}.`);
 
-  return jsonResponse(traceId, 200, {
-    manifest,
-    artifactHtml,
-  });
+  const response = jsonResponse(traceId, 200, detail as unknown as Record<string, unknown>);
+  return detail.etag ? { ...response, headers: { ...response.headers, etag: detail.etag } } : response;
 };
 
-const promoteVersion = async (
+export const getVersion = async (
   req: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
   const traceId = getTraceId(req.headers.get("traceparent"));
   const startedAt = Date.now();
-  const op = "calcs.version.promote";
+  const op = "calcs.version.get";
   const calcId = req.params.calcId as string;
   const versionId = req.params.versionId as string;
   const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
   const isDevUser = identityProvider === "dev";
   const userId = normalizeId(requestUserId);
+  // Quarantined versions are only served to reviewers who ask for them; reviewers may read any owner's version.
+  const reviewRequested = ["1", "true"].includes(req.query.get("review") ?? "");
+  const ownerQuery = req.query.get("ownerId");
+  const ownerId = reviewRequested && ownerQuery ? normalizeId(ownerQuery) : userId;
 
   logEvent({
     level: "info",
@@ -3005,12 +4225,13 @@ const promoteVersion = async (
     traceId,
     event: "request.start",
     method: req.method,
-    route: "/api/calcs/{calcId}/versions/{versionId}/promote",
+    route: "/api/calcs/{calcId}/versions/{versionId}",
     calcId,
     versionId,
     userId,
     isAuthenticated,
     identityProvider,
+    ...(reviewRequested ? { review: true, ownerId } : {}),
   });
   if (!isAuthenticated && !isDevUser) {
     const durationMs = Date.now() - startedAt;
@@ -3026,8 +4247,45 @@ const promoteVersion = async (
     });
     return unauthorizedResponse(traceId);
   }
-  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
-  if (!calculator) {
+  if (reviewRequested && !isAdminUser(requestUserId)) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+      versionId,
+      review: true,
+    });
+    return forbiddenResponse(traceId);
+  }
+  let versionEntity: CalculatorVersionEntity | null = null;
+
+  try {
+    versionEntity = await getCalcRepository().getVersion(ownerId, calcId, versionId);
+    if (versionEntity && isPendingVersion(versionEntity)) {
+      versionEntity = null;
+    }
+  } catch (error) {
+    logTableError(traceId, error, "version.load.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  if (!versionEntity) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -3041,10 +4299,10 @@ const promoteVersion = async (
     });
     return jsonResponse(traceId, 404, {
       code: "NOT_FOUND",
-      message: "Calculator not found.",
+      message: "Calculator version not found.",
     });
   }
-  if (calculator.userId !== userId) {
+  if (versionEntity.userId !== ownerId) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -3058,34 +4316,7 @@ const promoteVersion = async (
     });
     return forbiddenResponse(traceId);
   }
-
-  const tableClient = await getTableClient(traceId);
-  let versionEntity: CalculatorVersionEntity | null = null;
-
-  try {
-    versionEntity = await tableClient.getEntity<CalculatorVersionEntity>(
-      buildVersionPartition(userId, calcId),
-      buildVersionRow(versionId)
-    );
-  } catch (error) {
-    const code = error && typeof error === "object" ? (error as { code?: string }).code : null;
-    if (code !== "ResourceNotFound") {
-      logTableError(traceId, error, "version.load.failed", op);
-      const durationMs = Date.now() - startedAt;
-      logEvent({
-        level: "error",
-        op,
-        traceId,
-        event: "request.end",
-        durationMs,
-        status: 500,
-        calcId,
-        versionId,
-      });
-      return storageErrorResponse(traceId);
-    }
-  }
-  if (!versionEntity) {
+  if (!reviewRequested && (await isCalculatorInTrash(traceId, ownerId, calcId))) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -3102,7 +4333,7 @@ const promoteVersion = async (
       message: "Calculator version not found.",
     });
   }
-  if (versionEntity.userId !== userId) {
+  if (versionEntity.status === "quarantined" && !reviewRequested) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -3110,23 +4341,35 @@ const promoteVersion = async (
       traceId,
       event: "request.end",
       durationMs,
-      status: 403,
+      status: 423,
       calcId,
       versionId,
+      quarantineReason: versionEntity.quarantineReason || undefined,
+    });
+    return jsonResponse(traceId, 423, {
+      code: "VERSION_QUARANTINED",
+      message: "This calculator version is quarantined pending review.",
+      ...(versionEntity.quarantineReason ? { quarantineReason: versionEntity.quarantineReason } : {}),
+      traceId,
     });
-    return forbiddenResponse(traceId);
   }
 
-  const nowIso = new Date().toISOString();
-  const updated: CalculatorEntity = {
-    ...calculator,
-    updatedAt: nowIso,
-    currentVersionId: versionId,
-  };
+  const artifactStore = getArtifactStore();
+  const renderMode: RenderMode = versionEntity.renderMode ?? "artifact";
+  const manifest = readManifest(
+    JSON.parse(await artifactStore.read(versionEntity.manifestBlobPath)) as Record<string, unknown>
+  );
 
-  try {
-    await persistCalculatorEntity(traceId, updated);
-  } catch (error) {
+  let artifactHtml = "";
+  let spec: CalculatorSpec | undefined;
+  if (renderMode === "spec" && versionEntity.specBlobPath) {
+    spec = JSON.parse(await artifactStore.read(versionEntity.specBlobPath)) as CalculatorSpec;
+  } else {
+    artifactHtml = await artifactStore.read(versionEntity.artifactBlobPath);
+  }
+  const integrity = verifyVersionIntegrity(versionEntity, manifest, artifactHtml, spec);
+  if (!integrity.ok) {
+    logIntegrityFailure(traceId, op, calcId, versionId, integrity);
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "error",
@@ -3137,9 +4380,11 @@ const promoteVersion = async (
       status: 500,
       calcId,
       versionId,
+      reason: integrity.reason,
     });
-    return storageErrorResponse(traceId);
+    return integrityErrorResponse(traceId);
   }
+  const artifactBytes = Buffer.byteLength(artifactHtml, "utf8");
 
   const durationMs = Date.now() - startedAt;
   logEvent({
@@ -3151,24 +4396,44 @@ const promoteVersion = async (
     status: 200,
     calcId,
     versionId,
+    renderMode,
+    artifactBytes,
+    artifactHash: versionEntity.artifactHash,
+    ...(reviewRequested ? { review: true } : {}),
   });
 
-  context.log(`Promoted calculator ${calcId} version ${versionId}.`);
+  context.log(`Loaded calculator ${calcId} version ${versionId}.`);
 
+  const scan = describeVersionScan(versionEntity);
   return jsonResponse(traceId, 200, {
-    calcId,
-    currentVersionId: versionId,
+    renderMode,
+    status: versionEntity.status,
+    ...(versionEntity.quarantineReason ? { quarantineReason: versionEntity.quarantineReason } : {}),
+    ...(scan ? { scan } : {}),
+    ...(reviewRequested ? { review: true } : {}),
+    ...(versionEntity.parentVersionId ? { parentVersionId: versionEntity.parentVersionId } : {}),
+    ...(versionEntity.label ? { label: versionEntity.label } : {}),
+    manifest,
+    artifactHtml,
+    artifactHash: versionEntity.artifactHash,
+    ...(versionEntity.artifactHashScheme
+      ? { artifactHashScheme: versionEntity.artifactHashScheme }
+      : {}),
+    ...(spec ? { spec } : {}),
   });
 };
 
-const deleteCalc = async (
+/** Compares two versions of one calculator; both must be committed, owned by the caller, and not quarantined. */
+export const diffVersions = async (
   req: HttpRequest,
   context: InvocationContext
 ): Promise<HttpResponseInit> => {
   const traceId = getTraceId(req.headers.get("traceparent"));
   const startedAt = Date.now();
-  const op = "calcs.delete";
+  const op = "calcs.diff";
   const calcId = req.params.calcId as string;
+  const fromVersionId = req.query.get("from")?.trim() ?? "";
+  const toVersionId = req.query.get("to")?.trim() ?? "";
   const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
   const isDevUser = identityProvider === "dev";
   const userId = normalizeId(requestUserId);
@@ -3179,8 +4444,10 @@ const deleteCalc = async (
     traceId,
     event: "request.start",
     method: req.method,
-    route: "/api/calcs/{calcId}",
+    route: "/api/calcs/{calcId}/diff",
     calcId,
+    fromVersionId,
+    toVersionId,
     userId,
     isAuthenticated,
     identityProvider,
@@ -3198,8 +4465,7 @@ const deleteCalc = async (
     });
     return unauthorizedResponse(traceId);
   }
-  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
-  if (!calculator) {
+  if (!fromVersionId || !toVersionId) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -3207,15 +4473,17 @@ const deleteCalc = async (
       traceId,
       event: "request.end",
       durationMs,
-      status: 404,
+      status: 400,
       calcId,
     });
-    return jsonResponse(traceId, 404, {
-      code: "NOT_FOUND",
-      message: "Calculator not found.",
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: "from and to version ids are required.",
+      traceId,
     });
   }
-  if (calculator.userId !== userId) {
+
+  if (await isCalculatorInTrash(traceId, userId, calcId)) {
     const durationMs = Date.now() - startedAt;
     logEvent({
       level: "warn",
@@ -3223,31 +4491,4065 @@ const deleteCalc = async (
       traceId,
       event: "request.end",
       durationMs,
-      status: 403,
+      status: 404,
       calcId,
     });
-    return forbiddenResponse(traceId);
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
   }
-  const blobPath = getBlobPath(userId, calcId, "ignored");
 
-  try {
-    await deleteCalculatorEntities(traceId, userId, calcId);
-    await deleteCalculatorBlobs(traceId, blobPath.prefix);
-  } catch (error) {
-    const durationMs = Date.now() - startedAt;
-    logEvent({
-      level: "error",
-      op,
-      traceId,
-      event: "request.end",
+  const entities: CalculatorVersionEntity[] = [];
+  for (const versionId of [fromVersionId, toVersionId]) {
+    const entity = await loadCalculatorVersionEntity(traceId, userId, calcId, versionId);
+    if (!entity) {
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 404,
+        calcId,
+        versionId,
+      });
+      return jsonResponse(traceId, 404, {
+        code: "NOT_FOUND",
+        message: `Calculator version ${versionId} not found.`,
+      });
+    }
+    if (entity.userId !== userId) {
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 403,
+        calcId,
+        versionId,
+      });
+      return forbiddenResponse(traceId);
+    }
+    if (entity.status === "quarantined") {
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 423,
+        calcId,
+        versionId,
+      });
+      return jsonResponse(traceId, 423, {
+        code: "VERSION_QUARANTINED",
+        message: `Calculator version ${versionId} is quarantined pending review.`,
+        traceId,
+      });
+    }
+    entities.push(entity);
+  }
+
+  const sides: VersionDiffSide[] = [];
+  try {
+    for (const entity of entities) {
+      const payload = await loadVersionPayload(traceId, op, entity);
+      sides.push({
+        versionId: entity.versionId,
+        ...payload,
+        ...(entity.scanStatus ? { scanStatus: entity.scanStatus } : {}),
+        ...(entity.policyHash ? { policyHash: entity.policyHash } : {}),
+        findings: parseRecordedScanFindings(entity.scanFindings),
+      });
+    }
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    if (error instanceof ArtifactIntegrityError) {
+      logEvent({
+        level: "error",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 500,
+        calcId,
+        reason: error.reason,
+      });
+      return integrityErrorResponse(traceId);
+    }
+    logTableError(traceId, error, "version.blob.read.failed", op);
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const diff = buildVersionDiff(sides[0], sides[1]);
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    fromVersionId,
+    toVersionId,
+    linesAdded: diff.text.added,
+    linesRemoved: diff.text.removed,
+    truncated: diff.text.truncated,
+  });
+
+  context.log(`Diffed calculator ${calcId} versions ${fromVersionId} and ${toVersionId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    ...diff,
+    traceId,
+  });
+};
+
+/** Committed versions as a tree of parent pointers, with each version's label and the prompt that produced it. */
+export const getCalcLineage = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.lineage";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/lineage",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  let versions: CalculatorVersionEntity[] = [];
+  try {
+    versions = (await getCalcRepository().listVersions(userId, calcId)).filter((entity) => !isPendingVersion(entity));
+  } catch (error) {
+    logTableError(traceId, error, "version.list.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const lineage = buildVersionLineage(versions, calculator.currentVersionId);
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    versions: lineage.versionCount,
+    roots: lineage.roots.length,
+  });
+
+  context.log(`Loaded lineage of calculator ${calcId}.`);
+
+  const response = jsonResponse(traceId, 200, { calcId, ...lineage, etag: calculator.etag ?? "" });
+  return calculator.etag ? { ...response, headers: { ...response.headers, etag: calculator.etag } } : response;
+};
+
+/** Names a version; labels live on the version row, so the calculator and its etag are untouched. */
+export const labelVersion = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.version.label";
+  const calcId = req.params.calcId as string;
+  const versionId = req.params.versionId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/versions/{versionId}/label",
+    calcId,
+    versionId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+      versionId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  let label: string;
+  try {
+    let body: unknown = null;
+    try {
+      body = await req.json();
+    } catch {
+      body = null;
+    }
+    label = parseVersionLabel(body);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: error instanceof InvalidVersionLabelError ? error.message : "Invalid version label.",
+      traceId,
+    });
+  }
+
+  let versionEntity: CalculatorVersionEntity | null = null;
+  try {
+    versionEntity = await getCalcRepository().getVersion(userId, calcId, versionId);
+    if (versionEntity && isPendingVersion(versionEntity)) {
+      versionEntity = null;
+    }
+  } catch (error) {
+    logTableError(traceId, error, "version.load.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+  if (!versionEntity) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator version not found.",
+    });
+  }
+  if (versionEntity.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+      versionId,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  if (await isCalculatorInTrash(traceId, userId, calcId)) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator version not found.",
+    });
+  }
+
+  const labeledAt = new Date().toISOString();
+  try {
+    await getCalcRepository().updateVersion(userId, calcId, versionId, { label, labeledAt });
+  } catch (error) {
+    logTableError(traceId, error, "version.update.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    versionId,
+    labeled: label !== "",
+  });
+
+  context.log(`Labeled calculator ${calcId} version ${versionId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    versionId,
+    ...(label ? { label } : {}),
+    labeledAt,
+  });
+};
+
+export const promoteVersion = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.version.promote";
+  const calcId = req.params.calcId as string;
+  const versionId = req.params.versionId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/versions/{versionId}/promote",
+    calcId,
+    versionId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+      versionId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+      versionId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  const ifMatch = readIfMatch(req);
+  if (ifMatch && calculator.etag !== ifMatch) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+      versionId,
+    });
+    return versionConflictResponse(traceId, calcId, calculator);
+  }
+
+  let versionEntity: CalculatorVersionEntity | null = null;
+
+  try {
+    versionEntity = await getCalcRepository().getVersion(userId, calcId, versionId);
+    if (versionEntity && isPendingVersion(versionEntity)) {
+      versionEntity = null;
+    }
+  } catch (error) {
+    logTableError(traceId, error, "version.load.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+  if (!versionEntity) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator version not found.",
+    });
+  }
+  if (versionEntity.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+      versionId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  if (versionEntity.status === "quarantined") {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 423,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 423, {
+      code: "VERSION_QUARANTINED",
+      message: "Quarantined versions cannot be promoted until a reviewer releases them.",
+      traceId,
+    });
+  }
+
+  const nowIso = new Date().toISOString();
+  const updated: CalculatorEntity = {
+    ...calculator,
+    updatedAt: nowIso,
+    currentVersionId: versionId,
+  };
+
+  let etag = "";
+  try {
+    etag = await persistCalculatorEntity(traceId, await withCalculatorIndex(traceId, updated), {
+      ifMatch: ifMatch ?? calculator.etag,
+    });
+  } catch (error) {
+    if (isStorageConflict(error)) {
+      const head = await loadCalculatorEntity(traceId, userId, calcId);
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 409,
+        calcId,
+        versionId,
+      });
+      return versionConflictResponse(traceId, calcId, head);
+    }
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    versionId,
+  });
+
+  context.log(`Promoted calculator ${calcId} version ${versionId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    currentVersionId: versionId,
+    etag,
+  });
+};
+
+/** Deletes one non-current version and its blobs; the version is gone for good, there is no trash for versions. */
+export const deleteVersion = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.version.delete";
+  const calcId = req.params.calcId as string;
+  const versionId = req.params.versionId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/versions/{versionId}",
+    calcId,
+    versionId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+      versionId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+      versionId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  const ifMatch = readIfMatch(req);
+  if (ifMatch && calculator.etag !== ifMatch) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+      versionId,
+    });
+    return versionConflictResponse(traceId, calcId, calculator);
+  }
+  if (calculator.currentVersionId === versionId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 409, {
+      code: "VERSION_IS_CURRENT",
+      message: "The current version cannot be deleted. Restore another version first.",
+      traceId,
+    });
+  }
+
+  let versionEntity: CalculatorVersionEntity | null = null;
+  try {
+    versionEntity = await getCalcRepository().getVersion(userId, calcId, versionId);
+    if (versionEntity && isPendingVersion(versionEntity)) {
+      versionEntity = null;
+    }
+  } catch (error) {
+    logTableError(traceId, error, "version.load.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+  if (!versionEntity) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator version not found.",
+    });
+  }
+  if (versionEntity.status === "quarantined") {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 423,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 423, {
+      code: "VERSION_QUARANTINED",
+      message: "Quarantined versions are kept for review until a reviewer releases or deletes them.",
+      traceId,
+    });
+  }
+
+  let etag = "";
+  try {
+    await deleteCalculatorVersion(traceId, versionEntity);
+    etag = await persistCalculatorEntity(traceId, await withCalculatorIndex(traceId, calculator), {
+      ifMatch: calculator.etag,
+    });
+  } catch (error) {
+    if (!isStorageConflict(error)) {
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "error",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 500,
+        calcId,
+        versionId,
+      });
+      return storageErrorResponse(traceId);
+    }
+    // The version is already gone; the concurrent writer recomputed the index, so report its etag.
+    etag = (await loadCalculatorEntity(traceId, userId, calcId, { includeTrashed: true }))?.etag ?? "";
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    versionId,
+    storedBytes: versionEntity.storedBytes,
+  });
+
+  context.log(`Deleted calculator ${calcId} version ${versionId}.`);
+
+  return jsonResponse(traceId, 200, { ok: true, calcId, versionId, etag });
+};
+
+/**
+ * Sets how many versions the retention job keeps for one calculator; `null` falls back to the global default.
+ * Nothing is pruned here, the response only reports how many versions the next run will remove.
+ */
+export const setCalcRetention = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.retention";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/retention",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  let retentionKeepLast: number;
+  try {
+    let body: unknown = null;
+    try {
+      body = await req.json();
+    } catch {
+      body = null;
+    }
+    retentionKeepLast = parseVersionRetention(body);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      calcId,
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: error instanceof InvalidVersionRetentionError ? error.message : "Invalid retention policy.",
+      traceId,
+    });
+  }
+
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  const ifMatch = readIfMatch(req);
+  if (ifMatch && calculator.etag !== ifMatch) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+    });
+    return versionConflictResponse(traceId, calcId, calculator);
+  }
+
+  const retention = resolveVersionRetention({ retentionKeepLast }, getGlobalVersionRetention());
+  let etag = "";
+  let pendingPruneCount = 0;
+  try {
+    const versions = (await getCalcRepository().listVersions(userId, calcId)).filter(
+      (version) => !isPendingVersion(version)
+    );
+    pendingPruneCount = selectVersionsToPrune(versions, calculator.currentVersionId, retention.keepLast).length;
+    etag = await persistCalculatorEntity(
+      traceId,
+      { ...calculator, retentionKeepLast },
+      { ifMatch: ifMatch ?? calculator.etag }
+    );
+  } catch (error) {
+    if (isStorageConflict(error)) {
+      const head = await loadCalculatorEntity(traceId, userId, calcId);
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 409,
+        calcId,
+      });
+      return versionConflictResponse(traceId, calcId, head);
+    }
+    logTableError(traceId, error, "calculator.retention.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    keepLast: retention.keepLast,
+    source: retention.source,
+    pendingPruneCount,
+  });
+
+  context.log(`Updated version retention for calculator ${calcId}.`);
+
+  return jsonResponse(traceId, 200, { calcId, retention, pendingPruneCount, etag });
+};
+
+/**
+ * Creates a read-only share link to one version, or to whatever version is current when the link is opened. Only
+ * the owner can create links, and quarantined versions cannot be shared.
+ */
+export const createShareLink = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.share.create";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/shares",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  const now = new Date();
+  let shareRequest: ShareLinkRequest;
+  try {
+    let body: unknown = null;
+    try {
+      body = await req.json();
+    } catch {
+      body = null;
+    }
+    shareRequest = parseShareLinkRequest(body, now);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      calcId,
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_SHARE_LINK",
+      message: error instanceof InvalidShareLinkError ? error.message : "Invalid share link.",
+      traceId,
+    });
+  }
+
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  if (shareRequest.versionId) {
+    const version = await loadCalculatorVersionEntity(traceId, userId, calcId, shareRequest.versionId);
+    if (!version || version.status === "quarantined") {
+      const status = version ? 423 : 404;
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status,
+        calcId,
+        versionId: shareRequest.versionId,
+      });
+      return version
+        ? jsonResponse(traceId, 423, {
+            code: "VERSION_QUARANTINED",
+            message: "Quarantined versions cannot be shared.",
+            traceId,
+          })
+        : jsonResponse(traceId, 404, {
+            code: "NOT_FOUND",
+            message: "Calculator version not found.",
+          });
+    }
+  }
+
+  const token = generateShareToken();
+  const link = buildShareLinkEntity(userId, calcId, shareRequest, now, token);
+  try {
+    const existing = await getCalcRepository().listShareLinks(userId, calcId);
+    if (existing.length >= MAX_SHARE_LINKS_PER_CALC) {
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 409,
+        calcId,
+      });
+      return jsonResponse(traceId, 409, {
+        code: "SHARE_LINK_LIMIT",
+        message: `A calculator can have at most ${MAX_SHARE_LINKS_PER_CALC} share links; revoke one first.`,
+        traceId,
+      });
+    }
+    await getCalcRepository().saveShareLink(link);
+  } catch (error) {
+    logTableError(traceId, error, "share.save.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "share.create",
+    calcId,
+    versionId: link.versionId || "current",
+    token: redactShareToken(token),
+    expiresAt: link.expiresAt || undefined,
+  });
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+  });
+
+  context.log(`Created share link for calculator ${calcId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    share: { ...describeShareLink(link, now), token },
+    traceId,
+  });
+};
+
+/** Lists the owner's share links for one calculator, newest first, including expired ones. */
+export const listShareLinks = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.share.list";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/shares",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  let links: ShareLinkEntity[];
+  try {
+    links = await getCalcRepository().listShareLinks(userId, calcId);
+  } catch (error) {
+    logTableError(traceId, error, "share.list.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const now = new Date();
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    count: links.length,
+  });
+
+  context.log(`Listed ${links.length} share links for calculator ${calcId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    items: links
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((link) => describeShareLink(link, now)),
+    traceId,
+  });
+};
+
+/** Revokes a share link, addressed by its id, for good; anyone holding it gets 404 from then on. */
+export const revokeShareLink = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.share.revoke";
+  const calcId = req.params.calcId as string;
+  const shareId = req.params.shareId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/shares/{shareId}",
+    calcId,
+    shareId: redactShareToken(shareId),
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  let link: ShareLinkEntity | null = null;
+  try {
+    link = isValidShareToken(shareId) ? await getCalcRepository().getShareLink(shareId) : null;
+    // Links of other users or other calculators read as missing so ids cannot be probed through this route.
+    if (link && (link.userId !== userId || link.calcId !== calcId)) {
+      link = null;
+    }
+    if (link) {
+      await getCalcRepository().deleteShareLink(shareId);
+    }
+  } catch (error) {
+    logTableError(traceId, error, "share.delete.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+  if (!link) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Share link not found.",
+    });
+  }
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "share.revoke",
+    calcId,
+    shareId: redactShareToken(shareId),
+  });
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+  });
+
+  context.log(`Revoked a share link for calculator ${calcId}.`);
+
+  return jsonResponse(traceId, 200, { ok: true, calcId, traceId });
+};
+
+const shareNotFoundResponse = (traceId: string): HttpResponseInit =>
+  jsonResponse(traceId, 404, {
+    code: "NOT_FOUND",
+    message: "This share link does not exist or was revoked.",
+    traceId,
+  });
+
+/**
+ * Public, unauthenticated view of a shared calculator: the artifact or spec and its manifest only. Owner ids,
+ * prompts, notes, and other versions are never returned. Unknown, revoked, and trashed links all read as 404.
+ */
+export const getSharedCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "shared.get";
+  const token = req.params.token as string;
+  const { userId: viewerId, isAuthenticated } = getUserContext(req);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/shared/{token}",
+    token: redactShareToken(token),
+    isAuthenticated,
+    ...(isAuthenticated ? { viewerId: normalizeId(viewerId) } : {}),
+  });
+
+  let link: ShareLinkEntity | null = null;
+  try {
+    link = isValidShareToken(token) ? await getCalcRepository().getShareLink(hashShareToken(token)) : null;
+  } catch (error) {
+    logTableError(traceId, error, "share.load.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+    });
+    return storageErrorResponse(traceId);
+  }
+  if (!link) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+    });
+    return shareNotFoundResponse(traceId);
+  }
+  if (isShareLinkExpired(link, new Date())) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 410,
+      calcId: link.calcId,
+    });
+    return jsonResponse(traceId, 410, {
+      code: "SHARE_LINK_EXPIRED",
+      message: "This share link has expired.",
+      traceId,
+    });
+  }
+
+  const calculator = await loadCalculatorEntity(traceId, link.userId, link.calcId);
+  const versionId = link.versionId || calculator?.currentVersionId || "";
+  const version = calculator
+    ? await loadCalculatorVersionEntity(traceId, link.userId, link.calcId, versionId)
+    : null;
+  if (!calculator || !version) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId: link.calcId,
+      versionId: versionId || undefined,
+    });
+    return shareNotFoundResponse(traceId);
+  }
+  if (version.status === "quarantined") {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 423,
+      calcId: link.calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 423, {
+      code: "VERSION_QUARANTINED",
+      message: "This calculator version is quarantined pending review.",
+      traceId,
+    });
+  }
+
+  let payload: Awaited<ReturnType<typeof loadVersionPayload>>;
+  try {
+    payload = await loadVersionPayload(traceId, op, version);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    if (error instanceof ArtifactIntegrityError) {
+      logEvent({
+        level: "error",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 500,
+        calcId: link.calcId,
+        versionId,
+        reason: error.reason,
+      });
+      return integrityErrorResponse(traceId);
+    }
+    logTableError(traceId, error, "version.blob.read.failed", op);
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId: link.calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "share.access",
+    calcId: link.calcId,
+    versionId,
+    ownerId: link.userId,
+    token: redactShareToken(token),
+    mode: link.versionId ? "version" : "current",
+  });
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId: link.calcId,
+    versionId,
+  });
+
+  context.log(`Served shared calculator ${link.calcId} version ${versionId}.`);
+
+  const response = jsonResponse(traceId, 200, {
+    title: calculator.title,
+    versionId,
+    followsCurrent: !link.versionId,
+    expiresAt: link.expiresAt || null,
+    renderMode: payload.spec ? "spec" : "artifact",
+    manifest: payload.manifest,
+    artifactHtml: payload.artifactHtml ?? "",
+    artifactHash: version.artifactHash,
+    ...(version.artifactHashScheme ? { artifactHashScheme: version.artifactHashScheme } : {}),
+    ...(payload.spec ? { spec: payload.spec } : {}),
+    traceId,
+  });
+  // A revoked link must stop working at once, so nothing may keep a copy.
+  return { ...response, headers: { ...response.headers, "cache-control": "no-store" } };
+};
+
+/** Builds a download name from the title; anything outside [a-z0-9-] is dropped. */
+const buildBundleFileName = (title: string): string =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "calculator"
+  }.promptcalc.json`;
+
+/**
+ * Exports the calculator's servable versions with their prompts, labels, and metadata as a bundle, signed when
+ * PROMPTCALC_BUNDLE_SIGNING_KEY is set. Quarantined versions stay behind; every blob is integrity-checked first.
+ */
+export const exportCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.export";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/export",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  let versions: CalculatorVersionEntity[];
+  try {
+    versions = (await getCalcRepository().listVersions(userId, calcId))
+      .filter((version) => !isPendingVersion(version))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    logTableError(traceId, error, "version.list.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+  const included = versions.filter((version) => version.status !== "quarantined").slice(-MAX_BUNDLE_VERSIONS);
+  if (included.length === 0) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+    });
+    return jsonResponse(traceId, 409, {
+      code: "NOTHING_TO_EXPORT",
+      message: "Every version of this calculator is quarantined.",
+      traceId,
+    });
+  }
+
+  const bundleVersions: CalcBundleVersion[] = [];
+  try {
+    for (const entity of included) {
+      const payload = await loadVersionPayload(traceId, op, entity);
+      bundleVersions.push({
+        versionId: entity.versionId,
+        createdAt: entity.createdAt,
+        ...(entity.parentVersionId ? { parentVersionId: entity.parentVersionId } : {}),
+        ...(entity.label ? { label: entity.label } : {}),
+        ...(entity.prompt ? { prompt: entity.prompt } : {}),
+        renderMode: payload.spec ? "spec" : "artifact",
+        manifest: payload.manifest,
+        ...(payload.artifactHtml !== undefined ? { artifactHtml: payload.artifactHtml } : {}),
+        ...(payload.spec ? { spec: payload.spec } : {}),
+        artifactHash: entity.artifactHash,
+      });
+    }
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    if (error instanceof ArtifactIntegrityError) {
+      logEvent({
+        level: "error",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 500,
+        calcId,
+        reason: error.reason,
+      });
+      return integrityErrorResponse(traceId);
+    }
+    logTableError(traceId, error, "version.blob.read.failed", op);
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const includedIds = new Set(included.map((version) => version.versionId));
+  const tags = parseCalculatorTags(calculator);
+  const bundle: CalcBundle = {
+    format: CALC_BUNDLE_FORMAT,
+    bundleVersion: CALC_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    calculator: {
+      calcId: calculator.calcId,
+      title: calculator.title,
+      // Only an edited description is calculator-level; otherwise it follows the current version's manifest.
+      ...(calculator.descriptionEdited && calculator.description ? { description: calculator.description } : {}),
+      ...(calculator.notes ? { notes: calculator.notes } : {}),
+      tags,
+      ...(calculator.folder ? { folder: calculator.folder } : {}),
+      currentVersionId: includedIds.has(calculator.currentVersionId)
+        ? calculator.currentVersionId
+        : included[included.length - 1].versionId,
+    },
+    versions: bundleVersions,
+    omittedVersionCount: versions.length - included.length,
+  };
+  const signingKey = getBundleSigningKey();
+  const exported = signingKey ? signCalcBundle(bundle, signingKey) : bundle;
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: signingKey ? "info" : "warn",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    versions: bundleVersions.length,
+    omittedVersionCount: bundle.omittedVersionCount,
+    signed: Boolean(signingKey),
+  });
+
+  context.log(`Exported calculator ${calcId} with ${bundleVersions.length} versions.`);
+
+  const response = jsonResponse(traceId, 200, exported);
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      "content-disposition": `attachment; filename="${buildBundleFileName(calculator.title)}"`,
+    },
+  };
+};
+
+type ImportRejection = {
+  versionId: string;
+  code: string;
+  message: string;
+  findings?: ScanFinding[];
+};
+
+type PreparedImportVersion = {
+  source: CalcBundleVersion;
+  manifest: Record<string, unknown>;
+  artifactHtml?: string;
+  spec?: CalculatorSpec;
+  artifactHash: string;
+  label: string;
+  statusFields: ReturnType<typeof buildSelfTestEntityFields>;
+  scanRecord: ReturnType<typeof buildVersionScanRecord>;
+  containsForm: boolean;
+};
+
+/**
+ * Validates one bundled version exactly like model output: manifest schema, declared hash, post-processing, size
+ * limit, the policy scan, and the self-test. Blocking scan findings reject the version whatever the scan mode; spec
+ * versions are re-validated and get a manifest rebuilt from the spec rather than the bundled one. Self-tests share
+ * one deadline across the bundle, and a version whose self-test runs past it is rejected.
+ */
+const prepareImportedVersion = (
+  traceId: string,
+  op: string,
+  version: CalcBundleVersion,
+  effectivePolicy: EffectivePromptCalcPolicy,
+  maxArtifactBytes: number,
+  scannedAt: string,
+  selfTestDeadline: number
+): { ok: true; prepared: PreparedImportVersion } | { ok: false; rejection: ImportRejection } => {
+  const reject = (code: string, message: string, findings?: ScanFinding[]) => ({
+    ok: false as const,
+    rejection: { versionId: version.versionId, code, message, ...(findings ? { findings } : {}) },
+  });
+  let label: string;
+  try {
+    label = parseVersionLabel({ label: version.label ?? null });
+  } catch (error) {
+    return reject("INVALID_LABEL", error instanceof Error ? error.message : "Invalid version label.");
+  }
+
+  if (version.renderMode === "spec") {
+    if (computeSha256(JSON.stringify(version.spec)) !== version.artifactHash) {
+      return reject("ARTIFACT_HASH_MISMATCH", "The spec does not match its declared hash.");
+    }
+    const validation = validateCalculatorSpec(version.spec);
+    if (!validation.spec) {
+      return reject("INVALID_SPEC", `Spec validation failed: ${validation.errors[0]?.code ?? "unknown"}`);
+    }
+    const specHash = computeSha256(JSON.stringify(validation.spec));
+    return {
+      ok: true,
+      prepared: {
+        source: version,
+        manifest: buildManifestFromSpec(validation.spec, specHash),
+        spec: validation.spec,
+        artifactHash: specHash,
+        label,
+        statusFields: { status: "ok" },
+        scanRecord: buildVersionScanRecord({ policy: effectivePolicy, report: null, scannedAt }),
+        containsForm: false,
+      },
+    };
+  }
+
+  const bundledHtml = version.artifactHtml ?? "";
+  const bundledManifest = readManifest(version.manifest);
+  const manifestErrors = validateManifest(bundledManifest, { requireHash: false });
+  if (manifestErrors.length > 0) {
+    return reject("INVALID_MANIFEST", `Manifest validation failed: ${manifestErrors[0].code}`);
+  }
+  const bundledHash = computeArtifactHash(bundledHtml);
+  const declaredManifestHash = typeof bundledManifest.hash === "string" ? bundledManifest.hash : "";
+  if (bundledHash !== version.artifactHash || (declaredManifestHash && declaredManifestHash !== bundledHash)) {
+    return reject("ARTIFACT_HASH_MISMATCH", "The artifact does not match its declared hash.");
+  }
+  const formSafety = ensureFormSafety(bundledHtml);
+  const artifactHtml = ensureReadyBootstrap(formSafety.html);
+  if (Buffer.byteLength(artifactHtml, "utf8") > maxArtifactBytes) {
+    return reject("ARTIFACT_TOO_LARGE", "Artifact exceeds maximum allowed size.");
+  }
+  const scanReport = scanArtifactHtmlAll(artifactHtml, effectivePolicy.policy);
+  if (!scanReport.ok) {
+    return reject("POLICY_SCAN_FAILED", "The artifact failed the policy scan.", scanReport.findings);
+  }
+  const artifactHash = computeArtifactHash(artifactHtml);
+  const manifest: Record<string, unknown> = { ...bundledManifest, hash: artifactHash };
+  const selfTest = runVersionSelfTest(traceId, op, artifactHtml, manifest, { deadline: selfTestDeadline });
+  if (selfTest.sharedDeadlineExceeded) {
+    return reject("SELF_TEST_BUDGET_EXCEEDED", "The bundle's self-tests ran past the import time budget.");
+  }
+  return {
+    ok: true,
+    prepared: {
+      source: version,
+      manifest,
+      artifactHtml,
+      artifactHash,
+      label,
+      statusFields: buildSelfTestEntityFields(selfTest),
+      scanRecord: buildVersionScanRecord({ policy: effectivePolicy, report: scanReport, scannedAt }),
+      containsForm: formSafety.containsForm,
+    },
+  };
+};
+
+/**
+ * Imports a bundle as a new calculator owned by the caller. Everything in it is untrusted: every version is
+ * re-validated and re-scanned, and a single rejected version rejects the whole bundle. A signature made with this
+ * deployment's key is checked and reported but never relaxes validation.
+ */
+export const importCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.import";
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/import",
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  let bundle: CalcBundle;
+  let metadata: CalculatorMetadataPatch;
+  let folder: string;
+  try {
+    let body: unknown = null;
+    try {
+      body = await req.json();
+    } catch {
+      body = null;
+    }
+    bundle = parseCalcBundle(body);
+    metadata = parseCalculatorMetadataPatch({
+      title: bundle.calculator.title,
+      tags: bundle.calculator.tags,
+      ...(bundle.calculator.description !== undefined ? { description: bundle.calculator.description } : {}),
+      ...(bundle.calculator.notes !== undefined ? { notes: bundle.calculator.notes } : {}),
+    });
+    folder = normalizeCalculatorFolder(bundle.calculator.folder ?? null);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+    });
+    const isBundleError =
+      error instanceof InvalidCalcBundleError ||
+      error instanceof InvalidCalculatorMetadataError ||
+      error instanceof InvalidCalculatorOrganizationError;
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_BUNDLE",
+      message: isBundleError ? error.message : "Invalid bundle.",
+      traceId,
+    });
+  }
+
+  const signature = verifyCalcBundleSignature(bundle, getBundleSigningKey());
+  if (signature === "invalid") {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      sourceCalcId: bundle.calculator.calcId,
+      reason: "bundle.signature_invalid",
+    });
+    return jsonResponse(traceId, 400, {
+      code: "BUNDLE_SIGNATURE_INVALID",
+      message: "The bundle was changed after it was exported.",
+      traceId,
+    });
+  }
+
+  let effectivePolicy: EffectivePromptCalcPolicy;
+  try {
+    effectivePolicy = await getEffectivePromptCalcPolicy();
+  } catch {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      reason: "policy.load_failed",
+    });
+    return policyLoadFailedResponse(traceId);
+  }
+  const maxArtifactBytes = await getMaxArtifactBytes();
+  const nowIso = new Date().toISOString();
+  const prepared: PreparedImportVersion[] = [];
+  const rejected: ImportRejection[] = [];
+  const selfTestDeadline = Date.now() + IMPORT_SELF_TEST_BUDGET_MS;
+  for (const version of bundle.versions) {
+    const result = prepareImportedVersion(
+      traceId,
+      op,
+      version,
+      effectivePolicy,
+      maxArtifactBytes,
+      nowIso,
+      selfTestDeadline
+    );
+    if (result.ok) {
+      prepared.push(result.prepared);
+    } else {
+      rejected.push(result.rejection);
+    }
+  }
+  if (rejected.length > 0) {
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "import.rejected",
+      policyHash: effectivePolicy.hash,
+      sourceCalcId: bundle.calculator.calcId,
+      rejected: rejected.map((rejection) => ({
+        versionId: rejection.versionId,
+        code: rejection.code,
+        findings: rejection.findings?.map(formatScanFinding),
+      })),
+    });
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 422,
+      rejected: rejected.length,
+    });
+    return jsonResponse(traceId, 422, {
+      code: "IMPORT_REJECTED",
+      message: `${rejected.length} of ${bundle.versions.length} versions failed validation; nothing was imported.`,
+      rejected,
+      traceId,
+    });
+  }
+
+  const calcId = normalizeId(randomUUID());
+  const versionIds = new Map(bundle.versions.map((version) => [version.versionId, normalizeId(randomUUID())]));
+  const versionEntities = prepared.map((version): CalculatorVersionEntity => {
+    const versionId = versionIds.get(version.source.versionId) as string;
+    const blobPath = getBlobPath(userId, calcId, versionId);
+    const parentVersionId = version.source.parentVersionId
+      ? versionIds.get(version.source.parentVersionId)
+      : undefined;
+    return {
+      partitionKey: String(buildVersionPartition(userId, calcId)),
+      rowKey: String(buildVersionRow(versionId)),
+      entityType: "CalculatorVersion",
+      userId: String(userId),
+      calcId: String(calcId),
+      versionId: String(versionId),
+      createdAt: version.source.createdAt,
+      promptLen: version.source.prompt?.length ?? 0,
+      manifestBlobPath: String(blobPath.manifest),
+      artifactBlobPath: version.spec ? "" : String(blobPath.artifact),
+      ...(version.spec ? { renderMode: "spec" as const, specBlobPath: String(blobPath.spec) } : {}),
+      artifactHash: String(version.artifactHash),
+      ...(version.spec ? {} : { artifactHashScheme: ARTIFACT_HASH_SCHEME }),
+      ...version.statusFields,
+      ...version.scanRecord,
+      ...buildVersionIndexFields(version.manifest),
+      ...(version.source.prompt ? { prompt: version.source.prompt } : {}),
+      ...(parentVersionId ? { parentVersionId } : {}),
+      ...(version.label ? { label: version.label, labeledAt: nowIso } : {}),
+    };
+  });
+  const requestedCurrentId = versionIds.get(bundle.calculator.currentVersionId) as string;
+  // A bundled current version that fails its self-test here is not made current, as on save.
+  const currentVersionId =
+    versionEntities.find((version) => version.versionId === requestedCurrentId)?.status === "quarantined"
+      ? pickFallbackVersionId(versionEntities, requestedCurrentId) ?? requestedCurrentId
+      : requestedCurrentId;
+  const calculatorEntity: CalculatorEntity = {
+    partitionKey: buildCalcPartition(userId),
+    rowKey: buildCalcRow(calcId),
+    entityType: "Calculator",
+    calcId,
+    userId,
+    title: metadata.title as string,
+    createdAt: nowIso,
+    updatedAt: nowIso,
+    currentVersionId,
+    ...(metadata.description !== undefined ? { description: metadata.description, descriptionEdited: true } : {}),
+    ...(metadata.notes ? { notes: metadata.notes } : {}),
+    ...(metadata.tags && metadata.tags.length > 0 ? { tags: JSON.stringify(metadata.tags) } : {}),
+    ...(folder ? { folder } : {}),
+    importedAt: nowIso,
+    importSignature: signature,
+  };
+
+  let etag = "";
+  try {
+    for (const [index, version] of prepared.entries()) {
+      const versionEntity = versionEntities[index];
+      const blobPath = getBlobPath(userId, calcId, versionEntity.versionId);
+      if (version.containsForm) {
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "artifact.containsForm",
+          calcId,
+          versionId: versionEntity.versionId,
+        });
+      }
+      await persistVersionWithBlobs(traceId, versionEntity, async () => {
+        const blobBytes = version.spec
+          ? await persistSpecBlob(traceId, blobPath.spec, version.spec)
+          : await persistArtifactBlob(traceId, blobPath.artifact, version.artifactHtml ?? "");
+        return blobBytes + (await persistManifestBlob(traceId, blobPath.manifest, version.manifest));
+      });
+    }
+    etag = await persistCalculatorEntity(traceId, await withCalculatorIndex(traceId, calculatorEntity));
+  } catch (error) {
+    logTableError(traceId, error, "calculator.import.failed", op);
+    try {
+      await purgeCalculator(traceId, userId, calcId);
+    } catch {
+      // Versions left behind without a calculator row are removed by reconciliation.
+    }
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    sourceCalcId: bundle.calculator.calcId,
+    versions: versionEntities.length,
+    signature,
+  });
+
+  context.log(`Imported calculator ${calcId} with ${versionEntities.length} versions.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    currentVersionId,
+    signature,
+    versions: versionEntities.map((version, index) => ({
+      versionId: version.versionId,
+      sourceVersionId: prepared[index].source.versionId,
+      status: version.status,
+    })),
+    etag,
+    traceId,
+  });
+};
+
+/** Tags, folder, and favorite only; the version history and `updatedAt` are left alone. */
+export const organizeCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.organize";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/organization",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  let update: CalculatorOrganizationUpdate;
+  try {
+    let body: unknown = null;
+    try {
+      body = await req.json();
+    } catch {
+      body = null;
+    }
+    update = parseCalculatorOrganization(body);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      calcId,
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: error instanceof InvalidCalculatorOrganizationError ? error.message : "Invalid organization update.",
+      traceId,
+    });
+  }
+
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  const ifMatch = readIfMatch(req);
+  if (ifMatch && calculator.etag !== ifMatch) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+    });
+    return versionConflictResponse(traceId, calcId, calculator);
+  }
+
+  const updated: CalculatorEntity = {
+    ...calculator,
+    ...buildCalculatorOrganizationFields(update),
+  };
+
+  let etag = "";
+  try {
+    etag = await persistCalculatorEntity(traceId, updated, { ifMatch: ifMatch ?? calculator.etag });
+  } catch (error) {
+    if (isStorageConflict(error)) {
+      const head = await loadCalculatorEntity(traceId, userId, calcId);
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 409,
+        calcId,
+      });
+      return versionConflictResponse(traceId, calcId, head);
+    }
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    fields: Object.keys(update),
+  });
+
+  context.log(`Organized calculator ${calcId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    tags: parseCalculatorTags(updated),
+    ...(updated.folder ? { folder: updated.folder } : {}),
+    favorite: updated.favorite === true,
+    etag,
+  });
+};
+
+/** Edits title, description, tags, and notes on the calculator row; versions and their manifests are untouched. */
+export const updateCalcMetadata = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.update";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  let patch: CalculatorMetadataPatch;
+  try {
+    let body: unknown = null;
+    try {
+      body = await req.json();
+    } catch {
+      body = null;
+    }
+    patch = parseCalculatorMetadataPatch(body);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      calcId,
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: error instanceof InvalidCalculatorMetadataError ? error.message : "Invalid metadata update.",
+      traceId,
+    });
+  }
+
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  const ifMatch = readIfMatch(req);
+  if (ifMatch && calculator.etag !== ifMatch) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+    });
+    return versionConflictResponse(traceId, calcId, calculator);
+  }
+
+  const changed = listChangedMetadataFields(calculator, patch);
+  let updated: CalculatorEntity = calculator;
+  let etag = calculator.etag ?? "";
+  // A patch that changes nothing is not written, so it leaves no audit entry and keeps the etag.
+  if (changed.length > 0) {
+    updated = {
+      ...calculator,
+      ...buildCalculatorMetadataFields(patch, userId, new Date().toISOString()),
+    };
+    try {
+      etag = await persistCalculatorEntity(traceId, updated, { ifMatch: ifMatch ?? calculator.etag });
+    } catch (error) {
+      if (isStorageConflict(error)) {
+        const head = await loadCalculatorEntity(traceId, userId, calcId);
+        const durationMs = Date.now() - startedAt;
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "request.end",
+          durationMs,
+          status: 409,
+          calcId,
+        });
+        return versionConflictResponse(traceId, calcId, head);
+      }
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "error",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 500,
+        calcId,
+      });
+      return storageErrorResponse(traceId);
+    }
+
+    // Audit trail: who changed which fields. Values stay out of logs; the row keeps the latest ones.
+    logEvent({
+      level: "info",
+      op,
+      traceId,
+      event: "calculator.metadata.updated",
+      calcId,
+      userId,
+      fields: changed,
+    });
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    changed: changed.length,
+  });
+
+  context.log(`Updated metadata of calculator ${calcId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    title: updated.title,
+    ...(updated.description ? { description: updated.description } : {}),
+    ...(updated.notes ? { notes: updated.notes } : {}),
+    tags: parseCalculatorTags(updated),
+    updatedAt: updated.updatedAt,
+    ...(updated.metadataUpdatedBy ? { metadataUpdatedBy: updated.metadataUpdatedBy } : {}),
+    ...(updated.metadataUpdatedAt ? { metadataUpdatedAt: updated.metadataUpdatedAt } : {}),
+    changed,
+    etag,
+  });
+};
+
+export const deleteCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.delete";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId);
+  if (!calculator) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator not found.",
+    });
+  }
+  if (calculator.userId !== userId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+    });
+    return forbiddenResponse(traceId);
+  }
+  const ifMatch = readIfMatch(req);
+  if (ifMatch && calculator.etag !== ifMatch) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+    });
+    return versionConflictResponse(traceId, calcId, calculator);
+  }
+
+  const trashFields = buildTrashFields(userId, new Date(), getTrashRetentionDays());
+  let etag = "";
+  try {
+    etag = await persistCalculatorEntity(
+      traceId,
+      { ...calculator, ...trashFields },
+      { ifMatch: ifMatch ?? calculator.etag }
+    );
+  } catch (error) {
+    if (isStorageConflict(error)) {
+      const head = await loadCalculatorEntity(traceId, userId, calcId);
+      const durationMs = Date.now() - startedAt;
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "request.end",
+        durationMs,
+        status: 409,
+        calcId,
+      });
+      return versionConflictResponse(traceId, calcId, head);
+    }
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "calculator.trash.moved",
+    calcId,
+    userId,
+    purgeAfter: trashFields.purgeAfter,
+  });
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+  });
+
+  context.log(`Moved calculator ${calcId} to the trash.`);
+
+  return jsonResponse(traceId, 200, {
+    ok: true,
+    calcId,
+    deletedAt: trashFields.deletedAt,
+    purgeAfter: trashFields.purgeAfter,
+    etag,
+  });
+};
+
+export const listTrash = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.trash.list";
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/trash",
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+    });
+    return unauthorizedResponse(traceId);
+  }
+
+  let trashed: CalculatorEntity[] = [];
+  try {
+    trashed = (await getCalcRepository().listCalculators(userId)).filter(isTrashedCalculator);
+  } catch (error) {
+    logTableError(traceId, error, "calculator.list.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  trashed.sort((a, b) => (b.deletedAt ?? "").localeCompare(a.deletedAt ?? ""));
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    count: trashed.length,
+  });
+
+  context.log(`Listed ${trashed.length} trashed calculators.`);
+
+  return jsonResponse(traceId, 200, {
+    items: trashed.map((calculator) => ({
+      calcId: calculator.calcId,
+      title: calculator.title,
+      updatedAt: calculator.updatedAt,
+      deletedAt: calculator.deletedAt,
+      purgeAfter: calculator.purgeAfter,
+      ...(calculator.versionCount !== undefined ? { versionCount: calculator.versionCount } : {}),
+      etag: calculator.etag ?? "",
+    })),
+    retentionDays: getTrashRetentionDays(),
+  });
+};
+
+/** Loads a trashed calculator owned by the caller, or the response explaining why it cannot be used. */
+const loadTrashedCalculator = async (
+  traceId: string,
+  op: string,
+  startedAt: number,
+  userId: string,
+  calcId: string
+): Promise<{ calculator: CalculatorEntity } | { response: HttpResponseInit }> => {
+  const calculator = await loadCalculatorEntity(traceId, userId, calcId, { includeTrashed: true });
+  const status = !calculator ? 404 : calculator.userId !== userId ? 403 : !isTrashedCalculator(calculator) ? 409 : 200;
+  if (status === 200) {
+    return { calculator: calculator as CalculatorEntity };
+  }
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "warn",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status,
+    calcId,
+  });
+  if (status === 403) {
+    return { response: forbiddenResponse(traceId) };
+  }
+  return {
+    response: jsonResponse(
+      traceId,
+      status,
+      status === 404
+        ? { code: "NOT_FOUND", message: "Calculator not found." }
+        : { code: "NOT_IN_TRASH", message: "Calculator is not in the trash.", traceId }
+    ),
+  };
+};
+
+export const restoreCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.trash.restore";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/restore",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const loaded = await loadTrashedCalculator(traceId, op, startedAt, userId, calcId);
+  if ("response" in loaded) {
+    return loaded.response;
+  }
+  const { calculator } = loaded;
+
+  const restored: CalculatorEntity = { ...calculator, ...buildRestoreFields() };
+  let etag = "";
+  try {
+    etag = await persistCalculatorEntity(traceId, restored, { ifMatch: calculator.etag });
+  } catch (error) {
+    const conflict = isStorageConflict(error);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: conflict ? "warn" : "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: conflict ? 409 : 500,
+      calcId,
+    });
+    return conflict
+      ? versionConflictResponse(traceId, calcId, await loadCalculatorEntity(traceId, userId, calcId))
+      : storageErrorResponse(traceId);
+  }
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "calculator.trash.restored",
+    calcId,
+    userId,
+  });
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+  });
+
+  context.log(`Restored calculator ${calcId} from the trash.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    title: restored.title,
+    currentVersionId: restored.currentVersionId,
+    etag,
+  });
+};
+
+/** Deletes a trashed calculator before its retention window ends; live calculators must be trashed first. */
+export const purgeCalc = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.trash.purge";
+  const calcId = req.params.calcId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/trash/{calcId}",
+    calcId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  const loaded = await loadTrashedCalculator(traceId, op, startedAt, userId, calcId);
+  if ("response" in loaded) {
+    return loaded.response;
+  }
+
+  try {
+    await purgeCalculator(traceId, userId, calcId);
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "calculator.trash.purged",
+    calcId,
+    userId,
+    reason: "user",
+  });
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+  });
+
+  context.log(`Purged calculator ${calcId}.`);
+
+  return jsonResponse(traceId, 200, { ok: true, calcId });
+};
+
+export type TrashPurgeReport = {
+  scanned: number;
+  purged: string[];
+  failed: string[];
+};
+
+/**
+ * Purges every trashed calculator whose retention window has ended. Each one is re-read first so a restore that
+ * raced the scan wins; failures are logged and retried on the next run.
+ */
+export const purgeExpiredTrash = async (traceId: string, now: Date = new Date()): Promise<TrashPurgeReport> => {
+  const op = "calcs.trash.expire";
+  const report: TrashPurgeReport = { scanned: 0, purged: [], failed: [] };
+  const due: CalculatorEntity[] = [];
+  for await (const calculator of getCalcRepository().scanCalculators()) {
+    report.scanned += 1;
+    if (isPurgeDue(calculator, now)) {
+      due.push(calculator);
+    }
+  }
+  for (const candidate of due) {
+    try {
+      const calculator = await getCalcRepository().getCalculator(candidate.userId, candidate.calcId);
+      if (!calculator || !isPurgeDue(calculator, now)) {
+        continue;
+      }
+      await purgeCalculator(traceId, calculator.userId, calculator.calcId);
+      report.purged.push(calculator.calcId);
+      logEvent({
+        level: "info",
+        op,
+        traceId,
+        event: "calculator.trash.purged",
+        calcId: calculator.calcId,
+        userId: calculator.userId,
+        reason: "retention",
+      });
+    } catch (error) {
+      report.failed.push(candidate.calcId);
+      logTableError(traceId, error, "calculator.purge.failed", op);
+    }
+  }
+  return report;
+};
+
+const purgeTrashTimer = async (_timer: Timer, context: InvocationContext): Promise<void> => {
+  const traceId = getTraceId(null);
+  const startedAt = Date.now();
+  try {
+    const report = await purgeExpiredTrash(traceId);
+    logEvent({
+      level: report.failed.length > 0 ? "warn" : "info",
+      op: "calcs.trash.expire",
+      traceId,
+      event: "job.end",
+      durationMs: Date.now() - startedAt,
+      scanned: report.scanned,
+      purged: report.purged.length,
+      failed: report.failed.length,
+    });
+    context.log(`Purged ${report.purged.length} expired calculators from the trash.`);
+  } catch (error) {
+    logTableError(traceId, error, "calculator.scan.failed", "calcs.trash.expire");
+  }
+};
+
+export type VersionRetentionReport = {
+  scanned: number;
+  prunedVersions: number;
+  prunedBytes: number;
+  failed: string[];
+};
+
+/**
+ * Applies each calculator's retention policy (or the global default). The calculator is re-read before pruning so
+ * a promote or restore that raced the scan is respected; trashed calculators wait for the trash purge instead.
+ */
+export const enforceVersionRetention = async (
+  traceId: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<VersionRetentionReport> => {
+  const op = "calcs.version.retention";
+  const globalKeepLast = getGlobalVersionRetention(env);
+  const report: VersionRetentionReport = { scanned: 0, prunedVersions: 0, prunedBytes: 0, failed: [] };
+  const candidates: CalculatorEntity[] = [];
+  for await (const calculator of getCalcRepository().scanCalculators()) {
+    report.scanned += 1;
+    const { keepLast } = resolveVersionRetention(calculator, globalKeepLast);
+    // Calculators indexed before version counts were kept are always checked.
+    const versionCount = calculator.versionCount ?? Number.POSITIVE_INFINITY;
+    if (!isTrashedCalculator(calculator) && keepLast !== null && versionCount > keepLast) {
+      candidates.push(calculator);
+    }
+  }
+  for (const candidate of candidates) {
+    try {
+      const calculator = await getCalcRepository().getCalculator(candidate.userId, candidate.calcId);
+      if (!calculator || isTrashedCalculator(calculator)) {
+        continue;
+      }
+      const { keepLast, source } = resolveVersionRetention(calculator, globalKeepLast);
+      const versions = (await getCalcRepository().listVersions(calculator.userId, calculator.calcId)).filter(
+        (version) => !isPendingVersion(version)
+      );
+      const pruned = selectVersionsToPrune(versions, calculator.currentVersionId, keepLast);
+      if (pruned.length === 0) {
+        continue;
+      }
+      for (const version of pruned) {
+        await deleteCalculatorVersion(traceId, version);
+        report.prunedVersions += 1;
+        report.prunedBytes += version.storedBytes ?? 0;
+      }
+      await syncCalculatorIndex(traceId, calculator.userId, calculator.calcId);
+      logEvent({
+        level: "info",
+        op,
+        traceId,
+        event: "calculator.versions.pruned",
+        calcId: calculator.calcId,
+        userId: calculator.userId,
+        keepLast,
+        source,
+        pruned: pruned.length,
+      });
+    } catch (error) {
+      report.failed.push(candidate.calcId);
+      logTableError(traceId, error, "version.prune.failed", op);
+    }
+  }
+  return report;
+};
+
+const versionRetentionTimer = async (_timer: Timer, context: InvocationContext): Promise<void> => {
+  const traceId = getTraceId(null);
+  const startedAt = Date.now();
+  try {
+    const report = await enforceVersionRetention(traceId);
+    logEvent({
+      level: report.failed.length > 0 ? "warn" : "info",
+      op: "calcs.version.retention",
+      traceId,
+      event: "job.end",
+      durationMs: Date.now() - startedAt,
+      scanned: report.scanned,
+      prunedVersions: report.prunedVersions,
+      prunedBytes: report.prunedBytes,
+      failed: report.failed.length,
+    });
+    context.log(`Pruned ${report.prunedVersions} calculator versions past their retention policy.`);
+  } catch (error) {
+    logTableError(traceId, error, "calculator.scan.failed", "calcs.version.retention");
+  }
+};
+
+const rescanCalcs = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.rescan";
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/rescan",
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  if (!isAdminUser(requestUserId)) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  let dryRun = false;
+  try {
+    const body = (await req.json()) as { dryRun?: unknown } | null;
+    dryRun = body?.dryRun === true;
+  } catch {
+    // An empty body runs the job for real.
+  }
+
+  let effectivePolicy: EffectivePromptCalcPolicy;
+  try {
+    effectivePolicy = await getEffectivePromptCalcPolicy();
+  } catch {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      reason: "policy.load_failed",
+    });
+    return policyLoadFailedResponse(traceId);
+  }
+
+  const scannedAt = new Date().toISOString();
+  const summary = {
+    scanned: 0,
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    errors: 0,
+    quarantined: [] as Array<{ calcId: string; versionId: string; codes: string[] }>,
+  };
+
+  try {
+    const repository = getCalcRepository();
+    const artifactStore = getArtifactStore();
+    for await (const entity of repository.scanVersions()) {
+      if (isPendingVersion(entity)) {
+        continue;
+      }
+      // Spec versions have no HTML; the spec renderer never executes model output.
+      if ((entity.renderMode ?? "artifact") === "spec" || !entity.artifactBlobPath) {
+        summary.skipped += 1;
+        continue;
+      }
+
+      let artifactHtml: string;
+      try {
+        artifactHtml = await artifactStore.read(entity.artifactBlobPath);
+      } catch (error) {
+        summary.errors += 1;
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "rescan.artifact.read_failed",
+          calcId: entity.calcId,
+          versionId: entity.versionId,
+          message: error instanceof Error ? error.message : "unknown error",
+        });
+        continue;
+      }
+
+      const rescan = rescanArtifact(artifactHtml, effectivePolicy, scannedAt);
+      summary.scanned += 1;
+      if (rescan.shouldQuarantine) {
+        summary.failed += 1;
+      } else {
+        summary.passed += 1;
+      }
+      const quarantine = rescan.shouldQuarantine && entity.status !== "quarantined";
+      if (quarantine) {
+        summary.quarantined.push({
+          calcId: entity.calcId,
+          versionId: entity.versionId,
+          codes: [...new Set(rescan.findings.map((finding) => finding.code))],
+        });
+      }
+      if (dryRun) {
+        continue;
+      }
+
+      await repository.updateVersion(entity.userId, entity.calcId, entity.versionId, {
+        ...rescan.record,
+        // Merge updates keep absent properties, so clear findings explicitly.
+        scanFindings: rescan.record.scanFindings ?? "",
+        ...(quarantine ? { status: "quarantined", quarantineReason: "policy_scan" } : {}),
+      });
+      if (quarantine) {
+        logEvent({
+          level: "warn",
+          op,
+          traceId,
+          event: "version.quarantined",
+          calcId: entity.calcId,
+          versionId: entity.versionId,
+          reason: "policy_scan",
+          policyHash: effectivePolicy.hash,
+          codes: [...new Set(rescan.findings.map((finding) => finding.code))],
+        });
+        await moveCurrentVersionOff(traceId, entity.userId, entity.calcId, entity.versionId);
+        await syncCalculatorIndex(traceId, entity.userId, entity.calcId);
+      }
+    }
+  } catch (error) {
+    logTableError(traceId, error, "rescan.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      ...summary,
+      quarantined: summary.quarantined.length,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    dryRun,
+    policyHash: effectivePolicy.hash,
+    ...summary,
+    quarantined: summary.quarantined.length,
+  });
+
+  context.log(`Rescanned ${summary.scanned} artifacts under policy ${effectivePolicy.hash}.`);
+
+  return jsonResponse(traceId, 200, {
+    policyHash: effectivePolicy.hash,
+    policySpecVersion: effectivePolicy.policy.specVersion,
+    dryRun,
+    ...summary,
+  });
+};
+
+const reconcileCalcs = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.reconcile";
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/reconcile",
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  if (!isAdminUser(requestUserId)) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  let dryRun = false;
+  let ownerId: string | undefined;
+  try {
+    const body = (await req.json()) as { dryRun?: unknown; ownerId?: unknown } | null;
+    dryRun = body?.dryRun === true;
+    ownerId = typeof body?.ownerId === "string" && body.ownerId ? normalizeId(body.ownerId) : undefined;
+  } catch {
+    // An empty body reconciles every user for real.
+  }
+
+  let report: StorageReconcileReport;
+  try {
+    report = await reconcileStorage(getStorageBackend(), { dryRun, userId: ownerId });
+  } catch (error) {
+    logTableError(traceId, error, "reconcile.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: report.orphanBlobs.length + report.danglingVersions.length > 0 ? "warn" : "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    dryRun,
+    scannedBlobs: report.scannedBlobs,
+    scannedVersions: report.scannedVersions,
+    pendingVersions: report.pendingVersions,
+    orphanBlobs: report.orphanBlobs.length,
+    danglingVersions: report.danglingVersions.length,
+    removedBlobs: report.removedBlobs,
+    removedVersions: report.removedVersions,
+  });
+
+  context.log(
+    `Reconciled storage: ${report.orphanBlobs.length} orphan blobs, ${report.danglingVersions.length} dangling versions.`
+  );
+
+  return jsonResponse(traceId, 200, {
+    dryRun,
+    ...(ownerId ? { ownerId } : {}),
+    ...report,
+    traceId,
+  });
+};
+
+/**
+ * Records a viewer load failure against a stored version. Owners report their own versions; admins listed in
+ * PROMPTCALC_ADMIN_USER_IDS may report another owner's version by passing `?ownerId=`, as when reviewing it.
+ */
+export const reportVersionFailure = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "calcs.version.report";
+  const calcId = req.params.calcId as string;
+  const versionId = req.params.versionId as string;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+  const isDevUser = identityProvider === "dev";
+  const userId = normalizeId(requestUserId);
+  const ownerQuery = req.query.get("ownerId");
+  const ownerId = ownerQuery ? normalizeId(ownerQuery) : userId;
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/calcs/{calcId}/versions/{versionId}/report",
+    calcId,
+    versionId,
+    userId,
+    isAuthenticated,
+    identityProvider,
+    ...(ownerId !== userId ? { ownerId } : {}),
+  });
+  if (!isAuthenticated && !isDevUser) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      calcId,
+      versionId,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  if (ownerId !== userId && !isAdminUser(requestUserId)) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+      versionId,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  let body: unknown = null;
+  try {
+    body = await req.json();
+  } catch {
+    body = null;
+  }
+  const report = parseViewerFailureReport(body);
+  if (!report) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 400,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 400, {
+      code: "INVALID_REQUEST",
+      message: "code must be WATCHDOG_TIMEOUT or INTEGRITY_MISMATCH.",
+      traceId,
+    });
+  }
+
+  const versionEntity = await loadCalculatorVersionEntity(traceId, ownerId, calcId, versionId);
+  if (!versionEntity) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return jsonResponse(traceId, 404, {
+      code: "NOT_FOUND",
+      message: "Calculator version not found.",
+    });
+  }
+  if (versionEntity.userId !== ownerId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      calcId,
+      versionId,
+    });
+    return forbiddenResponse(traceId);
+  }
+
+  const threshold = getLoadFailureThreshold();
+  const update = applyLoadFailureReport(versionEntity, report, new Date().toISOString(), threshold);
+  if (!update) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "info",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 200,
+      calcId,
+      versionId,
+      code: report.code,
+      loadId: report.loadId,
+      duplicate: true,
+    });
+    return jsonResponse(traceId, 200, {
+      calcId,
+      versionId,
+      status: versionEntity.status,
+      loadFailureCount: versionEntity.loadFailureCount ?? 0,
+      threshold,
+      quarantined: false,
+      duplicate: true,
+      traceId,
+    });
+  }
+  let currentVersionId: string | null = null;
+  try {
+    await getCalcRepository().updateVersion(ownerId, calcId, versionId, update.fields);
+    if (update.quarantined) {
+      logEvent({
+        level: "warn",
+        op,
+        traceId,
+        event: "version.quarantined",
+        calcId,
+        versionId,
+        reason: "load_failures",
+        loadFailureCount: update.fields.loadFailureCount,
+        lastLoadFailureCode: report.code,
+      });
+      currentVersionId = await moveCurrentVersionOff(traceId, ownerId, calcId, versionId);
+      await syncCalculatorIndex(traceId, ownerId, calcId);
+    }
+  } catch (error) {
+    logTableError(traceId, error, "version.report.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    versionId,
+    code: report.code,
+    loadId: report.loadId,
+    loadFailureCount: update.fields.loadFailureCount,
+    threshold,
+    quarantined: update.quarantined,
+  });
+
+  context.log(`Recorded ${report.code} for calculator ${calcId} version ${versionId}.`);
+
+  return jsonResponse(traceId, 200, {
+    calcId,
+    versionId,
+    status: update.fields.status ?? versionEntity.status,
+    loadFailureCount: update.fields.loadFailureCount,
+    threshold,
+    quarantined: update.quarantined,
+    ...(currentVersionId ? { currentVersionId } : {}),
+    traceId,
+  });
+};
+
+type ReviewRequestContext = {
+  traceId: string;
+  startedAt: number;
+  op: string;
+  reviewerId: string;
+};
+
+/** Shared 401/403 gate for reviewer endpoints; returns a response when the caller may not review. */
+const rejectNonReviewer = (
+  req: HttpRequest,
+  review: ReviewRequestContext,
+  route: string,
+  extra: Record<string, unknown> = {}
+): HttpResponseInit | null => {
+  const { traceId, startedAt, op } = review;
+  const { userId: requestUserId, isAuthenticated, identityProvider } = getUserContext(req);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route,
+    userId: review.reviewerId,
+    isAuthenticated,
+    identityProvider,
+    ...extra,
+  });
+  if (!isAuthenticated && identityProvider !== "dev") {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 401,
+      ...extra,
+    });
+    return unauthorizedResponse(traceId);
+  }
+  if (!isAdminUser(requestUserId)) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 403,
+      ...extra,
+    });
+    return forbiddenResponse(traceId);
+  }
+  return null;
+};
+
+const startReviewRequest = (req: HttpRequest, op: string): ReviewRequestContext => ({
+  traceId: getTraceId(req.headers.get("traceparent")),
+  startedAt: Date.now(),
+  op,
+  reviewerId: normalizeId(getUserContext(req).userId),
+});
+
+const listQuarantine = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const review = startReviewRequest(req, "review.quarantine.list");
+  const { traceId, startedAt, op } = review;
+  const rejected = rejectNonReviewer(req, review, "/api/review/quarantine");
+  if (rejected) {
+    return rejected;
+  }
+
+  const items: Array<Record<string, unknown>> = [];
+  try {
+    for await (const entity of getCalcRepository().scanVersions({ status: "quarantined" })) {
+      if (isPendingVersion(entity)) {
+        continue;
+      }
+      items.push({
+        ownerId: entity.userId,
+        calcId: entity.calcId,
+        versionId: entity.versionId,
+        createdAt: entity.createdAt,
+        renderMode: entity.renderMode ?? "artifact",
+        ...(entity.quarantineReason ? { quarantineReason: entity.quarantineReason } : {}),
+        ...(entity.loadFailureCount ? { loadFailureCount: entity.loadFailureCount } : {}),
+        ...(entity.lastLoadFailureCode ? { lastLoadFailureCode: entity.lastLoadFailureCode } : {}),
+        ...(entity.lastLoadFailureAt ? { lastLoadFailureAt: entity.lastLoadFailureAt } : {}),
+        ...(entity.selfTestStatus ? { selfTestStatus: entity.selfTestStatus } : {}),
+        ...(entity.scanStatus ? { scanStatus: entity.scanStatus } : {}),
+      });
+    }
+  } catch (error) {
+    logTableError(traceId, error, "quarantine.list.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  items.sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    count: items.length,
+  });
+
+  context.log(`Listed ${items.length} quarantined versions.`);
+
+  return jsonResponse(traceId, 200, { items, traceId });
+};
+
+const loadQuarantinedVersion = async (
+  review: ReviewRequestContext,
+  ownerId: string,
+  calcId: string,
+  versionId: string
+): Promise<{ entity: CalculatorVersionEntity } | { response: HttpResponseInit }> => {
+  const { traceId, startedAt, op } = review;
+  const entity = await loadCalculatorVersionEntity(traceId, ownerId, calcId, versionId);
+  if (!entity || entity.userId !== ownerId) {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 404,
+      calcId,
+      versionId,
+    });
+    return {
+      response: jsonResponse(traceId, 404, {
+        code: "NOT_FOUND",
+        message: "Calculator version not found.",
+      }),
+    };
+  }
+  if (entity.status !== "quarantined") {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "warn",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 409,
+      calcId,
+      versionId,
+    });
+    return {
+      response: jsonResponse(traceId, 409, {
+        code: "VERSION_NOT_QUARANTINED",
+        message: "Only quarantined versions can be reviewed.",
+        traceId,
+      }),
+    };
+  }
+  return { entity };
+};
+
+const releaseQuarantinedVersion = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const review = startReviewRequest(req, "review.quarantine.release");
+  const { traceId, startedAt, op, reviewerId } = review;
+  const ownerId = normalizeId(req.params.ownerId);
+  const calcId = req.params.calcId as string;
+  const versionId = req.params.versionId as string;
+  const rejected = rejectNonReviewer(req, review, "/api/review/quarantine/{ownerId}/{calcId}/{versionId}/release", {
+    ownerId,
+    calcId,
+    versionId,
+  });
+  if (rejected) {
+    return rejected;
+  }
+
+  const loaded = await loadQuarantinedVersion(review, ownerId, calcId, versionId);
+  if ("response" in loaded) {
+    return loaded.response;
+  }
+
+  try {
+    await getCalcRepository().updateVersion(
+      ownerId,
+      calcId,
+      versionId,
+      buildQuarantineRelease(reviewerId, new Date().toISOString())
+    );
+    await syncCalculatorIndex(traceId, ownerId, calcId);
+  } catch (error) {
+    logTableError(traceId, error, "quarantine.release.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status: 500,
+      calcId,
+      versionId,
+    });
+    return storageErrorResponse(traceId);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "warn",
+    op,
+    traceId,
+    event: "version.released",
+    calcId,
+    versionId,
+    ownerId,
+    reviewerId,
+    quarantineReason: loaded.entity.quarantineReason || undefined,
+  });
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.end",
+    durationMs,
+    status: 200,
+    calcId,
+    versionId,
+  });
+
+  context.log(`Released calculator ${calcId} version ${versionId} from quarantine.`);
+
+  return jsonResponse(traceId, 200, { ownerId, calcId, versionId, status: "ok", traceId });
+};
+
+/**
+ * Lets an admin delete a quarantined version. A calculator left without any version is removed along with its
+ * share links.
+ */
+export const deleteQuarantinedVersion = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const review = startReviewRequest(req, "review.quarantine.delete");
+  const { traceId, startedAt, op, reviewerId } = review;
+  const ownerId = normalizeId(req.params.ownerId);
+  const calcId = req.params.calcId as string;
+  const versionId = req.params.versionId as string;
+  const rejected = rejectNonReviewer(req, review, "/api/review/quarantine/{ownerId}/{calcId}/{versionId}", {
+    ownerId,
+    calcId,
+    versionId,
+  });
+  if (rejected) {
+    return rejected;
+  }
+
+  const loaded = await loadQuarantinedVersion(review, ownerId, calcId, versionId);
+  if ("response" in loaded) {
+    return loaded.response;
+  }
+
+  let currentVersionId: string | null = null;
+  let calculatorDeleted = false;
+  try {
+    currentVersionId = await moveCurrentVersionOff(traceId, ownerId, calcId, versionId);
+    await deleteCalculatorVersion(traceId, loaded.entity);
+
+    // With no servable version left the calculator falls back to its newest remaining one, or goes away entirely.
+    const calculator = await loadCalculatorEntity(traceId, ownerId, calcId, { includeTrashed: true });
+    if (calculator && calculator.currentVersionId === versionId) {
+      const remaining = (await getCalcRepository().listVersions(ownerId, calcId)).filter(
+        (version) => !isPendingVersion(version)
+      );
+      remaining.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      if (remaining.length === 0) {
+        await deleteCalculatorEntities(traceId, ownerId, calcId);
+        calculatorDeleted = true;
+      } else {
+        currentVersionId = remaining[0].versionId;
+        await persistCalculatorEntity(traceId, {
+          ...calculator,
+          currentVersionId,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+    }
+    if (!calculatorDeleted) {
+      await syncCalculatorIndex(traceId, ownerId, calcId);
+    }
+  } catch (error) {
+    logTableError(traceId, error, "quarantine.delete.failed", op);
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: "error",
+      op,
+      traceId,
+      event: "request.end",
       durationMs,
       status: 500,
       calcId,
+      versionId,
     });
     return storageErrorResponse(traceId);
   }
 
   const durationMs = Date.now() - startedAt;
+  logEvent({
+    level: "warn",
+    op,
+    traceId,
+    event: "version.quarantine.deleted",
+    calcId,
+    versionId,
+    ownerId,
+    reviewerId,
+    calculatorDeleted,
+  });
   logEvent({
     level: "info",
     op,
@@ -3256,11 +8558,20 @@ const deleteCalc = async (
     durationMs,
     status: 200,
     calcId,
+    versionId,
   });
 
-  context.log(`Deleted calculator ${calcId}.`);
+  context.log(`Deleted quarantined calculator ${calcId} version ${versionId}.`);
 
-  return jsonResponse(traceId, 200, { ok: true });
+  return jsonResponse(traceId, 200, {
+    ok: true,
+    ownerId,
+    calcId,
+    versionId,
+    calculatorDeleted,
+    ...(currentVersionId ? { currentVersionId } : {}),
+    traceId,
+  });
 };
 
 app.http("calcs-save", {
@@ -3277,6 +8588,20 @@ app.http("calcs-generate", {
   handler: generateCalc,
 });
 
+app.http("calcs-rescan", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  route: "calcs/rescan",
+  handler: rescanCalcs,
+});
+
+app.http("calcs-reconcile", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  route: "calcs/reconcile",
+  handler: reconcileCalcs,
+});
+
 app.http("calcs-list", {
   methods: ["GET"],
   authLevel: "anonymous",
@@ -3284,6 +8609,27 @@ app.http("calcs-list", {
   handler: listCalcs,
 });
 
+app.http("calcs-facets", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "calcs/facets",
+  handler: getCalcFacets,
+});
+
+app.http("calcs-trash-list", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "calcs/trash",
+  handler: listTrash,
+});
+
+app.http("calcs-import", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  route: "calcs/import",
+  handler: importCalc,
+});
+
 app.http("calcs-get", {
   methods: ["GET"],
   authLevel: "anonymous",
@@ -3298,6 +8644,76 @@ app.http("calcs-version-get", {
   handler: getVersion,
 });
 
+app.http("calcs-shares-list", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/shares",
+  handler: listShareLinks,
+});
+
+app.http("calcs-shares-create", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/shares",
+  handler: createShareLink,
+});
+
+app.http("calcs-shares-revoke", {
+  methods: ["DELETE"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/shares/{shareId}",
+  handler: revokeShareLink,
+});
+
+app.http("shared-get", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "shared/{token}",
+  handler: getSharedCalc,
+});
+
+app.http("calcs-export", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/export",
+  handler: exportCalc,
+});
+
+app.http("calcs-diff", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/diff",
+  handler: diffVersions,
+});
+
+app.http("calcs-lineage", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/lineage",
+  handler: getCalcLineage,
+});
+
+app.http("calcs-version-label", {
+  methods: ["PUT"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/versions/{versionId}/label",
+  handler: labelVersion,
+});
+
+app.http("calcs-version-delete", {
+  methods: ["DELETE"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/versions/{versionId}",
+  handler: deleteVersion,
+});
+
+app.http("calcs-retention", {
+  methods: ["PUT"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/retention",
+  handler: setCalcRetention,
+});
+
 app.http("calcs-version-promote", {
   methods: ["POST"],
   authLevel: "anonymous",
@@ -3305,9 +8721,77 @@ app.http("calcs-version-promote", {
   handler: promoteVersion,
 });
 
+app.http("calcs-version-report", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/versions/{versionId}/report",
+  handler: reportVersionFailure,
+});
+
+app.http("review-quarantine-list", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "review/quarantine",
+  handler: listQuarantine,
+});
+
+app.http("review-quarantine-release", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  route: "review/quarantine/{ownerId}/{calcId}/{versionId}/release",
+  handler: releaseQuarantinedVersion,
+});
+
+app.http("review-quarantine-delete", {
+  methods: ["DELETE"],
+  authLevel: "anonymous",
+  route: "review/quarantine/{ownerId}/{calcId}/{versionId}",
+  handler: deleteQuarantinedVersion,
+});
+
 app.http("calcs-delete", {
   methods: ["DELETE"],
   authLevel: "anonymous",
   route: "calcs/{calcId}",
   handler: deleteCalc,
 });
+
+app.http("calcs-restore", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/restore",
+  handler: restoreCalc,
+});
+
+app.http("calcs-trash-purge", {
+  methods: ["DELETE"],
+  authLevel: "anonymous",
+  route: "calcs/trash/{calcId}",
+  handler: purgeCalc,
+});
+
+// Daily at 03:30 UTC.
+app.timer("calcs-trash-expire", {
+  schedule: "0 30 3 * * *",
+  handler: purgeTrashTimer,
+});
+
+// Daily at 04:00 UTC, after the trash purge.
+app.timer("calcs-version-retention", {
+  schedule: "0 0 4 * * *",
+  handler: versionRetentionTimer,
+});
+
+app.http("calcs-organize", {
+  methods: ["PUT"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}/organization",
+  handler: organizeCalc,
+});
+
+app.http("calcs-update", {
+  methods: ["PATCH"],
+  authLevel: "anonymous",
+  route: "calcs/{calcId}",
+  handler: updateCalcMetadata,
+});
@@ -1,21 +1,54 @@
 /**
- * Purpose: Expose a health endpoint for local diagnostics with trace correlation.
- * Persists: None.
- * Security Risks: Logs request metadata and trace IDs; avoid PII.
+ * Purpose: Expose a health endpoint for local diagnostics with trace correlation, plus an admin storage consistency check.
+ * Persists: None (the storage check is a reconciliation dry run).
+ * Security Risks: Logs request metadata and trace IDs; avoid PII. The storage check scans every user, so it is admin-only.
  */
 
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
 import { logEvent } from "@promptcalc/logger";
-import { getUserContext } from "../auth";
+import { getUserContext, isAdminUser } from "../auth";
 import { getTraceId } from "../trace";
 import { resolveScanPolicyConfig } from "../generation/scanPolicy";
+import { getStorageBackend, reconcileStorage } from "../storage";
 
 const buildId = process.env.BUILD_ID || "dev";
 
+type StorageCheck =
+  | { status: "ok" | "inconsistent"; orphanBlobs: number; danglingVersions: number; pendingVersions: number }
+  | { status: "error" }
+  | { status: "skipped"; reason: "admin_only" };
+
+/** `?checks=storage`: reports inconsistencies without fixing them; `POST /api/calcs/reconcile` removes them. */
+const runStorageCheck = async (traceId: string, userId: string): Promise<StorageCheck> => {
+  if (!isAdminUser(userId)) {
+    return { status: "skipped", reason: "admin_only" };
+  }
+  try {
+    const report = await reconcileStorage(getStorageBackend(), { dryRun: true });
+    const inconsistent = report.orphanBlobs.length + report.danglingVersions.length > 0;
+    return {
+      status: inconsistent ? "inconsistent" : "ok",
+      orphanBlobs: report.orphanBlobs.length,
+      danglingVersions: report.danglingVersions.length,
+      pendingVersions: report.pendingVersions,
+    };
+  } catch (error) {
+    logEvent({
+      level: "error",
+      op: "health",
+      traceId,
+      event: "storage.check.failed",
+      message: error instanceof Error ? error.message : "unknown error",
+    });
+    return { status: "error" };
+  }
+};
+
 const toResponse = (
   traceId: string,
   authContext: { isAuthenticated: boolean; identityProvider?: string; userId?: string },
-  redTeamCapabilityAvailable: boolean
+  redTeamCapabilityAvailable: boolean,
+  checks?: { storage?: StorageCheck }
 ): HttpResponseInit => ({
   jsonBody: {
     ok: true,
@@ -24,6 +57,7 @@ const toResponse = (
     traceId,
     auth: authContext,
     redTeamCapabilityAvailable,
+    ...(checks ? { checks } : {}),
   },
   headers: {
     "content-type": "application/json",
@@ -52,11 +86,21 @@ export const health = async (
     identityProvider,
   });
 
+  const requestedChecks = (req.query.get("checks") ?? "").split(",").map((check: string) => check.trim());
+  const checks = requestedChecks.includes("storage")
+    ? {
+        storage:
+          isAuthenticated || identityProvider === "dev"
+            ? await runStorageCheck(traceId, userId)
+            : ({ status: "skipped", reason: "admin_only" } as const),
+      }
+    : undefined;
+
   const response = toResponse(traceId, {
     isAuthenticated,
     identityProvider,
     ...(isAuthenticated || identityProvider === "dev" ? { userId } : {}),
-  }, resolveScanPolicyConfig().redTeamCapabilityAvailable);
+  }, resolveScanPolicyConfig().redTeamCapabilityAvailable, checks);
   const durationMs = Date.now() - startedAt;
 
   logEvent({
@@ -66,6 +110,7 @@ export const health = async (
     event: "request.end",
     durationMs,
     status: response.status ?? 200,
+    ...(checks?.storage ? { storageCheck: checks.storage.status } : {}),
   });
 
   context.log(`health check completed in ${durationMs}ms`);
@@ -0,0 +1,86 @@
+/**
+ * Purpose: Expose the effective artifact policy (merged layers) and its content hash for diagnostics.
+ * Persists: None.
+ * Security Risks: Reveals scanner rules to signed-in users; read-only and never accepts policy input.
+ */
+
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/functions";
+import { logEvent } from "@promptcalc/logger";
+
+import { getUserContext } from "../auth";
+import { getEffectivePromptCalcPolicy, PolicyLoadError } from "../policy/policy";
+import { getTraceId } from "../trace";
+
+const jsonResponse = (traceId: string, status: number, body: unknown): HttpResponseInit => ({
+  status,
+  jsonBody: body,
+  headers: {
+    "content-type": "application/json",
+    "x-trace-id": traceId,
+    "cache-control": "no-store",
+  },
+});
+
+export const getPolicy = async (
+  req: HttpRequest,
+  context: InvocationContext
+): Promise<HttpResponseInit> => {
+  const traceId = getTraceId(req.headers.get("traceparent"));
+  const startedAt = Date.now();
+  const op = "policy.get";
+  const { userId, isAuthenticated, identityProvider } = getUserContext(req);
+
+  logEvent({
+    level: "info",
+    op,
+    traceId,
+    event: "request.start",
+    method: req.method,
+    route: "/api/policy",
+    userId,
+    isAuthenticated,
+    identityProvider,
+  });
+
+  const finish = (status: number, body: unknown): HttpResponseInit => {
+    const durationMs = Date.now() - startedAt;
+    logEvent({
+      level: status >= 400 ? "warn" : "info",
+      op,
+      traceId,
+      event: "request.end",
+      durationMs,
+      status,
+    });
+    context.log(`policy read completed in ${durationMs}ms`);
+    return jsonResponse(traceId, status, body);
+  };
+
+  if (!isAuthenticated && identityProvider !== "dev") {
+    return finish(401, { code: "UNAUTHORIZED", traceId });
+  }
+
+  try {
+    const effective = await getEffectivePromptCalcPolicy();
+    return finish(200, {
+      hash: effective.hash,
+      layers: effective.layers,
+      policy: effective.policy,
+      traceId,
+    });
+  } catch (error) {
+    return finish(500, {
+      code: "POLICY_LOAD_FAILED",
+      message:
+        error instanceof PolicyLoadError ? error.message : "Artifact policy could not be loaded.",
+      traceId,
+    });
+  }
+};
+
+app.http("policy-get", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  route: "policy",
+  handler: getPolicy,
+});
@@ -0,0 +1,88 @@
+/**
+ * Purpose: Compute canonical artifact hashes and verify stored artifacts against them on read.
+ * Persists: None.
+ * Security Risks: A mismatch means stored blobs were altered outside the API; callers must refuse to serve them.
+ */
+
+import { createHash } from "crypto";
+
+import { ARTIFACT_HASH_SCHEME, canonicalizeArtifactHtml } from "@promptcalc/manifest";
+
+export { ARTIFACT_HASH_SCHEME } from "@promptcalc/manifest";
+
+export const ARTIFACT_INTEGRITY_FAILED = "ARTIFACT_INTEGRITY_FAILED";
+
+export type ArtifactIntegrityReason =
+  | "artifact_hash_mismatch"
+  | "manifest_hash_mismatch"
+  | "spec_hash_mismatch";
+
+export type ArtifactIntegrityCheck =
+  | { ok: true }
+  | { ok: false; reason: ArtifactIntegrityReason; expected: string; actual: string };
+
+export class ArtifactIntegrityError extends Error {
+  reason: ArtifactIntegrityReason;
+
+  constructor(reason: ArtifactIntegrityReason) {
+    super(`Stored artifact failed integrity verification: ${reason}`);
+    this.name = "ArtifactIntegrityError";
+    this.reason = reason;
+  }
+}
+
+const sha256Hex = (value: string): string => createHash("sha256").update(value, "utf8").digest("hex");
+
+/** SHA-256 (hex) of the artifact with its embedded manifest removed. */
+export const computeArtifactHash = (artifactHtml: string): string =>
+  sha256Hex(canonicalizeArtifactHtml(artifactHtml));
+
+export type StoredArtifact = {
+  artifactHtml: string;
+  manifest: Record<string, unknown>;
+  artifactHash: string;
+  artifactHashScheme?: string;
+};
+
+/**
+ * Versions written before the canonical scheme only recorded a hash of the
+ * full stored HTML, and their manifest hash used a placeholder rule that
+ * cannot be recomputed, so only the entity hash is checked for them.
+ */
+export const verifyStoredArtifact = (stored: StoredArtifact): ArtifactIntegrityCheck => {
+  if (stored.artifactHashScheme !== ARTIFACT_HASH_SCHEME) {
+    const actual = sha256Hex(stored.artifactHtml);
+    return actual === stored.artifactHash
+      ? { ok: true }
+      : { ok: false, reason: "artifact_hash_mismatch", expected: stored.artifactHash, actual };
+  }
+  const actual = computeArtifactHash(stored.artifactHtml);
+  if (actual !== stored.artifactHash) {
+    return { ok: false, reason: "artifact_hash_mismatch", expected: stored.artifactHash, actual };
+  }
+  if (stored.manifest.hash !== actual) {
+    return {
+      ok: false,
+      reason: "manifest_hash_mismatch",
+      expected: actual,
+      actual: String(stored.manifest.hash ?? ""),
+    };
+  }
+  return { ok: true };
+};
+
+/** Spec versions hash the compact JSON serialization of the spec; their manifest carries the same hash. */
+export const verifyStoredSpec = (
+  spec: unknown,
+  manifest: Record<string, unknown>,
+  artifactHash: string
+): ArtifactIntegrityCheck => {
+  const actual = sha256Hex(JSON.stringify(spec));
+  if (actual !== artifactHash) {
+    return { ok: false, reason: "spec_hash_mismatch", expected: artifactHash, actual };
+  }
+  if (manifest.hash !== actual) {
+    return { ok: false, reason: "manifest_hash_mismatch", expected: actual, actual: String(manifest.hash ?? "") };
+  }
+  return { ok: true };
+};
@@ -0,0 +1,553 @@
+/**
+ * Purpose: Define the OpenAI schema, instructions, and validation for declarative calculator specs.
+ * Persists: None.
+ * Security Risks: Validates untrusted model-generated specs; formulas must stay data-only ASTs.
+ */
+
+import { evaluateNode, SafeEvaluatorError } from "@promptcalc/evaluator";
+import type {
+  CalculatorSpec,
+  CalculatorSpecInput,
+  CalculatorSpecLayoutGroup,
+  CalculatorSpecOutput,
+  FormulaNode,
+} from "@promptcalc/types";
+
+import type { ArtifactValidationError } from "./artifactOutput";
+import { MANIFEST_SPEC_VERSION } from "./manifest";
+
+export const CALCULATOR_SPEC_VERSION = "1.0";
+
+const BINARY_OPERATORS = new Set(["+", "-", "*", "/"]);
+const FORMULA_FUNCTIONS = new Set(["abs", "min", "max", "round", "floor", "ceil", "sqrt"]);
+const ID_REGEX = /^[A-Za-z][A-Za-z0-9_]{0,63}$/;
+const MAX_FIELDS = 40;
+const MAX_FORMULA_DEPTH = 24;
+const MAX_FORMULA_NODES = 200;
+const MAX_PRECISION = 10;
+
+export type CalculatorSpecValidation = {
+  spec?: CalculatorSpec;
+  errors: ArtifactValidationError[];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const formulaNodeSchema = {
+  anyOf: [
+    {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        kind: { type: "string", enum: ["number"] },
+        value: { type: "number" },
+      },
+      required: ["kind", "value"],
+    },
+    {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        kind: { type: "string", enum: ["ref"] },
+        id: { type: "string" },
+      },
+      required: ["kind", "id"],
+    },
+    {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        kind: { type: "string", enum: ["unary"] },
+        op: { type: "string", enum: ["-"] },
+        arg: { $ref: "#/$defs/formula" },
+      },
+      required: ["kind", "op", "arg"],
+    },
+    {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        kind: { type: "string", enum: ["binary"] },
+        op: { type: "string", enum: [...BINARY_OPERATORS] },
+        left: { $ref: "#/$defs/formula" },
+        right: { $ref: "#/$defs/formula" },
+      },
+      required: ["kind", "op", "left", "right"],
+    },
+    {
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        kind: { type: "string", enum: ["call"] },
+        fn: { type: "string", enum: [...FORMULA_FUNCTIONS] },
+        args: { type: "array", items: { $ref: "#/$defs/formula" } },
+      },
+      required: ["kind", "fn", "args"],
+    },
+  ],
+};
+
+export const calculatorSpecSchema = {
+  type: "object",
+  additionalProperties: false,
+  $defs: {
+    formula: formulaNodeSchema,
+  },
+  properties: {
+    specVersion: { type: "string", enum: [CALCULATOR_SPEC_VERSION] },
+    title: { type: "string" },
+    description: { type: "string" },
+    inputs: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          id: { type: "string" },
+          label: { type: "string" },
+          type: { type: "string", enum: ["number"] },
+          unit: { type: ["string", "null"] },
+          min: { type: ["number", "null"] },
+          max: { type: ["number", "null"] },
+          step: { type: ["number", "null"] },
+          default: { type: ["number", "null"] },
+        },
+        required: ["id", "label", "type", "unit", "min", "max", "step", "default"],
+      },
+    },
+    outputs: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          id: { type: "string" },
+          label: { type: "string" },
+          unit: { type: ["string", "null"] },
+          precision: { type: ["integer", "null"] },
+          formula: { $ref: "#/$defs/formula" },
+        },
+        required: ["id", "label", "unit", "precision", "formula"],
+      },
+    },
+    layout: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          id: { type: "string" },
+          title: { type: "string" },
+          fields: { type: "array", items: { type: "string" } },
+        },
+        required: ["id", "title", "fields"],
+      },
+    },
+  },
+  required: ["specVersion", "title", "description", "inputs", "outputs", "layout"],
+};
+
+export const getCalculatorSpecInstructionLines = (): string[] => [
+  "Return JSON only. No markdown. No prose.",
+  "You design declarative calculator specs for PromptCalc. You never write HTML, CSS, or JavaScript.",
+  "A trusted renderer draws the UI and computes outputs from your spec.",
+  `Set specVersion to \"${CALCULATOR_SPEC_VERSION}\".`,
+  "inputs: numeric fields with a unique id (letters, digits, underscore; starts with a letter), a label, optional unit, min, max, step and default.",
+  "outputs: computed fields with a unique id, a label, optional unit and precision (decimal places), and a formula AST.",
+  "Formula AST nodes:",
+  "- {\"kind\":\"number\",\"value\":2}",
+  "- {\"kind\":\"ref\",\"id\":\"bill\"} referencing an input id or an output id declared earlier in the outputs list.",
+  "- {\"kind\":\"unary\",\"op\":\"-\",\"arg\":<node>}",
+  `- {\"kind\":\"binary\",\"op\":\"+\",\"left\":<node>,\"right\":<node>} with op one of ${[...BINARY_OPERATORS].join(" ")}.`,
+  `- {\"kind\":\"call\",\"fn\":\"round\",\"args\":[<node>]} with fn one of ${[...FORMULA_FUNCTIONS].join(", ")}.`,
+  "layout: groups with an id, a title, and the ordered input/output ids shown in the group. Every field appears in exactly one group.",
+  "Use null for optional values you do not need.",
+  "If the request cannot be expressed as numeric inputs and formulas, output exactly: {\"error\":\"REFUSE\"}.",
+];
+
+const dropNull = <T>(value: T | null | undefined): T | undefined =>
+  value === null || value === undefined ? undefined : value;
+
+const pushError = (
+  errors: ArtifactValidationError[],
+  code: string,
+  path: string,
+  message: string
+): void => {
+  errors.push({ kind: "schema_error", code, path, message });
+};
+
+const readOptionalNumber = (
+  errors: ArtifactValidationError[],
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): number | undefined => {
+  const value = dropNull(record[key]);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    pushError(errors, `spec.${key}_invalid`, `${path}.${key}`, `${key} must be a finite number.`);
+    return undefined;
+  }
+  return value;
+};
+
+const readOptionalString = (
+  errors: ArtifactValidationError[],
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): string | undefined => {
+  const value = dropNull(record[key]);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    pushError(errors, `spec.${key}_invalid`, `${path}.${key}`, `${key} must be a string.`);
+    return undefined;
+  }
+  return value.trim().length > 0 ? value : undefined;
+};
+
+const validateFormula = (
+  errors: ArtifactValidationError[],
+  node: unknown,
+  path: string,
+  knownIds: Set<string>,
+  budget: { nodes: number },
+  depth = 0
+): FormulaNode | null => {
+  budget.nodes += 1;
+  if (depth > MAX_FORMULA_DEPTH || budget.nodes > MAX_FORMULA_NODES) {
+    pushError(errors, "spec.formula_too_complex", path, "Formula exceeds depth or size limits.");
+    return null;
+  }
+  if (!isRecord(node)) {
+    pushError(errors, "spec.formula_invalid", path, "Formula node must be an object.");
+    return null;
+  }
+
+  switch (node.kind) {
+    case "number":
+      if (typeof node.value !== "number" || !Number.isFinite(node.value)) {
+        pushError(errors, "spec.formula_number_invalid", path, "Number nodes need a finite value.");
+        return null;
+      }
+      return { kind: "number", value: node.value };
+    case "ref":
+      if (typeof node.id !== "string" || !knownIds.has(node.id)) {
+        pushError(
+          errors,
+          "spec.formula_ref_unknown",
+          path,
+          `Reference must name an input or an earlier output: ${String(node.id)}`
+        );
+        return null;
+      }
+      return { kind: "ref", id: node.id };
+    case "unary": {
+      if (node.op !== "-") {
+        pushError(errors, "spec.formula_operator_invalid", path, "Unary nodes only support '-'.");
+        return null;
+      }
+      const arg = validateFormula(errors, node.arg, `${path}.arg`, knownIds, budget, depth + 1);
+      return arg ? { kind: "unary", op: "-", arg } : null;
+    }
+    case "binary": {
+      if (typeof node.op !== "string" || !BINARY_OPERATORS.has(node.op)) {
+        pushError(errors, "spec.formula_operator_invalid", path, `Unsupported operator: ${String(node.op)}`);
+        return null;
+      }
+      const left = validateFormula(errors, node.left, `${path}.left`, knownIds, budget, depth + 1);
+      const right = validateFormula(errors, node.right, `${path}.right`, knownIds, budget, depth + 1);
+      return left && right
+        ? { kind: "binary", op: node.op as "+" | "-" | "*" | "/", left, right }
+        : null;
+    }
+    case "call": {
+      if (typeof node.fn !== "string" || !FORMULA_FUNCTIONS.has(node.fn)) {
+        pushError(errors, "spec.formula_function_invalid", path, `Unsupported function: ${String(node.fn)}`);
+        return null;
+      }
+      if (!Array.isArray(node.args) || node.args.length === 0) {
+        pushError(errors, "spec.formula_args_invalid", `${path}.args`, "Function calls need at least one argument.");
+        return null;
+      }
+      const args = node.args.map((arg, index) =>
+        validateFormula(errors, arg, `${path}.args[${index}]`, knownIds, budget, depth + 1)
+      );
+      if (args.some((arg) => arg === null)) {
+        return null;
+      }
+      return {
+        kind: "call",
+        fn: node.fn as Extract<FormulaNode, { kind: "call" }>["fn"],
+        args: args as FormulaNode[],
+      };
+    }
+    default:
+      pushError(errors, "spec.formula_kind_invalid", path, `Unsupported formula node kind: ${String(node.kind)}`);
+      return null;
+  }
+};
+
+const validateInputs = (
+  errors: ArtifactValidationError[],
+  value: unknown,
+  seenIds: Set<string>
+): CalculatorSpecInput[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    pushError(errors, "spec.inputs_missing", "$.inputs", "inputs must be a non-empty array.");
+    return [];
+  }
+
+  const inputs: CalculatorSpecInput[] = [];
+  value.forEach((entry, index) => {
+    const path = `$.inputs[${index}]`;
+    if (!isRecord(entry)) {
+      pushError(errors, "spec.input_invalid", path, "Input must be an object.");
+      return;
+    }
+    if (typeof entry.id !== "string" || !ID_REGEX.test(entry.id) || seenIds.has(entry.id)) {
+      pushError(errors, "spec.id_invalid", `${path}.id`, "Input ids must be unique identifiers.");
+      return;
+    }
+    if (!isNonEmptyString(entry.label)) {
+      pushError(errors, "spec.label_missing", `${path}.label`, "Inputs need a label.");
+      return;
+    }
+    if (entry.type !== "number") {
+      pushError(errors, "spec.input_type_invalid", `${path}.type`, "Only number inputs are supported.");
+      return;
+    }
+    seenIds.add(entry.id);
+    const input: CalculatorSpecInput = { id: entry.id, label: entry.label, type: "number" };
+    const unit = readOptionalString(errors, entry, "unit", path);
+    const min = readOptionalNumber(errors, entry, "min", path);
+    const max = readOptionalNumber(errors, entry, "max", path);
+    const step = readOptionalNumber(errors, entry, "step", path);
+    const defaultValue = readOptionalNumber(errors, entry, "default", path);
+    if (min !== undefined && max !== undefined && min > max) {
+      pushError(errors, "spec.range_invalid", path, "min must not exceed max.");
+    }
+    inputs.push({
+      ...input,
+      ...(unit !== undefined ? { unit } : {}),
+      ...(min !== undefined ? { min } : {}),
+      ...(max !== undefined ? { max } : {}),
+      ...(step !== undefined ? { step } : {}),
+      ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+    });
+  });
+  return inputs;
+};
+
+const validateOutputs = (
+  errors: ArtifactValidationError[],
+  value: unknown,
+  seenIds: Set<string>
+): CalculatorSpecOutput[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    pushError(errors, "spec.outputs_missing", "$.outputs", "outputs must be a non-empty array.");
+    return [];
+  }
+
+  const outputs: CalculatorSpecOutput[] = [];
+  value.forEach((entry, index) => {
+    const path = `$.outputs[${index}]`;
+    if (!isRecord(entry)) {
+      pushError(errors, "spec.output_invalid", path, "Output must be an object.");
+      return;
+    }
+    if (typeof entry.id !== "string" || !ID_REGEX.test(entry.id) || seenIds.has(entry.id)) {
+      pushError(errors, "spec.id_invalid", `${path}.id`, "Output ids must be unique identifiers.");
+      return;
+    }
+    if (!isNonEmptyString(entry.label)) {
+      pushError(errors, "spec.label_missing", `${path}.label`, "Outputs need a label.");
+      return;
+    }
+    const formula = validateFormula(errors, entry.formula, `${path}.formula`, seenIds, { nodes: 0 });
+    seenIds.add(entry.id);
+    if (!formula) {
+      return;
+    }
+    const unit = readOptionalString(errors, entry, "unit", path);
+    const precision = readOptionalNumber(errors, entry, "precision", path);
+    if (
+      precision !== undefined &&
+      (!Number.isInteger(precision) || precision < 0 || precision > MAX_PRECISION)
+    ) {
+      pushError(errors, "spec.precision_invalid", `${path}.precision`, `precision must be an integer from 0 to ${MAX_PRECISION}.`);
+    }
+    outputs.push({
+      id: entry.id,
+      label: entry.label,
+      formula,
+      ...(unit !== undefined ? { unit } : {}),
+      ...(precision !== undefined ? { precision } : {}),
+    });
+  });
+  return outputs;
+};
+
+const validateLayout = (
+  errors: ArtifactValidationError[],
+  value: unknown,
+  fieldIds: Set<string>
+): CalculatorSpecLayoutGroup[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    pushError(errors, "spec.layout_missing", "$.layout", "layout must be a non-empty array.");
+    return [];
+  }
+
+  const placed = new Set<string>();
+  const groups: CalculatorSpecLayoutGroup[] = [];
+  value.forEach((entry, index) => {
+    const path = `$.layout[${index}]`;
+    if (!isRecord(entry) || !isNonEmptyString(entry.id) || typeof entry.title !== "string") {
+      pushError(errors, "spec.layout_group_invalid", path, "Layout groups need an id and title.");
+      return;
+    }
+    if (!Array.isArray(entry.fields)) {
+      pushError(errors, "spec.layout_fields_invalid", `${path}.fields`, "Layout fields must be an array.");
+      return;
+    }
+    const fields: string[] = [];
+    entry.fields.forEach((field, fieldIndex) => {
+      if (typeof field !== "string" || !fieldIds.has(field) || placed.has(field)) {
+        pushError(
+          errors,
+          "spec.layout_field_invalid",
+          `${path}.fields[${fieldIndex}]`,
+          `Layout fields must reference each input/output once: ${String(field)}`
+        );
+        return;
+      }
+      placed.add(field);
+      fields.push(field);
+    });
+    groups.push({ id: entry.id, title: entry.title, fields });
+  });
+
+  for (const fieldId of fieldIds) {
+    if (!placed.has(fieldId)) {
+      pushError(errors, "spec.layout_field_unplaced", "$.layout", `Field is not placed in any layout group: ${fieldId}`);
+    }
+  }
+  return groups;
+};
+
+const pickSampleValue = (input: CalculatorSpecInput): number => {
+  if (input.default !== undefined) {
+    return input.default;
+  }
+  const lower = input.min ?? Number.NEGATIVE_INFINITY;
+  const upper = input.max ?? Number.POSITIVE_INFINITY;
+  return Math.min(Math.max(1, lower), upper);
+};
+
+/**
+ * Evaluates every output with sample input values through the shared SafeEvaluator.
+ * Input-dependent failures (division by zero, non-finite results) are tolerated; structural
+ * failures such as wrong function arity are reported as validation errors.
+ */
+const validateSampleOutputs = (
+  errors: ArtifactValidationError[],
+  inputs: CalculatorSpecInput[],
+  outputs: CalculatorSpecOutput[]
+): void => {
+  const variables: Record<string, number> = {};
+  for (const input of inputs) {
+    variables[input.id] = pickSampleValue(input);
+  }
+  outputs.forEach((output, index) => {
+    try {
+      variables[output.id] = evaluateNode(output.formula, { variables }).value;
+    } catch (error) {
+      if (
+        error instanceof SafeEvaluatorError &&
+        (error.code === "DIVISION_BY_ZERO" || error.code === "NON_FINITE_RESULT")
+      ) {
+        variables[output.id] = 0;
+        return;
+      }
+      pushError(
+        errors,
+        "spec.sample_evaluation_failed",
+        `$.outputs[${index}].formula`,
+        error instanceof Error ? error.message : "Formula could not be evaluated."
+      );
+    }
+  });
+};
+
+export const validateCalculatorSpec = (value: unknown): CalculatorSpecValidation => {
+  const errors: ArtifactValidationError[] = [];
+  if (!isRecord(value)) {
+    pushError(errors, "spec.not_object", "$", "Calculator spec must be an object.");
+    return { errors };
+  }
+
+  if (value.specVersion !== CALCULATOR_SPEC_VERSION) {
+    pushError(errors, "spec.specVersion_invalid", "$.specVersion", `specVersion must be ${CALCULATOR_SPEC_VERSION}.`);
+  }
+  if (!isNonEmptyString(value.title)) {
+    pushError(errors, "spec.title_missing", "$.title", "title is required.");
+  }
+  const description = typeof value.description === "string" ? value.description : "";
+
+  const seenIds = new Set<string>();
+  const inputs = validateInputs(errors, value.inputs, seenIds);
+  const outputs = validateOutputs(errors, value.outputs, seenIds);
+  if (inputs.length + outputs.length > MAX_FIELDS) {
+    pushError(errors, "spec.too_many_fields", "$", `Specs support at most ${MAX_FIELDS} fields.`);
+  }
+  const fieldIds = new Set([...inputs.map((input) => input.id), ...outputs.map((output) => output.id)]);
+  const layout = validateLayout(errors, value.layout, fieldIds);
+  if (errors.length === 0) {
+    validateSampleOutputs(errors, inputs, outputs);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    errors,
+    spec: {
+      specVersion: CALCULATOR_SPEC_VERSION,
+      title: (value.title as string).trim(),
+      description,
+      inputs,
+      outputs,
+      layout,
+    },
+  };
+};
+
+export const isCalculatorSpecCandidate = (value: unknown): boolean =>
+  isRecord(value) &&
+  (value.error === "REFUSE" || (Array.isArray(value.inputs) && Array.isArray(value.outputs)));
+
+export const buildManifestFromSpec = (
+  spec: CalculatorSpec,
+  hash: string
+): Record<string, unknown> => ({
+  specVersion: MANIFEST_SPEC_VERSION,
+  title: spec.title,
+  description: spec.description.trim().length > 0 ? spec.description : spec.title,
+  executionModel: "form",
+  capabilities: { network: false, storage: false, dynamicCode: false },
+  inputs: spec.inputs.map((input) => ({ ...input })),
+  outputs: spec.outputs.map(({ formula: _formula, ...output }) => output),
+  limitations: [],
+  safetyNotes: ["Rendered from a declarative spec by the trusted PromptCalc renderer."],
+  hash,
+});
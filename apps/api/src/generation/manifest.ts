@@ -0,0 +1,119 @@
+/**
+ * Purpose: Normalize generated manifests and upgrade legacy 1.1 manifests read from storage.
+ * Persists: None.
+ * Security Risks: Upgraded manifests keep declared capabilities so schema validation still rejects them.
+ */
+
+import { normalizeTestVectors } from "../sandbox/selfTest";
+
+export {
+  createEmbeddedManifestRegex,
+  getManifestValidationIssue,
+  validateManifest,
+  type ManifestValidationError,
+  type ManifestValidationOptions,
+} from "@promptcalc/manifest";
+
+// Duplicated from @promptcalc/types: the API only imports types from that ESM package.
+export const MANIFEST_SPEC_VERSION = "1.2";
+export const LEGACY_MANIFEST_SPEC_VERSION = "1.1";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+const withoutNulls = (value: unknown): unknown => {
+  if (!isRecord(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== null));
+};
+
+/**
+ * Drops the `null` placeholders the strict generation schema forces for
+ * optional descriptor and test vector fields.
+ */
+export const normalizeGeneratedManifest = (
+  manifest: Record<string, unknown>
+): Record<string, unknown> => {
+  const normalized: Record<string, unknown> = { ...manifest };
+  if (Array.isArray(manifest.inputs)) {
+    normalized.inputs = manifest.inputs.map(withoutNulls);
+  }
+  if (Array.isArray(manifest.outputs)) {
+    normalized.outputs = manifest.outputs.map(withoutNulls);
+  }
+  const testVectors = normalizeTestVectors(manifest.testVectors);
+  if (!testVectors.issue && manifest.testVectors !== undefined) {
+    normalized.testVectors = testVectors.vectors;
+  }
+  return normalized;
+};
+
+const toDescriptorId = (label: string, index: number, used: Set<string>): string => {
+  const words = label
+    .replace(/[^A-Za-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  const camel = words
+    .map((word, position) =>
+      position === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()
+    )
+    .join("");
+  let id = /^[A-Za-z]/.test(camel) ? camel : `field${index + 1}`;
+  while (used.has(id)) {
+    id = `${id}${index + 1}`;
+  }
+  used.add(id);
+  return id;
+};
+
+const upgradeLabels = (value: unknown): Array<{ id: string; label: string }> => {
+  const used = new Set<string>();
+  return isStringArray(value)
+    ? value
+        .filter((label) => label.trim().length > 0)
+        .map((label, index) => ({ id: toDescriptorId(label, index, used), label }))
+    : [];
+};
+
+/**
+ * Upgrades a legacy 1.1 manifest (string inputs/outputs, array or object
+ * capabilities, optional descriptive fields) to the 1.2 shape. Capabilities
+ * that were declared on are preserved so validation still rejects them.
+ */
+export const upgradeLegacyManifest = (manifest: Record<string, unknown>): Record<string, unknown> => {
+  const legacyCapabilities = manifest.capabilities;
+  const hasCapability = (name: string) =>
+    Array.isArray(legacyCapabilities)
+      ? legacyCapabilities.includes(name)
+      : isRecord(legacyCapabilities) && legacyCapabilities[name] === true;
+  const title = typeof manifest.title === "string" ? manifest.title : "";
+  return {
+    specVersion: MANIFEST_SPEC_VERSION,
+    title,
+    description: isNonEmptyString(manifest.description) ? manifest.description : title,
+    executionModel: manifest.executionModel,
+    capabilities: {
+      network: hasCapability("network"),
+      storage: hasCapability("storage"),
+      dynamicCode: hasCapability("dynamicCode"),
+    },
+    inputs: upgradeLabels(manifest.inputs).map((input) => ({ ...input, type: "number" })),
+    outputs: upgradeLabels(manifest.outputs),
+    limitations: isStringArray(manifest.limitations) ? manifest.limitations : [],
+    safetyNotes: isStringArray(manifest.safetyNotes) ? manifest.safetyNotes : [],
+    ...(manifest.testVectors !== undefined ? { testVectors: manifest.testVectors } : {}),
+    ...(manifest.hash !== undefined ? { hash: manifest.hash } : {}),
+  };
+};
+
+/** Reads a manifest from storage or a client, upgrading 1.1 manifests; other versions pass through unchanged. */
+export const readManifest = (manifest: Record<string, unknown>): Record<string, unknown> =>
+  manifest.specVersion === LEGACY_MANIFEST_SPEC_VERSION ? upgradeLegacyManifest(manifest) : manifest;
@@ -0,0 +1,65 @@
+/**
+ * Purpose: Build model context for refining an existing calculator version.
+ * Persists: None.
+ * Security Risks: Feeds previously stored (untrusted) artifact content back to the model; output is still fully rescanned.
+ */
+
+import type { CalculatorSpec } from "@promptcalc/types";
+
+export const MAX_REFINEMENT_HISTORY = 5;
+export const MAX_BASE_ARTIFACT_CHARS = 60000;
+
+export type RefinementBase = {
+  calcId: string;
+  versionId: string;
+  /** Prompts from the oldest ancestor to the base version itself. */
+  promptHistory: string[];
+  manifest: Record<string, unknown>;
+  artifactHtml?: string;
+  spec?: CalculatorSpec;
+};
+
+const buildPromptHistoryLines = (base: RefinementBase): string[] => {
+  if (base.promptHistory.length === 0) {
+    return ["Previous prompts: (none recorded)"];
+  }
+  return [
+    "Previous prompts (oldest first):",
+    ...base.promptHistory.map((entry, index) => `${index + 1}. ${entry}`),
+  ];
+};
+
+/** Lines prepended to the generation user message when refining an existing artifact. */
+export const buildArtifactRefinementLines = (base: RefinementBase): string[] => {
+  const lines = [
+    "You are refining an existing PromptCalc calculator. Keep its layout, field names, ids, and behavior unless the new prompt asks to change them.",
+    "Regenerate the full artifact; do not return a patch or diff.",
+    ...buildPromptHistoryLines(base),
+    "Previous manifest:",
+    JSON.stringify(base.manifest),
+  ];
+  const html = base.artifactHtml ?? "";
+  if (html.length === 0) {
+    lines.push("Previous artifact HTML: (unavailable)");
+  } else if (html.length > MAX_BASE_ARTIFACT_CHARS) {
+    lines.push(
+      `Previous artifact HTML is ${html.length} characters and was omitted; rebuild it from the manifest and prompts.`
+    );
+  } else {
+    lines.push("Previous artifact HTML:", html);
+  }
+  lines.push("The prompt below describes the requested change.", "");
+  return lines;
+};
+
+/** Lines prepended to the spec user message when refining an existing declarative spec. */
+export const buildSpecRefinementLines = (base: RefinementBase): string[] => [
+  "You are refining an existing PromptCalc calculator spec. Keep existing input/output ids, labels, and layout groups unless the new prompt asks to change them.",
+  "Return the complete updated spec.",
+  ...buildPromptHistoryLines(base),
+  "Previous manifest:",
+  JSON.stringify(base.manifest),
+  base.spec ? `Previous spec:\n${JSON.stringify(base.spec)}` : "Previous spec: (unavailable; base was an HTML artifact)",
+  "The prompt below describes the requested change.",
+  "",
+];
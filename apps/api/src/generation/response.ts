@@ -4,17 +4,25 @@
  * Security Risks: Shapes refusal payloads returned to clients; avoid exposing secrets.
  */
 
-import type { RefusalCode } from "@promptcalc/types";
+import type { CalculatorSpec, RefusalCode, RenderMode } from "@promptcalc/types";
 
+import type { ScanFinding } from "../policy/scanner";
+import type { SelfTestSummary } from "../sandbox/selfTest";
 import type { AiScanIssueSummary } from "./aiScan";
 
+/** AI scan issues, or every deterministic policy finding for scanner refusals. */
+export type RefusalDetail = AiScanIssueSummary | ScanFinding;
+
 export type RefusalReason = {
   code: RefusalCode | string;
   message: string;
   safeAlternative: string;
   matchIndex?: number;
+  /** 1-based position of the first scan finding in the artifact HTML. */
+  line?: number;
+  column?: number;
   contextSnippet?: string;
-  details?: AiScanIssueSummary[];
+  details?: RefusalDetail[];
 };
 
 export type GenerateOkResponse = {
@@ -22,10 +30,14 @@ export type GenerateOkResponse = {
   status: "ok";
   calcId: string;
   versionId: string;
+  renderMode: RenderMode;
   manifest: Record<string, unknown>;
   artifactHtml: string;
+  spec?: CalculatorSpec;
   overrideUsed: boolean;
   scanOutcome: "allow" | "deny" | "skipped";
+  versionStatus?: "ok" | "quarantined";
+  selfTest?: SelfTestSummary;
 };
 
 export type GenerateScanBlockResponse = {
@@ -77,12 +89,33 @@ export const buildGenerateOkResponse = (
   status: "ok",
   calcId,
   versionId,
+  renderMode: "artifact",
   manifest,
   artifactHtml,
   scanOutcome,
   overrideUsed,
 });
 
+export const buildGenerateSpecOkResponse = (
+  calcId: string,
+  versionId: string,
+  manifest: Record<string, unknown>,
+  spec: CalculatorSpec,
+  scanOutcome: "allow" | "deny" | "skipped",
+  overrideUsed: boolean
+): GenerateOkResponse => ({
+  kind: "ok",
+  status: "ok",
+  calcId,
+  versionId,
+  renderMode: "spec",
+  manifest,
+  artifactHtml: "",
+  spec,
+  scanOutcome,
+  overrideUsed,
+});
+
 export const buildGenerateScanBlockResponse = (
   reason: RefusalReason
 ): GenerateScanBlockResponse => ({
@@ -0,0 +1,368 @@
+/**
+ * Purpose: Compare two stored calculator versions: manifest fields, normalized artifact (or spec) text, and recorded
+ * scan findings.
+ * Persists: None.
+ * Security Risks: Diff lines carry untrusted artifact text; clients must render them as text, never as HTML.
+ */
+
+import { canonicalizeArtifactHtml } from "@promptcalc/manifest";
+import type { CalculatorSpec } from "@promptcalc/types";
+
+import type { ScanFinding } from "../policy/scanner";
+
+/** Larger inputs skip the line diff and report every line as replaced. */
+export const MAX_DIFF_LINES = 20000;
+/** Edit distance at which the line diff gives up; keeps the O(ND) search bounded. */
+export const MAX_DIFF_EDITS = 2000;
+/** Caps the changed lines returned across all hunks; context lines come on top. */
+export const MAX_DIFF_OUTPUT_LINES = 4000;
+const DIFF_CONTEXT_LINES = 3;
+
+const MANIFEST_SCALAR_FIELDS = ["title", "description", "executionModel", "specVersion", "capabilities"] as const;
+
+export type VersionDiffSide = {
+  versionId: string;
+  manifest: Record<string, unknown>;
+  artifactHtml?: string;
+  spec?: CalculatorSpec;
+  scanStatus?: string;
+  policyHash?: string;
+  findings: ScanFinding[];
+};
+
+export type ManifestEntryRef = { id: string; label?: string };
+
+export type ManifestEntriesDiff = {
+  added: ManifestEntryRef[];
+  removed: ManifestEntryRef[];
+  /** Entries present in both versions with the names of the properties that differ. */
+  changed: Array<ManifestEntryRef & { fields: string[] }>;
+};
+
+export type ManifestListDiff = {
+  added: string[];
+  removed: string[];
+};
+
+export type ManifestDiff = {
+  fields: Array<{ field: string; from?: unknown; to?: unknown }>;
+  inputs: ManifestEntriesDiff;
+  outputs: ManifestEntriesDiff;
+  limitations: ManifestListDiff;
+  safetyNotes: ManifestListDiff;
+};
+
+export type TextDiffLine = {
+  op: "equal" | "add" | "remove";
+  text: string;
+  /** 1-based line in the normalized `from` text; absent on added lines. */
+  fromLine?: number;
+  /** 1-based line in the normalized `to` text; absent on removed lines. */
+  toLine?: number;
+};
+
+export type TextDiff = {
+  /** "spec" when either version is a declarative spec; its pretty-printed JSON is compared instead of HTML. */
+  kind: "html" | "spec";
+  identical: boolean;
+  added: number;
+  removed: number;
+  /** Changed lines with surrounding context; unchanged stretches between hunks are omitted. */
+  hunks: Array<{ lines: TextDiffLine[] }>;
+  /** Set when the inputs were too large or too different for a line diff, or the output was capped. */
+  truncated: boolean;
+};
+
+export type ScanFindingsDiff = {
+  from: { status?: string; policyHash?: string };
+  to: { status?: string; policyHash?: string };
+  added: ScanFinding[];
+  removed: ScanFinding[];
+  unchanged: number;
+};
+
+export type VersionDiff = {
+  from: string;
+  to: string;
+  manifest: ManifestDiff;
+  text: TextDiff;
+  scan: ScanFindingsDiff;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+// Key order is irrelevant to a manifest, so values are compared in a canonical form.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (isRecord(value)) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+};
+
+const readEntries = (manifest: Record<string, unknown>, field: "inputs" | "outputs") => {
+  const entries = new Map<string, Record<string, unknown>>();
+  const list = manifest[field];
+  if (Array.isArray(list)) {
+    for (const entry of list) {
+      if (isRecord(entry) && typeof entry.id === "string") {
+        entries.set(entry.id, entry);
+      }
+    }
+  }
+  return entries;
+};
+
+const toEntryRef = (entry: Record<string, unknown>): ManifestEntryRef => ({
+  id: entry.id as string,
+  ...(typeof entry.label === "string" ? { label: entry.label } : {}),
+});
+
+const diffEntries = (
+  from: Record<string, unknown>,
+  to: Record<string, unknown>,
+  field: "inputs" | "outputs"
+): ManifestEntriesDiff => {
+  const fromEntries = readEntries(from, field);
+  const toEntries = readEntries(to, field);
+  const diff: ManifestEntriesDiff = { added: [], removed: [], changed: [] };
+  for (const [id, entry] of fromEntries) {
+    if (!toEntries.has(id)) {
+      diff.removed.push(toEntryRef(entry));
+    }
+  }
+  for (const [id, entry] of toEntries) {
+    const previous = fromEntries.get(id);
+    if (!previous) {
+      diff.added.push(toEntryRef(entry));
+      continue;
+    }
+    const fields = [...new Set([...Object.keys(previous), ...Object.keys(entry)])]
+      .filter((key) => stableStringify(previous[key]) !== stableStringify(entry[key]))
+      .sort();
+    if (fields.length > 0) {
+      diff.changed.push({ ...toEntryRef(entry), fields });
+    }
+  }
+  return diff;
+};
+
+const readStrings = (manifest: Record<string, unknown>, field: string): string[] => {
+  const list = manifest[field];
+  return Array.isArray(list) ? list.filter((item): item is string => typeof item === "string") : [];
+};
+
+const diffStrings = (from: string[], to: string[]): ManifestListDiff => ({
+  added: to.filter((item) => !from.includes(item)),
+  removed: from.filter((item) => !to.includes(item)),
+});
+
+export const diffManifests = (from: Record<string, unknown>, to: Record<string, unknown>): ManifestDiff => ({
+  fields: MANIFEST_SCALAR_FIELDS.filter((field) => stableStringify(from[field]) !== stableStringify(to[field])).map(
+    (field) => ({
+      field,
+      ...(from[field] !== undefined ? { from: from[field] } : {}),
+      ...(to[field] !== undefined ? { to: to[field] } : {}),
+    })
+  ),
+  inputs: diffEntries(from, to, "inputs"),
+  outputs: diffEntries(from, to, "outputs"),
+  limitations: diffStrings(readStrings(from, "limitations"), readStrings(to, "limitations")),
+  safetyNotes: diffStrings(readStrings(from, "safetyNotes"), readStrings(to, "safetyNotes")),
+});
+
+/**
+ * One tag or statement per line: the embedded manifest is removed (it is diffed separately), tags are split onto
+ * their own lines, and indentation and blank lines are dropped so reformatting alone shows no change.
+ */
+export const normalizeArtifactText = (artifactHtml: string): string[] =>
+  canonicalizeArtifactHtml(artifactHtml)
+    .replace(/\r\n?/g, "\n")
+    .replace(/>\s*</g, ">\n<")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const sideText = (side: VersionDiffSide, kind: TextDiff["kind"]): string[] => {
+  if (kind === "spec") {
+    return side.spec ? JSON.stringify(side.spec, null, 2).split("\n") : [];
+  }
+  return normalizeArtifactText(side.artifactHtml ?? "");
+};
+
+type EditOp = { op: TextDiffLine["op"]; fromIndex: number; toIndex: number };
+
+/** Myers' O(ND) line diff; returns null when the edit distance exceeds `maxEdits`. */
+const diffLineArrays = (a: string[], b: string[], maxEdits: number): EditOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d][k + d] holds the furthest x reached on diagonal k after d edits.
+  const trace: Int32Array[] = [];
+  let finalD = -1;
+
+  for (let d = 0; d <= Math.min(n + m, maxEdits) && finalD < 0; d += 1) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        d === 0
+          ? 0
+          : k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+            ? v[offset + k + 1]
+            : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        finalD = d;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  if (finalD < 0) {
+    return null;
+  }
+
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = finalD; d > 0; d -= 1) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      x -= 1;
+      y -= 1;
+      ops.push({ op: "equal", fromIndex: x, toIndex: y });
+    }
+    if (x === previousX) {
+      y -= 1;
+      ops.push({ op: "add", fromIndex: x, toIndex: y });
+    } else {
+      x -= 1;
+      ops.push({ op: "remove", fromIndex: x, toIndex: y });
+    }
+  }
+  while (x > 0 && y > 0) {
+    x -= 1;
+    y -= 1;
+    ops.push({ op: "equal", fromIndex: x, toIndex: y });
+  }
+  return ops.reverse();
+};
+
+const toDiffLine = (op: EditOp, a: string[], b: string[]): TextDiffLine =>
+  op.op === "add"
+    ? { op: "add", text: b[op.toIndex], toLine: op.toIndex + 1 }
+    : op.op === "remove"
+      ? { op: "remove", text: a[op.fromIndex], fromLine: op.fromIndex + 1 }
+      : { op: "equal", text: a[op.fromIndex], fromLine: op.fromIndex + 1, toLine: op.toIndex + 1 };
+
+export const diffTexts = (a: string[], b: string[], kind: TextDiff["kind"] = "html"): TextDiff => {
+  const tooLarge = a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES;
+  const computed = tooLarge ? null : diffLineArrays(a, b, MAX_DIFF_EDITS);
+  const ops: EditOp[] = computed ?? [
+    ...a.map((_, index) => ({ op: "remove" as const, fromIndex: index, toIndex: 0 })),
+    ...b.map((_, index) => ({ op: "add" as const, fromIndex: a.length, toIndex: index })),
+  ];
+
+  // Changed lines plus DIFF_CONTEXT_LINES of context on each side; touching ranges merge into one hunk.
+  const shown = new Uint8Array(ops.length);
+  let changes = 0;
+  let truncated = computed === null && ops.length > 0;
+  ops.forEach((op, index) => {
+    if (op.op === "equal") {
+      return;
+    }
+    if (changes >= MAX_DIFF_OUTPUT_LINES) {
+      truncated = true;
+      return;
+    }
+    changes += 1;
+    const from = Math.max(0, index - DIFF_CONTEXT_LINES);
+    const to = Math.min(ops.length - 1, index + DIFF_CONTEXT_LINES);
+    for (let contextIndex = from; contextIndex <= to; contextIndex += 1) {
+      shown[contextIndex] = 1;
+    }
+  });
+  const hunks: TextDiff["hunks"] = [];
+  ops.forEach((op, index) => {
+    if (!shown[index]) {
+      return;
+    }
+    if (index === 0 || !shown[index - 1]) {
+      hunks.push({ lines: [] });
+    }
+    hunks[hunks.length - 1].lines.push(toDiffLine(op, a, b));
+  });
+
+  const added = ops.filter((op) => op.op === "add").length;
+  const removed = ops.filter((op) => op.op === "remove").length;
+  return { kind, identical: added + removed === 0, added, removed, hunks, truncated };
+};
+
+// Positions shift with unrelated edits, so findings are matched by rule and snippet.
+const findingKey = (finding: ScanFinding): string =>
+  `${finding.ruleId ?? finding.code}\u0000${finding.contextSnippet ?? finding.message}`;
+
+export const diffScanFindings = (from: VersionDiffSide, to: VersionDiffSide): ScanFindingsDiff => {
+  const remaining = new Map<string, number>();
+  for (const finding of from.findings) {
+    remaining.set(findingKey(finding), (remaining.get(findingKey(finding)) ?? 0) + 1);
+  }
+  const added: ScanFinding[] = [];
+  let unchanged = 0;
+  for (const finding of to.findings) {
+    const count = remaining.get(findingKey(finding)) ?? 0;
+    if (count > 0) {
+      remaining.set(findingKey(finding), count - 1);
+      unchanged += 1;
+    } else {
+      added.push(finding);
+    }
+  }
+  const removed = from.findings.filter((finding) => {
+    const count = remaining.get(findingKey(finding)) ?? 0;
+    if (count === 0) {
+      return false;
+    }
+    remaining.set(findingKey(finding), count - 1);
+    return true;
+  });
+  return {
+    from: {
+      ...(from.scanStatus ? { status: from.scanStatus } : {}),
+      ...(from.policyHash ? { policyHash: from.policyHash } : {}),
+    },
+    to: {
+      ...(to.scanStatus ? { status: to.scanStatus } : {}),
+      ...(to.policyHash ? { policyHash: to.policyHash } : {}),
+    },
+    added,
+    removed,
+    unchanged,
+  };
+};
+
+export const buildVersionDiff = (from: VersionDiffSide, to: VersionDiffSide): VersionDiff => {
+  const kind: TextDiff["kind"] = from.spec || to.spec ? "spec" : "html";
+  return {
+    from: from.versionId,
+    to: to.versionId,
+    manifest: diffManifests(from.manifest, to.manifest),
+    text: diffTexts(sideText(from, kind), sideText(to, kind), kind),
+    scan: diffScanFindings(from, to),
+  };
+};
@@ -10,3 +10,4 @@ validateOpenAIConfig();
 
 import "./functions/health";
 import "./functions/calcs";
+import "./functions/policy";
@@ -0,0 +1,285 @@
+/**
+ * Purpose: Tokenize untrusted artifact HTML into tags, attributes, text, and raw script/style bodies with source offsets.
+ * Persists: None.
+ * Security Risks: Mirrors browser tokenization closely enough that case, whitespace, and entity tricks cannot hide markup from the scanner.
+ */
+
+/** Decoded text plus the source offset of every decoded character. */
+export type DecodedText = {
+  text: string;
+  offsets: number[];
+};
+
+export type HtmlAttribute = {
+  /** Lowercased attribute name. */
+  name: string;
+  /** Entity-decoded value (empty for bare attributes). */
+  value: DecodedText;
+  offset: number;
+};
+
+export type HtmlToken =
+  | {
+      type: "startTag";
+      /** Lowercased tag name. */
+      name: string;
+      attributes: HtmlAttribute[];
+      offset: number;
+      end: number;
+    }
+  | { type: "endTag"; name: string; offset: number; end: number }
+  | { type: "text"; value: DecodedText; offset: number; end: number }
+  /** Body of a script/style-like element, never entity-decoded. */
+  | { type: "rawText"; element: string; value: DecodedText; offset: number; end: number }
+  | { type: "comment"; offset: number; end: number };
+
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "xmp", "iframe", "noembed", "noframes", "noscript"]);
+const RCDATA_ELEMENTS = new Set(["textarea", "title"]);
+
+// Enough of the HTML5 named reference table to cover markup and JS punctuation obfuscation.
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: "\u00a0",
+  tab: "\t",
+  newline: "\n",
+  excl: "!",
+  num: "#",
+  dollar: "$",
+  percnt: "%",
+  lpar: "(",
+  rpar: ")",
+  ast: "*",
+  plus: "+",
+  comma: ",",
+  period: ".",
+  sol: "/",
+  colon: ":",
+  semi: ";",
+  equals: "=",
+  quest: "?",
+  commat: "@",
+  lsqb: "[",
+  lbrack: "[",
+  bsol: "\\",
+  rsqb: "]",
+  rbrack: "]",
+  lowbar: "_",
+  grave: "`",
+  lcub: "{",
+  lbrace: "{",
+  verbar: "|",
+  vert: "|",
+  rcub: "}",
+  rbrace: "}",
+};
+
+const isWhitespace = (char: string | undefined): boolean =>
+  char === " " || char === "\t" || char === "\n" || char === "\r" || char === "\f";
+
+const isAsciiAlpha = (char: string | undefined): boolean => Boolean(char) && /[A-Za-z]/.test(char as string);
+
+const plainText = (source: string, start: number, end: number): DecodedText => {
+  const offsets: number[] = [];
+  for (let index = start; index < end; index += 1) {
+    offsets.push(index);
+  }
+  return { text: source.slice(start, end), offsets };
+};
+
+/** Decodes character references in `source[start, end)`, tracking where each output character came from. */
+export const decodeEntities = (source: string, start: number, end: number): DecodedText => {
+  let text = "";
+  const offsets: number[] = [];
+  let index = start;
+  while (index < end) {
+    const char = source[index];
+    if (char === "&") {
+      const numeric = /^&#(?:[xX]([0-9A-Fa-f]{1,6})|([0-9]{1,7}));?/.exec(source.slice(index, Math.min(end, index + 12)));
+      if (numeric) {
+        const codePoint = numeric[1] !== undefined ? parseInt(numeric[1], 16) : parseInt(numeric[2], 10);
+        const decoded =
+          codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "\ufffd";
+        for (const unit of decoded) {
+          text += unit;
+          offsets.push(index);
+        }
+        index += numeric[0].length;
+        continue;
+      }
+      const named = /^&([A-Za-z][A-Za-z0-9]{1,31});/.exec(source.slice(index, Math.min(end, index + 34)));
+      const replacement = named ? NAMED_ENTITIES[named[1].toLowerCase()] : undefined;
+      if (named && replacement !== undefined) {
+        text += replacement;
+        offsets.push(index);
+        index += named[0].length;
+        continue;
+      }
+    }
+    text += char;
+    offsets.push(index);
+    index += 1;
+  }
+  return { text, offsets };
+};
+
+const findRawTextEnd = (source: string, from: number, element: string): number => {
+  const closing = new RegExp(`</${element}(?=[\\s/>])`, "gi");
+  closing.lastIndex = from;
+  const match = closing.exec(source);
+  return match ? match.index : source.length;
+};
+
+/**
+ * Splits HTML into tokens following the HTML5 tokenizer states that matter
+ * for scanning: tag names and attribute names are lowercased, attribute
+ * values and text are entity-decoded, and script/style bodies are raw text.
+ */
+export const tokenizeHtml = (source: string): HtmlToken[] => {
+  const tokens: HtmlToken[] = [];
+  let index = 0;
+  let textStart = 0;
+
+  const flushText = (end: number) => {
+    if (end > textStart) {
+      tokens.push({ type: "text", value: decodeEntities(source, textStart, end), offset: textStart, end });
+    }
+  };
+
+  while (index < source.length) {
+    if (source[index] !== "<") {
+      index += 1;
+      continue;
+    }
+    const next = source[index + 1];
+
+    if (source.startsWith("<!--", index)) {
+      flushText(index);
+      const close = source.indexOf("-->", index + 4);
+      const end = close === -1 ? source.length : close + 3;
+      tokens.push({ type: "comment", offset: index, end });
+      index = end;
+      textStart = end;
+      continue;
+    }
+
+    if (next === "!" || next === "?" || (next === "/" && !isAsciiAlpha(source[index + 2]))) {
+      // Doctype, processing instruction, or bogus comment: skipped up to the next ">".
+      flushText(index);
+      const close = source.indexOf(">", index + 2);
+      const end = close === -1 ? source.length : close + 1;
+      tokens.push({ type: "comment", offset: index, end });
+      index = end;
+      textStart = end;
+      continue;
+    }
+
+    if (next === "/") {
+      flushText(index);
+      let cursor = index + 2;
+      while (cursor < source.length && !isWhitespace(source[cursor]) && source[cursor] !== "/" && source[cursor] !== ">") {
+        cursor += 1;
+      }
+      const name = source.slice(index + 2, cursor).toLowerCase();
+      const close = source.indexOf(">", cursor);
+      const end = close === -1 ? source.length : close + 1;
+      tokens.push({ type: "endTag", name, offset: index, end });
+      index = end;
+      textStart = end;
+      continue;
+    }
+
+    if (!isAsciiAlpha(next)) {
+      index += 1;
+      continue;
+    }
+
+    flushText(index);
+    const tagStart = index;
+    let cursor = index + 1;
+    while (cursor < source.length && !isWhitespace(source[cursor]) && source[cursor] !== "/" && source[cursor] !== ">") {
+      cursor += 1;
+    }
+    const name = source.slice(tagStart + 1, cursor).toLowerCase();
+    const attributes: HtmlAttribute[] = [];
+    const seen = new Set<string>();
+
+    while (cursor < source.length && source[cursor] !== ">") {
+      if (isWhitespace(source[cursor]) || source[cursor] === "/") {
+        cursor += 1;
+        continue;
+      }
+      const nameStart = cursor;
+      // The first character may be "=" (it then belongs to the name), as in the HTML5 tokenizer.
+      cursor += 1;
+      while (
+        cursor < source.length &&
+        !isWhitespace(source[cursor]) &&
+        source[cursor] !== "/" &&
+        source[cursor] !== ">" &&
+        source[cursor] !== "="
+      ) {
+        cursor += 1;
+      }
+      const attributeName = source.slice(nameStart, cursor).toLowerCase();
+      let afterName = cursor;
+      while (isWhitespace(source[afterName])) {
+        afterName += 1;
+      }
+      let value: DecodedText = { text: "", offsets: [] };
+      if (source[afterName] === "=") {
+        cursor = afterName + 1;
+        while (isWhitespace(source[cursor])) {
+          cursor += 1;
+        }
+        const quote = source[cursor];
+        if (quote === "\"" || quote === "'") {
+          const close = source.indexOf(quote, cursor + 1);
+          const valueEnd = close === -1 ? source.length : close;
+          value = decodeEntities(source, cursor + 1, valueEnd);
+          cursor = close === -1 ? source.length : close + 1;
+        } else {
+          const valueStart = cursor;
+          while (cursor < source.length && !isWhitespace(source[cursor]) && source[cursor] !== ">") {
+            cursor += 1;
+          }
+          value = decodeEntities(source, valueStart, cursor);
+        }
+      }
+      // Browsers keep the first occurrence of a duplicated attribute.
+      if (!seen.has(attributeName)) {
+        seen.add(attributeName);
+        attributes.push({ name: attributeName, value, offset: nameStart });
+      }
+    }
+
+    const end = Math.min(source.length, cursor + 1);
+    tokens.push({ type: "startTag", name, attributes, offset: tagStart, end });
+    index = end;
+    textStart = end;
+
+    if (RAW_TEXT_ELEMENTS.has(name) || RCDATA_ELEMENTS.has(name)) {
+      const bodyEnd = findRawTextEnd(source, end, name);
+      if (bodyEnd > end) {
+        tokens.push(
+          RCDATA_ELEMENTS.has(name)
+            ? { type: "text", value: decodeEntities(source, end, bodyEnd), offset: end, end: bodyEnd }
+            : { type: "rawText", element: name, value: plainText(source, end, bodyEnd), offset: end, end: bodyEnd }
+        );
+      }
+      index = bodyEnd;
+      textStart = bodyEnd;
+    }
+  }
+
+  flushText(source.length);
+  return tokens;
+};
+
+export const getAttribute = (
+  token: Extract<HtmlToken, { type: "startTag" }>,
+  name: string
+): HtmlAttribute | undefined => token.attributes.find((attribute) => attribute.name === name);
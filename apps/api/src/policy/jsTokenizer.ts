@@ -0,0 +1,277 @@
+/**
+ * Purpose: Tokenize inline artifact JavaScript so the scanner matches identifiers and member access, not substrings.
+ * Persists: None.
+ * Security Risks: Processes untrusted script text; escapes in identifiers and strings are decoded so obfuscated names are still seen.
+ */
+
+export type JsToken = {
+  type: "identifier" | "string" | "template" | "number" | "regex" | "punctuator";
+  /** Decoded identifier name, cooked string/template chunk, or punctuator text. */
+  value: string;
+  /** Offset of the token start within the tokenized source. */
+  offset: number;
+  end: number;
+  /** Template chunk followed by a `${` substitution. */
+  continuesTemplate?: boolean;
+};
+
+const PUNCTUATORS = [
+  ">>>=", "...", "===", "!==", "**=", "<<=", ">>=", ">>>", "&&=", "||=", "??=",
+  "=>", "==", "!=", "<=", ">=", "&&", "||", "??", "?.", "++", "--", "+=", "-=", "*=", "/=", "%=",
+  "&=", "|=", "^=", "<<", ">>", "**",
+  "{", "}", "(", ")", "[", "]", ";", ",", "<", ">", "+", "-", "*", "/", "%", "&", "|", "^",
+  "!", "~", "?", ":", "=", ".", "@", "#",
+];
+
+// After these keywords a "/" starts a regular expression rather than a division.
+const REGEX_PREFIX_KEYWORDS = new Set([
+  "return", "typeof", "instanceof", "in", "of", "new", "delete", "void", "throw", "case", "do", "else", "yield", "await",
+]);
+
+const isIdentifierStart = (char: string): boolean => /[\p{ID_Start}$_]/u.test(char);
+const isIdentifierPart = (char: string): boolean => /[\p{ID_Continue}$\u200c\u200d]/u.test(char);
+
+const readHex = (source: string, index: number, length: number): number | null => {
+  const digits = source.slice(index, index + length);
+  return digits.length === length && /^[0-9A-Fa-f]+$/.test(digits) ? parseInt(digits, 16) : null;
+};
+
+/** Reads a `\u` escape at `index` (pointing at the backslash); returns the code point and escape length. */
+const readUnicodeEscape = (source: string, index: number): { codePoint: number; length: number } | null => {
+  if (source[index + 1] !== "u") {
+    return null;
+  }
+  if (source[index + 2] === "{") {
+    const close = source.indexOf("}", index + 3);
+    const digits = close === -1 ? "" : source.slice(index + 3, close);
+    if (!/^[0-9A-Fa-f]{1,6}$/.test(digits)) {
+      return null;
+    }
+    return { codePoint: parseInt(digits, 16), length: close + 1 - index };
+  }
+  const codePoint = readHex(source, index + 2, 4);
+  return codePoint === null ? null : { codePoint, length: 6 };
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+  v: "\v",
+  "0": "\0",
+};
+
+/** Reads a string or template escape at `index` (the backslash); returns the cooked text and escape length. */
+const readStringEscape = (source: string, index: number): { text: string; length: number } => {
+  const next = source[index + 1] ?? "";
+  if (next === "\r" && source[index + 2] === "\n") {
+    return { text: "", length: 3 };
+  }
+  if (next === "\n" || next === "\r" || next === "\u2028" || next === "\u2029") {
+    return { text: "", length: 2 };
+  }
+  if (next === "x") {
+    const codePoint = readHex(source, index + 2, 2);
+    if (codePoint !== null) {
+      return { text: String.fromCharCode(codePoint), length: 4 };
+    }
+  }
+  if (next === "u") {
+    const escape = readUnicodeEscape(source, index);
+    if (escape && escape.codePoint <= 0x10ffff) {
+      return { text: String.fromCodePoint(escape.codePoint), length: escape.length };
+    }
+  }
+  return { text: SIMPLE_ESCAPES[next] ?? next, length: 2 };
+};
+
+/**
+ * Tokenizes JavaScript source. Comments are dropped; strings, templates, and
+ * identifiers are cooked (escapes decoded); regex literals are told apart
+ * from division by the previous significant token. Malformed input never
+ * throws: unterminated literals simply run to the end of the source.
+ */
+export const tokenizeJs = (source: string): JsToken[] => {
+  const tokens: JsToken[] = [];
+  // One entry per open "{" or "${"; true marks a template substitution.
+  const braceStack: boolean[] = [];
+  let index = 0;
+
+  const regexAllowed = (): boolean => {
+    const previous = tokens[tokens.length - 1];
+    if (!previous) {
+      return true;
+    }
+    if (previous.type === "identifier") {
+      return REGEX_PREFIX_KEYWORDS.has(previous.value);
+    }
+    if (previous.type === "punctuator") {
+      return ![")", "]", "}", "++", "--"].includes(previous.value);
+    }
+    return previous.type === "template" && previous.continuesTemplate === true;
+  };
+
+  const readTemplateChunk = (start: number, contentStart: number) => {
+    let cooked = "";
+    let cursor = contentStart;
+    while (cursor < source.length) {
+      const char = source[cursor];
+      if (char === "`") {
+        tokens.push({ type: "template", value: cooked, offset: start, end: cursor + 1 });
+        return cursor + 1;
+      }
+      if (char === "$" && source[cursor + 1] === "{") {
+        tokens.push({ type: "template", value: cooked, offset: start, end: cursor + 2, continuesTemplate: true });
+        braceStack.push(true);
+        return cursor + 2;
+      }
+      if (char === "\\") {
+        const escape = readStringEscape(source, cursor);
+        cooked += escape.text;
+        cursor += escape.length;
+        continue;
+      }
+      cooked += char;
+      cursor += 1;
+    }
+    tokens.push({ type: "template", value: cooked, offset: start, end: source.length });
+    return source.length;
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    if (char === "/" && source[index + 1] === "/") {
+      const newline = source.slice(index).search(/[\n\r\u2028\u2029]/);
+      index = newline === -1 ? source.length : index + newline;
+      continue;
+    }
+    if (char === "/" && source[index + 1] === "*") {
+      const close = source.indexOf("*/", index + 2);
+      index = close === -1 ? source.length : close + 2;
+      continue;
+    }
+    // HTML-like comments are legal in classic scripts.
+    if (source.startsWith("<!--", index) || (source.startsWith("-->", index) && regexAllowed())) {
+      const newline = source.slice(index).search(/[\n\r\u2028\u2029]/);
+      index = newline === -1 ? source.length : index + newline;
+      continue;
+    }
+
+    if (char === "\"" || char === "'") {
+      let cooked = "";
+      let cursor = index + 1;
+      while (cursor < source.length && source[cursor] !== char && source[cursor] !== "\n") {
+        if (source[cursor] === "\\") {
+          const escape = readStringEscape(source, cursor);
+          cooked += escape.text;
+          cursor += escape.length;
+          continue;
+        }
+        cooked += source[cursor];
+        cursor += 1;
+      }
+      const end = Math.min(source.length, cursor + 1);
+      tokens.push({ type: "string", value: cooked, offset: index, end });
+      index = end;
+      continue;
+    }
+
+    if (char === "`") {
+      index = readTemplateChunk(index, index + 1);
+      continue;
+    }
+
+    if (char === "}" && braceStack[braceStack.length - 1] === true) {
+      braceStack.pop();
+      index = readTemplateChunk(index, index + 1);
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(source[index + 1] ?? ""))) {
+      const match = /^(?:0[xX][0-9A-Fa-f_]+|0[oO][0-7_]+|0[bB][01_]+|(?:[0-9][0-9_]*)?\.?[0-9_]*(?:[eE][+-]?[0-9_]+)?)n?/.exec(
+        source.slice(index)
+      );
+      const length = Math.max(1, match ? match[0].length : 1);
+      tokens.push({ type: "number", value: source.slice(index, index + length), offset: index, end: index + length });
+      index += length;
+      continue;
+    }
+
+    if (isIdentifierStart(char) || char === "\\") {
+      let name = "";
+      let cursor = index;
+      while (cursor < source.length) {
+        const current = source[cursor];
+        if (current === "\\") {
+          const escape = readUnicodeEscape(source, cursor);
+          if (!escape || escape.codePoint > 0x10ffff) {
+            break;
+          }
+          name += String.fromCodePoint(escape.codePoint);
+          cursor += escape.length;
+          continue;
+        }
+        if (!(cursor === index ? isIdentifierStart(current) : isIdentifierPart(current))) {
+          break;
+        }
+        name += current;
+        cursor += 1;
+      }
+      if (cursor === index) {
+        tokens.push({ type: "punctuator", value: char, offset: index, end: index + 1 });
+        index += 1;
+        continue;
+      }
+      tokens.push({ type: "identifier", value: name, offset: index, end: cursor });
+      index = cursor;
+      continue;
+    }
+
+    if (char === "/" && regexAllowed()) {
+      let cursor = index + 1;
+      let inClass = false;
+      while (cursor < source.length && source[cursor] !== "\n") {
+        const current = source[cursor];
+        if (current === "\\") {
+          cursor += 2;
+          continue;
+        }
+        if (current === "[") {
+          inClass = true;
+        } else if (current === "]") {
+          inClass = false;
+        } else if (current === "/" && !inClass) {
+          break;
+        }
+        cursor += 1;
+      }
+      cursor += 1;
+      while (cursor < source.length && isIdentifierPart(source[cursor])) {
+        cursor += 1;
+      }
+      const end = Math.min(source.length, cursor);
+      tokens.push({ type: "regex", value: source.slice(index, end), offset: index, end });
+      index = end;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((candidate) => source.startsWith(candidate, index)) ?? char;
+    if (punctuator === "{") {
+      braceStack.push(false);
+    } else if (punctuator === "}") {
+      braceStack.pop();
+    }
+    tokens.push({ type: "punctuator", value: punctuator, offset: index, end: index + punctuator.length });
+    index += punctuator.length;
+  }
+
+  return tokens;
+};
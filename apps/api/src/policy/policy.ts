@@ -1,9 +1,11 @@
 /**
- * Purpose: Load and cache the PromptCalc artifact policy from policy.yaml for server-side scans.
- * Persists: Reads spec/policy.yaml only; no persistence changes.
- * Security Risks: Reads policy configuration that impacts artifact rejection logic.
+ * Purpose: Load the PromptCalc artifact policy as base + environment + tenant layers and cache the merged result.
+ * Persists: Reads spec/policy.yaml and spec/policies/*.yaml only; no persistence changes.
+ * Security Risks: Overlays can add or remove rejection rules; invalid overlays fail closed instead of being skipped.
  */
 
+import { createHash } from "crypto";
+import { existsSync, watch } from "fs";
 import { readFile } from "fs/promises";
 import path from "path";
 
@@ -26,6 +28,45 @@ export type PromptCalcPolicy = {
   bannedTags: PolicyRule[];
 };
 
+type ListOverlay<T> = { add?: T[]; remove?: T[] };
+
+/**
+ * Overlays replace scalars and edit lists explicitly. Within a layer,
+ * `remove` runs before `add`; a rule removal without `patterns`/`tags`
+ * drops every rule with that id.
+ */
+export type PromptCalcPolicyOverlay = {
+  maxArtifactBytes?: number;
+  requiredBannerText?: string;
+  requiredReadyMarker?: string;
+  requiredCspDirectives?: ListOverlay<string>;
+  bannedPatterns?: ListOverlay<PolicyRule>;
+  bannedTags?: ListOverlay<PolicyRule>;
+};
+
+export type PolicyLayer = {
+  name: "base" | "environment" | "tenant";
+  /** Path relative to the policy directory. */
+  source: string;
+};
+
+export type EffectivePromptCalcPolicy = {
+  policy: PromptCalcPolicy;
+  /** SHA-256 (hex) of the merged policy JSON. */
+  hash: string;
+  layers: PolicyLayer[];
+};
+
+export class PolicyLoadError extends Error {
+  source: string;
+
+  constructor(source: string, message: string) {
+    super(`Invalid policy layer ${source}: ${message}`);
+    this.name = "PolicyLoadError";
+    this.source = source;
+  }
+}
+
 type PromptCalcPolicyFile = Partial<PromptCalcPolicy> & {
   version?: string | number;
   name?: string;
@@ -52,7 +93,20 @@ const DEFAULT_POLICY: PromptCalcPolicy = {
   bannedTags: [],
 };
 
-let cachedPolicy: PromptCalcPolicy | null = null;
+const OVERLAY_KEYS = new Set([
+  "maxArtifactBytes",
+  "requiredBannerText",
+  "requiredReadyMarker",
+  "requiredCspDirectives",
+  "bannedPatterns",
+  "bannedTags",
+]);
+
+// Overlay names become file names, so keep them to a safe slug.
+const LAYER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+let cachedPolicy: EffectivePromptCalcPolicy | null = null;
+let activeWatchers: Array<{ close: () => void }> = [];
 
 const normalizeRequiredFields = (
   parsed: PromptCalcPolicyFile
@@ -113,10 +167,8 @@ const normalizeBannedPatterns = (parsed: PromptCalcPolicyFile): PolicyRule[] =>
   ];
 };
 
-const loadPolicyFromFile = async (policyPath: string): Promise<PromptCalcPolicy> => {
-  const contents = await readFile(policyPath, "utf-8");
-  const parsed = parse(contents) as PromptCalcPolicyFile | null;
-
+/** Normalizes a base policy file; the legacy `banned`/`required` format is still accepted. */
+export const normalizeBasePolicy = (parsed: PromptCalcPolicyFile | null): PromptCalcPolicy => {
   if (!parsed || typeof parsed !== "object") {
     return DEFAULT_POLICY;
   }
@@ -124,11 +176,13 @@ const loadPolicyFromFile = async (policyPath: string): Promise<PromptCalcPolicy>
   const normalizedRequired = normalizeRequiredFields(parsed);
 
   return {
-    ...DEFAULT_POLICY,
-    ...parsed,
     specVersion:
       parsed.specVersion ??
       (parsed.version !== undefined ? String(parsed.version) : DEFAULT_POLICY.specVersion),
+    maxArtifactBytes:
+      typeof parsed.maxArtifactBytes === "number"
+        ? parsed.maxArtifactBytes
+        : DEFAULT_POLICY.maxArtifactBytes,
     requiredBannerText:
       typeof parsed.requiredBannerText === "string"
         ? parsed.requiredBannerText
@@ -147,36 +201,335 @@ const loadPolicyFromFile = async (policyPath: string): Promise<PromptCalcPolicy>
   };
 };
 
-export const getPromptCalcPolicy = async (): Promise<PromptCalcPolicy> => {
-  if (cachedPolicy) {
-    return cachedPolicy;
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+const parseListOverlay = <T>(
+  source: string,
+  key: string,
+  value: unknown,
+  parseEntry: (entry: unknown, at: string) => T
+): ListOverlay<T> => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new PolicyLoadError(source, `${key} must be an object with add/remove lists.`);
+  }
+  const record = value as Record<string, unknown>;
+  const overlay: ListOverlay<T> = {};
+  for (const [operation, entries] of Object.entries(record)) {
+    if (operation !== "add" && operation !== "remove") {
+      throw new PolicyLoadError(source, `${key}.${operation} is not supported; use add or remove.`);
+    }
+    if (!Array.isArray(entries)) {
+      throw new PolicyLoadError(source, `${key}.${operation} must be a list.`);
+    }
+    overlay[operation] = entries.map((entry, index) => parseEntry(entry, `${key}.${operation}[${index}]`));
+  }
+  return overlay;
+};
+
+const parseRuleEntry =
+  (source: string, listKey: "patterns" | "tags") =>
+  (entry: unknown, at: string): PolicyRule => {
+    const record = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : null;
+    if (!record || typeof record.id !== "string" || record.id.trim().length === 0) {
+      throw new PolicyLoadError(source, `${at}.id must be a non-empty string.`);
+    }
+    const values = record[listKey];
+    if (values !== undefined && !isStringArray(values)) {
+      throw new PolicyLoadError(source, `${at}.${listKey} must be a list of strings.`);
+    }
+    return values === undefined ? { id: record.id } : { id: record.id, [listKey]: values };
+  };
+
+/** Validates an overlay file; unknown keys and malformed lists are errors, never ignored. */
+export const parsePolicyOverlay = (source: string, parsed: unknown): PromptCalcPolicyOverlay => {
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new PolicyLoadError(source, "overlay must be a mapping.");
+  }
+  const record = parsed as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (!OVERLAY_KEYS.has(key)) {
+      throw new PolicyLoadError(source, `${key} cannot be set by an overlay.`);
+    }
+  }
+
+  const overlay: PromptCalcPolicyOverlay = {};
+  if (record.maxArtifactBytes !== undefined) {
+    if (typeof record.maxArtifactBytes !== "number" || !Number.isFinite(record.maxArtifactBytes) || record.maxArtifactBytes <= 0) {
+      throw new PolicyLoadError(source, "maxArtifactBytes must be a positive number.");
+    }
+    overlay.maxArtifactBytes = record.maxArtifactBytes;
+  }
+  for (const key of ["requiredBannerText", "requiredReadyMarker"] as const) {
+    if (record[key] !== undefined) {
+      if (typeof record[key] !== "string" || (record[key] as string).trim().length === 0) {
+        throw new PolicyLoadError(source, `${key} must be a non-empty string.`);
+      }
+      overlay[key] = record[key] as string;
+    }
+  }
+  if (record.requiredCspDirectives !== undefined) {
+    overlay.requiredCspDirectives = parseListOverlay(source, "requiredCspDirectives", record.requiredCspDirectives, (entry, at) => {
+      if (typeof entry !== "string") {
+        throw new PolicyLoadError(source, `${at} must be a string.`);
+      }
+      return entry;
+    });
+  }
+  if (record.bannedPatterns !== undefined) {
+    overlay.bannedPatterns = parseListOverlay(
+      source,
+      "bannedPatterns",
+      record.bannedPatterns,
+      parseRuleEntry(source, "patterns")
+    );
+  }
+  if (record.bannedTags !== undefined) {
+    overlay.bannedTags = parseListOverlay(source, "bannedTags", record.bannedTags, parseRuleEntry(source, "tags"));
+  }
+  return overlay;
+};
+
+const mergeStrings = (values: string[], overlay: ListOverlay<string> | undefined): string[] => {
+  if (!overlay) {
+    return values;
+  }
+  const removed = new Set(overlay.remove ?? []);
+  const merged = values.filter((value) => !removed.has(value));
+  for (const value of overlay.add ?? []) {
+    if (!merged.includes(value)) {
+      merged.push(value);
+    }
+  }
+  return merged;
+};
+
+const mergeRules = (
+  rules: PolicyRule[],
+  overlay: ListOverlay<PolicyRule> | undefined,
+  listKey: "patterns" | "tags"
+): PolicyRule[] => {
+  if (!overlay) {
+    return rules;
+  }
+  let merged = rules.map((rule) => ({ ...rule, [listKey]: [...(rule[listKey] ?? [])] }));
+
+  for (const removal of overlay.remove ?? []) {
+    const values = removal[listKey];
+    if (!values) {
+      merged = merged.filter((rule) => rule.id !== removal.id);
+      continue;
+    }
+    merged = merged
+      .map((rule) =>
+        rule.id === removal.id
+          ? { ...rule, [listKey]: (rule[listKey] ?? []).filter((value) => !values.includes(value)) }
+          : rule
+      )
+      .filter((rule) => rule.id !== removal.id || (rule[listKey] ?? []).length > 0);
   }
 
+  for (const addition of overlay.add ?? []) {
+    const values = addition[listKey] ?? [];
+    const existing = merged.find((rule) => rule.id === addition.id);
+    if (existing) {
+      const current = existing[listKey] ?? [];
+      existing[listKey] = [...current, ...values.filter((value) => !current.includes(value))];
+    } else {
+      merged.push({ id: addition.id, [listKey]: [...new Set(values)] });
+    }
+  }
+  return merged;
+};
+
+export const applyPolicyOverlay = (
+  policy: PromptCalcPolicy,
+  overlay: PromptCalcPolicyOverlay
+): PromptCalcPolicy => ({
+  specVersion: policy.specVersion,
+  maxArtifactBytes: overlay.maxArtifactBytes ?? policy.maxArtifactBytes,
+  requiredBannerText: overlay.requiredBannerText ?? policy.requiredBannerText,
+  requiredReadyMarker: overlay.requiredReadyMarker ?? policy.requiredReadyMarker,
+  requiredCspDirectives: mergeStrings(policy.requiredCspDirectives, overlay.requiredCspDirectives),
+  bannedPatterns: mergeRules(policy.bannedPatterns, overlay.bannedPatterns, "patterns"),
+  bannedTags: mergeRules(policy.bannedTags, overlay.bannedTags, "tags"),
+});
+
+export const hashPromptCalcPolicy = (policy: PromptCalcPolicy): string =>
+  createHash("sha256").update(JSON.stringify(policy), "utf8").digest("hex");
+
+const resolvePolicyDir = (env: NodeJS.ProcessEnv): string | null => {
   const candidates = [
-    path.resolve(process.cwd(), "spec/policy.yaml"),
-    path.resolve(__dirname, "../../spec/policy.yaml"),
-    path.resolve(__dirname, "../../../spec/policy.yaml"),
+    env.PROMPTCALC_POLICY_DIR ? path.resolve(env.PROMPTCALC_POLICY_DIR) : null,
+    path.resolve(process.cwd(), "spec"),
+    path.resolve(process.cwd(), "../../spec"),
+    path.resolve(__dirname, "../../../../spec"),
   ];
+  return (
+    candidates.find(
+      (candidate): candidate is string => candidate !== null && existsSync(path.join(candidate, "policy.yaml"))
+    ) ?? null
+  );
+};
 
-  for (const policyPath of candidates) {
+const resolveOverlayName = (kind: string, value: string | undefined): string | null => {
+  const name = value?.trim();
+  if (!name) {
+    return null;
+  }
+  if (!LAYER_NAME_PATTERN.test(name)) {
+    throw new PolicyLoadError(kind, `overlay name "${name}" must match ${LAYER_NAME_PATTERN}.`);
+  }
+  return name;
+};
+
+/** Dev hosts reload policy edits without a restart; PROMPTCALC_POLICY_WATCH=0/1 overrides. */
+export const isPolicyWatchEnabled = (env: NodeJS.ProcessEnv = process.env): boolean => {
+  if (env.PROMPTCALC_POLICY_WATCH === "1" || env.PROMPTCALC_POLICY_WATCH === "0") {
+    return env.PROMPTCALC_POLICY_WATCH === "1";
+  }
+  return env.AZURE_FUNCTIONS_ENVIRONMENT === "Development";
+};
+
+const closeWatchers = () => {
+  for (const watcher of activeWatchers) {
+    watcher.close();
+  }
+  activeWatchers = [];
+};
+
+const watchLayerFiles = (files: string[]) => {
+  closeWatchers();
+  for (const file of files) {
     try {
-      cachedPolicy = await loadPolicyFromFile(policyPath);
-      return cachedPolicy;
+      activeWatchers.push(
+        watch(file, () => {
+          if (!cachedPolicy) {
+            return;
+          }
+          // Editors often replace files, which ends the watch; the next load re-arms it.
+          cachedPolicy = null;
+          closeWatchers();
+          logEvent({ level: "info", op: "policy.load", event: "policy.changed", policyPath: file });
+        })
+      );
     } catch (error) {
       logEvent({
         level: "warn",
         op: "policy.load",
-        event: "policy.read.failed",
-        policyPath,
+        event: "policy.watch.failed",
+        policyPath: file,
         message: error instanceof Error ? error.message : "unknown error",
       });
     }
   }
+};
+
+/**
+ * Loads base, environment (PROMPTCALC_POLICY_ENV), and tenant
+ * (PROMPTCALC_POLICY_TENANT) layers from the policy directory and merges
+ * them in that order.
+ */
+export const loadEffectivePromptCalcPolicy = async (
+  env: NodeJS.ProcessEnv = process.env
+): Promise<EffectivePromptCalcPolicy & { files: string[] }> => {
+  const policyDir = resolvePolicyDir(env);
+  if (!policyDir) {
+    logEvent({
+      level: "warn",
+      op: "policy.load",
+      event: "policy.read.failed",
+      message: "spec/policy.yaml not found; using built-in defaults.",
+    });
+    return { policy: DEFAULT_POLICY, hash: hashPromptCalcPolicy(DEFAULT_POLICY), layers: [], files: [] };
+  }
 
-  cachedPolicy = DEFAULT_POLICY;
-  return cachedPolicy;
+  const basePath = path.join(policyDir, "policy.yaml");
+  let policy: PromptCalcPolicy;
+  try {
+    policy = normalizeBasePolicy(parse(await readFile(basePath, "utf-8")) as PromptCalcPolicyFile | null);
+  } catch (error) {
+    throw new PolicyLoadError("policy.yaml", error instanceof Error ? error.message : "unreadable YAML.");
+  }
+  const layers: PolicyLayer[] = [{ name: "base", source: "policy.yaml" }];
+  const files = [basePath];
+
+  const overlays: Array<{ name: PolicyLayer["name"]; source: string | null }> = [];
+  const environmentName = resolveOverlayName("PROMPTCALC_POLICY_ENV", env.PROMPTCALC_POLICY_ENV);
+  overlays.push({ name: "environment", source: environmentName ? `policies/${environmentName}.yaml` : null });
+  const tenantName = resolveOverlayName("PROMPTCALC_POLICY_TENANT", env.PROMPTCALC_POLICY_TENANT);
+  overlays.push({ name: "tenant", source: tenantName ? `policies/tenants/${tenantName}.yaml` : null });
+
+  for (const overlay of overlays) {
+    if (!overlay.source) {
+      continue;
+    }
+    const overlayPath = path.join(policyDir, overlay.source);
+    if (!existsSync(overlayPath)) {
+      logEvent({
+        level: "info",
+        op: "policy.load",
+        event: "policy.overlay.missing",
+        layer: overlay.name,
+        policyPath: overlay.source,
+      });
+      continue;
+    }
+    let parsed: unknown;
+    try {
+      parsed = parse(await readFile(overlayPath, "utf-8"));
+    } catch (error) {
+      throw new PolicyLoadError(overlay.source, error instanceof Error ? error.message : "unreadable YAML.");
+    }
+    policy = applyPolicyOverlay(policy, parsePolicyOverlay(overlay.source, parsed));
+    layers.push({ name: overlay.name, source: overlay.source });
+    files.push(overlayPath);
+  }
+
+  return { policy, hash: hashPromptCalcPolicy(policy), layers, files };
+};
+
+export const getEffectivePromptCalcPolicy = async (): Promise<EffectivePromptCalcPolicy> => {
+  if (cachedPolicy) {
+    return cachedPolicy;
+  }
+
+  let loaded: EffectivePromptCalcPolicy & { files: string[] };
+  try {
+    loaded = await loadEffectivePromptCalcPolicy();
+  } catch (error) {
+    logEvent({
+      level: "error",
+      op: "policy.load",
+      event: "policy.load.failed",
+      policyPath: error instanceof PolicyLoadError ? error.source : undefined,
+      message: error instanceof Error ? error.message : "unknown error",
+    });
+    throw error;
+  }
+
+  const { files, ...effective } = loaded;
+  cachedPolicy = effective;
+  logEvent({
+    level: "info",
+    op: "policy.load",
+    event: "policy.loaded",
+    policyHash: effective.hash,
+    layers: effective.layers.map((layer) => layer.source),
+  });
+  if (isPolicyWatchEnabled()) {
+    watchLayerFiles(files);
+  }
+  return effective;
 };
 
+export const getPromptCalcPolicy = async (): Promise<PromptCalcPolicy> =>
+  (await getEffectivePromptCalcPolicy()).policy;
+
 export const resetPromptCalcPolicyCache = (): void => {
   cachedPolicy = null;
+  closeWatchers();
 };
@@ -0,0 +1,126 @@
+/**
+ * Purpose: Decide when viewer load-failure reports quarantine a stored calculator version and what a release resets.
+ * Persists: None (callers merge the returned fields onto the version entity).
+ * Security Risks: Reports come from the browser; only known viewer failure codes are counted.
+ */
+
+export type QuarantineReason = "self_test" | "policy_scan" | "load_failures";
+
+/** Viewer failures that point at the artifact itself; INTEGRITY_UNAVAILABLE is a browser limitation and is not counted. */
+export const VIEWER_FAILURE_CODES = ["WATCHDOG_TIMEOUT", "INTEGRITY_MISMATCH"] as const;
+
+export type ViewerFailureCode = (typeof VIEWER_FAILURE_CODES)[number];
+
+export type ViewerFailureReport = {
+  code: ViewerFailureCode;
+  loadId?: string;
+};
+
+export const DEFAULT_LOAD_FAILURE_THRESHOLD = 3;
+
+const MAX_LOAD_ID_LENGTH = 128;
+/** Load ids remembered per version; a repeat of any of them is not counted again. */
+export const MAX_RECENT_LOAD_FAILURE_IDS = 20;
+
+export const parseViewerFailureReport = (body: unknown): ViewerFailureReport | null => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return null;
+  }
+  const record = body as { code?: unknown; loadId?: unknown };
+  if (!VIEWER_FAILURE_CODES.includes(record.code as ViewerFailureCode)) {
+    return null;
+  }
+  if (record.loadId !== undefined && typeof record.loadId !== "string") {
+    return null;
+  }
+  return {
+    code: record.code as ViewerFailureCode,
+    ...(record.loadId ? { loadId: record.loadId.slice(0, MAX_LOAD_ID_LENGTH) } : {}),
+  };
+};
+
+/** PROMPTCALC_QUARANTINE_THRESHOLD: failure reports before a version is quarantined (default 3). */
+export const getLoadFailureThreshold = (env: NodeJS.ProcessEnv = process.env): number => {
+  const parsed = Number.parseInt(env.PROMPTCALC_QUARANTINE_THRESHOLD ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_LOAD_FAILURE_THRESHOLD;
+};
+
+export type LoadFailureState = {
+  status: "ok" | "refused" | "quarantined";
+  loadFailureCount?: number;
+  /** JSON-encoded load ids of the most recent counted reports. */
+  recentLoadFailureIds?: string;
+};
+
+export type LoadFailureUpdate = {
+  fields: {
+    loadFailureCount: number;
+    lastLoadFailureCode: ViewerFailureCode;
+    lastLoadFailureAt: string;
+    recentLoadFailureIds?: string;
+    status?: "quarantined";
+    quarantineReason?: "load_failures";
+  };
+  /** True only for the report that crosses the threshold. */
+  quarantined: boolean;
+};
+
+const readRecentLoadFailureIds = (value: string | undefined): string[] => {
+  try {
+    const parsed: unknown = JSON.parse(value ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is string => typeof entry === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Returns null for a load id that was already counted, so one failed load never counts twice. */
+export const applyLoadFailureReport = (
+  state: LoadFailureState,
+  report: ViewerFailureReport,
+  reportedAt: string,
+  threshold: number
+): LoadFailureUpdate | null => {
+  const recentLoadIds = readRecentLoadFailureIds(state.recentLoadFailureIds);
+  if (report.loadId && recentLoadIds.includes(report.loadId)) {
+    return null;
+  }
+  const loadFailureCount = (state.loadFailureCount ?? 0) + 1;
+  const quarantined = state.status === "ok" && loadFailureCount >= threshold;
+  return {
+    fields: {
+      loadFailureCount,
+      lastLoadFailureCode: report.code,
+      lastLoadFailureAt: reportedAt,
+      ...(report.loadId
+        ? {
+            recentLoadFailureIds: JSON.stringify(
+              [...recentLoadIds, report.loadId].slice(-MAX_RECENT_LOAD_FAILURE_IDS)
+            ),
+          }
+        : {}),
+      ...(quarantined ? { status: "quarantined" as const, quarantineReason: "load_failures" as const } : {}),
+    },
+    quarantined,
+  };
+};
+
+/** Merge updates keep absent properties, so a release writes empty values over the quarantine markers. */
+export const buildQuarantineRelease = (reviewerId: string, releasedAt: string) => ({
+  status: "ok" as const,
+  quarantineReason: "" as const,
+  loadFailureCount: 0,
+  lastLoadFailureCode: "",
+  lastLoadFailureAt: "",
+  releasedBy: reviewerId,
+  releasedAt,
+});
+
+/** Newest version that is still servable, used to move a calculator off a quarantined or deleted current version. */
+export const pickFallbackVersionId = (
+  versions: Array<{ versionId: string; createdAt: string; status: string }>,
+  excludedVersionId: string
+): string | null =>
+  versions
+    .filter((version) => version.versionId !== excludedVersionId && version.status === "ok")
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]?.versionId ?? null;
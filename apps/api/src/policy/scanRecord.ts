@@ -0,0 +1,81 @@
+/**
+ * Purpose: Describe which policy and scan outcomes a stored calculator version was checked against.
+ * Persists: None (callers store the record on the version entity).
+ * Security Risks: Recorded findings include short snippets of untrusted artifact HTML; they are truncated and never rendered as HTML.
+ */
+
+import type { EffectivePromptCalcPolicy } from "./policy";
+import { scanArtifactHtmlAll, type ScanFinding, type ScanReport } from "./scanner";
+
+export type DeterministicScanStatus = "passed" | "failed" | "skipped";
+
+/** Outcome of the AI artifact code scan; refusals are never stored, so "deny" cannot occur. */
+export type AiScanDecision = "allow" | "error" | "skipped";
+
+/** Flat so it can be spread onto a table entity. */
+export type VersionScanRecord = {
+  policyHash: string;
+  policySpecVersion: string;
+  scanStatus: DeterministicScanStatus;
+  /** JSON-encoded ScanFinding[] (table entities cannot hold arrays). */
+  scanFindings?: string;
+  scannedAt: string;
+  aiScanDecision?: AiScanDecision;
+  aiScanModel?: string;
+};
+
+// Keeps the encoded findings well under the 64 KiB table property limit.
+const MAX_RECORDED_FINDINGS = 25;
+
+export const buildVersionScanRecord = (params: {
+  policy: EffectivePromptCalcPolicy;
+  /** Null when the deterministic scan did not run (spec versions, profile skips). */
+  report: ScanReport | null;
+  scannedAt: string;
+  aiScan?: { decision: AiScanDecision; model?: string };
+}): VersionScanRecord => {
+  const { policy, report, scannedAt, aiScan } = params;
+  const findings = report?.findings ?? [];
+  return {
+    policyHash: policy.hash,
+    policySpecVersion: policy.policy.specVersion,
+    scanStatus: !report ? "skipped" : report.ok ? "passed" : "failed",
+    ...(findings.length > 0 ? { scanFindings: JSON.stringify(findings.slice(0, MAX_RECORDED_FINDINGS)) } : {}),
+    scannedAt,
+    ...(aiScan ? { aiScanDecision: aiScan.decision } : {}),
+    ...(aiScan?.model ? { aiScanModel: aiScan.model } : {}),
+  };
+};
+
+export const parseRecordedScanFindings = (value: string | undefined): ScanFinding[] => {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as ScanFinding[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export type ArtifactRescan = {
+  record: Pick<VersionScanRecord, "policyHash" | "policySpecVersion" | "scanStatus" | "scanFindings" | "scannedAt">;
+  findings: ScanFinding[];
+  /** True when the artifact fails the current policy. */
+  shouldQuarantine: boolean;
+};
+
+/** Re-runs the deterministic scan under the current policy; AI scan fields are left as recorded. */
+export const rescanArtifact = (
+  artifactHtml: string,
+  policy: EffectivePromptCalcPolicy,
+  scannedAt: string
+): ArtifactRescan => {
+  const report = scanArtifactHtmlAll(artifactHtml, policy.policy);
+  return {
+    record: buildVersionScanRecord({ policy, report, scannedAt }),
+    findings: report.findings,
+    shouldQuarantine: !report.ok,
+  };
+};
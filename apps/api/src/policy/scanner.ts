@@ -4,109 +4,640 @@
  * Security Risks: Processes untrusted HTML content to enforce sandbox policies.
  */
 
+import { getAttribute, tokenizeHtml, type DecodedText, type HtmlToken } from "./htmlTokenizer";
+import { tokenizeJs, type JsToken } from "./jsTokenizer";
 import type { PromptCalcPolicy } from "./policy";
 
+/** Deterministic rules always block today; "warn" is reserved for advisory rules. */
+export type ScanSeverity = "block" | "warn";
+
+export type ScanFinding = {
+  code: string;
+  message: string;
+  severity: ScanSeverity;
+  ruleId?: string;
+  matchIndex?: number;
+  /** 1-based position of matchIndex in the artifact. */
+  line?: number;
+  column?: number;
+  contextSnippet?: string;
+};
+
+/** Failures describe the first blocking finding; `findings` lists every finding in document order. */
 export type ScanResult =
   | { ok: true }
   | {
       ok: false;
       code: string;
       message: string;
+      severity: ScanSeverity;
       ruleId?: string;
       matchIndex?: number;
+      line?: number;
+      column?: number;
       contextSnippet?: string;
+      findings: ScanFinding[];
     };
 
-const normalize = (value: string): string => value.toLowerCase();
+type StartTag = Extract<HtmlToken, { type: "startTag" }>;
 
-const isCaseSensitivePattern = (pattern: string): boolean => pattern.includes("Function(");
+/**
+ * Policy patterns are plain strings; each is classified into the syntactic
+ * construct it names so matching happens on tokens instead of raw text.
+ */
+type CompiledPattern =
+  /** `fetch(`, `XMLHttpRequest`, `new Function`: any reference to the name. */
+  | { kind: "reference"; name: string; requireCall: boolean; requireNew: boolean }
+  /** `top.location`, `document.location=`: a member chain ending in the path. */
+  | { kind: "member"; path: string[]; requireAssignment: boolean }
+  /** `<link`: any element with the tag name. */
+  | { kind: "tag"; tag: string }
+  /** `<script src=`: an element carrying the attribute. */
+  | { kind: "tagAttribute"; tag: string; attribute: string }
+  /** `type="password"`: an attribute with the (case-insensitive) value. */
+  | { kind: "attributeValue"; attribute: string; value: string }
+  /** `@import`, `url(`: CSS in style elements, style attributes, and script strings. */
+  | { kind: "css"; matcher: RegExp }
+  /** Anything else: case-insensitive substring of script, style, and attribute source. */
+  | { kind: "text"; needle: string };
 
-const findPatternIndex = (
-  artifactHtml: string,
-  normalizedHtml: string,
-  pattern: string
-): number => {
-  if (isCaseSensitivePattern(pattern)) {
-    return artifactHtml.indexOf(pattern);
+type JsSource = {
+  tokens: JsToken[];
+  /** Artifact offset of each character of the tokenized source. */
+  offsets: number[];
+  segments: Segment[];
+  /** Segments keyed by their last token index, for walking member chains backwards. */
+  segmentsByLast: Map<number, Segment>;
+};
+
+type Match = { index: number; length: number };
+
+const IDENTIFIER = "[A-Za-z_$][\\w$]*";
+const CSS_FUNCTION_PATTERNS = new Set(["url(", "image-set(", "-webkit-image-set("]);
+const JS_SCRIPT_TYPES = new Set([
+  "",
+  "module",
+  "text/javascript",
+  "application/javascript",
+  "text/ecmascript",
+  "application/ecmascript",
+  "text/jscript",
+  "text/livescript",
+]);
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "formaction", "xlink:href", "data"]);
+const JS_RESERVED_CALLS = new Set(["import"]);
+// A "[" after these starts an array literal, not a computed member access.
+const JS_EXPRESSION_KEYWORDS = new Set([
+  "return", "typeof", "instanceof", "in", "of", "new", "delete", "void", "throw", "case", "do", "else", "yield", "await",
+]);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const compilePattern = (pattern: string): CompiledPattern => {
+  const trimmed = pattern.trim();
+  let match = /^<([a-z][a-z0-9-]*)$/i.exec(trimmed);
+  if (match) {
+    return { kind: "tag", tag: match[1].toLowerCase() };
+  }
+  match = /^<([a-z][a-z0-9-]*)\s+([a-z][a-z0-9:-]*)\s*=$/i.exec(trimmed);
+  if (match) {
+    return { kind: "tagAttribute", tag: match[1].toLowerCase(), attribute: match[2].toLowerCase() };
+  }
+  match = /^([a-z][a-z0-9:-]*)\s*=\s*(["'])(.*)\2$/i.exec(trimmed);
+  if (match) {
+    return { kind: "attributeValue", attribute: match[1].toLowerCase(), value: match[3].trim().toLowerCase() };
+  }
+  if (/^@[a-z-]+$/i.test(trimmed) || CSS_FUNCTION_PATTERNS.has(trimmed.toLowerCase())) {
+    const needle = trimmed.toLowerCase();
+    const source = needle.endsWith("(") ? `${escapeRegExp(needle.slice(0, -1))}\\s*\\(` : escapeRegExp(needle);
+    return { kind: "css", matcher: new RegExp(source, "g") };
+  }
+  match = new RegExp(`^new\\s+(${IDENTIFIER})$`).exec(trimmed);
+  if (match) {
+    return { kind: "reference", name: match[1], requireCall: false, requireNew: true };
+  }
+  match = new RegExp(`^(${IDENTIFIER})\\s*\\($`).exec(trimmed);
+  if (match) {
+    return { kind: "reference", name: match[1], requireCall: JS_RESERVED_CALLS.has(match[1]), requireNew: false };
+  }
+  if (new RegExp(`^${IDENTIFIER}$`).test(trimmed)) {
+    return { kind: "reference", name: trimmed, requireCall: false, requireNew: false };
+  }
+  match = new RegExp(`^(${IDENTIFIER}(?:\\.${IDENTIFIER})+)\\s*(=?)$`).exec(trimmed);
+  if (match) {
+    return { kind: "member", path: match[1].split("."), requireAssignment: match[2] === "=" };
   }
-  return normalizedHtml.indexOf(normalize(pattern));
+  return { kind: "text", needle: trimmed.toLowerCase() };
 };
 
-const makeSnippet = (text: string, index: number, patternLength: number, radius = 80): string => {
-  const start = Math.max(0, index - radius);
-  const end = Math.min(text.length, index + patternLength + radius);
-  return text.slice(start, end);
+const sliceDecoded = (value: DecodedText, start: number): DecodedText => ({
+  text: value.text.slice(start),
+  offsets: value.offsets.slice(start),
+});
+
+const isPunctuator = (token: JsToken | undefined, value: string): boolean =>
+  token?.type === "punctuator" && token.value === value;
+
+const decodeBase64 = (value: string): string | null => {
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+    return null;
+  }
+  return Buffer.from(value, "base64").toString("latin1");
 };
 
-const hasRequiredCspMarkers = (normalizedHtml: string, directives: string[]): boolean => {
-  const markers = ["content-security-policy", ...directives];
-  return markers.every((marker) => normalizedHtml.includes(normalize(marker)));
+/**
+ * Folds `tokens[start, end)` to a string when it is built only from string
+ * literals, plain templates, `String.fromCharCode(...)`, and `atob("...")`
+ * joined with `+`, so `window['fe' + 'tch']` is seen as `window.fetch`.
+ */
+const foldConstantString = (tokens: JsToken[], start: number, end: number): string | null => {
+  const parts = tokens.slice(start, end).filter((token) => !isPunctuator(token, "(") && !isPunctuator(token, ")"));
+  let result = "";
+  let index = 0;
+  let expectOperand = true;
+  while (index < parts.length) {
+    const token = parts[index];
+    if (!expectOperand) {
+      if (!isPunctuator(token, "+")) {
+        return null;
+      }
+      expectOperand = true;
+      index += 1;
+      continue;
+    }
+    if (token.type === "string" || (token.type === "template" && !token.continuesTemplate)) {
+      result += token.value;
+      index += 1;
+    } else if (
+      token.type === "identifier" &&
+      token.value === "String" &&
+      isPunctuator(parts[index + 1], ".") &&
+      parts[index + 2]?.value === "fromCharCode"
+    ) {
+      index += 3;
+      while (parts[index]?.type === "number" || isPunctuator(parts[index], ",")) {
+        if (parts[index].type === "number") {
+          result += String.fromCharCode(Number(parts[index].value));
+        }
+        index += 1;
+      }
+    } else if (token.type === "identifier" && token.value === "atob" && parts[index + 1]?.type === "string") {
+      const decoded = decodeBase64(parts[index + 1].value);
+      if (decoded === null) {
+        return null;
+      }
+      result += decoded;
+      index += 2;
+    } else {
+      return null;
+    }
+    expectOperand = false;
+  }
+  return expectOperand ? null : result;
 };
 
-export const scanArtifactHtml = (
-  artifactHtml: string,
-  policy: PromptCalcPolicy
-): ScanResult => {
-  const normalizedHtml = normalize(artifactHtml);
+const findMatchingBracket = (tokens: JsToken[], open: number): number => {
+  let depth = 0;
+  for (let index = open; index < tokens.length; index += 1) {
+    if (isPunctuator(tokens[index], "[")) {
+      depth += 1;
+    } else if (isPunctuator(tokens[index], "]")) {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return -1;
+};
 
-  if (!hasRequiredCspMarkers(normalizedHtml, policy.requiredCspDirectives)) {
-    return {
-      ok: false,
-      code: "MISSING_CSP",
-      message: "Artifact is missing the required CSP directives.",
-    };
+const findOpeningBracket = (tokens: JsToken[], close: number): number => {
+  let depth = 0;
+  for (let index = close; index >= 0; index -= 1) {
+    if (isPunctuator(tokens[index], "]")) {
+      depth += 1;
+    } else if (isPunctuator(tokens[index], "[")) {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
   }
+  return -1;
+};
 
-  if (!normalizedHtml.includes(normalize(policy.requiredBannerText))) {
-    return {
-      ok: false,
-      code: "MISSING_CSP",
-      message: "Artifact is missing the required safety banner.",
-    };
+/** A name reached through the token stream: a bare identifier, `.name`, or a constant `[...]` key. */
+type Segment = { name: string; first: number; last: number; bare: boolean };
+
+const collectSegments = (tokens: JsToken[]): Segment[] => {
+  const segments: Segment[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type === "identifier") {
+      const previous = tokens[index - 1];
+      const isMember = isPunctuator(previous, ".") || isPunctuator(previous, "?.");
+      // Object literal keys (`{ fetch: 1 }`) name nothing.
+      const isKey =
+        !isMember &&
+        isPunctuator(tokens[index + 1], ":") &&
+        (isPunctuator(previous, "{") || isPunctuator(previous, ","));
+      if (!isKey) {
+        segments.push({ name: token.value, first: index, last: index, bare: !isMember });
+      }
+      return;
+    }
+    if (isPunctuator(token, "[") && index > 0) {
+      const previous = tokens[index - 1];
+      const isAccess =
+        (previous.type === "identifier" && !JS_EXPRESSION_KEYWORDS.has(previous.value)) ||
+        previous.type === "string" ||
+        isPunctuator(previous, ")") ||
+        isPunctuator(previous, "]") ||
+        isPunctuator(previous, "?.");
+      const close = isAccess ? findMatchingBracket(tokens, index) : -1;
+      const name = close > index ? foldConstantString(tokens, index + 1, close) : null;
+      if (name !== null) {
+        segments.push({ name, first: index, last: close, bare: false });
+      }
+    }
+  });
+  return segments;
+};
+
+/** The segment a member segment hangs off (`a` for `.b` or `["b"]` in `a.b`), if any. */
+const previousSegment = (tokens: JsToken[], segment: Segment, byLast: Map<number, Segment>): Segment | null => {
+  if (segment.bare) {
+    return null;
+  }
+  let end = segment.first - 1;
+  if (isPunctuator(tokens[end], ".") || isPunctuator(tokens[end], "?.")) {
+    end -= 1;
   }
+  if (end < 0) {
+    return null;
+  }
+  const direct = byLast.get(end);
+  if (direct) {
+    return direct;
+  }
+  // A non-constant computed segment still links the chain; it just cannot match a name.
+  if (isPunctuator(tokens[end], "]")) {
+    const open = findOpeningBracket(tokens, end);
+    return open >= 0 ? { name: "", first: open, last: end, bare: false } : null;
+  }
+  return null;
+};
 
-  if (!normalizedHtml.includes(normalize(policy.requiredReadyMarker))) {
-    return {
-      ok: false,
-      code: "MISSING_READY_BOOTSTRAP",
-      message: "Artifact is missing the readiness bootstrap marker.",
-    };
+const matchJsPattern = (source: JsSource, pattern: CompiledPattern): Match[] => {
+  if (pattern.kind === "css") {
+    // Cooked strings have no per-character source offsets, so matches point at the literal.
+    return source.tokens
+      .filter((token) => token.type === "string" || token.type === "template")
+      .filter((token) => matchCss({ text: token.value, offsets: Array(token.value.length).fill(0) }, pattern.matcher).length > 0)
+      .map((token) => ({ index: source.offsets[token.offset], length: token.end - token.offset }));
   }
+  if (pattern.kind !== "reference" && pattern.kind !== "member") {
+    return [];
+  }
+  const { tokens } = source;
+  const { segments, segmentsByLast: byLast } = source;
+  const matches: Match[] = [];
 
-  for (const rule of policy.bannedPatterns) {
-    const patterns = rule.patterns ?? [];
-    for (const pattern of patterns) {
-      const matchIndex = findPatternIndex(artifactHtml, normalizedHtml, pattern);
-      if (matchIndex >= 0) {
-        return {
-          ok: false,
-          code: rule.id,
-          ruleId: pattern,
-          message: `Artifact contains banned pattern: ${pattern}`,
-          matchIndex,
-          contextSnippet: makeSnippet(artifactHtml, matchIndex, pattern.length),
-        };
+  for (const segment of segments) {
+    let first = segment.first;
+    if (pattern.kind === "reference") {
+      if (segment.name !== pattern.name) {
+        continue;
       }
+      if (pattern.requireCall && !isPunctuator(tokens[segment.last + 1], "(")) {
+        continue;
+      }
+      if (pattern.requireNew && tokens[segment.first - 1]?.value !== "new") {
+        continue;
+      }
+    } else {
+      const path = pattern.path;
+      if (segment.name !== path[path.length - 1]) {
+        continue;
+      }
+      let cursor: Segment | null = segment;
+      let matched = true;
+      for (let step = path.length - 2; step >= 0; step -= 1) {
+        cursor = cursor ? previousSegment(tokens, cursor, byLast) : null;
+        if (!cursor || cursor.name !== path[step]) {
+          matched = false;
+          break;
+        }
+      }
+      if (!matched || !cursor) {
+        continue;
+      }
+      if (pattern.requireAssignment && !isPunctuator(tokens[segment.last + 1], "=")) {
+        continue;
+      }
+      first = cursor.first;
     }
+    const start = tokens[first].offset;
+    const end = tokens[segment.last].end;
+    matches.push({ index: source.offsets[start], length: Math.max(1, end - start) });
   }
+  return matches;
+};
 
-  for (const rule of policy.bannedTags) {
-    const tags = rule.tags ?? [];
-    for (const tag of tags) {
-      const pattern = `<${tag}`;
-      const matchIndex = findPatternIndex(artifactHtml, normalizedHtml, pattern);
-      if (matchIndex >= 0) {
-        return {
-          ok: false,
-          code: rule.id,
-          ruleId: tag,
-          message: `Artifact contains banned tag: ${tag}`,
-          matchIndex,
-          contextSnippet: makeSnippet(artifactHtml, matchIndex, pattern.length),
-        };
+/**
+ * Drops comments and decodes escapes (`\75 rl(`, `u\rl(`) the way a CSS
+ * tokenizer would, returning the source offset of each remaining character.
+ */
+const normalizeCss = (css: DecodedText): DecodedText => {
+  let text = "";
+  const offsets: number[] = [];
+  let index = 0;
+  while (index < css.text.length) {
+    if (css.text.startsWith("/*", index)) {
+      const close = css.text.indexOf("*/", index + 2);
+      index = close === -1 ? css.text.length : close + 2;
+      continue;
+    }
+    const escape = css.text[index] === "\\" ? /^\\(?:([0-9a-fA-F]{1,6})\s?|([^\n0-9a-fA-F]))/.exec(css.text.slice(index, index + 8)) : null;
+    if (escape) {
+      const codePoint = escape[1] !== undefined ? Math.min(parseInt(escape[1], 16), 0x10ffff) : null;
+      text += codePoint !== null ? String.fromCodePoint(codePoint) : escape[2];
+      offsets.push(css.offsets[index]);
+      index += escape[0].length;
+      continue;
+    }
+    text += css.text[index];
+    offsets.push(css.offsets[index]);
+    index += 1;
+  }
+  return { text: text.toLowerCase(), offsets };
+};
+
+const matchCss = (css: DecodedText, matcher: RegExp): Match[] => {
+  const normalized = normalizeCss(css);
+  const matches: Match[] = [];
+  matcher.lastIndex = 0;
+  let match = matcher.exec(normalized.text);
+  while (match) {
+    const start = normalized.offsets[match.index];
+    const last = normalized.offsets[match.index + match[0].length - 1];
+    matches.push({ index: start, length: last - start + 1 });
+    match = matcher.exec(normalized.text);
+  }
+  return matches;
+};
+
+const isExecutableScript = (tag: StartTag): boolean => {
+  const type = getAttribute(tag, "type")?.value.text.trim().toLowerCase() ?? "";
+  return JS_SCRIPT_TYPES.has(type);
+};
+
+/** Browsers strip tabs/newlines anywhere in URLs and leading control characters and spaces. */
+const javascriptUrlBody = (value: DecodedText): DecodedText | null => {
+  let text = "";
+  const offsets: number[] = [];
+  for (let index = 0; index < value.text.length; index += 1) {
+    const char = value.text[index];
+    if (char === "\t" || char === "\n" || char === "\r" || (text.length === 0 && char <= " ")) {
+      continue;
+    }
+    text += char;
+    offsets.push(value.offsets[index]);
+  }
+  return /^javascript:/i.test(text) ? sliceDecoded({ text, offsets }, "javascript:".length) : null;
+};
+
+type ArtifactParts = {
+  tags: StartTag[];
+  jsSources: JsSource[];
+  /** Style element bodies and style attribute values. */
+  cssSources: DecodedText[];
+  /** Raw script/style bodies and attribute values, for plain-text patterns. */
+  sourceTexts: DecodedText[];
+  visibleText: string;
+};
+
+const collectArtifactParts = (artifactHtml: string): ArtifactParts => {
+  const tokens = tokenizeHtml(artifactHtml);
+  const parts: ArtifactParts = { tags: [], jsSources: [], cssSources: [], sourceTexts: [], visibleText: "" };
+  const textChunks: string[] = [];
+  const addJs = (value: DecodedText) => {
+    const jsTokens = tokenizeJs(value.text);
+    const segments = collectSegments(jsTokens);
+    parts.jsSources.push({
+      tokens: jsTokens,
+      offsets: value.offsets,
+      segments,
+      segmentsByLast: new Map(segments.map((segment) => [segment.last, segment])),
+    });
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.type === "text") {
+      textChunks.push(token.value.text);
+      return;
+    }
+    if (token.type === "rawText") {
+      parts.sourceTexts.push(token.value);
+      const opener = tokens[index - 1];
+      if (token.element === "style") {
+        parts.cssSources.push(token.value);
+      } else if (token.element === "script" && opener?.type === "startTag" && isExecutableScript(opener)) {
+        addJs(token.value);
+      }
+      return;
+    }
+    if (token.type !== "startTag") {
+      return;
+    }
+    parts.tags.push(token);
+    for (const attribute of token.attributes) {
+      parts.sourceTexts.push(attribute.value);
+      if (attribute.name.startsWith("on")) {
+        addJs(attribute.value);
+      } else if (attribute.name === "style") {
+        parts.cssSources.push(attribute.value);
+      } else if (URL_ATTRIBUTES.has(attribute.name)) {
+        const body = javascriptUrlBody(attribute.value);
+        if (body) {
+          addJs(body);
+        }
+      }
+    }
+  });
+
+  parts.visibleText = textChunks.join(" ");
+  return parts;
+};
+
+const findPatternMatches = (parts: ArtifactParts, pattern: CompiledPattern): Match[] => {
+  switch (pattern.kind) {
+    case "reference":
+    case "member":
+      return parts.jsSources.flatMap((source) => matchJsPattern(source, pattern));
+    case "tag":
+      return parts.tags
+        .filter((tag) => tag.name === pattern.tag)
+        .map((tag) => ({ index: tag.offset, length: tag.name.length + 1 }));
+    case "tagAttribute":
+      return parts.tags
+        .filter((tag) => tag.name === pattern.tag && getAttribute(tag, pattern.attribute))
+        .map((tag) => ({ index: tag.offset, length: tag.end - tag.offset }));
+    case "attributeValue":
+      return parts.tags.flatMap((tag) => {
+        const attribute = getAttribute(tag, pattern.attribute);
+        return attribute && attribute.value.text.trim().toLowerCase() === pattern.value
+          ? [{ index: attribute.offset, length: tag.end - attribute.offset }]
+          : [];
+      });
+    case "css":
+      return [
+        ...parts.cssSources.flatMap((css) =>
+          matchCss(css, pattern.matcher)
+        ),
+        ...parts.jsSources.flatMap((source) => matchJsPattern(source, pattern)),
+      ];
+    case "text":
+      return parts.sourceTexts.flatMap((value) => {
+        const haystack = value.text.toLowerCase();
+        const matches: Match[] = [];
+        let index = haystack.indexOf(pattern.needle);
+        while (index >= 0 && pattern.needle.length > 0) {
+          matches.push({ index: value.offsets[index], length: pattern.needle.length });
+          index = haystack.indexOf(pattern.needle, index + pattern.needle.length);
+        }
+        return matches;
+      });
+  }
+};
+
+const collapseWhitespace = (value: string): string => value.replace(/\s+/g, " ").trim().toLowerCase();
+
+const hasRequiredCspMarkers = (tags: StartTag[], directives: string[]): boolean => {
+  const policies = tags
+    .filter(
+      (tag) =>
+        tag.name === "meta" &&
+        getAttribute(tag, "http-equiv")?.value.text.trim().toLowerCase() === "content-security-policy"
+    )
+    .map((tag) => collapseWhitespace(getAttribute(tag, "content")?.value.text ?? ""));
+  return (
+    policies.length > 0 &&
+    directives.every((directive) => policies.some((policy) => policy.includes(collapseWhitespace(directive))))
+  );
+};
+
+const makeSnippet = (text: string, index: number, patternLength: number, radius = 80): string => {
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + patternLength + radius);
+  return text.slice(start, end);
+};
+
+const buildLineLocator = (text: string) => {
+  const lineStarts = [0];
+  for (let index = 0; index < text.length; index += 1) {
+    if (text[index] === "\n") {
+      lineStarts.push(index + 1);
+    }
+  }
+  return (index: number): { line: number; column: number } => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= index) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: index - lineStarts[low] + 1 };
+  };
+};
+
+export type ScanReport = {
+  ok: boolean;
+  /** Located content violations in document order, then missing requirements. */
+  findings: ScanFinding[];
+};
+
+/** Runs every rule and reports all findings instead of stopping at the first. */
+export const scanArtifactHtmlAll = (artifactHtml: string, policy: PromptCalcPolicy): ScanReport => {
+  const parts = collectArtifactParts(artifactHtml);
+  const locate = buildLineLocator(artifactHtml);
+  const located: ScanFinding[] = [];
+  const seen = new Set<string>();
+
+  const addMatches = (code: string, ruleId: string, message: string, matches: Match[]) => {
+    for (const match of matches) {
+      const key = `${code}:${match.index}`;
+      if (seen.has(key)) {
+        continue;
       }
+      seen.add(key);
+      located.push({
+        code,
+        ruleId,
+        message,
+        severity: "block",
+        matchIndex: match.index,
+        ...locate(match.index),
+        contextSnippet: makeSnippet(artifactHtml, match.index, match.length),
+      });
+    }
+  };
+
+  for (const rule of policy.bannedPatterns) {
+    for (const pattern of rule.patterns ?? []) {
+      addMatches(
+        rule.id,
+        pattern,
+        `Artifact contains banned pattern: ${pattern}`,
+        findPatternMatches(parts, compilePattern(pattern))
+      );
     }
   }
 
-  return { ok: true };
+  for (const rule of policy.bannedTags) {
+    for (const tag of rule.tags ?? []) {
+      addMatches(
+        rule.id,
+        tag,
+        `Artifact contains banned tag: ${tag}`,
+        findPatternMatches(parts, { kind: "tag", tag: tag.toLowerCase() })
+      );
+    }
+  }
+
+  located.sort((left, right) => (left.matchIndex ?? 0) - (right.matchIndex ?? 0));
+
+  const missing: ScanFinding[] = [];
+  if (!hasRequiredCspMarkers(parts.tags, policy.requiredCspDirectives)) {
+    missing.push({ code: "MISSING_CSP", message: "Artifact is missing the required CSP directives.", severity: "block" });
+  }
+  if (!collapseWhitespace(parts.visibleText).includes(collapseWhitespace(policy.requiredBannerText))) {
+    missing.push({ code: "MISSING_CSP", message: "Artifact is missing the required safety banner.", severity: "block" });
+  }
+  const readyMarker = policy.requiredReadyMarker.toLowerCase();
+  if (!parts.tags.some((tag) => getAttribute(tag, "id")?.value.text.trim().toLowerCase() === readyMarker)) {
+    missing.push({
+      code: "MISSING_READY_BOOTSTRAP",
+      message: "Artifact is missing the readiness bootstrap marker.",
+      severity: "block",
+    });
+  }
+
+  const findings = [...located, ...missing];
+  return { ok: !findings.some((finding) => finding.severity === "block"), findings };
+};
+
+export const scanArtifactHtml = (
+  artifactHtml: string,
+  policy: PromptCalcPolicy
+): ScanResult => {
+  const { ok, findings } = scanArtifactHtmlAll(artifactHtml, policy);
+  if (ok) {
+    return { ok: true };
+  }
+  const first = findings.find((finding) => finding.severity === "block") ?? findings[0];
+  return { ok: false, ...first, findings };
 };
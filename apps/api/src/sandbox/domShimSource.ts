@@ -0,0 +1,1000 @@
+/**
+ * Purpose: Provide the minimal DOM shim source evaluated inside the self-test vm context.
+ * Persists: None.
+ * Security Risks: Runs alongside untrusted artifact scripts; the shim is evaluated inside the context so no host objects leak into the guest realm.
+ */
+
+// The shim must be self-contained JavaScript: it is evaluated with vm.runInContext, never imported.
+// The host talks to it only through JSON strings via globalThis.__promptcalcShim.
+export const DOM_SHIM_SOURCE = String.raw`
+(function () {
+  "use strict";
+  var VOID_TAGS = { area: 1, base: 1, br: 1, col: 1, embed: 1, hr: 1, img: 1, input: 1, link: 1, meta: 1, source: 1, track: 1, wbr: 1 };
+  var RAW_TEXT_TAGS = { script: 1, style: 1, textarea: 1, title: 1 };
+  var VALUE_TAGS = { input: 1, textarea: 1, select: 1, output: 1 };
+  var ENTITIES = { amp: "&", lt: "<", gt: ">", quot: "\"", "#39": "'", nbsp: "\u00a0" };
+  var state = { steps: 0, maxSteps: 50000, budgetExceeded: false, timers: [], nextTimerId: 1, errors: [] };
+
+  function tick() {
+    state.steps += 1;
+    if (state.budgetExceeded || state.steps > state.maxSteps) {
+      state.budgetExceeded = true;
+      throw new Error("PROMPTCALC_STEP_BUDGET_EXCEEDED");
+    }
+  }
+
+  function describe(error) {
+    try {
+      return String(error && error.message ? error.message : error).slice(0, 300);
+    } catch (e) {
+      return "unknown error";
+    }
+  }
+
+  function recordError(error) {
+    if (state.errors.length < 20) {
+      state.errors.push(describe(error));
+    }
+  }
+
+  function decode(text) {
+    return text.replace(/&(amp|lt|gt|quot|#39|nbsp);/g, function (match, name) {
+      return ENTITIES[name];
+    });
+  }
+
+  function parseAttrs(source) {
+    var attrs = {};
+    var re = /([^\s=\/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    var match;
+    while ((match = re.exec(source))) {
+      var value = match[2] != null ? match[2] : match[3] != null ? match[3] : match[4] != null ? match[4] : "";
+      attrs[match[1].toLowerCase()] = decode(value);
+    }
+    return attrs;
+  }
+
+  function EventTargetShim() {}
+  EventTargetShim.prototype.addEventListener = function (type, listener, options) {
+    tick();
+    if (typeof listener !== "function" && !(listener && typeof listener.handleEvent === "function")) {
+      return;
+    }
+    if (!this._listeners) {
+      this._listeners = {};
+    }
+    var list = this._listeners[type] || (this._listeners[type] = []);
+    list.push({ listener: listener, once: Boolean(options && options.once) });
+  };
+  EventTargetShim.prototype.removeEventListener = function (type, listener) {
+    tick();
+    var list = this._listeners && this._listeners[type];
+    if (!list) {
+      return;
+    }
+    this._listeners[type] = list.filter(function (entry) {
+      return entry.listener !== listener;
+    });
+  };
+  EventTargetShim.prototype.dispatchEvent = function (event) {
+    tick();
+    dispatch(this, event);
+    return !event.defaultPrevented;
+  };
+
+  function EventShim(type, init) {
+    this.type = String(type);
+    this.bubbles = Boolean(init && init.bubbles);
+    this.cancelable = Boolean(init && init.cancelable);
+    this.defaultPrevented = false;
+    this.target = null;
+    this.currentTarget = null;
+    this.detail = init && init.detail;
+    this.key = init && init.key;
+    this._stopped = false;
+  }
+  EventShim.prototype.preventDefault = function () {
+    this.defaultPrevented = true;
+  };
+  EventShim.prototype.stopPropagation = function () {
+    this._stopped = true;
+  };
+  EventShim.prototype.stopImmediatePropagation = function () {
+    this._stopped = true;
+  };
+
+  function invoke(node, event) {
+    event.currentTarget = node;
+    var list = node._listeners && node._listeners[event.type];
+    if (list) {
+      list.slice().forEach(function (entry) {
+        if (entry.once) {
+          node.removeEventListener(event.type, entry.listener);
+        }
+        try {
+          if (typeof entry.listener === "function") {
+            entry.listener.call(node, event);
+          } else {
+            entry.listener.handleEvent(event);
+          }
+        } catch (error) {
+          if (state.budgetExceeded) {
+            throw error;
+          }
+          recordError(error);
+        }
+      });
+    }
+    var handler = node["on" + event.type];
+    if (typeof handler === "function") {
+      try {
+        handler.call(node, event);
+      } catch (error) {
+        if (state.budgetExceeded) {
+          throw error;
+        }
+        recordError(error);
+      }
+    }
+  }
+
+  function dispatch(target, event) {
+    event.target = target;
+    var path = [target];
+    if (event.bubbles) {
+      var cursor = target.parentNode;
+      while (cursor) {
+        path.push(cursor);
+        cursor = cursor.parentNode;
+      }
+      if (target !== windowShim && path.indexOf(documentShim) !== -1) {
+        path.push(windowShim);
+      }
+    }
+    for (var i = 0; i < path.length && !event._stopped; i += 1) {
+      invoke(path[i], event);
+    }
+  }
+
+  function TextNode(text) {
+    this.nodeType = 3;
+    this.nodeName = "#text";
+    this.data = String(text);
+    this.parentNode = null;
+  }
+  Object.defineProperty(TextNode.prototype, "textContent", {
+    get: function () {
+      return this.data;
+    },
+    set: function (value) {
+      this.data = String(value);
+    },
+  });
+  TextNode.prototype.remove = function () {
+    detach(this);
+  };
+
+  function detach(node) {
+    var parent = node.parentNode;
+    if (parent) {
+      var index = parent.childNodes.indexOf(node);
+      if (index !== -1) {
+        parent.childNodes.splice(index, 1);
+      }
+      node.parentNode = null;
+    }
+  }
+
+  function appendRaw(parent, node) {
+    if (node.nodeName === "#document-fragment") {
+      node.childNodes.slice().forEach(function (child) {
+        appendRaw(parent, child);
+      });
+      return;
+    }
+    detach(node);
+    node.parentNode = parent;
+    parent.childNodes.push(node);
+  }
+
+  function createStyle() {
+    var style = {};
+    style.setProperty = function (name, value) {
+      style[name] = String(value);
+    };
+    style.getPropertyValue = function (name) {
+      return style[name] || "";
+    };
+    style.removeProperty = function (name) {
+      delete style[name];
+    };
+    return style;
+  }
+
+  function ElementShim(tagName, attrs) {
+    this.nodeType = 1;
+    this.localName = String(tagName).toLowerCase();
+    this.tagName = this.localName.toUpperCase();
+    this.nodeName = this.tagName;
+    this._attrs = attrs || {};
+    this.childNodes = [];
+    this.parentNode = null;
+    this.style = createStyle();
+    this._value = null;
+    this._checked = null;
+  }
+  ElementShim.prototype = Object.create(EventTargetShim.prototype);
+  ElementShim.prototype.constructor = ElementShim;
+
+  ["id", "name", "type", "placeholder", "title", "role", "min", "max", "step", "href", "src", "alt", "lang"].forEach(function (attr) {
+    Object.defineProperty(ElementShim.prototype, attr, {
+      get: function () {
+        return this._attrs[attr] != null ? this._attrs[attr] : "";
+      },
+      set: function (value) {
+        this._attrs[attr] = String(value);
+      },
+    });
+  });
+  ["disabled", "hidden", "readOnly", "required", "multiple"].forEach(function (prop) {
+    var attr = prop.toLowerCase();
+    Object.defineProperty(ElementShim.prototype, prop, {
+      get: function () {
+        return Object.prototype.hasOwnProperty.call(this._attrs, attr);
+      },
+      set: function (value) {
+        if (value) {
+          this._attrs[attr] = "";
+        } else {
+          delete this._attrs[attr];
+        }
+      },
+    });
+  });
+  Object.defineProperty(ElementShim.prototype, "htmlFor", {
+    get: function () {
+      return this._attrs["for"] || "";
+    },
+    set: function (value) {
+      this._attrs["for"] = String(value);
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "className", {
+    get: function () {
+      return this._attrs["class"] || "";
+    },
+    set: function (value) {
+      this._attrs["class"] = String(value);
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "classList", {
+    get: function () {
+      var element = this;
+      var read = function () {
+        return element.className.split(/\s+/).filter(Boolean);
+      };
+      var write = function (list) {
+        element.className = list.join(" ");
+      };
+      return {
+        add: function () {
+          var list = read();
+          Array.prototype.forEach.call(arguments, function (name) {
+            if (list.indexOf(name) === -1) {
+              list.push(name);
+            }
+          });
+          write(list);
+        },
+        remove: function () {
+          var names = Array.prototype.slice.call(arguments);
+          write(read().filter(function (name) {
+            return names.indexOf(name) === -1;
+          }));
+        },
+        contains: function (name) {
+          return read().indexOf(name) !== -1;
+        },
+        toggle: function (name, force) {
+          var has = read().indexOf(name) !== -1;
+          var next = force === undefined ? !has : Boolean(force);
+          if (next && !has) {
+            this.add(name);
+          } else if (!next && has) {
+            this.remove(name);
+          }
+          return next;
+        },
+      };
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "dataset", {
+    get: function () {
+      var data = {};
+      var attrs = this._attrs;
+      Object.keys(attrs).forEach(function (name) {
+        if (name.indexOf("data-") === 0) {
+          data[name.slice(5).replace(/-([a-z])/g, function (m, c) { return c.toUpperCase(); })] = attrs[name];
+        }
+      });
+      return data;
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "textContent", {
+    get: function () {
+      return this.childNodes.map(function (child) {
+        return child.textContent;
+      }).join("");
+    },
+    set: function (value) {
+      tick();
+      this.childNodes.slice().forEach(detach);
+      if (value !== null && value !== undefined && String(value).length > 0) {
+        appendRaw(this, new TextNode(value));
+      }
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "innerText", {
+    get: function () {
+      return this.textContent;
+    },
+    set: function (value) {
+      this.textContent = value;
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "innerHTML", {
+    get: function () {
+      return this.childNodes.map(serialize).join("");
+    },
+    set: function (value) {
+      tick();
+      this.childNodes.slice().forEach(detach);
+      parseInto(this, String(value));
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "value", {
+    get: function () {
+      if (this.localName === "select") {
+        if (this._value !== null) {
+          return this._value;
+        }
+        var options = this.options;
+        var selected = options.filter(function (option) {
+          return option.hasAttribute("selected");
+        })[0] || options[0];
+        return selected ? selected.value : "";
+      }
+      if (this.localName === "option") {
+        return this._attrs.value != null ? this._attrs.value : this.textContent;
+      }
+      if (this.localName === "textarea") {
+        return this._value !== null ? this._value : this.textContent;
+      }
+      if (this.localName === "output") {
+        return this.textContent;
+      }
+      if (this._value !== null) {
+        return this._value;
+      }
+      if (this._attrs.value != null) {
+        return this._attrs.value;
+      }
+      return this.type === "checkbox" || this.type === "radio" ? "on" : "";
+    },
+    set: function (value) {
+      tick();
+      if (this.localName === "output") {
+        this.textContent = value;
+        return;
+      }
+      if (this.localName === "option") {
+        this._attrs.value = String(value);
+        return;
+      }
+      this._value = value === null || value === undefined ? "" : String(value);
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "valueAsNumber", {
+    get: function () {
+      var text = this.value;
+      return text.trim().length > 0 ? Number(text) : NaN;
+    },
+    set: function (value) {
+      this.value = String(value);
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "checked", {
+    get: function () {
+      return this._checked !== null ? this._checked : Object.prototype.hasOwnProperty.call(this._attrs, "checked");
+    },
+    set: function (value) {
+      this._checked = Boolean(value);
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "options", {
+    get: function () {
+      return this.querySelectorAll("option");
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "selectedIndex", {
+    get: function () {
+      var value = this.value;
+      return this.options.map(function (option) { return option.value; }).indexOf(value);
+    },
+    set: function (index) {
+      var option = this.options[index];
+      this._value = option ? option.value : "";
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "children", {
+    get: function () {
+      return this.childNodes.filter(function (child) {
+        return child.nodeType === 1;
+      });
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "firstChild", {
+    get: function () {
+      return this.childNodes[0] || null;
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "lastChild", {
+    get: function () {
+      return this.childNodes[this.childNodes.length - 1] || null;
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "firstElementChild", {
+    get: function () {
+      return this.children[0] || null;
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "parentElement", {
+    get: function () {
+      return this.parentNode && this.parentNode.nodeType === 1 ? this.parentNode : null;
+    },
+  });
+  Object.defineProperty(ElementShim.prototype, "form", {
+    get: function () {
+      return this.closest("form");
+    },
+  });
+
+  ElementShim.prototype.getAttribute = function (name) {
+    var key = String(name).toLowerCase();
+    return Object.prototype.hasOwnProperty.call(this._attrs, key) ? this._attrs[key] : null;
+  };
+  ElementShim.prototype.setAttribute = function (name, value) {
+    tick();
+    this._attrs[String(name).toLowerCase()] = String(value);
+  };
+  ElementShim.prototype.hasAttribute = function (name) {
+    return Object.prototype.hasOwnProperty.call(this._attrs, String(name).toLowerCase());
+  };
+  ElementShim.prototype.removeAttribute = function (name) {
+    tick();
+    delete this._attrs[String(name).toLowerCase()];
+  };
+  ElementShim.prototype.appendChild = function (node) {
+    tick();
+    appendRaw(this, node);
+    return node;
+  };
+  ElementShim.prototype.append = function () {
+    var element = this;
+    Array.prototype.forEach.call(arguments, function (node) {
+      element.appendChild(typeof node === "string" ? new TextNode(node) : node);
+    });
+  };
+  ElementShim.prototype.prepend = function () {
+    var element = this;
+    Array.prototype.slice.call(arguments).reverse().forEach(function (node) {
+      element.insertBefore(typeof node === "string" ? new TextNode(node) : node, element.firstChild);
+    });
+  };
+  ElementShim.prototype.insertBefore = function (node, reference) {
+    tick();
+    if (!reference) {
+      return this.appendChild(node);
+    }
+    detach(node);
+    var index = this.childNodes.indexOf(reference);
+    node.parentNode = this;
+    this.childNodes.splice(index === -1 ? this.childNodes.length : index, 0, node);
+    return node;
+  };
+  ElementShim.prototype.removeChild = function (node) {
+    tick();
+    detach(node);
+    return node;
+  };
+  ElementShim.prototype.replaceChildren = function () {
+    this.childNodes.slice().forEach(detach);
+    this.append.apply(this, arguments);
+  };
+  ElementShim.prototype.remove = function () {
+    detach(this);
+  };
+  ElementShim.prototype.cloneNode = function (deep) {
+    var copy = new ElementShim(this.localName, Object.assign({}, this._attrs));
+    if (deep) {
+      copy.innerHTML = this.innerHTML;
+    }
+    return copy;
+  };
+  ElementShim.prototype.focus = function () {};
+  ElementShim.prototype.blur = function () {};
+  ElementShim.prototype.select = function () {};
+  ElementShim.prototype.scrollIntoView = function () {};
+  ElementShim.prototype.getBoundingClientRect = function () {
+    return { x: 0, y: 0, top: 0, left: 0, right: 0, bottom: 0, width: 0, height: 0 };
+  };
+  ElementShim.prototype.click = function () {
+    tick();
+    if (this.disabled) {
+      return;
+    }
+    if (this.localName === "input" && (this.type === "checkbox" || this.type === "radio")) {
+      this.checked = this.type === "radio" ? true : !this.checked;
+    }
+    dispatch(this, new EventShim("click", { bubbles: true, cancelable: true }));
+    if (this.localName === "input" && (this.type === "checkbox" || this.type === "radio")) {
+      dispatch(this, new EventShim("input", { bubbles: true }));
+      dispatch(this, new EventShim("change", { bubbles: true }));
+    }
+  };
+  ElementShim.prototype.querySelectorAll = function (selector) {
+    tick();
+    var groups = parseSelectorList(selector);
+    var results = [];
+    walk(this, function (node) {
+      if (groups.some(function (group) { return matchesComplex(node, group); })) {
+        results.push(node);
+      }
+    });
+    return results;
+  };
+  ElementShim.prototype.querySelector = function (selector) {
+    return this.querySelectorAll(selector)[0] || null;
+  };
+  ElementShim.prototype.getElementsByTagName = function (tag) {
+    return this.querySelectorAll(tag);
+  };
+  ElementShim.prototype.getElementsByClassName = function (name) {
+    return this.querySelectorAll("." + name);
+  };
+  ElementShim.prototype.matches = function (selector) {
+    var element = this;
+    return parseSelectorList(selector).some(function (group) {
+      return matchesComplex(element, group);
+    });
+  };
+  ElementShim.prototype.closest = function (selector) {
+    var cursor = this;
+    while (cursor && cursor.nodeType === 1) {
+      if (cursor.matches(selector)) {
+        return cursor;
+      }
+      cursor = cursor.parentNode;
+    }
+    return null;
+  };
+
+  function walk(root, visit) {
+    root.childNodes.forEach(function (child) {
+      if (child.nodeType === 1) {
+        visit(child);
+        walk(child, visit);
+      }
+    });
+  }
+
+  function serialize(node) {
+    if (node.nodeType === 3) {
+      return node.data.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    }
+    var attrs = Object.keys(node._attrs).map(function (name) {
+      return " " + name + "=\"" + String(node._attrs[name]).replace(/"/g, "&quot;") + "\"";
+    }).join("");
+    if (VOID_TAGS[node.localName]) {
+      return "<" + node.localName + attrs + ">";
+    }
+    return "<" + node.localName + attrs + ">" + node.childNodes.map(serialize).join("") + "</" + node.localName + ">";
+  }
+
+  function parseCompound(text) {
+    var compound = { tag: null, id: null, classes: [], attrs: [], pseudos: [] };
+    var re = /^([a-zA-Z*][\w-]*)|#([\w-]+)|\.([\w-]+)|\[\s*([\w-]+)\s*(?:([~^$*|]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+)))?\s*\]|:([\w-]+)/g;
+    var consumed = 0;
+    var match;
+    while ((match = re.exec(text))) {
+      if (match.index !== consumed) {
+        return null;
+      }
+      consumed = re.lastIndex;
+      if (match[1]) {
+        compound.tag = match[1] === "*" ? null : match[1].toLowerCase();
+      } else if (match[2]) {
+        compound.id = match[2];
+      } else if (match[3]) {
+        compound.classes.push(match[3]);
+      } else if (match[4]) {
+        var value = match[6] != null ? match[6] : match[7] != null ? match[7] : match[8];
+        compound.attrs.push({ name: match[4].toLowerCase(), op: match[5] || null, value: value });
+      } else if (match[9]) {
+        compound.pseudos.push(match[9]);
+      }
+    }
+    return consumed === text.length ? compound : null;
+  }
+
+  function parseSelectorList(selector) {
+    return String(selector).split(",").map(function (part) {
+      var tokens = part.trim().replace(/\s*>\s*/g, " > ").split(/\s+/).filter(Boolean);
+      var steps = [];
+      var combinator = " ";
+      tokens.forEach(function (token) {
+        if (token === ">") {
+          combinator = ">";
+          return;
+        }
+        var compound = parseCompound(token);
+        if (!compound) {
+          throw new Error("Unsupported selector: " + selector);
+        }
+        steps.push({ compound: compound, combinator: combinator });
+        combinator = " ";
+      });
+      return steps;
+    });
+  }
+
+  function matchesCompound(node, compound) {
+    if (node.nodeType !== 1) {
+      return false;
+    }
+    if (compound.tag && node.localName !== compound.tag) {
+      return false;
+    }
+    if (compound.id && node.id !== compound.id) {
+      return false;
+    }
+    var classes = node.className.split(/\s+/);
+    if (!compound.classes.every(function (name) { return classes.indexOf(name) !== -1; })) {
+      return false;
+    }
+    var attrsMatch = compound.attrs.every(function (attr) {
+      var actual = node.getAttribute(attr.name);
+      if (actual === null) {
+        return false;
+      }
+      if (!attr.op) {
+        return true;
+      }
+      if (attr.op === "=") {
+        return actual === attr.value;
+      }
+      if (attr.op === "^=") {
+        return actual.indexOf(attr.value) === 0;
+      }
+      if (attr.op === "$=") {
+        return actual.slice(-attr.value.length) === attr.value;
+      }
+      if (attr.op === "*=") {
+        return actual.indexOf(attr.value) !== -1;
+      }
+      if (attr.op === "~=") {
+        return actual.split(/\s+/).indexOf(attr.value) !== -1;
+      }
+      return actual === attr.value || actual.indexOf(attr.value + "-") === 0;
+    });
+    if (!attrsMatch) {
+      return false;
+    }
+    return compound.pseudos.every(function (pseudo) {
+      if (pseudo === "checked") {
+        return node.checked;
+      }
+      if (pseudo === "disabled") {
+        return node.disabled;
+      }
+      if (pseudo === "enabled") {
+        return !node.disabled;
+      }
+      return false;
+    });
+  }
+
+  function matchesComplex(node, steps) {
+    var index = steps.length - 1;
+    if (index < 0 || !matchesCompound(node, steps[index].compound)) {
+      return false;
+    }
+    var cursor = node;
+    while (index > 0) {
+      var combinator = steps[index].combinator;
+      index -= 1;
+      cursor = cursor.parentNode;
+      if (combinator === ">") {
+        if (!cursor || !matchesCompound(cursor, steps[index].compound)) {
+          return false;
+        }
+        continue;
+      }
+      while (cursor && !matchesCompound(cursor, steps[index].compound)) {
+        cursor = cursor.parentNode;
+      }
+      if (!cursor) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  function parseInto(parent, html) {
+    var re = /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+    var stack = [parent];
+    var match;
+    while ((match = re.exec(html))) {
+      var current = stack[stack.length - 1];
+      var token = match[0];
+      if (token.indexOf("<!") === 0) {
+        continue;
+      }
+      if (match[1]) {
+        var closing = match[1].toLowerCase();
+        for (var i = stack.length - 1; i > 0; i -= 1) {
+          if (stack[i].localName === closing) {
+            stack.length = i;
+            break;
+          }
+        }
+        continue;
+      }
+      if (match[2]) {
+        var tag = match[2].toLowerCase();
+        var attrSource = match[3] || "";
+        var selfClosing = /\/\s*$/.test(attrSource);
+        var element = new ElementShim(tag, parseAttrs(attrSource.replace(/\/\s*$/, "")));
+        appendRaw(current, element);
+        if (RAW_TEXT_TAGS[tag]) {
+          var closeRe = new RegExp("</" + tag + "\\s*>", "ig");
+          closeRe.lastIndex = re.lastIndex;
+          var close = closeRe.exec(html);
+          var end = close ? close.index : html.length;
+          var text = html.slice(re.lastIndex, end);
+          if (text.length > 0) {
+            appendRaw(element, new TextNode(tag === "script" || tag === "style" ? text : decode(text)));
+          }
+          re.lastIndex = close ? close.index + close[0].length : html.length;
+          continue;
+        }
+        if (!VOID_TAGS[tag] && !selfClosing) {
+          stack.push(element);
+        }
+        continue;
+      }
+      appendRaw(current, new TextNode(decode(token)));
+    }
+  }
+
+  function DocumentShim() {
+    this.nodeType = 9;
+    this.nodeName = "#document";
+    this.childNodes = [];
+    this.parentNode = null;
+    this.readyState = "loading";
+  }
+  DocumentShim.prototype = Object.create(EventTargetShim.prototype);
+  DocumentShim.prototype.constructor = DocumentShim;
+  DocumentShim.prototype.getElementById = function (id) {
+    tick();
+    var found = null;
+    walk(this, function (node) {
+      if (!found && node.getAttribute("id") === String(id)) {
+        found = node;
+      }
+    });
+    return found;
+  };
+  DocumentShim.prototype.querySelectorAll = ElementShim.prototype.querySelectorAll;
+  DocumentShim.prototype.querySelector = ElementShim.prototype.querySelector;
+  DocumentShim.prototype.getElementsByTagName = ElementShim.prototype.getElementsByTagName;
+  DocumentShim.prototype.getElementsByClassName = ElementShim.prototype.getElementsByClassName;
+  DocumentShim.prototype.getElementsByName = function (name) {
+    return this.querySelectorAll("[name=\"" + String(name) + "\"]");
+  };
+  DocumentShim.prototype.createElement = function (tag) {
+    tick();
+    return new ElementShim(tag, {});
+  };
+  DocumentShim.prototype.createTextNode = function (text) {
+    tick();
+    return new TextNode(text);
+  };
+  DocumentShim.prototype.createDocumentFragment = function () {
+    tick();
+    var fragment = new ElementShim("div", {});
+    fragment.nodeName = "#document-fragment";
+    return fragment;
+  };
+  Object.defineProperty(DocumentShim.prototype, "title", {
+    get: function () {
+      var title = this.querySelector("title");
+      return title ? title.textContent : "";
+    },
+    set: function () {},
+  });
+
+  var documentShim = new DocumentShim();
+  var windowShim = globalThis;
+  var noop = function () {};
+
+  function buildDocument(html) {
+    var root = new ElementShim("div", {});
+    parseInto(root, html);
+    var htmlElement = root.querySelector("html");
+    if (!htmlElement) {
+      htmlElement = new ElementShim("html", {});
+      var orphanBody = new ElementShim("body", {});
+      root.childNodes.slice().forEach(function (child) {
+        appendRaw(orphanBody, child);
+      });
+      appendRaw(htmlElement, orphanBody);
+    }
+    if (!htmlElement.querySelector("head")) {
+      htmlElement.insertBefore(new ElementShim("head", {}), htmlElement.firstChild);
+    }
+    if (!htmlElement.querySelector("body")) {
+      appendRaw(htmlElement, new ElementShim("body", {}));
+    }
+    appendRaw(documentShim, htmlElement);
+    documentShim.documentElement = htmlElement;
+    documentShim.head = htmlElement.querySelector("head");
+    documentShim.body = htmlElement.querySelector("body");
+  }
+
+  function schedule(callback, args, repeat) {
+    tick();
+    var id = state.nextTimerId;
+    state.nextTimerId += 1;
+    if (typeof callback === "function") {
+      state.timers.push({ id: id, callback: callback, args: args, repeat: repeat, runs: 0 });
+    }
+    return id;
+  }
+
+  function clearTimer(id) {
+    state.timers = state.timers.filter(function (timer) {
+      return timer.id !== id;
+    });
+  }
+
+  function flushTimers() {
+    for (var round = 0; round < 50 && state.timers.length > 0; round += 1) {
+      var due = state.timers.slice();
+      due.forEach(function (timer) {
+        timer.runs += 1;
+        if (!timer.repeat || timer.runs >= 3) {
+          clearTimer(timer.id);
+        }
+        try {
+          timer.callback.apply(null, timer.args);
+        } catch (error) {
+          if (state.budgetExceeded) {
+            throw error;
+          }
+          recordError(error);
+        }
+      });
+    }
+    state.timers = [];
+  }
+
+  function installGlobals() {
+    ["addEventListener", "removeEventListener", "dispatchEvent"].forEach(function (name) {
+      windowShim[name] = function () {
+        return EventTargetShim.prototype[name].apply(windowShim, arguments);
+      };
+    });
+    windowShim.window = windowShim;
+    windowShim.self = windowShim;
+    windowShim.document = documentShim;
+    windowShim.parent = { postMessage: noop };
+    windowShim.top = windowShim.parent;
+    windowShim.Event = EventShim;
+    windowShim.CustomEvent = EventShim;
+    windowShim.InputEvent = EventShim;
+    windowShim.KeyboardEvent = EventShim;
+    windowShim.MouseEvent = EventShim;
+    windowShim.HTMLElement = ElementShim;
+    windowShim.Element = ElementShim;
+    windowShim.Node = ElementShim;
+    windowShim.console = { log: noop, info: noop, warn: noop, error: noop, debug: noop };
+    windowShim.alert = noop;
+    windowShim.confirm = function () { return false; };
+    windowShim.prompt = function () { return null; };
+    windowShim.navigator = { userAgent: "PromptCalcSelfTest", language: "en-US" };
+    windowShim.location = { href: "about:srcdoc", origin: "null", reload: noop };
+    windowShim.performance = { now: function () { return Date.now(); } };
+    windowShim.getComputedStyle = function (element) { return element.style; };
+    windowShim.matchMedia = function () {
+      return { matches: false, addEventListener: noop, removeEventListener: noop, addListener: noop, removeListener: noop };
+    };
+    windowShim.setTimeout = function (callback) { return schedule(callback, Array.prototype.slice.call(arguments, 2), false); };
+    windowShim.setInterval = function (callback) { return schedule(callback, Array.prototype.slice.call(arguments, 2), true); };
+    windowShim.requestAnimationFrame = function (callback) { return schedule(callback, [0], false); };
+    windowShim.clearTimeout = clearTimer;
+    windowShim.clearInterval = clearTimer;
+    windowShim.cancelAnimationFrame = clearTimer;
+    windowShim.queueMicrotask = function (callback) { Promise.resolve().then(callback); };
+  }
+
+  function findField(id) {
+    return documentShim.getElementById(id) || documentShim.querySelector("[name=\"" + String(id).replace(/"/g, "") + "\"]");
+  }
+
+  function readDisplay(element) {
+    if (VALUE_TAGS[element.localName]) {
+      return element.value;
+    }
+    return element.textContent;
+  }
+
+  windowShim.__promptcalcShim = {
+    load: function (html, maxSteps) {
+      state.maxSteps = maxSteps;
+      installGlobals();
+      buildDocument(String(html));
+      var scripts = documentShim.querySelectorAll("script").filter(function (script) {
+        var type = (script.getAttribute("type") || "").trim().toLowerCase();
+        return type === "" || type === "text/javascript" || type === "application/javascript" || type === "module";
+      }).map(function (script) {
+        return script.textContent;
+      });
+      return JSON.stringify(scripts);
+    },
+    ready: function () {
+      documentShim.readyState = "interactive";
+      dispatch(documentShim, new EventShim("DOMContentLoaded", { bubbles: true }));
+      documentShim.readyState = "complete";
+      dispatch(windowShim, new EventShim("load", {}));
+      flushTimers();
+      return JSON.stringify({ errors: state.errors });
+    },
+    runVector: function (vectorJson) {
+      var vector = JSON.parse(vectorJson);
+      var missing = [];
+      vector.inputs.forEach(function (input) {
+        var element = findField(input.id);
+        if (!element) {
+          missing.push(input.id);
+          return;
+        }
+        if (element.localName === "input" && (element.type === "checkbox" || element.type === "radio")) {
+          element.checked = input.value === true || input.value === "true" || input.value === "on" || input.value === 1 || input.value === "1";
+        } else {
+          element.value = String(input.value);
+        }
+        dispatch(element, new EventShim("input", { bubbles: true }));
+        dispatch(element, new EventShim("change", { bubbles: true }));
+      });
+      if (vector.action) {
+        var action = findField(vector.action);
+        if (action) {
+          action.click();
+        } else {
+          missing.push(vector.action);
+        }
+      }
+      flushTimers();
+      var outputs = {};
+      vector.expected.forEach(function (expected) {
+        var element = findField(expected.id);
+        outputs[expected.id] = element ? readDisplay(element) : null;
+      });
+      return JSON.stringify({ outputs: outputs, missing: missing, errors: state.errors });
+    },
+    describe: describe,
+  };
+})();
+`;
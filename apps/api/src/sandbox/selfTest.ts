@@ -0,0 +1,291 @@
+/**
+ * Purpose: Execute manifest-declared test vectors against an artifact inside an isolated vm sandbox.
+ * Persists: None.
+ * Security Risks: Runs untrusted artifact scripts; the context has no host globals, no network, no string codegen, and is time and step limited.
+ */
+
+import { createContext, runInContext, type Context } from "vm";
+
+import type { ManifestTestVector } from "@promptcalc/types";
+
+import { DOM_SHIM_SOURCE } from "./domShimSource";
+
+export const MAX_TEST_VECTORS = 10;
+export const DEFAULT_TEST_TOLERANCE = 0.01;
+
+export type SelfTestLimits = {
+  /** Wall-clock limit for each individual runInContext call. */
+  timeoutMs: number;
+  /** Wall-clock limit for the whole run, however many scripts and vectors the artifact has. */
+  totalTimeoutMs: number;
+  /** Maximum number of shim DOM/timer calls across the whole run. */
+  maxSteps: number;
+  /** Optional `Date.now()` deadline shared by several runs, such as every version of one import. */
+  deadline?: number;
+};
+
+export const DEFAULT_SELF_TEST_LIMITS: SelfTestLimits = {
+  timeoutMs: 250,
+  totalTimeoutMs: 1000,
+  maxSteps: 50000,
+};
+
+/** Self-test time shared by every version of one bundle import. */
+export const IMPORT_SELF_TEST_BUDGET_MS = 5000;
+
+export type SelfTestVectorResult = {
+  name: string;
+  passed: boolean;
+  failures: string[];
+};
+
+export type SelfTestReport = {
+  status: "passed" | "failed" | "skipped";
+  vectors: SelfTestVectorResult[];
+  /** Present when the artifact could not be loaded at all. */
+  error?: string;
+  /** Set when the run stopped because the shared `deadline` ran out, not its own limits. */
+  sharedDeadlineExceeded?: true;
+};
+
+const STEP_BUDGET_MARKER = "PROMPTCALC_STEP_BUDGET_EXCEEDED";
+const TIME_BUDGET_ERROR = "time budget exceeded";
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Validates and normalizes `manifest.testVectors`. Nullable optionals from the
+ * strict generation schema are dropped so stored manifests stay compact.
+ */
+export const normalizeTestVectors = (
+  value: unknown
+): { vectors: ManifestTestVector[]; issue: string | null } => {
+  if (value === undefined || value === null) {
+    return { vectors: [], issue: null };
+  }
+  if (!Array.isArray(value) || value.length > MAX_TEST_VECTORS) {
+    return { vectors: [], issue: "manifest.testVectors_invalid" };
+  }
+  const vectors: ManifestTestVector[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry) || !isNonEmptyString(entry.name)) {
+      return { vectors: [], issue: "manifest.testVectors_invalid" };
+    }
+    if (!Array.isArray(entry.inputs) || !Array.isArray(entry.expected) || entry.expected.length === 0) {
+      return { vectors: [], issue: "manifest.testVectors_invalid" };
+    }
+    const inputsValid = entry.inputs.every(
+      (input) =>
+        isRecord(input) &&
+        isNonEmptyString(input.id) &&
+        (typeof input.value === "string" ||
+          typeof input.value === "boolean" ||
+          (typeof input.value === "number" && Number.isFinite(input.value)))
+    );
+    const expectedValid = entry.expected.every(
+      (expected) =>
+        isRecord(expected) &&
+        isNonEmptyString(expected.id) &&
+        typeof expected.value === "number" &&
+        Number.isFinite(expected.value) &&
+        (expected.tolerance === undefined ||
+          expected.tolerance === null ||
+          (typeof expected.tolerance === "number" && expected.tolerance >= 0))
+    );
+    const actionValid =
+      entry.action === undefined || entry.action === null || isNonEmptyString(entry.action);
+    if (!inputsValid || !expectedValid || !actionValid) {
+      return { vectors: [], issue: "manifest.testVectors_invalid" };
+    }
+    vectors.push({
+      name: entry.name,
+      inputs: (entry.inputs as Array<Record<string, unknown>>).map((input) => ({
+        id: input.id as string,
+        value: input.value as string | number | boolean,
+      })),
+      ...(isNonEmptyString(entry.action) ? { action: entry.action } : {}),
+      expected: (entry.expected as Array<Record<string, unknown>>).map((expected) => ({
+        id: expected.id as string,
+        value: expected.value as number,
+        ...(typeof expected.tolerance === "number" ? { tolerance: expected.tolerance } : {}),
+      })),
+    });
+  }
+  return { vectors, issue: null };
+};
+
+/** Extracts the first number from displayed text such as "$1,234.50" or "Total: 12 kg". */
+export const parseDisplayedNumber = (text: string | null): number | null => {
+  if (text === null) {
+    return null;
+  }
+  const match = NUMBER_PATTERN.exec(text.replace(/,/g, ""));
+  if (!match) {
+    return null;
+  }
+  const value = Number(match[0]);
+  return Number.isFinite(value) ? value : null;
+};
+
+type GuestResult = { ok: true; value: string } | { ok: false; error: string };
+
+const describeTimeout = (timeoutMs: number): string => `execution exceeded ${timeoutMs}ms`;
+
+const describeFailure = (context: Context, error: unknown, timeoutMs: number): string => {
+  if (isRecord(error) && error.code === "ERR_SCRIPT_EXECUTION_TIMEOUT") {
+    return describeTimeout(timeoutMs);
+  }
+  // Guest errors are context-realm objects; describe them inside the sandbox so
+  // hostile getters never run on the host without a timeout.
+  try {
+    context.__promptcalcLastError = error;
+    const message = String(
+      runInContext("__promptcalcShim.describe(__promptcalcLastError)", context, {
+        timeout: timeoutMs,
+      })
+    );
+    return message.includes(STEP_BUDGET_MARKER) ? "step budget exceeded" : message;
+  } catch {
+    return "unknown error";
+  }
+};
+
+const runGuest = (context: Context, code: string, timeoutMs: number): GuestResult => {
+  try {
+    const value = runInContext(code, context, { timeout: timeoutMs });
+    return { ok: true, value: typeof value === "string" ? value : "" };
+  } catch (error) {
+    return { ok: false, error: describeFailure(context, error, timeoutMs) };
+  }
+};
+
+const parseGuestJson = <T>(value: string): T | null => {
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+const runVector = (run: (code: string) => GuestResult, vector: ManifestTestVector): SelfTestVectorResult => {
+  const result = run(`__promptcalcShim.runVector(${JSON.stringify(JSON.stringify(vector))})`);
+  if (!result.ok) {
+    return { name: vector.name, passed: false, failures: [result.error] };
+  }
+  const parsed = parseGuestJson<{ outputs: Record<string, unknown>; missing: unknown[] }>(
+    result.value
+  );
+  if (!parsed || !isRecord(parsed.outputs) || !Array.isArray(parsed.missing)) {
+    return { name: vector.name, passed: false, failures: ["sandbox returned malformed results"] };
+  }
+  const failures = parsed.missing.map((id) => `element "${String(id)}" not found`);
+  for (const expected of vector.expected) {
+    const raw = parsed.outputs[expected.id];
+    const actual = parseDisplayedNumber(typeof raw === "string" ? raw : null);
+    const tolerance = expected.tolerance ?? DEFAULT_TEST_TOLERANCE;
+    if (actual === null) {
+      failures.push(`output "${expected.id}" has no numeric value`);
+    } else if (Math.abs(actual - expected.value) > tolerance) {
+      failures.push(`output "${expected.id}" was ${actual}, expected ${expected.value} ± ${tolerance}`);
+    }
+  }
+  return { name: vector.name, passed: failures.length === 0, failures };
+};
+
+/**
+ * Loads the artifact into a fresh network-less vm context with a DOM shim,
+ * runs its inline scripts, then replays each vector (set inputs, dispatch
+ * input/change, click the action) and compares the displayed outputs. Every
+ * call is capped by what is left of the run's total time (and of a shared
+ * deadline); once that is spent, the remaining steps fail.
+ */
+export const runArtifactSelfTest = (
+  artifactHtml: string,
+  vectors: ManifestTestVector[],
+  limits: Partial<SelfTestLimits> = {}
+): SelfTestReport => {
+  if (vectors.length === 0) {
+    return { status: "skipped", vectors: [] };
+  }
+  const { timeoutMs, totalTimeoutMs, maxSteps, deadline: sharedDeadline } = {
+    ...DEFAULT_SELF_TEST_LIMITS,
+    ...limits,
+  };
+  const deadline = Math.min(Date.now() + totalTimeoutMs, sharedDeadline ?? Number.POSITIVE_INFINITY);
+  const context = createContext(Object.create(null), {
+    name: "promptcalc-selftest",
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: "afterEvaluate",
+  });
+  let sharedDeadlineExceeded = false;
+  const finish = (report: SelfTestReport): SelfTestReport =>
+    sharedDeadlineExceeded ? { ...report, sharedDeadlineExceeded: true } : report;
+  const failed = (error: string): SelfTestReport =>
+    finish({
+      status: "failed",
+      vectors: vectors.map((vector) => ({ name: vector.name, passed: false, failures: [error] })),
+      error,
+    });
+  const budgetExceeded = (): GuestResult => {
+    sharedDeadlineExceeded = deadline === sharedDeadline;
+    return { ok: false, error: TIME_BUDGET_ERROR };
+  };
+  const run = (code: string): GuestResult => {
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      return budgetExceeded();
+    }
+    const callTimeoutMs = Math.min(timeoutMs, remainingMs);
+    const result = runGuest(context, code, callTimeoutMs);
+    // A call cut short by the remaining budget reports the budget, not its shortened timeout.
+    const budgetSpent = callTimeoutMs < timeoutMs && !result.ok && result.error === describeTimeout(callTimeoutMs);
+    return budgetSpent ? budgetExceeded() : result;
+  };
+
+  const shim = run(DOM_SHIM_SOURCE);
+  if (!shim.ok) {
+    return failed(`sandbox setup failed: ${shim.error}`);
+  }
+  const loaded = run(`__promptcalcShim.load(${JSON.stringify(artifactHtml)}, ${maxSteps})`);
+  const scripts = loaded.ok ? parseGuestJson<unknown[]>(loaded.value) : null;
+  if (!loaded.ok || !Array.isArray(scripts)) {
+    return failed(`artifact load failed: ${loaded.ok ? "malformed script list" : loaded.error}`);
+  }
+  for (const script of scripts) {
+    const executed = run(String(script));
+    if (!executed.ok) {
+      return failed(`artifact script failed: ${executed.error}`);
+    }
+  }
+  const ready = run("__promptcalcShim.ready()");
+  if (!ready.ok) {
+    return failed(`artifact startup failed: ${ready.error}`);
+  }
+
+  const results = vectors.map((vector) => runVector(run, vector));
+  return finish({
+    status: results.every((result) => result.passed) ? "passed" : "failed",
+    vectors: results,
+  });
+};
+
+export type SelfTestSummary = {
+  status: SelfTestReport["status"];
+  /** Up to ten "<vector>: <failure>" lines for logs, entities, and clients. */
+  failures: string[];
+  sharedDeadlineExceeded?: true;
+};
+
+export const summarizeSelfTest = (report: SelfTestReport): SelfTestSummary => ({
+  status: report.status,
+  failures: report.vectors
+    .filter((vector) => !vector.passed)
+    .flatMap((vector) => vector.failures.map((failure) => `${vector.name}: ${failure}`))
+    .slice(0, 10),
+  ...(report.sharedDeadlineExceeded ? { sharedDeadlineExceeded: true as const } : {}),
+});
@@ -0,0 +1,352 @@
+/**
+ * Purpose: Store calculator metadata in Azure Table Storage and payloads in Azure Blob Storage.
+ * Persists: Creates/reads the PromptCalc table and blob container.
+ * Security Risks: Reads storage connection settings; do not log secrets.
+ */
+
+import { BlobServiceClient, ContainerClient } from "@azure/storage-blob";
+import { TableClient } from "@azure/data-tables";
+import { logEvent } from "@promptcalc/logger";
+
+import {
+  applyCalculatorQuery,
+  type CalculatorQuery,
+  MAX_CALCULATOR_QUERY_SCAN,
+  readCalculatorQueryCursor,
+} from "./calcQuery";
+import { StorageConflictError } from "./errors";
+import {
+  buildCalcPartition,
+  buildCalcRow,
+  buildSharePartition,
+  buildVersionPartition,
+  buildVersionRow,
+  SHARE_ROW,
+} from "./keys";
+import type {
+  ArtifactStore,
+  CalcRepository,
+  CalculatorEntity,
+  CalculatorVersionEntity,
+  ShareLinkEntity,
+  StorageBackend,
+} from "./types";
+
+const DEFAULT_STORAGE_CONNECTION = "UseDevelopmentStorage=true";
+const DEFAULT_TABLE_NAME = "PromptCalcMeta";
+const DEFAULT_CONTAINER_NAME = "promptcalc";
+
+let cachedTableClient: TableClient | null = null;
+let cachedContainerClient: ContainerClient | null = null;
+
+const getStorageConnectionString = (): string =>
+  process.env.PROMPTCALC_STORAGE_CONNECTION ||
+  process.env.AzureWebJobsStorage ||
+  DEFAULT_STORAGE_CONNECTION;
+
+const getTableName = (): string =>
+  process.env.PROMPTCALC_TABLE_NAME || DEFAULT_TABLE_NAME;
+
+const getContainerName = (): string =>
+  process.env.PROMPTCALC_CONTAINER || DEFAULT_CONTAINER_NAME;
+
+export const getTableClient = async (traceId?: string): Promise<TableClient> => {
+  if (cachedTableClient) {
+    return cachedTableClient;
+  }
+
+  const connectionString = getStorageConnectionString();
+  const tableName = getTableName();
+  const client = TableClient.fromConnectionString(connectionString, tableName);
+
+  try {
+    await client.createTable();
+  } catch (error) {
+    const code = error instanceof Error ? (error as { code?: string }).code : undefined;
+    if (code !== "TableAlreadyExists") {
+      throw error;
+    }
+  }
+
+  logEvent({
+    level: "info",
+    op: "storage.init",
+    traceId,
+    event: "table.ensure",
+    tableName,
+  });
+
+  cachedTableClient = client;
+  return client;
+};
+
+export const getContainerClient = async (
+  traceId?: string
+): Promise<ContainerClient> => {
+  if (cachedContainerClient) {
+    return cachedContainerClient;
+  }
+
+  const connectionString = getStorageConnectionString();
+  const containerName = getContainerName();
+  const blobService = BlobServiceClient.fromConnectionString(connectionString);
+  const client = blobService.getContainerClient(containerName);
+
+  await client.createIfNotExists();
+
+  logEvent({
+    level: "info",
+    op: "storage.init",
+    traceId,
+    event: "container.ensure",
+    containerName,
+  });
+
+  cachedContainerClient = client;
+  return client;
+};
+
+const isNotFound = (error: unknown): boolean => {
+  const code = error && typeof error === "object" ? (error as { code?: string }).code : null;
+  const statusCode =
+    error && typeof error === "object" ? (error as { statusCode?: number }).statusCode : null;
+  return code === "ResourceNotFound" || code === "BlobNotFound" || statusCode === 404;
+};
+
+const getEntityOrNull = async <T extends Record<string, unknown>>(
+  partitionKey: string,
+  rowKey: string
+): Promise<T | null> => {
+  const tableClient = await getTableClient();
+  try {
+    return (await tableClient.getEntity<T>(partitionKey, rowKey)) ?? null;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const escapeODataString = (value: string): string => value.replace(/'/g, "''");
+
+const listPartition = async <T extends Record<string, unknown>>(
+  partitionKey: string,
+  extraFilter?: string
+): Promise<T[]> => {
+  const tableClient = await getTableClient();
+  const entities: T[] = [];
+  const filter = `PartitionKey eq '${partitionKey}'${extraFilter ? ` and ${extraFilter}` : ""}`;
+  for await (const entity of tableClient.listEntities<T>({
+    queryOptions: { filter },
+  })) {
+    entities.push(entity);
+  }
+  return entities;
+};
+
+/**
+ * The server-side part of a calculator query: equality filters, plus the keyset cursor for date sorts. Titles sort
+ * case-insensitively and substring search has no OData equivalent, so those stay in applyCalculatorQuery, which
+ * re-applies every condition anyway.
+ */
+const buildCalculatorQueryFilter = (query: CalculatorQuery): string => {
+  const filters = ["entityType eq 'Calculator'"];
+  if (query.executionModel) {
+    filters.push(`executionModel eq '${escapeODataString(query.executionModel)}'`);
+  }
+  if (query.favorite === true) {
+    filters.push("favorite eq true");
+  }
+  const cursor = readCalculatorQueryCursor(query);
+  if (cursor && query.sort !== "title") {
+    const value = escapeODataString(cursor.value);
+    const calcId = escapeODataString(cursor.calcId);
+    const after = query.order === "asc" ? "gt" : "lt";
+    // Ties on the sort value are broken by calcId ascending, matching compareKeys in calcQuery.
+    filters.push(`(${query.sort} ${after} '${value}' or (${query.sort} eq '${value}' and calcId gt '${calcId}'))`);
+  }
+  return filters.join(" and ");
+};
+
+const createAzureCalcRepository = (): CalcRepository => ({
+  getCalculator: (userId, calcId) =>
+    getEntityOrNull<CalculatorEntity>(buildCalcPartition(userId), buildCalcRow(calcId)),
+
+  listCalculators: async (userId) =>
+    (await listPartition<CalculatorEntity>(buildCalcPartition(userId))).filter(
+      (entity) => entity.entityType === "Calculator"
+    ),
+
+  saveCalculator: async (entity, options) => {
+    const tableClient = await getTableClient();
+    if (!options?.ifMatch) {
+      return (await tableClient.upsertEntity(entity, "Merge")).etag ?? "";
+    }
+    try {
+      return (await tableClient.updateEntity(entity, "Merge", { etag: options.ifMatch })).etag ?? "";
+    } catch (error) {
+      // 412 means another writer got there first; 404 means the row was deleted under us.
+      if (isNotFound(error) || (error as { statusCode?: number } | null)?.statusCode === 412) {
+        throw new StorageConflictError(`Calculator ${entity.calcId} changed since it was read.`);
+      }
+      throw error;
+    }
+  },
+
+  deleteCalculator: async (userId, calcId) => {
+    const tableClient = await getTableClient();
+    for (const entity of await listPartition<CalculatorVersionEntity>(buildVersionPartition(userId, calcId))) {
+      await tableClient.deleteEntity(entity.partitionKey, entity.rowKey);
+    }
+    await tableClient.deleteEntity(buildCalcPartition(userId), buildCalcRow(calcId));
+  },
+
+  // Azure Tables cannot sort or substring-match, so the rows that pass the server-side filter are read (at most
+  // MAX_CALCULATOR_QUERY_SCAN of them) and sorted and paged in memory.
+  queryCalculators: async (userId, query) => {
+    const tableClient = await getTableClient();
+    const filter = `PartitionKey eq '${buildCalcPartition(userId)}' and ${buildCalculatorQueryFilter(query)}`;
+    const entities: CalculatorEntity[] = [];
+    let truncated = false;
+    for await (const entity of tableClient.listEntities<CalculatorEntity>({ queryOptions: { filter } })) {
+      if (entities.length === MAX_CALCULATOR_QUERY_SCAN) {
+        truncated = true;
+        break;
+      }
+      entities.push(entity);
+    }
+    return applyCalculatorQuery(entities, query, { truncated });
+  },
+
+  getVersion: (userId, calcId, versionId) =>
+    getEntityOrNull<CalculatorVersionEntity>(buildVersionPartition(userId, calcId), buildVersionRow(versionId)),
+
+  listVersions: async (userId, calcId) =>
+    (await listPartition<CalculatorVersionEntity>(buildVersionPartition(userId, calcId))).filter(
+      (entity) => entity.entityType === "CalculatorVersion"
+    ),
+
+  saveVersion: async (entity) => {
+    const tableClient = await getTableClient();
+    await tableClient.upsertEntity(entity, "Replace");
+  },
+
+  updateVersion: async (userId, calcId, versionId, fields) => {
+    const tableClient = await getTableClient();
+    await tableClient.updateEntity(
+      {
+        partitionKey: buildVersionPartition(userId, calcId),
+        rowKey: buildVersionRow(versionId),
+        ...fields,
+      },
+      "Merge"
+    );
+  },
+
+  deleteVersion: async (userId, calcId, versionId) => {
+    const tableClient = await getTableClient();
+    await tableClient.deleteEntity(buildVersionPartition(userId, calcId), buildVersionRow(versionId));
+  },
+
+  scanCalculators: async function* () {
+    const tableClient = await getTableClient();
+    yield* tableClient.listEntities<CalculatorEntity>({
+      queryOptions: { filter: "entityType eq 'Calculator'" },
+    });
+  },
+
+  scanVersions: async function* (filter) {
+    const tableClient = await getTableClient();
+    const clauses = ["entityType eq 'CalculatorVersion'"];
+    if (filter?.status) {
+      clauses.push(`status eq '${filter.status}'`);
+    }
+    yield* tableClient.listEntities<CalculatorVersionEntity>({
+      queryOptions: { filter: clauses.join(" and ") },
+    });
+  },
+
+  getShareLink: (tokenHash) => getEntityOrNull<ShareLinkEntity>(buildSharePartition(tokenHash), SHARE_ROW),
+
+  listShareLinks: async (userId, calcId) => {
+    const tableClient = await getTableClient();
+    const links: ShareLinkEntity[] = [];
+    const filter =
+      "entityType eq 'ShareLink' and " +
+      `userId eq '${escapeODataString(userId)}' and calcId eq '${escapeODataString(calcId)}'`;
+    for await (const entity of tableClient.listEntities<ShareLinkEntity>({ queryOptions: { filter } })) {
+      links.push(entity);
+    }
+    return links;
+  },
+
+  saveShareLink: async (entity) => {
+    const tableClient = await getTableClient();
+    await tableClient.upsertEntity(entity, "Replace");
+  },
+
+  deleteShareLink: async (tokenHash) => {
+    const tableClient = await getTableClient();
+    try {
+      await tableClient.deleteEntity(buildSharePartition(tokenHash), SHARE_ROW);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  },
+});
+
+const createAzureArtifactStore = (): ArtifactStore => ({
+  write: async (blobPath, content, contentType) => {
+    const containerClient = await getContainerClient();
+    await containerClient.getBlockBlobClient(blobPath).upload(content, Buffer.byteLength(content, "utf8"), {
+      blobHTTPHeaders: {
+        blobContentType: contentType,
+      },
+    });
+  },
+
+  read: async (blobPath) => {
+    const containerClient = await getContainerClient();
+    const payload = await containerClient.getBlockBlobClient(blobPath).downloadToBuffer();
+    return payload.toString("utf8");
+  },
+
+  delete: async (blobPath) => {
+    const containerClient = await getContainerClient();
+    try {
+      await containerClient.deleteBlob(blobPath);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  },
+
+  deletePrefix: async (prefix) => {
+    const containerClient = await getContainerClient();
+    let deleted = 0;
+    for await (const blob of containerClient.listBlobsFlat({ prefix })) {
+      await containerClient.deleteBlob(blob.name);
+      deleted += 1;
+    }
+    return deleted;
+  },
+
+  list: async (prefix) => {
+    const containerClient = await getContainerClient();
+    const names: string[] = [];
+    for await (const blob of containerClient.listBlobsFlat({ prefix })) {
+      names.push(blob.name);
+    }
+    return names;
+  },
+});
+
+export const createAzureStorage = (): StorageBackend => ({
+  name: "azure",
+  repository: createAzureCalcRepository(),
+  artifacts: createAzureArtifactStore(),
+});
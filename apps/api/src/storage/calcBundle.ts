@@ -0,0 +1,250 @@
+/**
+ * Purpose: Define the portable calculator bundle used by export and import, and sign or verify it with an HMAC key.
+ * Persists: None (export reads stored versions into a bundle; import stores a re-validated copy).
+ * Security Risks: Bundle contents are untrusted on import whatever the signature says; the signature only proves the
+ * bundle left a deployment holding the same key unchanged. Never log the signing key.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+import type { CalculatorSpec, RenderMode } from "@promptcalc/types";
+
+export const CALC_BUNDLE_FORMAT = "promptcalc.bundle";
+export const CALC_BUNDLE_VERSION = 1;
+export const CALC_BUNDLE_SIGNATURE_ALG = "HMAC-SHA256";
+export const MAX_BUNDLE_VERSIONS = 100;
+
+const MAX_BUNDLE_PROMPT_LENGTH = 20_000;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export class InvalidCalcBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCalcBundleError";
+  }
+}
+
+export type CalcBundleVersion = {
+  versionId: string;
+  createdAt: string;
+  parentVersionId?: string;
+  label?: string;
+  prompt?: string;
+  renderMode: RenderMode;
+  manifest: Record<string, unknown>;
+  /** Present for artifact versions. */
+  artifactHtml?: string;
+  /** Present for spec versions. */
+  spec?: CalculatorSpec;
+  artifactHash: string;
+};
+
+export type CalcBundleCalculator = {
+  calcId: string;
+  title: string;
+  description?: string;
+  notes?: string;
+  tags: string[];
+  folder?: string;
+  currentVersionId: string;
+};
+
+export type CalcBundleSignature = {
+  alg: typeof CALC_BUNDLE_SIGNATURE_ALG;
+  /** Identifies the signing key without revealing it, so a foreign key is told apart from a tampered bundle. */
+  keyId: string;
+  value: string;
+};
+
+export type CalcBundle = {
+  format: typeof CALC_BUNDLE_FORMAT;
+  bundleVersion: typeof CALC_BUNDLE_VERSION;
+  exportedAt: string;
+  calculator: CalcBundleCalculator;
+  /** Oldest first. */
+  versions: CalcBundleVersion[];
+  /** Versions left out of the export: quarantined ones and any past MAX_BUNDLE_VERSIONS. */
+  omittedVersionCount: number;
+  signature?: CalcBundleSignature;
+};
+
+/** verified: signed with this deployment's key; unverified: unsigned, a foreign key, or no key configured here. */
+export type CalcBundleSignatureStatus = "verified" | "unverified" | "invalid";
+
+/** PROMPTCALC_BUNDLE_SIGNING_KEY: HMAC key for exported bundles; unset exports unsigned bundles. */
+export const getBundleSigningKey = (env: NodeJS.ProcessEnv = process.env): string | null => {
+  const key = (env.PROMPTCALC_BUNDLE_SIGNING_KEY ?? "").trim();
+  return key ? key : null;
+};
+
+/** JSON with object keys sorted at every level, so the signature does not depend on property order. */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const computeKeyId = (key: string): string => createHash("sha256").update(key, "utf8").digest("hex").slice(0, 16);
+
+const computeBundleSignature = (bundle: CalcBundle, key: string): string => {
+  const { signature: _signature, ...unsigned } = bundle;
+  return createHmac("sha256", key).update(canonicalJson(unsigned), "utf8").digest("hex");
+};
+
+export const signCalcBundle = (bundle: CalcBundle, key: string): CalcBundle => ({
+  ...bundle,
+  signature: {
+    alg: CALC_BUNDLE_SIGNATURE_ALG,
+    keyId: computeKeyId(key),
+    value: computeBundleSignature(bundle, key),
+  },
+});
+
+/** A bundle that names this deployment's key but fails the HMAC was altered after export. */
+export const verifyCalcBundleSignature = (bundle: CalcBundle, key: string | null): CalcBundleSignatureStatus => {
+  if (!bundle.signature || !key || bundle.signature.keyId !== computeKeyId(key)) {
+    return "unverified";
+  }
+  const expected = Buffer.from(computeBundleSignature(bundle, key), "hex");
+  const actual = Buffer.from(bundle.signature.value, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? "verified" : "invalid";
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, path: string, options: { optional?: boolean; maxLength?: number } = {}) => {
+  if (value === undefined && options.optional) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new InvalidCalcBundleError(`${path} must be a string.`);
+  }
+  if (options.maxLength !== undefined && value.length > options.maxLength) {
+    throw new InvalidCalcBundleError(`${path} must be at most ${options.maxLength} characters.`);
+  }
+  return value;
+};
+
+const parseBundleVersion = (value: unknown, index: number): CalcBundleVersion => {
+  const path = `versions[${index}]`;
+  if (!isRecord(value)) {
+    throw new InvalidCalcBundleError(`${path} must be an object.`);
+  }
+  const versionId = readString(value.versionId, `${path}.versionId`, { maxLength: 100 }) as string;
+  const createdAt = readString(value.createdAt, `${path}.createdAt`) as string;
+  if (!ISO_DATE_PATTERN.test(createdAt)) {
+    throw new InvalidCalcBundleError(`${path}.createdAt must be an ISO 8601 UTC timestamp.`);
+  }
+  const renderMode = value.renderMode;
+  if (renderMode !== "artifact" && renderMode !== "spec") {
+    throw new InvalidCalcBundleError(`${path}.renderMode must be artifact or spec.`);
+  }
+  if (!isRecord(value.manifest)) {
+    throw new InvalidCalcBundleError(`${path}.manifest must be an object.`);
+  }
+  if (renderMode === "artifact" && typeof value.artifactHtml !== "string") {
+    throw new InvalidCalcBundleError(`${path}.artifactHtml is required for artifact versions.`);
+  }
+  if (renderMode === "spec" && !isRecord(value.spec)) {
+    throw new InvalidCalcBundleError(`${path}.spec is required for spec versions.`);
+  }
+  const parentVersionId = readString(value.parentVersionId, `${path}.parentVersionId`, { optional: true });
+  const label = readString(value.label, `${path}.label`, { optional: true });
+  const prompt = readString(value.prompt, `${path}.prompt`, {
+    optional: true,
+    maxLength: MAX_BUNDLE_PROMPT_LENGTH,
+  });
+  return {
+    versionId,
+    createdAt,
+    ...(parentVersionId ? { parentVersionId } : {}),
+    ...(label ? { label } : {}),
+    ...(prompt ? { prompt } : {}),
+    renderMode,
+    manifest: value.manifest,
+    ...(renderMode === "artifact" ? { artifactHtml: value.artifactHtml as string } : {}),
+    ...(renderMode === "spec" ? { spec: value.spec as unknown as CalculatorSpec } : {}),
+    artifactHash: readString(value.artifactHash, `${path}.artifactHash`, { maxLength: 128 }) as string,
+  };
+};
+
+/**
+ * Checks the bundle's shape only: artifacts, manifests, specs, and metadata are validated by the importer exactly as
+ * it validates model output.
+ */
+export const parseCalcBundle = (body: unknown): CalcBundle => {
+  if (!isRecord(body)) {
+    throw new InvalidCalcBundleError("Bundle must be a JSON object.");
+  }
+  if (body.format !== CALC_BUNDLE_FORMAT || body.bundleVersion !== CALC_BUNDLE_VERSION) {
+    throw new InvalidCalcBundleError(`Expected a ${CALC_BUNDLE_FORMAT} bundle, version ${CALC_BUNDLE_VERSION}.`);
+  }
+  if (!isRecord(body.calculator)) {
+    throw new InvalidCalcBundleError("calculator must be an object.");
+  }
+  if (!Array.isArray(body.versions) || body.versions.length === 0) {
+    throw new InvalidCalcBundleError("versions must be a non-empty array.");
+  }
+  if (body.versions.length > MAX_BUNDLE_VERSIONS) {
+    throw new InvalidCalcBundleError(`Bundles hold at most ${MAX_BUNDLE_VERSIONS} versions.`);
+  }
+  const versions = body.versions.map(parseBundleVersion);
+  const versionIds = new Set(versions.map((version) => version.versionId));
+  if (versionIds.size !== versions.length) {
+    throw new InvalidCalcBundleError("versionId values must be unique.");
+  }
+
+  const calculator = body.calculator;
+  const currentVersionId = readString(calculator.currentVersionId, "calculator.currentVersionId") as string;
+  if (!versionIds.has(currentVersionId)) {
+    throw new InvalidCalcBundleError("calculator.currentVersionId must name a version in the bundle.");
+  }
+  if (
+    calculator.tags !== undefined &&
+    (!Array.isArray(calculator.tags) || calculator.tags.some((tag) => typeof tag !== "string"))
+  ) {
+    throw new InvalidCalcBundleError("calculator.tags must be an array of strings.");
+  }
+  const description = readString(calculator.description, "calculator.description", { optional: true });
+  const notes = readString(calculator.notes, "calculator.notes", { optional: true });
+  const folder = readString(calculator.folder, "calculator.folder", { optional: true });
+
+  const signature = body.signature;
+  if (
+    signature !== undefined &&
+    (!isRecord(signature) ||
+      signature.alg !== CALC_BUNDLE_SIGNATURE_ALG ||
+      typeof signature.keyId !== "string" ||
+      typeof signature.value !== "string")
+  ) {
+    throw new InvalidCalcBundleError(`signature must be an ${CALC_BUNDLE_SIGNATURE_ALG} signature object.`);
+  }
+
+  return {
+    format: CALC_BUNDLE_FORMAT,
+    bundleVersion: CALC_BUNDLE_VERSION,
+    exportedAt: readString(body.exportedAt, "exportedAt") as string,
+    calculator: {
+      calcId: readString(calculator.calcId, "calculator.calcId") as string,
+      title: readString(calculator.title, "calculator.title") as string,
+      ...(description !== undefined ? { description } : {}),
+      ...(notes !== undefined ? { notes } : {}),
+      tags: (calculator.tags as string[] | undefined) ?? [],
+      ...(folder !== undefined ? { folder } : {}),
+      currentVersionId,
+    },
+    versions,
+    omittedVersionCount: typeof body.omittedVersionCount === "number" ? body.omittedVersionCount : 0,
+    ...(signature ? { signature: signature as CalcBundleSignature } : {}),
+  };
+};
@@ -0,0 +1,141 @@
+/**
+ * Purpose: Validate user edits to a calculator's title, description, tags, and notes and build the audited merge fields.
+ * Persists: None (callers merge the returned fields onto the calculator entity).
+ * Security Risks: Titles, descriptions, and notes are client input rendered back in the UI; control characters and
+ * oversize values are rejected, and edits record who made them.
+ */
+
+import { InvalidCalculatorOrganizationError, normalizeCalculatorTags } from "./calcOrganization";
+import type { CalculatorEntity } from "./types";
+
+export const MAX_TITLE_LENGTH = 120;
+/** Matches the manifest description cap applied when the listing index is built. */
+export const MAX_DESCRIPTION_LENGTH = 500;
+export const MAX_NOTES_LENGTH = 4000;
+
+// Notes may span lines; titles and descriptions may not.
+const SINGLE_LINE_INVALID_PATTERN = /[\u0000-\u001f\u007f]/;
+const MULTI_LINE_INVALID_PATTERN = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/;
+
+export class InvalidCalculatorMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCalculatorMetadataError";
+  }
+}
+
+export const CALCULATOR_METADATA_FIELDS = ["title", "description", "tags", "notes"] as const;
+
+export type CalculatorMetadataField = (typeof CALCULATOR_METADATA_FIELDS)[number];
+
+export type CalculatorMetadataPatch = {
+  title?: string;
+  /** Empty string clears the description. */
+  description?: string;
+  tags?: string[];
+  /** Empty string clears the notes. */
+  notes?: string;
+};
+
+const readText = (
+  value: unknown,
+  field: CalculatorMetadataField,
+  maxLength: number,
+  invalidPattern: RegExp
+): string => {
+  if (value === null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    throw new InvalidCalculatorMetadataError(`${field} must be a string.`);
+  }
+  const text = value.trim();
+  if (text.length > maxLength || invalidPattern.test(text)) {
+    throw new InvalidCalculatorMetadataError(
+      `${field} must be at most ${maxLength} characters without control characters.`
+    );
+  }
+  return text;
+};
+
+/** Reads a JSON merge patch over title, description, tags, and notes; unknown fields are rejected. */
+export const parseCalculatorMetadataPatch = (body: unknown): CalculatorMetadataPatch => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new InvalidCalculatorMetadataError("Request body must be a JSON object.");
+  }
+  const record = body as Record<string, unknown>;
+  const unknownFields = Object.keys(record).filter(
+    (field) => !CALCULATOR_METADATA_FIELDS.includes(field as CalculatorMetadataField)
+  );
+  if (unknownFields.length > 0) {
+    throw new InvalidCalculatorMetadataError(
+      `Only ${CALCULATOR_METADATA_FIELDS.join(", ")} can be edited; got ${unknownFields.join(", ")}.`
+    );
+  }
+
+  const patch: CalculatorMetadataPatch = {};
+  if (record.title !== undefined) {
+    patch.title = readText(record.title, "title", MAX_TITLE_LENGTH, SINGLE_LINE_INVALID_PATTERN);
+    if (!patch.title) {
+      throw new InvalidCalculatorMetadataError("title cannot be empty.");
+    }
+  }
+  if (record.description !== undefined) {
+    patch.description = readText(
+      record.description,
+      "description",
+      MAX_DESCRIPTION_LENGTH,
+      SINGLE_LINE_INVALID_PATTERN
+    );
+  }
+  if (record.notes !== undefined) {
+    patch.notes = readText(record.notes, "notes", MAX_NOTES_LENGTH, MULTI_LINE_INVALID_PATTERN);
+  }
+  if (record.tags !== undefined) {
+    try {
+      patch.tags = normalizeCalculatorTags(record.tags);
+    } catch (error) {
+      if (error instanceof InvalidCalculatorOrganizationError) {
+        throw new InvalidCalculatorMetadataError(error.message);
+      }
+      throw error;
+    }
+  }
+  if (Object.keys(patch).length === 0) {
+    throw new InvalidCalculatorMetadataError(`Provide at least one of ${CALCULATOR_METADATA_FIELDS.join(", ")}.`);
+  }
+  return patch;
+};
+
+/** Fields whose patched value differs from what the calculator stores. */
+export const listChangedMetadataFields = (
+  entity: Pick<CalculatorEntity, "title" | "description" | "tags" | "notes">,
+  patch: CalculatorMetadataPatch
+): CalculatorMetadataField[] =>
+  CALCULATOR_METADATA_FIELDS.filter((field) => {
+    if (patch[field] === undefined) {
+      return false;
+    }
+    if (field === "tags") {
+      return JSON.stringify(patch.tags) !== (entity.tags ?? "[]");
+    }
+    return patch[field] !== (entity[field] ?? "");
+  });
+
+/**
+ * Merge fields for a metadata edit. Edited titles and descriptions are marked so later versions, whose manifests
+ * carry their own, do not overwrite them.
+ */
+export const buildCalculatorMetadataFields = (
+  patch: CalculatorMetadataPatch,
+  editedBy: string,
+  editedAt: string
+): Partial<CalculatorEntity> => ({
+  ...(patch.title !== undefined ? { title: patch.title, titleEdited: true } : {}),
+  ...(patch.description !== undefined ? { description: patch.description, descriptionEdited: true } : {}),
+  ...(patch.tags !== undefined ? { tags: JSON.stringify(patch.tags) } : {}),
+  ...(patch.notes !== undefined ? { notes: patch.notes } : {}),
+  metadataUpdatedBy: editedBy,
+  metadataUpdatedAt: editedAt,
+  updatedAt: editedAt,
+});
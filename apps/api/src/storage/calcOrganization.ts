@@ -0,0 +1,144 @@
+/**
+ * Purpose: Validate user-defined tags, folders, and favorites for calculators and summarize them for drawer filters.
+ * Persists: None (callers merge the returned fields onto the calculator entity).
+ * Security Risks: Tags and folder names are client input rendered back in the UI; control characters and oversize values are rejected.
+ */
+
+import { parseCalculatorTags } from "./calcQuery";
+import type { CalculatorEntity } from "./types";
+
+export const MAX_CALCULATOR_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_FOLDER_LENGTH = 80;
+
+const INVALID_LABEL_PATTERN = /[\u0000-\u001f\u007f]/;
+
+export class InvalidCalculatorOrganizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCalculatorOrganizationError";
+  }
+}
+
+export type CalculatorOrganizationUpdate = {
+  tags?: string[];
+  /** Empty string removes the calculator from its folder. */
+  folder?: string;
+  favorite?: boolean;
+};
+
+/** Trims, drops empty entries, and de-duplicates case-insensitively, keeping the first spelling. */
+export const normalizeCalculatorTags = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    throw new InvalidCalculatorOrganizationError("tags must be an array of strings.");
+  }
+  const tags: string[] = [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    if (typeof item !== "string") {
+      throw new InvalidCalculatorOrganizationError("tags must be an array of strings.");
+    }
+    const tag = item.trim();
+    if (!tag) {
+      continue;
+    }
+    // Commas separate tags in the web editor, so they cannot appear inside one.
+    if (tag.length > MAX_TAG_LENGTH || tag.includes(",") || INVALID_LABEL_PATTERN.test(tag)) {
+      throw new InvalidCalculatorOrganizationError(
+        `Each tag must be at most ${MAX_TAG_LENGTH} characters without commas or control characters.`
+      );
+    }
+    if (!seen.has(tag.toLowerCase())) {
+      seen.add(tag.toLowerCase());
+      tags.push(tag);
+    }
+  }
+  if (tags.length > MAX_CALCULATOR_TAGS) {
+    throw new InvalidCalculatorOrganizationError(`A calculator can have at most ${MAX_CALCULATOR_TAGS} tags.`);
+  }
+  return tags;
+};
+
+export const normalizeCalculatorFolder = (value: unknown): string => {
+  if (value === null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    throw new InvalidCalculatorOrganizationError("folder must be a string or null.");
+  }
+  const folder = value.trim();
+  if (folder.length > MAX_FOLDER_LENGTH || INVALID_LABEL_PATTERN.test(folder)) {
+    throw new InvalidCalculatorOrganizationError(
+      `folder must be at most ${MAX_FOLDER_LENGTH} characters without control characters.`
+    );
+  }
+  return folder;
+};
+
+/** Reads `{ tags?, folder?, favorite? }`; at least one field is required. */
+export const parseCalculatorOrganization = (body: unknown): CalculatorOrganizationUpdate => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new InvalidCalculatorOrganizationError("Request body must be a JSON object.");
+  }
+  const record = body as { tags?: unknown; folder?: unknown; favorite?: unknown };
+  const update: CalculatorOrganizationUpdate = {};
+  if (record.tags !== undefined) {
+    update.tags = normalizeCalculatorTags(record.tags);
+  }
+  if (record.folder !== undefined) {
+    update.folder = normalizeCalculatorFolder(record.folder);
+  }
+  if (record.favorite !== undefined) {
+    if (typeof record.favorite !== "boolean") {
+      throw new InvalidCalculatorOrganizationError("favorite must be a boolean.");
+    }
+    update.favorite = record.favorite;
+  }
+  if (Object.keys(update).length === 0) {
+    throw new InvalidCalculatorOrganizationError("Provide at least one of tags, folder, or favorite.");
+  }
+  return update;
+};
+
+/** Merge writes keep absent properties, so cleared values are written as empty strings rather than omitted. */
+export const buildCalculatorOrganizationFields = (
+  update: CalculatorOrganizationUpdate
+): Pick<CalculatorEntity, "tags" | "folder" | "favorite"> => ({
+  ...(update.tags !== undefined ? { tags: JSON.stringify(update.tags) } : {}),
+  ...(update.folder !== undefined ? { folder: update.folder } : {}),
+  ...(update.favorite !== undefined ? { favorite: update.favorite } : {}),
+});
+
+export type CalculatorFacetCount = {
+  name: string;
+  count: number;
+};
+
+export type CalculatorFacets = {
+  folders: CalculatorFacetCount[];
+  tags: CalculatorFacetCount[];
+  favorites: number;
+};
+
+const countByName = (names: string[]): CalculatorFacetCount[] => {
+  // Case-insensitive buckets named after the first spelling seen, matching how list filters compare.
+  const buckets = new Map<string, CalculatorFacetCount>();
+  for (const name of names) {
+    const key = name.toLowerCase();
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.count += 1;
+    } else {
+      buckets.set(key, { name, count: 1 });
+    }
+  }
+  return [...buckets.values()].sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+};
+
+export const buildCalculatorFacets = (
+  entities: Array<Pick<CalculatorEntity, "tags" | "folder" | "favorite">>
+): CalculatorFacets => ({
+  folders: countByName(entities.map((entity) => entity.folder ?? "").filter(Boolean)),
+  tags: countByName(entities.flatMap((entity) => parseCalculatorTags(entity))),
+  favorites: entities.filter((entity) => entity.favorite === true).length,
+});
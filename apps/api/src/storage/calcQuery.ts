@@ -0,0 +1,261 @@
+/**
+ * Purpose: Search, filter, sort, and page calculator summaries with opaque keyset continuation tokens.
+ * Persists: None (applied to calculator rows a backend has already read).
+ * Security Risks: Query strings and tokens are client input; tokens are decoded defensively and never executed.
+ */
+
+import { isTrashedCalculator } from "./calcTrash";
+import type { CalculatorEntity, CalculatorVersionEntity, CalculatorVersionStatus } from "./types";
+
+export const CALCULATOR_SORT_FIELDS = ["updatedAt", "createdAt", "title"] as const;
+
+export type CalculatorSortField = (typeof CALCULATOR_SORT_FIELDS)[number];
+
+export type CalculatorQuery = {
+  /** Case-insensitive substring match on title and description. */
+  search?: string;
+  executionModel?: string;
+  tag?: string;
+  /** Case-insensitive exact folder name. */
+  folder?: string;
+  favorite?: boolean;
+  sort: CalculatorSortField;
+  order: "asc" | "desc";
+  limit: number;
+  continuationToken?: string;
+};
+
+export type CalculatorPage = {
+  items: CalculatorEntity[];
+  /** Absent on the last page. */
+  continuationToken?: string;
+  /** Set when the backend stopped reading at MAX_CALCULATOR_QUERY_SCAN rows, so later rows were not considered. */
+  truncated?: boolean;
+};
+
+export const DEFAULT_CALCULATOR_PAGE_SIZE = 50;
+export const MAX_CALCULATOR_PAGE_SIZE = 200;
+
+/**
+ * Most calculator rows one page request reads from table storage. Tables cannot sort by our fields, so a page still
+ * reads every row that passes the server-side filters and continuation cursor, up to this cap.
+ */
+export const MAX_CALCULATOR_QUERY_SCAN = 5000;
+
+const MAX_SEARCH_LENGTH = 200;
+
+export class InvalidCalculatorQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCalculatorQueryError";
+  }
+}
+
+/** Index fields the calculator row carries so listings never read versions or blobs. */
+export type CalculatorIndexFields = Pick<
+  CalculatorEntity,
+  "versionCount" | "lastVersionStatus" | "description" | "executionModel" | "storageBytes" | "unmeasuredVersionCount"
+>;
+
+/**
+ * Recomputes the denormalized summary from the calculator's versions. Description and execution model follow the
+ * current version and are left out when it predates them, so merge writes keep the previous values. Storage counts
+ * only versions that recorded their size; the rest are counted in `unmeasuredVersionCount`.
+ */
+export const buildCalculatorIndex = (
+  versions: Array<
+    Pick<
+      CalculatorVersionEntity,
+      "versionId" | "createdAt" | "status" | "description" | "executionModel" | "storedBytes"
+    >
+  >,
+  currentVersionId: string
+): CalculatorIndexFields => {
+  const newest = [...versions].sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  const current = versions.find((version) => version.versionId === currentVersionId);
+  return {
+    versionCount: versions.length,
+    storageBytes: versions.reduce((total, version) => total + (version.storedBytes ?? 0), 0),
+    unmeasuredVersionCount: versions.filter((version) => version.storedBytes === undefined).length,
+    ...(newest ? { lastVersionStatus: newest.status as CalculatorVersionStatus } : {}),
+    ...(current?.description !== undefined ? { description: current.description } : {}),
+    ...(current?.executionModel !== undefined ? { executionModel: current.executionModel } : {}),
+  };
+};
+
+/** Tags are stored JSON-encoded because table entities cannot hold arrays. */
+export const parseCalculatorTags = (entity: Pick<CalculatorEntity, "tags">): string[] => {
+  if (!entity.tags) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(entity.tags) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((tag): tag is string => typeof tag === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const readParam = (params: { get(name: string): string | null }, name: string): string | undefined => {
+  const value = params.get(name)?.trim();
+  return value ? value : undefined;
+};
+
+/**
+ * Reads `q`, `executionModel`, `tag`, `folder`, `favorite`, `sort`, `order`, `limit`, and `continuationToken`; throws
+ * on invalid values.
+ */
+export const parseCalculatorQuery = (params: { get(name: string): string | null }): CalculatorQuery => {
+  const sort = readParam(params, "sort") ?? "updatedAt";
+  if (!CALCULATOR_SORT_FIELDS.includes(sort as CalculatorSortField)) {
+    throw new InvalidCalculatorQueryError(`sort must be one of ${CALCULATOR_SORT_FIELDS.join(", ")}.`);
+  }
+  const order = readParam(params, "order") ?? (sort === "title" ? "asc" : "desc");
+  if (order !== "asc" && order !== "desc") {
+    throw new InvalidCalculatorQueryError("order must be asc or desc.");
+  }
+  const limitParam = readParam(params, "limit");
+  const limit = limitParam === undefined ? DEFAULT_CALCULATOR_PAGE_SIZE : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CALCULATOR_PAGE_SIZE) {
+    throw new InvalidCalculatorQueryError(`limit must be an integer from 1 to ${MAX_CALCULATOR_PAGE_SIZE}.`);
+  }
+  const search = readParam(params, "q");
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    throw new InvalidCalculatorQueryError(`q must be at most ${MAX_SEARCH_LENGTH} characters.`);
+  }
+  const favorite = readParam(params, "favorite");
+  if (favorite !== undefined && favorite !== "true" && favorite !== "false") {
+    throw new InvalidCalculatorQueryError("favorite must be true or false.");
+  }
+  const continuationToken = readParam(params, "continuationToken");
+  const query: CalculatorQuery = {
+    sort: sort as CalculatorSortField,
+    order,
+    limit,
+    ...(search ? { search } : {}),
+    ...(readParam(params, "executionModel") ? { executionModel: readParam(params, "executionModel") } : {}),
+    ...(readParam(params, "tag") ? { tag: readParam(params, "tag") } : {}),
+    ...(readParam(params, "folder") ? { folder: readParam(params, "folder") } : {}),
+    ...(favorite !== undefined ? { favorite: favorite === "true" } : {}),
+    ...(continuationToken ? { continuationToken } : {}),
+  };
+  if (continuationToken) {
+    decodeContinuationToken(continuationToken, query);
+  }
+  return query;
+};
+
+type ContinuationCursor = {
+  sort: CalculatorSortField;
+  order: "asc" | "desc";
+  value: string;
+  calcId: string;
+};
+
+const encodeContinuationToken = (cursor: ContinuationCursor): string =>
+  Buffer.from(JSON.stringify(cursor), "utf8").toString("base64url");
+
+// Tokens are bound to the sort they were issued for; reusing one under another sort would skip or repeat rows.
+const decodeContinuationToken = (token: string, query: Pick<CalculatorQuery, "sort" | "order">): ContinuationCursor => {
+  let cursor: Partial<ContinuationCursor> | null = null;
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8")) as Partial<ContinuationCursor>;
+  } catch {
+    cursor = null;
+  }
+  if (
+    !cursor ||
+    typeof cursor.value !== "string" ||
+    typeof cursor.calcId !== "string" ||
+    cursor.sort !== query.sort ||
+    cursor.order !== query.order
+  ) {
+    throw new InvalidCalculatorQueryError("continuationToken is invalid for this query.");
+  }
+  return cursor as ContinuationCursor;
+};
+
+/** The keyset position a continuation token resumes after, for backends that can filter on it server-side. */
+export const readCalculatorQueryCursor = (query: CalculatorQuery): { value: string; calcId: string } | null => {
+  if (!query.continuationToken) {
+    return null;
+  }
+  const { value, calcId } = decodeContinuationToken(query.continuationToken, query);
+  return { value, calcId };
+};
+
+const sortValue = (entity: CalculatorEntity, sort: CalculatorSortField): string =>
+  sort === "title" ? entity.title.toLowerCase() : entity[sort];
+
+const compareKeys = (
+  a: { value: string; calcId: string },
+  b: { value: string; calcId: string },
+  order: "asc" | "desc"
+): number => {
+  const primary = a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  if (primary !== 0) {
+    return order === "asc" ? primary : -primary;
+  }
+  // calcId breaks ties so every row has a unique position and pages never overlap.
+  return a.calcId < b.calcId ? -1 : a.calcId > b.calcId ? 1 : 0;
+};
+
+export const matchesCalculatorQuery = (entity: CalculatorEntity, query: CalculatorQuery): boolean => {
+  if (isTrashedCalculator(entity)) {
+    return false;
+  }
+  if (query.executionModel && entity.executionModel !== query.executionModel) {
+    return false;
+  }
+  if (query.folder && (entity.folder ?? "").toLowerCase() !== query.folder.toLowerCase()) {
+    return false;
+  }
+  if (query.favorite !== undefined && (entity.favorite === true) !== query.favorite) {
+    return false;
+  }
+  if (query.tag) {
+    const tag = query.tag.toLowerCase();
+    if (!parseCalculatorTags(entity).some((entityTag) => entityTag.toLowerCase() === tag)) {
+      return false;
+    }
+  }
+  if (query.search) {
+    const needle = query.search.toLowerCase();
+    const haystack = `${entity.title}\n${entity.description ?? ""}`.toLowerCase();
+    if (!haystack.includes(needle)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+export const applyCalculatorQuery = (
+  entities: CalculatorEntity[],
+  query: CalculatorQuery,
+  options: { truncated?: boolean } = {}
+): CalculatorPage => {
+  const cursor = query.continuationToken ? decodeContinuationToken(query.continuationToken, query) : null;
+  const keyed = entities
+    .filter((entity) => matchesCalculatorQuery(entity, query))
+    .map((entity) => ({ entity, value: sortValue(entity, query.sort), calcId: entity.calcId }))
+    .sort((a, b) => compareKeys(a, b, query.order));
+  const remaining = cursor ? keyed.filter((item) => compareKeys(item, cursor, query.order) > 0) : keyed;
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+  // A truncated scan may have stopped short of rows that belong on this page; keep paging from the last row served.
+  const hasMore = remaining.length > query.limit || Boolean(options.truncated && last);
+  return {
+    items: page.map((item) => item.entity),
+    ...(options.truncated ? { truncated: true } : {}),
+    ...(hasMore && last
+      ? {
+          continuationToken: encodeContinuationToken({
+            sort: query.sort,
+            order: query.order,
+            value: last.value,
+            calcId: last.calcId,
+          }),
+        }
+      : {}),
+  };
+};
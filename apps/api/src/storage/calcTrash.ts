@@ -0,0 +1,41 @@
+/**
+ * Purpose: Decide the trash state of calculators: soft delete, restore, and when a trashed calculator is due for purge.
+ * Persists: None (callers merge the returned fields onto the calculator entity).
+ * Security Risks: Trashed calculators must stay invisible to normal reads; purge is irreversible once due.
+ */
+
+import type { CalculatorEntity } from "./types";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** PROMPTCALC_TRASH_RETENTION_DAYS: days a deleted calculator stays restorable before it is purged (default 30). */
+export const getTrashRetentionDays = (env: NodeJS.ProcessEnv = process.env): number => {
+  const parsed = Number.parseInt(env.PROMPTCALC_TRASH_RETENTION_DAYS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export type CalculatorTrashFields = Pick<CalculatorEntity, "deletedAt" | "deletedBy" | "purgeAfter">;
+
+/** Restored calculators keep empty strings (merge writes cannot remove properties). */
+export const isTrashedCalculator = (entity: Pick<CalculatorEntity, "deletedAt">): boolean => Boolean(entity.deletedAt);
+
+export const buildTrashFields = (
+  deletedBy: string,
+  deletedAt: Date,
+  retentionDays: number
+): CalculatorTrashFields => ({
+  deletedAt: deletedAt.toISOString(),
+  deletedBy,
+  purgeAfter: new Date(deletedAt.getTime() + retentionDays * DAY_MS).toISOString(),
+});
+
+export const buildRestoreFields = (): CalculatorTrashFields => ({
+  deletedAt: "",
+  deletedBy: "",
+  purgeAfter: "",
+});
+
+export const isPurgeDue = (entity: Pick<CalculatorEntity, "deletedAt" | "purgeAfter">, now: Date): boolean =>
+  isTrashedCalculator(entity) && Boolean(entity.purgeAfter) && (entity.purgeAfter as string) <= now.toISOString();
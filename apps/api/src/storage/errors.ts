@@ -0,0 +1,20 @@
+/**
+ * Purpose: Shared storage error for conditional calculator writes that lost a race.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+/** Mirrors the Azure 412 shape so handlers detect conflicts the same way on every backend. */
+export class StorageConflictError extends Error {
+  readonly code = "UpdateConditionNotSatisfied";
+  readonly statusCode = 412;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageConflictError";
+  }
+}
+
+export const isStorageConflict = (error: unknown): boolean =>
+  error instanceof StorageConflictError ||
+  Boolean(error && typeof error === "object" && (error as { statusCode?: number }).statusCode === 412);
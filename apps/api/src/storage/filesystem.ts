@@ -0,0 +1,120 @@
+/**
+ * Purpose: Store calculator metadata as JSON files and payloads as plain files under a local directory.
+ * Persists: <root>/tables/<partition>/<row>.json and <root>/blobs/<blob path>.
+ * Security Risks: Blob paths embed route ids; paths that could escape the root are rejected.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+
+import { createKeyValueStorage, type BlobMap, type EntityRecord, type EntityTable } from "./keyValue";
+import type { StorageBackend } from "./types";
+
+const isMissing = (error: unknown): boolean =>
+  Boolean(error && typeof error === "object" && (error as { code?: string }).code === "ENOENT");
+
+const readOrNull = async (filePath: string): Promise<string | null> => {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if (isMissing(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const listOrEmpty = async (dirPath: string): Promise<string[]> => {
+  try {
+    return await readdir(dirPath);
+  } catch (error) {
+    if (isMissing(error)) {
+      return [];
+    }
+    throw error;
+  }
+};
+
+// Write-then-rename so a crash never leaves a half-written entity or artifact behind.
+const writeAtomic = async (filePath: string, contents: string): Promise<void> => {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, contents, "utf8");
+  await rename(tempPath, filePath);
+};
+
+const removeFile = async (filePath: string): Promise<void> => {
+  await rm(filePath, { force: true });
+};
+
+/** Blob paths are "/"-separated; each segment must be a plain name. */
+const resolveBlobFile = (blobsDir: string, blobPath: string): string => {
+  const segments = blobPath.split("/");
+  if (segments.some((segment) => segment === "" || segment === "." || segment === ".." || segment.includes("\\"))) {
+    throw new Error(`Invalid blob path: ${blobPath}`);
+  }
+  return path.join(blobsDir, ...segments);
+};
+
+const listBlobFiles = async (dirPath: string, relative: string[]): Promise<string[]> => {
+  const names: string[] = [];
+  for (const entry of await listOrEmpty(dirPath)) {
+    if (entry.endsWith(".tmp")) {
+      continue;
+    }
+    const entryPath = path.join(dirPath, entry);
+    if ((await stat(entryPath)).isDirectory()) {
+      names.push(...(await listBlobFiles(entryPath, [...relative, entry])));
+    } else {
+      names.push([...relative, entry].join("/"));
+    }
+  }
+  return names;
+};
+
+export const createFileSystemStorage = (rootDir: string): StorageBackend => {
+  const tablesDir = path.join(rootDir, "tables");
+  const blobsDir = path.join(rootDir, "blobs");
+  const partitionDir = (partitionKey: string) => path.join(tablesDir, encodeURIComponent(partitionKey));
+  const rowFile = (partitionKey: string, rowKey: string) =>
+    path.join(partitionDir(partitionKey), `${encodeURIComponent(rowKey)}.json`);
+
+  const readPartition = async (partitionKey: string): Promise<EntityRecord[]> => {
+    const entities: EntityRecord[] = [];
+    for (const entry of await listOrEmpty(partitionDir(partitionKey))) {
+      if (!entry.endsWith(".json")) {
+        continue;
+      }
+      const contents = await readOrNull(path.join(partitionDir(partitionKey), entry));
+      if (contents !== null) {
+        entities.push(JSON.parse(contents) as EntityRecord);
+      }
+    }
+    return entities;
+  };
+
+  const table: EntityTable = {
+    get: async (partitionKey, rowKey) => {
+      const contents = await readOrNull(rowFile(partitionKey, rowKey));
+      return contents === null ? null : (JSON.parse(contents) as EntityRecord);
+    },
+    put: (entity) => writeAtomic(rowFile(entity.partitionKey, entity.rowKey), JSON.stringify(entity, null, 2)),
+    delete: (partitionKey, rowKey) => removeFile(rowFile(partitionKey, rowKey)),
+    listPartition: readPartition,
+    listAll: async function* () {
+      for (const entry of await listOrEmpty(tablesDir)) {
+        yield* await readPartition(decodeURIComponent(entry));
+      }
+    },
+  };
+
+  const blobs: BlobMap = {
+    put: async (blobPath, content) => writeAtomic(resolveBlobFile(blobsDir, blobPath), content),
+    get: async (blobPath) => readOrNull(resolveBlobFile(blobsDir, blobPath)),
+    delete: async (blobPath) => removeFile(resolveBlobFile(blobsDir, blobPath)),
+    list: async (prefix) => (await listBlobFiles(blobsDir, [])).filter((blobPath) => blobPath.startsWith(prefix)),
+  };
+
+  return createKeyValueStorage("filesystem", table, blobs);
+};
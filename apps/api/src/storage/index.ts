@@ -0,0 +1,248 @@
+/**
+ * Purpose: Select the configured storage backend and provide policy limits for PromptCalc persistence.
+ * Persists: Delegates to the Azure, filesystem, or in-memory backend.
+ * Security Risks: Reads storage settings; do not log secrets.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+
+import { logEvent } from "@promptcalc/logger";
+
+import { createAzureStorage } from "./azure";
+import { createFileSystemStorage } from "./filesystem";
+import { createMemoryStorage } from "./memory";
+import type { ArtifactStore, CalcRepository, StorageBackend, StorageBackendName } from "./types";
+
+export type {
+  ArtifactStore,
+  CalcRepository,
+  CalculatorEntity,
+  CalculatorVersionEntity,
+  CalculatorVersionStatus,
+  CalculatorVersionUpdate,
+  CalculatorWriteOptions,
+  ShareLinkEntity,
+  StorageBackend,
+  StorageBackendName,
+  VersionWriteState,
+} from "./types";
+export {
+  buildCalculatorIndex,
+  InvalidCalculatorQueryError,
+  parseCalculatorQuery,
+  parseCalculatorTags,
+  type CalculatorIndexFields,
+  type CalculatorPage,
+  type CalculatorQuery,
+  type CalculatorSortField,
+} from "./calcQuery";
+export {
+  buildCalculatorMetadataFields,
+  CALCULATOR_METADATA_FIELDS,
+  InvalidCalculatorMetadataError,
+  listChangedMetadataFields,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_NOTES_LENGTH,
+  MAX_TITLE_LENGTH,
+  parseCalculatorMetadataPatch,
+  type CalculatorMetadataField,
+  type CalculatorMetadataPatch,
+} from "./calcMetadata";
+export {
+  buildCalculatorFacets,
+  buildCalculatorOrganizationFields,
+  InvalidCalculatorOrganizationError,
+  MAX_CALCULATOR_TAGS,
+  MAX_FOLDER_LENGTH,
+  MAX_TAG_LENGTH,
+  normalizeCalculatorFolder,
+  normalizeCalculatorTags,
+  parseCalculatorOrganization,
+  type CalculatorFacetCount,
+  type CalculatorFacets,
+  type CalculatorOrganizationUpdate,
+} from "./calcOrganization";
+export {
+  buildVersionLineage,
+  InvalidVersionLabelError,
+  MAX_VERSION_LABEL_LENGTH,
+  parseVersionLabel,
+  type VersionLineage,
+  type VersionLineageNode,
+} from "./versionLineage";
+export {
+  buildRestoreFields,
+  buildTrashFields,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  isPurgeDue,
+  isTrashedCalculator,
+  type CalculatorTrashFields,
+} from "./calcTrash";
+export {
+  getGlobalVersionRetention,
+  InvalidVersionRetentionError,
+  MAX_VERSION_RETENTION_KEEP_LAST,
+  parseVersionRetention,
+  resolveVersionRetention,
+  selectVersionsToPrune,
+  summarizeStorageUsage,
+  type StorageUsage,
+  type VersionRetentionPolicy,
+  type VersionRetentionSource,
+} from "./versionRetention";
+export {
+  CALC_BUNDLE_FORMAT,
+  CALC_BUNDLE_VERSION,
+  getBundleSigningKey,
+  InvalidCalcBundleError,
+  MAX_BUNDLE_VERSIONS,
+  parseCalcBundle,
+  signCalcBundle,
+  verifyCalcBundleSignature,
+  type CalcBundle,
+  type CalcBundleSignatureStatus,
+  type CalcBundleVersion,
+} from "./calcBundle";
+export {
+  buildShareLinkEntity,
+  describeShareLink,
+  generateShareToken,
+  hashShareToken,
+  InvalidShareLinkError,
+  isShareLinkExpired,
+  isValidShareToken,
+  MAX_SHARE_LINK_DAYS,
+  MAX_SHARE_LINKS_PER_CALC,
+  parseShareLinkRequest,
+  redactShareToken,
+  type ShareLinkRequest,
+  type ShareLinkView,
+} from "./shareLinks";
+export { StorageConflictError, isStorageConflict } from "./errors";
+export {
+  DEFAULT_RECONCILE_GRACE_MS,
+  isPendingVersion,
+  reconcileStorage,
+  type DanglingVersion,
+  type DanglingVersionReason,
+  type ReconcileOptions,
+  type StorageReconcileReport,
+} from "./reconcile";
+export { buildCalcPartition, buildCalcRow, buildVersionPartition, buildVersionRow } from "./keys";
+
+const DEFAULT_MAX_ARTIFACT_BYTES = 200_000;
+const DEFAULT_STORAGE_DIR = ".promptcalc-data";
+const STORAGE_BACKENDS: StorageBackendName[] = ["azure", "filesystem", "memory"];
+
+let cachedBackend: StorageBackend | null = null;
+let cachedMaxArtifactBytes: number | null = null;
+
+/** PROMPTCALC_STORAGE_BACKEND: azure (default), filesystem, or memory. Unknown values fail instead of falling back. */
+export const resolveStorageBackendName = (env: NodeJS.ProcessEnv = process.env): StorageBackendName => {
+  const value = (env.PROMPTCALC_STORAGE_BACKEND ?? "").trim().toLowerCase();
+  if (!value) {
+    return "azure";
+  }
+  if (!STORAGE_BACKENDS.includes(value as StorageBackendName)) {
+    throw new Error(
+      `Unknown PROMPTCALC_STORAGE_BACKEND "${value}"; expected one of ${STORAGE_BACKENDS.join(", ")}.`
+    );
+  }
+  return value as StorageBackendName;
+};
+
+export const createStorageBackend = (env: NodeJS.ProcessEnv = process.env): StorageBackend => {
+  const name = resolveStorageBackendName(env);
+  if (name === "memory") {
+    return createMemoryStorage();
+  }
+  if (name === "filesystem") {
+    return createFileSystemStorage(path.resolve(process.cwd(), env.PROMPTCALC_STORAGE_DIR || DEFAULT_STORAGE_DIR));
+  }
+  return createAzureStorage();
+};
+
+export const getStorageBackend = (): StorageBackend => {
+  if (cachedBackend) {
+    return cachedBackend;
+  }
+  cachedBackend = createStorageBackend();
+  logEvent({
+    level: "info",
+    op: "storage.init",
+    event: "storage.backend",
+    backend: cachedBackend.name,
+  });
+  return cachedBackend;
+};
+
+export const getCalcRepository = (): CalcRepository => getStorageBackend().repository;
+
+export const getArtifactStore = (): ArtifactStore => getStorageBackend().artifacts;
+
+/** Swaps the process-wide backend; tests use it to run handlers against memory storage. */
+export const setStorageBackend = (backend: StorageBackend | null): void => {
+  cachedBackend = backend;
+};
+
+const readMaxArtifactBytes = async (): Promise<number> => {
+  const envValue = process.env.MAX_ARTIFACT_BYTES;
+  if (envValue) {
+    const parsed = Number(envValue);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      return parsed;
+    }
+  }
+
+  const candidates = [
+    path.resolve(process.cwd(), "spec/policy.yaml"),
+    path.resolve(__dirname, "../../spec/policy.yaml"),
+    path.resolve(__dirname, "../../../../spec/policy.yaml"),
+  ];
+
+  for (const policyPath of candidates) {
+    try {
+      const contents = await readFile(policyPath, "utf-8");
+      const match = contents.match(/maxArtifactBytes:\s*(\d+)/);
+      if (!match) {
+        return DEFAULT_MAX_ARTIFACT_BYTES;
+      }
+
+      const parsed = Number(match[1]);
+      return Number.isFinite(parsed) ? parsed : DEFAULT_MAX_ARTIFACT_BYTES;
+    } catch {
+      continue;
+    }
+  }
+
+  return DEFAULT_MAX_ARTIFACT_BYTES;
+};
+
+export const getMaxArtifactBytes = async (): Promise<number> => {
+  if (cachedMaxArtifactBytes !== null) {
+    return cachedMaxArtifactBytes;
+  }
+
+  try {
+    cachedMaxArtifactBytes = await readMaxArtifactBytes();
+  } catch (error) {
+    cachedMaxArtifactBytes = DEFAULT_MAX_ARTIFACT_BYTES;
+    logEvent({
+      level: "warn",
+      op: "storage.policy",
+      event: "policy.read.failed",
+      error: error instanceof Error ? error.message : "unknown error",
+    });
+  }
+
+  return cachedMaxArtifactBytes;
+};
+
+export const getBlobPath = (userId: string, calcId: string, versionId: string) => ({
+  artifact: `users/${userId}/calcs/${calcId}/versions/${versionId}/artifact.html`,
+  manifest: `users/${userId}/calcs/${calcId}/versions/${versionId}/manifest.json`,
+  spec: `users/${userId}/calcs/${calcId}/versions/${versionId}/spec.json`,
+  prefix: `users/${userId}/calcs/${calcId}/`,
+});
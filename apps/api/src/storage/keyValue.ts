@@ -0,0 +1,203 @@
+/**
+ * Purpose: Implement CalcRepository/ArtifactStore on top of a plain entity table and blob map (memory and filesystem backends).
+ * Persists: Whatever the supplied table and blob map persist.
+ * Security Risks: Merge semantics must match Azure Tables so handlers behave the same on every backend.
+ */
+
+import { randomUUID } from "crypto";
+
+import { applyCalculatorQuery } from "./calcQuery";
+import { StorageConflictError } from "./errors";
+import {
+  buildCalcPartition,
+  buildCalcRow,
+  buildSharePartition,
+  buildVersionPartition,
+  buildVersionRow,
+  SHARE_ROW,
+} from "./keys";
+import type {
+  CalculatorEntity,
+  CalculatorVersionEntity,
+  ShareLinkEntity,
+  StorageBackend,
+  StorageBackendName,
+} from "./types";
+
+export type EntityRecord = Record<string, unknown> & { partitionKey: string; rowKey: string };
+
+export interface EntityTable {
+  get(partitionKey: string, rowKey: string): Promise<EntityRecord | null>;
+  put(entity: EntityRecord): Promise<void>;
+  /** Missing rows are ignored. */
+  delete(partitionKey: string, rowKey: string): Promise<void>;
+  listPartition(partitionKey: string): Promise<EntityRecord[]>;
+  listAll(): AsyncIterable<EntityRecord>;
+}
+
+export interface BlobMap {
+  put(blobPath: string, content: string): Promise<void>;
+  get(blobPath: string): Promise<string | null>;
+  /** Missing blobs are ignored. */
+  delete(blobPath: string): Promise<void>;
+  list(prefix: string): Promise<string[]>;
+}
+
+/** Mirrors the Azure error shape so handlers' not-found checks work unchanged. */
+export class StorageNotFoundError extends Error {
+  readonly code = "ResourceNotFound";
+  readonly statusCode = 404;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageNotFoundError";
+  }
+}
+
+// Azure merge updates skip undefined properties rather than clearing them.
+const mergeDefined = (existing: EntityRecord, fields: Record<string, unknown>): EntityRecord => {
+  const merged: EntityRecord = { ...existing };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+};
+
+export const createKeyValueStorage = (
+  name: StorageBackendName,
+  table: EntityTable,
+  blobs: BlobMap
+): StorageBackend => ({
+  name,
+  repository: {
+    getCalculator: async (userId, calcId) =>
+      (await table.get(buildCalcPartition(userId), buildCalcRow(calcId))) as CalculatorEntity | null,
+
+    listCalculators: async (userId) =>
+      ((await table.listPartition(buildCalcPartition(userId))) as unknown as CalculatorEntity[]).filter(
+        (entity) => entity.entityType === "Calculator"
+      ),
+
+    // Local backends already hold the partition in memory, so they apply the query without a scan cap.
+    queryCalculators: async (userId, query) =>
+      applyCalculatorQuery(
+        ((await table.listPartition(buildCalcPartition(userId))) as unknown as CalculatorEntity[]).filter(
+          (entity) => entity.entityType === "Calculator"
+        ),
+        query
+      ),
+
+    // The read-compare-write is not atomic; good enough for single-process local and test runs.
+    saveCalculator: async (entity, options) => {
+      const existing = await table.get(entity.partitionKey, entity.rowKey);
+      if (options?.ifMatch && existing?.etag !== options.ifMatch) {
+        throw new StorageConflictError(`Calculator ${entity.calcId} changed since it was read.`);
+      }
+      const etag = `W/"${randomUUID()}"`;
+      await table.put({ ...(existing ? mergeDefined(existing, entity) : entity), etag });
+      return etag;
+    },
+
+    deleteCalculator: async (userId, calcId) => {
+      for (const entity of await table.listPartition(buildVersionPartition(userId, calcId))) {
+        await table.delete(entity.partitionKey, entity.rowKey);
+      }
+      await table.delete(buildCalcPartition(userId), buildCalcRow(calcId));
+    },
+
+    getVersion: async (userId, calcId, versionId) =>
+      (await table.get(
+        buildVersionPartition(userId, calcId),
+        buildVersionRow(versionId)
+      )) as CalculatorVersionEntity | null,
+
+    listVersions: async (userId, calcId) =>
+      (
+        (await table.listPartition(buildVersionPartition(userId, calcId))) as unknown as CalculatorVersionEntity[]
+      ).filter((entity) => entity.entityType === "CalculatorVersion"),
+
+    saveVersion: async (entity) => {
+      await table.put({ ...entity });
+    },
+
+    updateVersion: async (userId, calcId, versionId, fields) => {
+      const partitionKey = buildVersionPartition(userId, calcId);
+      const rowKey = buildVersionRow(versionId);
+      const existing = await table.get(partitionKey, rowKey);
+      if (!existing) {
+        throw new StorageNotFoundError(`Version ${versionId} not found.`);
+      }
+      await table.put(mergeDefined(existing, fields));
+    },
+
+    deleteVersion: async (userId, calcId, versionId) => {
+      await table.delete(buildVersionPartition(userId, calcId), buildVersionRow(versionId));
+    },
+
+    scanCalculators: async function* () {
+      for await (const entity of table.listAll()) {
+        if (entity.entityType === "Calculator") {
+          yield entity as unknown as CalculatorEntity;
+        }
+      }
+    },
+
+    scanVersions: async function* (filter) {
+      for await (const entity of table.listAll()) {
+        if (entity.entityType !== "CalculatorVersion") {
+          continue;
+        }
+        if (filter?.status && entity.status !== filter.status) {
+          continue;
+        }
+        yield entity as unknown as CalculatorVersionEntity;
+      }
+    },
+
+    getShareLink: async (tokenHash) =>
+      (await table.get(buildSharePartition(tokenHash), SHARE_ROW)) as ShareLinkEntity | null,
+
+    listShareLinks: async (userId, calcId) => {
+      const links: ShareLinkEntity[] = [];
+      for await (const entity of table.listAll()) {
+        if (entity.entityType === "ShareLink" && entity.userId === userId && entity.calcId === calcId) {
+          links.push(entity as unknown as ShareLinkEntity);
+        }
+      }
+      return links;
+    },
+
+    saveShareLink: async (entity) => {
+      await table.put({ ...entity });
+    },
+
+    deleteShareLink: async (tokenHash) => {
+      await table.delete(buildSharePartition(tokenHash), SHARE_ROW);
+    },
+  },
+  artifacts: {
+    write: (blobPath, content) => blobs.put(blobPath, content),
+
+    read: async (blobPath) => {
+      const content = await blobs.get(blobPath);
+      if (content === null) {
+        throw new StorageNotFoundError(`Blob ${blobPath} not found.`);
+      }
+      return content;
+    },
+
+    delete: (blobPath) => blobs.delete(blobPath),
+
+    deletePrefix: async (prefix) => {
+      const names = await blobs.list(prefix);
+      for (const blobPath of names) {
+        await blobs.delete(blobPath);
+      }
+      return names.length;
+    },
+
+    list: (prefix) => blobs.list(prefix),
+  },
+});
@@ -0,0 +1,25 @@
+/**
+ * Purpose: Build the partition/row keys calculator metadata is stored under, shared by every backend.
+ * Persists: None.
+ * Security Risks: Keys are derived from user-controlled ids; only [A-Za-z0-9_-] survives, longer keys are hashed.
+ */
+
+import { createHash } from "crypto";
+
+const MAX_TABLE_KEY_LENGTH = 1024;
+
+export const safeKey = (value: string): string => {
+  const sanitized = value.replace(/[^A-Za-z0-9_-]/g, "_");
+  if (sanitized.length <= MAX_TABLE_KEY_LENGTH) {
+    return sanitized;
+  }
+  return createHash("sha256").update(sanitized, "utf8").digest("hex");
+};
+
+export const buildCalcPartition = (userId: string) => `USER_${safeKey(userId)}`;
+export const buildCalcRow = (calcId: string) => `CALC_${safeKey(calcId)}`;
+export const buildVersionPartition = (userId: string, calcId: string) =>
+  `USER_${safeKey(userId)}_CALC_${safeKey(calcId)}`;
+export const buildVersionRow = (versionId: string) => `VER_${safeKey(versionId)}`;
+export const buildSharePartition = (tokenHash: string) => `SHARE_${safeKey(tokenHash)}`;
+export const SHARE_ROW = "SHARE";
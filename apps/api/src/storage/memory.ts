@@ -0,0 +1,51 @@
+/**
+ * Purpose: Keep calculator metadata and payloads in process memory for tests and throwaway local runs.
+ * Persists: None (everything is lost when the process exits).
+ * Security Risks: None beyond holding user artifacts in memory.
+ */
+
+import { createKeyValueStorage, type BlobMap, type EntityRecord, type EntityTable } from "./keyValue";
+import type { StorageBackend } from "./types";
+
+// Entities are copied in and out so callers cannot mutate stored rows by reference.
+const copy = (entity: EntityRecord): EntityRecord => JSON.parse(JSON.stringify(entity)) as EntityRecord;
+
+const rowId = (partitionKey: string, rowKey: string) => `${partitionKey}\u0000${rowKey}`;
+
+export const createMemoryStorage = (): StorageBackend => {
+  const rows = new Map<string, EntityRecord>();
+  const blobContents = new Map<string, string>();
+
+  const table: EntityTable = {
+    get: async (partitionKey, rowKey) => {
+      const entity = rows.get(rowId(partitionKey, rowKey));
+      return entity ? copy(entity) : null;
+    },
+    put: async (entity) => {
+      rows.set(rowId(entity.partitionKey, entity.rowKey), copy(entity));
+    },
+    delete: async (partitionKey, rowKey) => {
+      rows.delete(rowId(partitionKey, rowKey));
+    },
+    listPartition: async (partitionKey) =>
+      [...rows.values()].filter((entity) => entity.partitionKey === partitionKey).map(copy),
+    listAll: async function* () {
+      for (const entity of [...rows.values()]) {
+        yield copy(entity);
+      }
+    },
+  };
+
+  const blobs: BlobMap = {
+    put: async (blobPath, content) => {
+      blobContents.set(blobPath, content);
+    },
+    get: async (blobPath) => blobContents.get(blobPath) ?? null,
+    delete: async (blobPath) => {
+      blobContents.delete(blobPath);
+    },
+    list: async (prefix) => [...blobContents.keys()].filter((blobPath) => blobPath.startsWith(prefix)),
+  };
+
+  return createKeyValueStorage("memory", table, blobs);
+};
@@ -0,0 +1,163 @@
+/**
+ * Purpose: Find and remove what interrupted calculator writes leave behind: orphan blobs and dangling version rows.
+ * Persists: Deletes version rows and blobs, and repoints calculators off removed versions, unless run as a dry run.
+ * Security Risks: Deletes user data; rows younger than the grace period are never touched so in-flight writes survive.
+ */
+
+import { pickFallbackVersionId } from "../policy/quarantine";
+import { isStorageConflict } from "./errors";
+import type { CalculatorVersionEntity, StorageBackend } from "./types";
+
+export const DEFAULT_RECONCILE_GRACE_MS = 15 * 60 * 1000;
+
+export type DanglingVersionReason = "pending_expired" | "calculator_missing" | "blobs_missing";
+
+export type DanglingVersion = {
+  userId: string;
+  calcId: string;
+  versionId: string;
+  reason: DanglingVersionReason;
+};
+
+export type StorageReconcileReport = {
+  scannedBlobs: number;
+  scannedVersions: number;
+  /** Pending rows still inside the grace period, i.e. writes that may be in flight. */
+  pendingVersions: number;
+  orphanBlobs: string[];
+  danglingVersions: DanglingVersion[];
+  /** What was actually changed; all zero on a dry run. */
+  removedBlobs: number;
+  removedVersions: number;
+  repointedCalculators: number;
+};
+
+export type ReconcileOptions = {
+  /** Limits the pass to users/<userId>/calcs/ and that user's version rows. */
+  userId?: string;
+  dryRun?: boolean;
+  graceMs?: number;
+  now?: number;
+};
+
+export const isPendingVersion = (entity: Pick<CalculatorVersionEntity, "writeState">): boolean =>
+  entity.writeState === "pending";
+
+const getVersionBlobPaths = (entity: CalculatorVersionEntity): string[] =>
+  [entity.manifestBlobPath, entity.artifactBlobPath, entity.specBlobPath].filter((blobPath): blobPath is string =>
+    Boolean(blobPath)
+  );
+
+export const reconcileStorage = async (
+  backend: StorageBackend,
+  options: ReconcileOptions = {}
+): Promise<StorageReconcileReport> => {
+  const { repository, artifacts } = backend;
+  const now = options.now ?? Date.now();
+  const cutoff = now - (options.graceMs ?? DEFAULT_RECONCILE_GRACE_MS);
+
+  // Blobs are listed before rows: every write stores its row first, so any listed blob already has a visible row.
+  const blobPaths = await artifacts.list(options.userId ? `users/${options.userId}/calcs/` : "users/");
+  const existingBlobs = new Set(blobPaths);
+  const referencedBlobs = new Set<string>();
+  const calculatorExists = new Map<string, boolean>();
+  const dangling: Array<{ entity: CalculatorVersionEntity; reason: DanglingVersionReason }> = [];
+  let scannedVersions = 0;
+  let pendingVersions = 0;
+
+  for await (const entity of repository.scanVersions()) {
+    if (options.userId && entity.userId !== options.userId) {
+      continue;
+    }
+    scannedVersions += 1;
+    const versionBlobPaths = getVersionBlobPaths(entity);
+    // Unparseable timestamps never settle, so such rows are reported as in flight rather than deleted.
+    const settled = Date.parse(entity.createdAt) < cutoff;
+    let reason: DanglingVersionReason | null = null;
+
+    if (isPendingVersion(entity)) {
+      if (settled) {
+        reason = "pending_expired";
+      } else {
+        pendingVersions += 1;
+      }
+    } else if (settled) {
+      const calculatorKey = `${entity.userId}\u0000${entity.calcId}`;
+      if (!calculatorExists.has(calculatorKey)) {
+        calculatorExists.set(calculatorKey, Boolean(await repository.getCalculator(entity.userId, entity.calcId)));
+      }
+      if (!calculatorExists.get(calculatorKey)) {
+        reason = "calculator_missing";
+      } else if (versionBlobPaths.some((blobPath) => !existingBlobs.has(blobPath))) {
+        reason = "blobs_missing";
+      }
+    }
+
+    if (reason) {
+      dangling.push({ entity, reason });
+    } else {
+      versionBlobPaths.forEach((blobPath) => referencedBlobs.add(blobPath));
+    }
+  }
+
+  // Blobs of dangling rows are unreferenced too, so they are removed with the rows.
+  const orphanBlobs = blobPaths.filter((blobPath) => !referencedBlobs.has(blobPath));
+  const report: StorageReconcileReport = {
+    scannedBlobs: blobPaths.length,
+    scannedVersions,
+    pendingVersions,
+    orphanBlobs,
+    danglingVersions: dangling.map(({ entity, reason }) => ({
+      userId: entity.userId,
+      calcId: entity.calcId,
+      versionId: entity.versionId,
+      reason,
+    })),
+    removedBlobs: 0,
+    removedVersions: 0,
+    repointedCalculators: 0,
+  };
+  if (options.dryRun) {
+    return report;
+  }
+
+  for (const { entity, reason } of dangling) {
+    await repository.deleteVersion(entity.userId, entity.calcId, entity.versionId);
+    report.removedVersions += 1;
+    if (reason !== "blobs_missing") {
+      continue;
+    }
+
+    // A broken current version is replaced by the newest servable one; with none left the calculator is kept as is.
+    const calculator = await repository.getCalculator(entity.userId, entity.calcId);
+    if (!calculator || calculator.currentVersionId !== entity.versionId) {
+      continue;
+    }
+    const remaining = (await repository.listVersions(entity.userId, entity.calcId)).filter(
+      (version) => !isPendingVersion(version)
+    );
+    const fallbackVersionId = pickFallbackVersionId(remaining, entity.versionId);
+    if (!fallbackVersionId) {
+      continue;
+    }
+    try {
+      await repository.saveCalculator(
+        { ...calculator, currentVersionId: fallbackVersionId, updatedAt: new Date(now).toISOString() },
+        { ifMatch: calculator.etag }
+      );
+      report.repointedCalculators += 1;
+    } catch (error) {
+      // Someone else moved the calculator meanwhile; their choice stands.
+      if (!isStorageConflict(error)) {
+        throw error;
+      }
+    }
+  }
+
+  for (const blobPath of orphanBlobs) {
+    await artifacts.delete(blobPath);
+    report.removedBlobs += 1;
+  }
+
+  return report;
+};
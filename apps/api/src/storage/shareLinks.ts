@@ -0,0 +1,107 @@
+/**
+ * Purpose: Create, validate, and describe read-only share links to a calculator version or its current version.
+ * Persists: None (callers store the ShareLinkEntity built here).
+ * Security Risks: The token alone grants read access; it must be unguessable, is never logged in full, and links stop
+ * working once revoked, expired, or when the calculator is trashed.
+ */
+
+import { createHash, randomUUID } from "crypto";
+
+import { buildSharePartition, SHARE_ROW } from "./keys";
+import type { ShareLinkEntity } from "./types";
+
+export const MAX_SHARE_LINKS_PER_CALC = 20;
+export const MAX_SHARE_LINK_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHARE_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export class InvalidShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidShareLinkError";
+  }
+}
+
+/** 244 random bits from two v4 UUIDs, as 64 hex characters. */
+export const generateShareToken = (): string => `${randomUUID()}${randomUUID()}`.replace(/-/g, "");
+
+/** Rejects malformed tokens, and link ids (token hashes, the same shape), before they reach storage. */
+export const isValidShareToken = (token: string): boolean => SHARE_TOKEN_PATTERN.test(token);
+
+/** Links are stored and looked up by this hash; it doubles as the link id the owner revokes by. */
+export const hashShareToken = (token: string): string => createHash("sha256").update(token, "utf8").digest("hex");
+
+/** Enough of the token to tell links apart in logs without making them usable. */
+export const redactShareToken = (token: string): string => `${token.slice(0, 8)}...`;
+
+export type ShareLinkRequest = {
+  /** Null shares whatever version is current when the link is opened. */
+  versionId: string | null;
+  /** Empty means the link never expires. */
+  expiresAt: string;
+};
+
+/** Reads `{ versionId?, expiresAt? }`; `expiresAt` must be a future ISO timestamp within MAX_SHARE_LINK_DAYS. */
+export const parseShareLinkRequest = (body: unknown, now: Date): ShareLinkRequest => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new InvalidShareLinkError("Request body must be a JSON object.");
+  }
+  const { versionId, expiresAt } = body as { versionId?: unknown; expiresAt?: unknown };
+  if (versionId !== undefined && versionId !== null && (typeof versionId !== "string" || !versionId.trim())) {
+    throw new InvalidShareLinkError("versionId must be a version id, or null to share the current version.");
+  }
+  if (expiresAt === undefined || expiresAt === null || expiresAt === "") {
+    return { versionId: typeof versionId === "string" ? versionId.trim() : null, expiresAt: "" };
+  }
+  const expiry = typeof expiresAt === "string" ? new Date(expiresAt) : null;
+  if (!expiry || Number.isNaN(expiry.getTime())) {
+    throw new InvalidShareLinkError("expiresAt must be an ISO 8601 timestamp.");
+  }
+  if (expiry.getTime() <= now.getTime()) {
+    throw new InvalidShareLinkError("expiresAt must be in the future.");
+  }
+  if (expiry.getTime() > now.getTime() + MAX_SHARE_LINK_DAYS * DAY_MS) {
+    throw new InvalidShareLinkError(`expiresAt must be within ${MAX_SHARE_LINK_DAYS} days.`);
+  }
+  return { versionId: typeof versionId === "string" ? versionId.trim() : null, expiresAt: expiry.toISOString() };
+};
+
+export const buildShareLinkEntity = (
+  userId: string,
+  calcId: string,
+  request: ShareLinkRequest,
+  now: Date,
+  token: string
+): ShareLinkEntity => ({
+  partitionKey: buildSharePartition(hashShareToken(token)),
+  rowKey: SHARE_ROW,
+  entityType: "ShareLink",
+  tokenHash: hashShareToken(token),
+  userId,
+  calcId,
+  versionId: request.versionId ?? "",
+  createdAt: now.toISOString(),
+  expiresAt: request.expiresAt,
+});
+
+export const isShareLinkExpired = (link: Pick<ShareLinkEntity, "expiresAt">, now: Date): boolean =>
+  Boolean(link.expiresAt) && link.expiresAt <= now.toISOString();
+
+/** The token is only known when a link is created; afterwards the owner sees and revokes links by `id`. */
+export type ShareLinkView = {
+  id: string;
+  /** Null for links that follow the current version. */
+  versionId: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  expired: boolean;
+};
+
+export const describeShareLink = (link: ShareLinkEntity, now: Date): ShareLinkView => ({
+  id: link.tokenHash,
+  versionId: link.versionId || null,
+  createdAt: link.createdAt,
+  expiresAt: link.expiresAt || null,
+  expired: isShareLinkExpired(link, now),
+});
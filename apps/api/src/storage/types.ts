@@ -0,0 +1,192 @@
+/**
+ * Purpose: Define the calculator metadata entities and the storage interfaces every backend implements.
+ * Persists: None (backends persist these shapes).
+ * Security Risks: Entities carry user ids and prompts; backends must keep them per-user and never log prompts.
+ */
+
+import type { RenderMode } from "@promptcalc/types";
+
+import type { QuarantineReason } from "../policy/quarantine";
+import type { VersionScanRecord } from "../policy/scanRecord";
+import type { SelfTestSummary } from "../sandbox/selfTest";
+import type { CalculatorPage, CalculatorQuery } from "./calcQuery";
+
+export type CalculatorEntity = {
+  partitionKey: string;
+  rowKey: string;
+  entityType: "Calculator";
+  calcId: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  currentVersionId: string;
+  // Listing index, denormalized from the versions on every write; absent on calculators not written since.
+  description?: string;
+  executionModel?: string;
+  versionCount?: number;
+  /** Status of the newest version. */
+  lastVersionStatus?: CalculatorVersionStatus;
+  /** Sum of the recorded blob sizes of the calculator's versions. */
+  storageBytes?: number;
+  /** Versions stored before sizes were recorded; their blobs are not in storageBytes. */
+  unmeasuredVersionCount?: number;
+  /** JSON-encoded string array (table entities cannot hold arrays). */
+  tags?: string;
+  /** User-chosen folder; empty or absent means unfiled. */
+  folder?: string;
+  favorite?: boolean;
+  /** Free-form owner notes, edited with PATCH /api/calcs/{calcId}. */
+  notes?: string;
+  /** Set once the owner edits the field; later versions then keep it instead of copying their manifest's. */
+  titleEdited?: boolean;
+  descriptionEdited?: boolean;
+  metadataUpdatedBy?: string;
+  metadataUpdatedAt?: string;
+  /** Newest versions to keep (current, labeled, and quarantined ones are always kept); absent or 0 uses the default. */
+  retentionKeepLast?: number;
+  /** Set on calculators created by importing a bundle. */
+  importedAt?: string;
+  /** Whether the imported bundle's signature was made with this deployment's key. */
+  importSignature?: "verified" | "unverified";
+  // Trash state: set by DELETE /api/calcs/{calcId}, emptied on restore; trashed calculators are hidden from reads.
+  deletedAt?: string;
+  deletedBy?: string;
+  /** When the scheduled purge may remove the calculator for good. */
+  purgeAfter?: string;
+  /** Concurrency token set by the backend on every write; returned on reads, never chosen by callers. */
+  etag?: string;
+};
+
+export type CalculatorWriteOptions = {
+  /** Write only if the stored calculator still carries this etag; otherwise reject with StorageConflictError. */
+  ifMatch?: string;
+};
+
+export type CalculatorVersionStatus = "ok" | "refused" | "quarantined";
+
+/** Write-ahead marker: rows are stored "pending" before their blobs and committed once every blob is written. */
+export type VersionWriteState = "pending" | "committed";
+
+export type CalculatorVersionEntity = {
+  partitionKey: string;
+  rowKey: string;
+  entityType: "CalculatorVersion";
+  calcId: string;
+  versionId: string;
+  userId: string;
+  createdAt: string;
+  prompt?: string;
+  promptLen?: number;
+  parentVersionId?: string;
+  /** User-chosen name such as "v2 metric units"; empty once cleared (merge updates cannot remove properties). */
+  label?: string;
+  labeledAt?: string;
+  /** Copied from the manifest so the calculator index can follow the current version without reading blobs. */
+  description?: string;
+  executionModel?: string;
+  status: CalculatorVersionStatus;
+  /** Absent on versions stored before write-ahead persistence; those count as committed. */
+  writeState?: VersionWriteState;
+  renderMode?: RenderMode;
+  manifestBlobPath: string;
+  artifactBlobPath: string;
+  specBlobPath?: string;
+  artifactHash: string;
+  /** Bytes written to the version's blobs, recorded on commit; absent on versions stored before sizes were kept. */
+  storedBytes?: number;
+  /** Set when artifactHash and the manifest hash follow the canonical rule; absent on older versions. */
+  artifactHashScheme?: string;
+  selfTestStatus?: SelfTestSummary["status"];
+  /** JSON-encoded SelfTestSummary.failures (table entities cannot hold arrays). */
+  selfTestFailures?: string;
+  /** Empty after a reviewer release (merge updates cannot remove properties). */
+  quarantineReason?: QuarantineReason | "";
+  loadFailureCount?: number;
+  lastLoadFailureCode?: string;
+  lastLoadFailureAt?: string;
+  /** JSON-encoded load ids of the latest counted viewer failure reports, used to ignore repeats. */
+  recentLoadFailureIds?: string;
+  releasedBy?: string;
+  releasedAt?: string;
+  // Policy and scan outcomes the version was checked against; absent on versions stored before they were recorded.
+} & Partial<VersionScanRecord>;
+
+/** Fields a merge update may change; keys and identity stay fixed. */
+export type CalculatorVersionUpdate = Partial<
+  Omit<CalculatorVersionEntity, "partitionKey" | "rowKey" | "entityType" | "calcId" | "versionId" | "userId">
+>;
+
+/** A read-only link to one calculator; the token is the only credential the public route asks for. */
+export type ShareLinkEntity = {
+  partitionKey: string;
+  rowKey: string;
+  entityType: "ShareLink";
+  /** SHA-256 of the token; the token itself is never stored, so a table dump cannot be replayed as links. */
+  tokenHash: string;
+  /** The owner; links never grant access to another user's calculators. */
+  userId: string;
+  calcId: string;
+  /** Empty shares whatever version is current when the link is opened. */
+  versionId: string;
+  createdAt: string;
+  /** Empty means the link never expires. */
+  expiresAt: string;
+};
+
+/**
+ * Calculator and version metadata. Reads return null for missing rows and throw on backend failures.
+ * Ids are the normalized ids the handlers already use; backends derive their own keys from them.
+ */
+export interface CalcRepository {
+  getCalculator(userId: string, calcId: string): Promise<CalculatorEntity | null>;
+  listCalculators(userId: string): Promise<CalculatorEntity[]>;
+  /** One page of the user's calculators; throws InvalidCalculatorQueryError for a bad continuation token. */
+  queryCalculators(userId: string, query: CalculatorQuery): Promise<CalculatorPage>;
+  /** Merges into an existing calculator row and resolves to the new etag. */
+  saveCalculator(entity: CalculatorEntity, options?: CalculatorWriteOptions): Promise<string>;
+  /** Removes the calculator row and every version row under it. */
+  deleteCalculator(userId: string, calcId: string): Promise<void>;
+  getVersion(userId: string, calcId: string, versionId: string): Promise<CalculatorVersionEntity | null>;
+  listVersions(userId: string, calcId: string): Promise<CalculatorVersionEntity[]>;
+  /** Replaces the whole version row. */
+  saveVersion(entity: CalculatorVersionEntity): Promise<void>;
+  /** Merges fields into an existing version row; absent fields keep their stored values. */
+  updateVersion(
+    userId: string,
+    calcId: string,
+    versionId: string,
+    fields: CalculatorVersionUpdate
+  ): Promise<void>;
+  deleteVersion(userId: string, calcId: string, versionId: string): Promise<void>;
+  /** Every calculator across users, for scheduled jobs. */
+  scanCalculators(): AsyncIterable<CalculatorEntity>;
+  /** Every stored version across users, for admin jobs. */
+  scanVersions(filter?: { status?: CalculatorVersionStatus }): AsyncIterable<CalculatorVersionEntity>;
+  getShareLink(tokenHash: string): Promise<ShareLinkEntity | null>;
+  /** Each link has its own partition for token lookups, so listing one calculator's links scans across them. */
+  listShareLinks(userId: string, calcId: string): Promise<ShareLinkEntity[]>;
+  saveShareLink(entity: ShareLinkEntity): Promise<void>;
+  /** Missing links are ignored. */
+  deleteShareLink(tokenHash: string): Promise<void>;
+}
+
+/** Artifact, manifest, and spec payloads addressed by the paths from getBlobPath. */
+export interface ArtifactStore {
+  write(blobPath: string, content: string, contentType: string): Promise<void>;
+  /** Rejects when the blob does not exist. */
+  read(blobPath: string): Promise<string>;
+  delete(blobPath: string): Promise<void>;
+  /** Returns the number of blobs removed. */
+  deletePrefix(prefix: string): Promise<number>;
+  /** Paths of every blob under the prefix. */
+  list(prefix: string): Promise<string[]>;
+}
+
+export type StorageBackendName = "azure" | "filesystem" | "memory";
+
+export type StorageBackend = {
+  name: StorageBackendName;
+  repository: CalcRepository;
+  artifacts: ArtifactStore;
+};
@@ -0,0 +1,131 @@
+/**
+ * Purpose: Build a calculator's version lineage tree from parent pointers and validate user-chosen version labels.
+ * Persists: None (callers merge labels onto version rows).
+ * Security Risks: Labels are client input rendered back in the UI; prompts are returned only to the owner and never
+ * logged.
+ */
+
+import type { CalculatorVersionEntity, CalculatorVersionStatus } from "./types";
+
+export const MAX_VERSION_LABEL_LENGTH = 60;
+
+const INVALID_LABEL_PATTERN = /[\u0000-\u001f\u007f]/;
+
+export class InvalidVersionLabelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidVersionLabelError";
+  }
+}
+
+/** Reads `{ label }`; `null` or an empty string clears the label. */
+export const parseVersionLabel = (body: unknown): string => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new InvalidVersionLabelError("Request body must be a JSON object.");
+  }
+  const { label } = body as { label?: unknown };
+  if (label === null) {
+    return "";
+  }
+  if (typeof label !== "string") {
+    throw new InvalidVersionLabelError("label must be a string or null.");
+  }
+  const trimmed = label.trim();
+  if (trimmed.length > MAX_VERSION_LABEL_LENGTH || INVALID_LABEL_PATTERN.test(trimmed)) {
+    throw new InvalidVersionLabelError(
+      `label must be at most ${MAX_VERSION_LABEL_LENGTH} characters without control characters.`
+    );
+  }
+  return trimmed;
+};
+
+export type VersionLineageNode = {
+  versionId: string;
+  createdAt: string;
+  status: CalculatorVersionStatus;
+  parentVersionId?: string;
+  /** Set when the parent was inferred from creation order for versions stored before parents were recorded. */
+  inferredParent?: boolean;
+  label?: string;
+  /** The prompt that produced this version from its parent (the whole prompt for a first version). */
+  prompt?: string;
+  /** Bytes held by the version's blobs, when recorded. */
+  storedBytes?: number;
+  current: boolean;
+  children: VersionLineageNode[];
+};
+
+export type VersionLineage = {
+  currentVersionId: string;
+  versionCount: number;
+  /** First versions, plus any version whose parent is no longer stored. */
+  roots: VersionLineageNode[];
+};
+
+type LineageVersion = Pick<
+  CalculatorVersionEntity,
+  "versionId" | "createdAt" | "status" | "parentVersionId" | "label" | "prompt" | "storedBytes"
+>;
+
+/** Number of stored ancestors reachable through parent pointers; a corrupt cycle stops the walk. */
+const countAncestors = (version: LineageVersion, byId: Map<string, LineageVersion>): number => {
+  const seen = new Set([version.versionId]);
+  let parent = version.parentVersionId ? byId.get(version.parentVersionId) : undefined;
+  while (parent && !seen.has(parent.versionId)) {
+    seen.add(parent.versionId);
+    parent = parent.parentVersionId ? byId.get(parent.parentVersionId) : undefined;
+  }
+  return seen.size - 1;
+};
+
+/**
+ * Arranges committed versions into a tree, oldest first at every level. Versions without a parent pointer (stored
+ * before refinement recorded one) hang off the version created just before them, so old flat histories stay a chain.
+ * Versions saved in the same millisecond are ordered parents first, then with the current version last (it is the
+ * one saved or promoted most recently); the id only settles whatever is still tied.
+ */
+export const buildVersionLineage = (versions: LineageVersion[], currentVersionId: string): VersionLineage => {
+  const byId = new Map(versions.map((version) => [version.versionId, version]));
+  const ancestorCounts = new Map(versions.map((version) => [version.versionId, countAncestors(version, byId)]));
+  const isCurrent = (version: LineageVersion) => (version.versionId === currentVersionId ? 1 : 0);
+  const ordered = [...versions].sort(
+    (a, b) =>
+      a.createdAt.localeCompare(b.createdAt) ||
+      (ancestorCounts.get(a.versionId) as number) - (ancestorCounts.get(b.versionId) as number) ||
+      isCurrent(a) - isCurrent(b) ||
+      a.versionId.localeCompare(b.versionId)
+  );
+  const nodes = new Map<string, VersionLineageNode>();
+  ordered.forEach((version, index) => {
+    const inferredParent = !version.parentVersionId && index > 0 ? ordered[index - 1].versionId : undefined;
+    const parentVersionId = version.parentVersionId || inferredParent;
+    nodes.set(version.versionId, {
+      versionId: version.versionId,
+      createdAt: version.createdAt,
+      status: version.status,
+      ...(parentVersionId ? { parentVersionId } : {}),
+      ...(inferredParent ? { inferredParent: true } : {}),
+      ...(version.label ? { label: version.label } : {}),
+      ...(version.prompt ? { prompt: version.prompt } : {}),
+      ...(version.storedBytes !== undefined ? { storedBytes: version.storedBytes } : {}),
+      current: version.versionId === currentVersionId,
+      children: [],
+    });
+  });
+
+  const positions = new Map(ordered.map((version, index) => [version.versionId, index]));
+  const roots: VersionLineageNode[] = [];
+  ordered.forEach((version, index) => {
+    const node = nodes.get(version.versionId) as VersionLineageNode;
+    const parent = node.parentVersionId ? nodes.get(node.parentVersionId) : undefined;
+    // Only a corrupt pointer names a parent ordered after its child; treating that child as a root keeps the tree
+    // acyclic.
+    if (parent && (positions.get(parent.versionId) as number) < index) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return { currentVersionId, versionCount: ordered.length, roots };
+};
@@ -0,0 +1,122 @@
+/**
+ * Purpose: Decide which calculator versions a retention policy prunes and summarize a user's stored bytes.
+ * Persists: None (callers delete the selected versions and merge the policy onto the calculator entity).
+ * Security Risks: Pruning is irreversible; current, labeled, and quarantined versions are never selected.
+ */
+
+import type { CalculatorEntity, CalculatorVersionEntity } from "./types";
+
+export const MAX_VERSION_RETENTION_KEEP_LAST = 1000;
+
+export class InvalidVersionRetentionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidVersionRetentionError";
+  }
+}
+
+const isValidKeepLast = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 1 &&
+  value <= MAX_VERSION_RETENTION_KEEP_LAST;
+
+/** Reads `{ keepLast }`; `null` clears the calculator's policy so the global default applies. Returns 0 for null. */
+export const parseVersionRetention = (body: unknown): number => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new InvalidVersionRetentionError("Request body must be a JSON object.");
+  }
+  const { keepLast } = body as { keepLast?: unknown };
+  if (keepLast === null) {
+    return 0;
+  }
+  if (!isValidKeepLast(keepLast)) {
+    throw new InvalidVersionRetentionError(
+      `keepLast must be an integer from 1 to ${MAX_VERSION_RETENTION_KEEP_LAST}, or null.`
+    );
+  }
+  return keepLast;
+};
+
+/** PROMPTCALC_VERSION_RETENTION_KEEP_LAST: default versions kept per calculator; unset keeps every version. */
+export const getGlobalVersionRetention = (env: NodeJS.ProcessEnv = process.env): number | null => {
+  const parsed = Number.parseInt(env.PROMPTCALC_VERSION_RETENTION_KEEP_LAST ?? "", 10);
+  return isValidKeepLast(parsed) ? parsed : null;
+};
+
+export type VersionRetentionSource = "calculator" | "global" | "none";
+
+export type VersionRetentionPolicy = {
+  /** Newest versions kept; null keeps every version. */
+  keepLast: number | null;
+  source: VersionRetentionSource;
+};
+
+export const resolveVersionRetention = (
+  calculator: Pick<CalculatorEntity, "retentionKeepLast">,
+  globalKeepLast: number | null
+): VersionRetentionPolicy => {
+  if (isValidKeepLast(calculator.retentionKeepLast)) {
+    return { keepLast: calculator.retentionKeepLast, source: "calculator" };
+  }
+  return globalKeepLast === null ? { keepLast: null, source: "none" } : { keepLast: globalKeepLast, source: "global" };
+};
+
+type RetentionVersion = Pick<CalculatorVersionEntity, "versionId" | "createdAt" | "status" | "label">;
+
+/**
+ * Picks the versions outside the newest `keepLast`, oldest first. The current version, labeled versions, and
+ * quarantined versions (kept for review) are never picked, and do count toward `keepLast` when they are among the
+ * newest.
+ */
+export const selectVersionsToPrune = <T extends RetentionVersion>(
+  versions: T[],
+  currentVersionId: string,
+  keepLast: number | null
+): T[] => {
+  if (keepLast === null) {
+    return [];
+  }
+  const newestFirst = [...versions].sort(
+    (a, b) => b.createdAt.localeCompare(a.createdAt) || b.versionId.localeCompare(a.versionId)
+  );
+  return newestFirst
+    .slice(keepLast)
+    .filter(
+      (version) => version.versionId !== currentVersionId && !version.label && version.status !== "quarantined"
+    )
+    .reverse();
+};
+
+export type StorageUsage = {
+  calculatorCount: number;
+  /** Trashed calculators still hold their blobs until they are purged. */
+  trashedCalculatorCount: number;
+  versionCount: number;
+  storageBytes: number;
+  /** Versions whose size was never recorded; their blobs are not in storageBytes. */
+  unmeasuredVersionCount: number;
+};
+
+/** Sums the listing index of every calculator a user has, including the trash. */
+export const summarizeStorageUsage = (
+  calculators: Array<
+    Pick<CalculatorEntity, "versionCount" | "storageBytes" | "unmeasuredVersionCount" | "deletedAt">
+  >
+): StorageUsage =>
+  calculators.reduce<StorageUsage>(
+    (usage, calculator) => {
+      const versionCount = calculator.versionCount ?? 0;
+      return {
+        calculatorCount: usage.calculatorCount + 1,
+        trashedCalculatorCount: usage.trashedCalculatorCount + (calculator.deletedAt ? 1 : 0),
+        versionCount: usage.versionCount + versionCount,
+        storageBytes: usage.storageBytes + (calculator.storageBytes ?? 0),
+        // Calculators indexed before sizes were recorded have no measured versions at all.
+        unmeasuredVersionCount:
+          usage.unmeasuredVersionCount +
+          (calculator.storageBytes === undefined ? versionCount : calculator.unmeasuredVersionCount ?? 0),
+      };
+    },
+    { calculatorCount: 0, trashedCalculatorCount: 0, versionCount: 0, storageBytes: 0, unmeasuredVersionCount: 0 }
+  );
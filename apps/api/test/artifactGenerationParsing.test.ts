@@ -136,7 +136,18 @@ describe("generationSchema", () => {
     const capabilities = manifestProps.capabilities as Record<string, unknown>;
 
     expect(manifest.additionalProperties).toBe(false);
-    expect(manifest.required).toEqual(["specVersion", "title", "executionModel", "capabilities"]);
+    expect(manifest.required).toEqual([
+      "specVersion",
+      "title",
+      "description",
+      "executionModel",
+      "capabilities",
+      "inputs",
+      "outputs",
+      "limitations",
+      "safetyNotes",
+      "testVectors",
+    ]);
     expect(capabilities.additionalProperties).toBe(false);
     expect(capabilities.required).toEqual(["network", "storage", "dynamicCode"]);
   });
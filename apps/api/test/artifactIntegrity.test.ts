@@ -0,0 +1,98 @@
+/**
+ * Purpose: Verify the canonical artifact hash rule and read-time integrity checks.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { createHash } from "node:crypto";
+
+import { describe, expect, it } from "vitest";
+
+import {
+  ARTIFACT_HASH_SCHEME,
+  computeArtifactHash,
+  verifyStoredArtifact,
+  verifyStoredSpec,
+} from "../src/generation/artifactIntegrity";
+
+const BODY_HTML = "<!doctype html><html><head></head><body>calc</body></html>";
+// Shared with the web viewer test so both sides are pinned to the same digest.
+const BODY_HASH = "71b40b72716a05ed360a17ae5eba3281d532f3e02b3ade2e72167c3e401530f1";
+
+const withManifest = (html: string, manifestJson: string) =>
+  html.replace(
+    "</body>",
+    `<script type="application/json" id='promptcalc-manifest'>${manifestJson}</script></body>`
+  );
+
+describe("canonical artifact hash", () => {
+  it("hashes the artifact with its embedded JSON manifest removed", () => {
+    expect(computeArtifactHash(BODY_HTML)).toBe(BODY_HASH);
+    expect(computeArtifactHash(withManifest(BODY_HTML, `{"hash":"${BODY_HASH}"}`))).toBe(BODY_HASH);
+    expect(
+      computeArtifactHash(withManifest(withManifest(BODY_HTML, "{}"), '{\n  "title": "x"\n}'))
+    ).not.toBe(BODY_HASH);
+  });
+
+  it("keeps executable scripts that reuse the manifest id in the hash", () => {
+    const injected = (openTag: string) =>
+      BODY_HTML.replace("</body>", `${openTag}fetch("https://evil.example")</script></body>`);
+
+    expect(computeArtifactHash(injected('<script id="promptcalc-manifest">'))).not.toBe(BODY_HASH);
+    expect(
+      computeArtifactHash(injected('<script type="module" type="application/json" id="promptcalc-manifest">'))
+    ).not.toBe(BODY_HASH);
+    expect(
+      computeArtifactHash(injected("<script data-x=' type=\"application/json\"' id=\"promptcalc-manifest\">"))
+    ).not.toBe(BODY_HASH);
+  });
+
+  it("changes when anything outside the manifest changes", () => {
+    expect(computeArtifactHash(BODY_HTML.replace("calc", "calc "))).not.toBe(BODY_HASH);
+  });
+});
+
+describe("stored artifact verification", () => {
+  const stored = {
+    artifactHtml: withManifest(BODY_HTML, `{"hash":"${BODY_HASH}"}`),
+    manifest: { hash: BODY_HASH },
+    artifactHash: BODY_HASH,
+    artifactHashScheme: ARTIFACT_HASH_SCHEME,
+  };
+
+  it("accepts untouched artifacts", () => {
+    expect(verifyStoredArtifact(stored)).toEqual({ ok: true });
+  });
+
+  it("detects tampered artifacts and manifests", () => {
+    expect(
+      verifyStoredArtifact({ ...stored, artifactHtml: stored.artifactHtml.replace("calc", "evil") })
+    ).toMatchObject({ ok: false, reason: "artifact_hash_mismatch", expected: BODY_HASH });
+    expect(verifyStoredArtifact({ ...stored, manifest: { hash: "0".repeat(64) } })).toMatchObject({
+      ok: false,
+      reason: "manifest_hash_mismatch",
+    });
+  });
+
+  it("checks versions stored before the canonical scheme against the full-document hash", () => {
+    const fullHash = createHash("sha256").update(stored.artifactHtml, "utf8").digest("hex");
+    const legacy = { artifactHtml: stored.artifactHtml, manifest: { hash: "placeholder-rule" }, artifactHash: fullHash };
+
+    expect(verifyStoredArtifact(legacy)).toEqual({ ok: true });
+    expect(verifyStoredArtifact({ ...legacy, artifactHtml: BODY_HTML })).toMatchObject({
+      ok: false,
+      reason: "artifact_hash_mismatch",
+    });
+  });
+
+  it("verifies spec versions against the compact spec JSON", () => {
+    const spec = { title: "Tip", inputs: [] };
+    const specHash = createHash("sha256").update(JSON.stringify(spec), "utf8").digest("hex");
+
+    expect(verifyStoredSpec(spec, { hash: specHash }, specHash)).toEqual({ ok: true });
+    expect(verifyStoredSpec({ ...spec, title: "Tampered" }, { hash: specHash }, specHash)).toMatchObject({
+      ok: false,
+      reason: "spec_hash_mismatch",
+    });
+  });
+});
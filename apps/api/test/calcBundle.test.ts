@@ -0,0 +1,89 @@
+/**
+ * Purpose: Validate calculator bundle parsing and the HMAC signature that marks bundles altered after export.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  CALC_BUNDLE_FORMAT,
+  CALC_BUNDLE_VERSION,
+  getBundleSigningKey,
+  InvalidCalcBundleError,
+  parseCalcBundle,
+  signCalcBundle,
+  verifyCalcBundleSignature,
+  type CalcBundle,
+} from "../src/storage/calcBundle";
+
+const buildBundle = (): CalcBundle => ({
+  format: CALC_BUNDLE_FORMAT,
+  bundleVersion: CALC_BUNDLE_VERSION,
+  exportedAt: "2026-10-19T00:00:00.000Z",
+  calculator: { calcId: "c1", title: "Tip", tags: ["finance"], currentVersionId: "v2" },
+  versions: [
+    {
+      versionId: "v1",
+      createdAt: "2026-10-19T00:00:00.000Z",
+      label: "launch",
+      renderMode: "artifact",
+      manifest: { title: "Tip" },
+      artifactHtml: "<p>one</p>",
+      artifactHash: "hash-1",
+    },
+    {
+      versionId: "v2",
+      createdAt: "2026-10-19T01:00:00.000Z",
+      parentVersionId: "v1",
+      prompt: "tip calculator",
+      renderMode: "artifact",
+      manifest: { title: "Tip" },
+      artifactHtml: "<p>two</p>",
+      artifactHash: "hash-2",
+    },
+  ],
+  omittedVersionCount: 0,
+});
+
+describe("calc bundles", () => {
+  it("reads the signing key from the environment", () => {
+    expect(getBundleSigningKey({})).toBeNull();
+    expect(getBundleSigningKey({ PROMPTCALC_BUNDLE_SIGNING_KEY: "  " })).toBeNull();
+    expect(getBundleSigningKey({ PROMPTCALC_BUNDLE_SIGNING_KEY: "secret" })).toBe("secret");
+  });
+
+  it("verifies a bundle signed with the same key after a JSON round trip", () => {
+    const signed = signCalcBundle(buildBundle(), "secret");
+    const parsed = parseCalcBundle(JSON.parse(JSON.stringify(signed)));
+    expect(verifyCalcBundleSignature(parsed, "secret")).toBe("verified");
+  });
+
+  it("flags altered bundles and leaves unsigned or foreign bundles unverified", () => {
+    const signed = signCalcBundle(buildBundle(), "secret");
+    const altered = { ...signed, versions: [signed.versions[0], { ...signed.versions[1], artifactHtml: "<p>x</p>" }] };
+    expect(verifyCalcBundleSignature(altered, "secret")).toBe("invalid");
+    expect(verifyCalcBundleSignature(buildBundle(), "secret")).toBe("unverified");
+    expect(verifyCalcBundleSignature(signed, "other-key")).toBe("unverified");
+    expect(verifyCalcBundleSignature(signed, null)).toBe("unverified");
+  });
+
+  it("rejects malformed bundles", () => {
+    const bundle = buildBundle();
+    expect(() => parseCalcBundle(null)).toThrow(InvalidCalcBundleError);
+    expect(() => parseCalcBundle({ ...bundle, format: "other" })).toThrow(InvalidCalcBundleError);
+    expect(() => parseCalcBundle({ ...bundle, versions: [] })).toThrow(InvalidCalcBundleError);
+    expect(() => parseCalcBundle({ ...bundle, versions: [bundle.versions[0], bundle.versions[0]] })).toThrow(
+      "versionId values must be unique."
+    );
+    expect(() =>
+      parseCalcBundle({ ...bundle, calculator: { ...bundle.calculator, currentVersionId: "missing" } })
+    ).toThrow(InvalidCalcBundleError);
+    expect(() =>
+      parseCalcBundle({ ...bundle, versions: [{ ...bundle.versions[0], artifactHtml: undefined }] })
+    ).toThrow("versions[0].artifactHtml is required for artifact versions.");
+    expect(() =>
+      parseCalcBundle({ ...bundle, versions: [{ ...bundle.versions[0], createdAt: "yesterday" }] })
+    ).toThrow(InvalidCalcBundleError);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Purpose: Verify validation of calculator metadata edits and the audited fields they write.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildCalculatorMetadataFields,
+  listChangedMetadataFields,
+  parseCalculatorMetadataPatch,
+} from "../src/storage/calcMetadata";
+
+describe("parseCalculatorMetadataPatch", () => {
+  it("trims text, clears with null, and normalizes tags", () => {
+    expect(
+      parseCalculatorMetadataPatch({ title: " Beam load ", description: null, notes: "a\n\tb", tags: ["x", "X"] })
+    ).toEqual({ title: "Beam load", description: "", notes: "a\n\tb", tags: ["x"] });
+  });
+
+  it("rejects unknown fields, empty titles, and control characters", () => {
+    expect(() => parseCalculatorMetadataPatch({})).toThrow(/at least one/);
+    expect(() => parseCalculatorMetadataPatch({ title: "x", userId: "u2" })).toThrow(/got userId/);
+    expect(() => parseCalculatorMetadataPatch({ title: "   " })).toThrow(/cannot be empty/);
+    expect(() => parseCalculatorMetadataPatch({ title: "a\nb" })).toThrow(/control characters/);
+    expect(() => parseCalculatorMetadataPatch({ notes: "a\u0000b" })).toThrow(/control characters/);
+    expect(() => parseCalculatorMetadataPatch({ tags: ["a,b"] })).toThrow(/commas/);
+  });
+});
+
+describe("calculator metadata fields", () => {
+  it("lists only fields whose value changes", () => {
+    expect(
+      listChangedMetadataFields(
+        { title: "Tip", tags: JSON.stringify(["a"]) },
+        { title: "Tip", tags: ["a"], notes: "", description: "New" }
+      )
+    ).toEqual(["description"]);
+  });
+
+  it("marks edited titles and descriptions and records the editor", () => {
+    expect(buildCalculatorMetadataFields({ title: "Tip", notes: "" }, "u1", "2026-10-19T00:00:00.000Z")).toEqual({
+      title: "Tip",
+      titleEdited: true,
+      notes: "",
+      metadataUpdatedBy: "u1",
+      metadataUpdatedAt: "2026-10-19T00:00:00.000Z",
+      updatedAt: "2026-10-19T00:00:00.000Z",
+    });
+  });
+});
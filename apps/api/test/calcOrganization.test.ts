@@ -0,0 +1,61 @@
+/**
+ * Purpose: Verify calculator tag/folder/favorite validation and the folder and tag facet counts.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildCalculatorFacets,
+  buildCalculatorOrganizationFields,
+  MAX_CALCULATOR_TAGS,
+  parseCalculatorOrganization,
+} from "../src/storage/calcOrganization";
+
+describe("parseCalculatorOrganization", () => {
+  it("normalizes tags and folders", () => {
+    expect(parseCalculatorOrganization({ tags: [" CNC ", "cnc", "", "beam loads"], folder: "  Shop " })).toEqual({
+      tags: ["CNC", "beam loads"],
+      folder: "Shop",
+    });
+    expect(parseCalculatorOrganization({ folder: null, favorite: false })).toEqual({ folder: "", favorite: false });
+  });
+
+  it("rejects malformed and oversized values", () => {
+    expect(() => parseCalculatorOrganization(null)).toThrow(/JSON object/);
+    expect(() => parseCalculatorOrganization({ title: "x" })).toThrow(/at least one/);
+    expect(() => parseCalculatorOrganization({ tags: "cnc" })).toThrow(/array of strings/);
+    expect(() => parseCalculatorOrganization({ tags: ["a,b"] })).toThrow(/commas/);
+    expect(() => parseCalculatorOrganization({ tags: ["x".repeat(41)] })).toThrow(/at most 40/);
+    expect(() =>
+      parseCalculatorOrganization({ tags: Array.from({ length: MAX_CALCULATOR_TAGS + 1 }, (_, index) => `t${index}`) })
+    ).toThrow(/at most 20 tags/);
+    expect(() => parseCalculatorOrganization({ folder: "a\u0007b" })).toThrow(/control characters/);
+    expect(() => parseCalculatorOrganization({ favorite: 1 })).toThrow(/boolean/);
+  });
+
+  it("writes cleared values explicitly so merge updates remove them", () => {
+    expect(buildCalculatorOrganizationFields({ tags: [], folder: "" })).toEqual({ tags: "[]", folder: "" });
+  });
+});
+
+describe("buildCalculatorFacets", () => {
+  it("counts folders and tags case-insensitively and favorites", () => {
+    expect(
+      buildCalculatorFacets([
+        { folder: "Shop", tags: JSON.stringify(["cnc"]), favorite: true },
+        { folder: "shop", tags: JSON.stringify(["CNC", "beam"]) },
+        { folder: "", tags: "not json" },
+        {},
+      ])
+    ).toEqual({
+      folders: [{ name: "Shop", count: 2 }],
+      tags: [
+        { name: "beam", count: 1 },
+        { name: "cnc", count: 2 },
+      ],
+      favorites: 1,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Purpose: Verify calculator listing search, filters, sorting, continuation tokens, and index building.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  applyCalculatorQuery,
+  buildCalculatorIndex,
+  parseCalculatorQuery,
+  readCalculatorQueryCursor,
+  type CalculatorQuery,
+} from "../src/storage/calcQuery";
+import type { CalculatorEntity } from "../src/storage/types";
+
+const buildCalculator = (calcId: string, overrides: Partial<CalculatorEntity> = {}): CalculatorEntity => ({
+  partitionKey: "USER_u1",
+  rowKey: `CALC_${calcId}`,
+  entityType: "Calculator",
+  calcId,
+  userId: "u1",
+  title: calcId,
+  createdAt: "2026-10-19T00:00:00.000Z",
+  updatedAt: "2026-10-19T00:00:00.000Z",
+  currentVersionId: "v1",
+  ...overrides,
+});
+
+const query = (overrides: Partial<CalculatorQuery> = {}): CalculatorQuery => ({
+  sort: "updatedAt",
+  order: "desc",
+  limit: 50,
+  ...overrides,
+});
+
+const params = (values: Record<string, string>) => new URLSearchParams(values);
+
+describe("applyCalculatorQuery", () => {
+  const calculators = [
+    buildCalculator("c1", { title: "Beam load", updatedAt: "2026-10-19T01:00:00.000Z", executionModel: "form" }),
+    buildCalculator("c2", {
+      title: "CNC feeds",
+      description: "Spindle speed and feed rate",
+      updatedAt: "2026-10-19T03:00:00.000Z",
+      executionModel: "expression",
+      tags: JSON.stringify(["Shop floor"]),
+    }),
+    buildCalculator("c3", { title: "Tip", updatedAt: "2026-10-19T02:00:00.000Z", executionModel: "form" }),
+    // Same timestamp as c3: calcId breaks the tie.
+    buildCalculator("c4", { title: "Tax", updatedAt: "2026-10-19T02:00:00.000Z" }),
+  ];
+
+  it("walks every row exactly once across pages", () => {
+    const seen: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = applyCalculatorQuery(calculators, query({ limit: 3, continuationToken }));
+      seen.push(...page.items.map((item) => item.calcId));
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+
+    expect(seen).toEqual(["c2", "c3", "c4", "c1"]);
+  });
+
+  it("exposes the resume position and keeps paging after a truncated scan", () => {
+    const first = applyCalculatorQuery(calculators, query({ limit: 2 }));
+    expect(readCalculatorQueryCursor(query({ continuationToken: first.continuationToken }))).toEqual({
+      value: "2026-10-19T02:00:00.000Z",
+      calcId: "c3",
+    });
+    expect(readCalculatorQueryCursor(query())).toBeNull();
+
+    const truncated = applyCalculatorQuery(calculators.slice(0, 2), query({ limit: 2 }), { truncated: true });
+    expect(truncated.truncated).toBe(true);
+    expect(truncated.continuationToken).toBeDefined();
+    expect(applyCalculatorQuery(calculators, query()).truncated).toBeUndefined();
+  });
+
+  it("searches title and description and filters by execution model or tag", () => {
+    const ids = (overrides: Partial<CalculatorQuery>) =>
+      applyCalculatorQuery(calculators, query(overrides)).items.map((item) => item.calcId);
+
+    expect(ids({ search: "SPINDLE" })).toEqual(["c2"]);
+    expect(ids({ executionModel: "form" })).toEqual(["c3", "c1"]);
+    expect(ids({ tag: "shop floor" })).toEqual(["c2"]);
+    expect(ids({ sort: "title", order: "asc" })).toEqual(["c1", "c2", "c4", "c3"]);
+  });
+});
+
+describe("parseCalculatorQuery", () => {
+  it("defaults to newest first and title sorts ascending", () => {
+    expect(parseCalculatorQuery(params({}))).toEqual({ sort: "updatedAt", order: "desc", limit: 50 });
+    expect(parseCalculatorQuery(params({ sort: "title" })).order).toBe("asc");
+  });
+
+  it("rejects unknown sorts, bad limits, and tokens issued for another sort", () => {
+    expect(() => parseCalculatorQuery(params({ sort: "size" }))).toThrow(/sort/);
+    expect(() => parseCalculatorQuery(params({ limit: "500" }))).toThrow(/limit/);
+    expect(() => parseCalculatorQuery(params({ continuationToken: "not-a-token" }))).toThrow(/continuationToken/);
+
+    const page = applyCalculatorQuery([buildCalculator("c1"), buildCalculator("c2")], query({ limit: 1 }));
+    expect(() =>
+      parseCalculatorQuery(params({ sort: "title", continuationToken: page.continuationToken as string }))
+    ).toThrow(/continuationToken/);
+  });
+});
+
+describe("buildCalculatorIndex", () => {
+  it("counts versions, reports the newest status, and follows the current version's manifest fields", () => {
+    expect(
+      buildCalculatorIndex(
+        [
+          { versionId: "v1", createdAt: "2026-10-19T01:00:00.000Z", status: "ok", description: "Old", executionModel: "form" },
+          { versionId: "v2", createdAt: "2026-10-19T02:00:00.000Z", status: "quarantined", description: "New" },
+        ],
+        "v1"
+      )
+    ).toEqual({
+      versionCount: 2,
+      lastVersionStatus: "quarantined",
+      description: "Old",
+      executionModel: "form",
+      storageBytes: 0,
+      unmeasuredVersionCount: 2,
+    });
+  });
+
+  it("sums recorded version sizes and counts the versions stored before sizes were kept", () => {
+    expect(
+      buildCalculatorIndex(
+        [
+          { versionId: "v1", createdAt: "2026-10-19T01:00:00.000Z", status: "ok" },
+          { versionId: "v2", createdAt: "2026-10-19T02:00:00.000Z", status: "ok", storedBytes: 1200 },
+          { versionId: "v3", createdAt: "2026-10-19T03:00:00.000Z", status: "ok", storedBytes: 800 },
+        ],
+        "v3"
+      )
+    ).toMatchObject({ versionCount: 3, storageBytes: 2000, unmeasuredVersionCount: 1 });
+  });
+});
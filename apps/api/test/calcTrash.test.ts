@@ -0,0 +1,46 @@
+/**
+ * Purpose: Validate trash retention settings and the soft-delete, restore, and purge-due rules for calculators.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildRestoreFields,
+  buildTrashFields,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  isPurgeDue,
+  isTrashedCalculator,
+} from "../src/storage/calcTrash";
+
+describe("calculator trash", () => {
+  it("reads the retention window from the environment", () => {
+    expect(getTrashRetentionDays({})).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays({ PROMPTCALC_TRASH_RETENTION_DAYS: "7" })).toBe(7);
+    expect(getTrashRetentionDays({ PROMPTCALC_TRASH_RETENTION_DAYS: "0" })).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(getTrashRetentionDays({ PROMPTCALC_TRASH_RETENTION_DAYS: "soon" })).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it("schedules the purge after the retention window", () => {
+    const fields = buildTrashFields("user-1", new Date("2026-03-01T00:00:00.000Z"), 7);
+
+    expect(fields).toEqual({
+      deletedAt: "2026-03-01T00:00:00.000Z",
+      deletedBy: "user-1",
+      purgeAfter: "2026-03-08T00:00:00.000Z",
+    });
+    expect(isTrashedCalculator(fields)).toBe(true);
+    expect(isPurgeDue(fields, new Date("2026-03-07T23:59:59.000Z"))).toBe(false);
+    expect(isPurgeDue(fields, new Date("2026-03-08T00:00:00.000Z"))).toBe(true);
+  });
+
+  it("treats restored calculators as live and never due", () => {
+    const restored = { ...buildTrashFields("user-1", new Date("2026-03-01T00:00:00.000Z"), 1), ...buildRestoreFields() };
+
+    expect(isTrashedCalculator(restored)).toBe(false);
+    expect(isPurgeDue(restored, new Date("2027-01-01T00:00:00.000Z"))).toBe(false);
+    expect(isTrashedCalculator({})).toBe(false);
+  });
+});
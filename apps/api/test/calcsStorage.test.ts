@@ -0,0 +1,782 @@
+/**
+ * Purpose: Exercise the calculator save/list/read/delete handlers end to end on in-memory storage (no Azurite).
+ * Persists: None (in-memory backend).
+ * Security Risks: None.
+ */
+
+import type { HttpRequest, InvocationContext } from "@azure/functions";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  createShareLink,
+  deleteCalc,
+  deleteQuarantinedVersion,
+  deleteVersion,
+  diffVersions,
+  enforceVersionRetention,
+  exportCalc,
+  getCalc,
+  getCalcFacets,
+  getCalcLineage,
+  getSharedCalc,
+  getVersion,
+  importCalc,
+  labelVersion,
+  listCalcs,
+  listShareLinks,
+  listTrash,
+  organizeCalc,
+  promoteVersion,
+  purgeCalc,
+  purgeExpiredTrash,
+  reportVersionFailure,
+  restoreCalc,
+  revokeShareLink,
+  saveCalc,
+  setCalcRetention,
+  updateCalcMetadata,
+} from "../src/functions/calcs";
+import { computeArtifactHash } from "../src/generation/artifactIntegrity";
+import { getCalcRepository, setStorageBackend } from "../src/storage";
+import { createMemoryStorage } from "../src/storage/memory";
+
+const CSP =
+  "default-src 'none'; connect-src 'none'; img-src 'none'; script-src 'unsafe-inline'; " +
+  "style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'; object-src 'none'";
+
+const artifactHtml = [
+  "<!doctype html><html><head>",
+  `<meta http-equiv="Content-Security-Policy" content="${CSP}">`,
+  "</head><body><p>Generated calculator (offline). Do not enter passwords.</p>",
+  "<output id=\"total\">0</output></body></html>",
+].join("");
+
+const manifest = {
+  specVersion: "1.2",
+  title: "Tip",
+  description: "Tip calculator.",
+  executionModel: "form",
+  capabilities: { network: false, storage: false, dynamicCode: false },
+  inputs: [{ id: "bill", label: "Bill", type: "number", default: 0 }],
+  outputs: [{ id: "total", label: "Total" }],
+  limitations: [],
+  safetyNotes: [],
+};
+
+const buildRequest = (
+  options: {
+    body?: unknown;
+    params?: Record<string, string>;
+    headers?: Record<string, string>;
+    query?: Record<string, string>;
+  } = {}
+): HttpRequest =>
+  ({
+    method: "GET",
+    headers: { get: (name: string) => options.headers?.[name.toLowerCase()] ?? null },
+    query: new URLSearchParams(options.query),
+    params: options.params ?? {},
+    json: async () => options.body,
+  }) as unknown as HttpRequest;
+
+const context = { log: () => undefined } as unknown as InvocationContext;
+
+const body = (response: { jsonBody?: unknown }) => response.jsonBody as Record<string, unknown>;
+
+describe("calcs handlers on memory storage", () => {
+  const originalDevUser = process.env.DEV_USER_ID;
+
+  beforeEach(() => {
+    process.env.DEV_USER_ID = "dev-user";
+    setStorageBackend(createMemoryStorage());
+  });
+
+  afterEach(() => {
+    process.env.DEV_USER_ID = originalDevUser;
+    setStorageBackend(null);
+  });
+
+  it("saves, lists, reads, and deletes a calculator", async () => {
+    const saved = await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context);
+    expect(saved.status).toBe(200);
+    const { calcId, versionId } = body(saved) as { calcId: string; versionId: string };
+    expect(body(saved).status).toBe("ok");
+
+    const listed = await listCalcs(buildRequest(), context);
+    expect(body(listed).items).toEqual([
+      expect.objectContaining({
+        calcId,
+        title: "Tip",
+        currentVersionId: versionId,
+        description: "Tip calculator.",
+        executionModel: "form",
+        versionCount: 1,
+        lastVersionStatus: "ok",
+        tags: [],
+      }),
+    ]);
+    expect(body(listed).continuationToken).toBeUndefined();
+
+    const detail = await getCalc(buildRequest({ params: { calcId } }), context);
+    expect(body(detail).versions).toEqual([expect.objectContaining({ versionId, status: "ok" })]);
+
+    const version = await getVersion(buildRequest({ params: { calcId, versionId } }), context);
+    expect(version.status).toBe(200);
+    expect(body(version).artifactHtml).toContain("Generated calculator (offline)");
+
+    const deleted = await deleteCalc(buildRequest({ params: { calcId } }), context);
+    expect(deleted.status).toBe(200);
+    expect(body(await listCalcs(buildRequest(), context)).items).toEqual([]);
+    expect((await getVersion(buildRequest({ params: { calcId, versionId } }), context)).status).toBe(404);
+  });
+
+  it("refuses stale If-Match on save and promote with the current head", async () => {
+    const first = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+    const calcId = first.calcId as string;
+    const firstEtag = first.etag as string;
+    expect(firstEtag).toBeTruthy();
+
+    const second = body(
+      await saveCalc(
+        buildRequest({ body: { calcId, artifactHtml, manifest }, headers: { "if-match": firstEtag } }),
+        context
+      )
+    );
+    expect(second.currentVersionId).toBe(second.versionId);
+    expect(second.etag).not.toBe(firstEtag);
+
+    const stalePromote = await promoteVersion(
+      buildRequest({ params: { calcId, versionId: first.versionId as string }, headers: { "if-match": firstEtag } }),
+      context
+    );
+    expect(stalePromote.status).toBe(409);
+    expect(body(stalePromote)).toMatchObject({
+      code: "VERSION_CONFLICT",
+      current: { currentVersionId: second.versionId, etag: second.etag },
+    });
+
+    const staleSave = await saveCalc(
+      buildRequest({ body: { calcId, artifactHtml, manifest }, headers: { "if-match": firstEtag } }),
+      context
+    );
+    expect(staleSave.status).toBe(409);
+    expect(body(await getCalc(buildRequest({ params: { calcId } }), context)).versions).toHaveLength(2);
+
+    const promoted = await promoteVersion(
+      buildRequest({
+        params: { calcId, versionId: first.versionId as string },
+        headers: { "if-match": second.etag as string },
+      }),
+      context
+    );
+    expect(promoted.status).toBe(200);
+    const detail = await getCalc(buildRequest({ params: { calcId } }), context);
+    expect(body(detail)).toMatchObject({ currentVersionId: first.versionId, etag: body(promoted).etag });
+    expect(detail.headers).toMatchObject({ etag: body(promoted).etag });
+  });
+
+  it("rolls back the pending version when a blob write fails", async () => {
+    const backend = createMemoryStorage();
+    let writes = 0;
+    setStorageBackend({
+      ...backend,
+      artifacts: {
+        ...backend.artifacts,
+        // The artifact lands, the manifest write fails.
+        write: async (blobPath, content, contentType) => {
+          writes += 1;
+          if (writes > 1) {
+            throw new Error("disk full");
+          }
+          await backend.artifacts.write(blobPath, content, contentType);
+        },
+      },
+    });
+
+    const saved = await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context);
+
+    expect(saved.status).toBe(500);
+    const versions = [];
+    for await (const entity of backend.repository.scanVersions()) {
+      versions.push(entity);
+    }
+    expect(versions).toEqual([]);
+    expect(await backend.artifacts.list("users/")).toEqual([]);
+    expect(body(await listCalcs(buildRequest(), context)).items).toEqual([]);
+  });
+
+  it("pages the listing with continuation tokens and rejects bad queries", async () => {
+    for (const title of ["Beam load", "CNC feed", "Tip"]) {
+      await saveCalc(buildRequest({ body: { title, artifactHtml, manifest } }), context);
+    }
+
+    const first = body(await listCalcs(buildRequest({ query: { sort: "title", limit: "2" } }), context));
+    expect((first.items as Array<{ title: string }>).map((item) => item.title)).toEqual(["Beam load", "CNC feed"]);
+    const second = body(
+      await listCalcs(
+        buildRequest({ query: { sort: "title", limit: "2", continuationToken: first.continuationToken as string } }),
+        context
+      )
+    );
+    expect((second.items as Array<{ title: string }>).map((item) => item.title)).toEqual(["Tip"]);
+    expect(second.continuationToken).toBeUndefined();
+
+    const searched = body(await listCalcs(buildRequest({ query: { q: "cnc" } }), context));
+    expect((searched.items as Array<{ title: string }>).map((item) => item.title)).toEqual(["CNC feed"]);
+
+    const misused = await listCalcs(
+      buildRequest({ query: { sort: "updatedAt", continuationToken: first.continuationToken as string } }),
+      context
+    );
+    expect(misused.status).toBe(400);
+    expect((await listCalcs(buildRequest({ query: { limit: "0" } }), context)).status).toBe(400);
+  });
+
+  it("organizes calculators into folders, tags, and favorites and filters the listing by them", async () => {
+    const saved: Record<string, { calcId: string; etag: string }> = {};
+    for (const title of ["Beam load", "CNC feed", "Tip"]) {
+      saved[title] = body(await saveCalc(buildRequest({ body: { title, artifactHtml, manifest } }), context)) as {
+        calcId: string;
+        etag: string;
+      };
+    }
+    const organize = (title: string, update: unknown, headers?: Record<string, string>) =>
+      organizeCalc(buildRequest({ params: { calcId: saved[title].calcId }, body: update, headers }), context);
+
+    const organized = await organize(
+      "CNC feed",
+      { folder: " Shop floor ", tags: ["cnc", "Feeds", "CNC", " "], favorite: true },
+      { "if-match": saved["CNC feed"].etag }
+    );
+    expect(organized.status).toBe(200);
+    expect(body(organized)).toMatchObject({ folder: "Shop floor", tags: ["cnc", "Feeds"], favorite: true });
+    expect((await organize("Beam load", { folder: "Shop floor", tags: ["loads"] })).status).toBe(200);
+
+    const stale = await organize("CNC feed", { favorite: false }, { "if-match": saved["CNC feed"].etag });
+    expect(stale.status).toBe(409);
+    expect((await organize("Tip", { favorite: "yes" })).status).toBe(400);
+    expect((await organize("Tip", {})).status).toBe(400);
+
+    const titles = async (query: Record<string, string>) =>
+      ((body(await listCalcs(buildRequest({ query: { sort: "title", ...query } }), context)).items ?? []) as Array<{
+        title: string;
+      }>).map((item) => item.title);
+    expect(await titles({ folder: "SHOP FLOOR" })).toEqual(["Beam load", "CNC feed"]);
+    expect(await titles({ favorite: "true" })).toEqual(["CNC feed"]);
+    expect(await titles({ favorite: "false" })).toEqual(["Beam load", "Tip"]);
+    expect(await titles({ tag: "feeds" })).toEqual(["CNC feed"]);
+
+    expect(body(await getCalcFacets(buildRequest(), context))).toMatchObject({
+      folders: [{ name: "Shop floor", count: 2 }],
+      tags: [
+        { name: "cnc", count: 1 },
+        { name: "Feeds", count: 1 },
+        { name: "loads", count: 1 },
+      ],
+      favorites: 1,
+    });
+
+    const cleared = await organize("CNC feed", { folder: null, tags: [] });
+    expect(body(cleared)).toEqual(expect.objectContaining({ tags: [], favorite: true }));
+    expect(body(cleared).folder).toBeUndefined();
+    expect(body(await getCalc(buildRequest({ params: { calcId: saved["CNC feed"].calcId } }), context))).toMatchObject({
+      tags: [],
+      favorite: true,
+    });
+  });
+
+  it("edits calculator metadata without creating versions and keeps an edited description", async () => {
+    const saved = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+    const calcId = saved.calcId as string;
+    const patch = (update: unknown, headers?: Record<string, string>) =>
+      updateCalcMetadata(buildRequest({ params: { calcId }, body: update, headers }), context);
+
+    const renamed = await patch(
+      { title: "  Shop tip  ", description: "Split the lunch bill.", notes: "Line 1\nLine 2", tags: ["lunch"] },
+      { "if-match": saved.etag as string }
+    );
+    expect(renamed.status).toBe(200);
+    expect(body(renamed)).toMatchObject({
+      title: "Shop tip",
+      description: "Split the lunch bill.",
+      notes: "Line 1\nLine 2",
+      tags: ["lunch"],
+      metadataUpdatedBy: "dev-user",
+      changed: ["title", "description", "tags", "notes"],
+    });
+    expect(body(renamed).etag).not.toBe(saved.etag);
+
+    const unchanged = body(await patch({ title: "Shop tip" }));
+    expect(unchanged).toMatchObject({ changed: [], etag: body(renamed).etag });
+
+    expect((await patch({ title: "" })).status).toBe(400);
+    expect((await patch({ currentVersionId: "v9" })).status).toBe(400);
+    expect((await patch({ notes: "x".repeat(4001) })).status).toBe(400);
+    expect((await patch({ title: "Stale" }, { "if-match": saved.etag as string })).status).toBe(409);
+
+    await saveCalc(buildRequest({ body: { calcId, artifactHtml, manifest } }), context);
+    const detail = body(await getCalc(buildRequest({ params: { calcId } }), context));
+    expect(detail).toMatchObject({ title: "Shop tip", description: "Split the lunch bill.", notes: "Line 1\nLine 2" });
+    expect(detail.versions).toHaveLength(2);
+  });
+
+  it("diffs two versions of a calculator", async () => {
+    const first = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+    const calcId = first.calcId as string;
+    const second = body(
+      await saveCalc(
+        buildRequest({
+          body: {
+            calcId,
+            artifactHtml: artifactHtml.replace("<output", "<p>Tip is optional.</p><output"),
+            manifest: {
+              ...manifest,
+              inputs: [...manifest.inputs, { id: "tip", label: "Tip %", type: "number", default: 15 }],
+            },
+          },
+        }),
+        context
+      )
+    );
+
+    const diff = await diffVersions(
+      buildRequest({ params: { calcId }, query: { from: first.versionId as string, to: second.versionId as string } }),
+      context
+    );
+    expect(diff.status).toBe(200);
+    expect(body(diff)).toMatchObject({
+      from: first.versionId,
+      to: second.versionId,
+      manifest: { inputs: { added: [{ id: "tip", label: "Tip %" }], removed: [] } },
+      text: { kind: "html", added: 1, removed: 0 },
+      scan: { added: [], removed: [] },
+    });
+
+    expect((await diffVersions(buildRequest({ params: { calcId }, query: { from: "x" } }), context)).status).toBe(400);
+    const missing = await diffVersions(
+      buildRequest({ params: { calcId }, query: { from: "missing", to: second.versionId as string } }),
+      context
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it("returns the lineage tree with labels and restores an older branch", async () => {
+    const root = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+    const calcId = root.calcId as string;
+    const saveChild = async (prompt: string) =>
+      body(
+        await saveCalc(
+          buildRequest({ body: { calcId, baseVersionId: root.versionId, prompt, artifactHtml, manifest } }),
+          context
+        )
+      );
+    const metric = await saveChild("Use metric units.");
+    const split = await saveChild("Split the bill.");
+
+    const other = body(await saveCalc(buildRequest({ body: { title: "Other", artifactHtml, manifest } }), context));
+    for (const baseVersionId of ["missing", other.versionId]) {
+      const rejected = await saveCalc(
+        buildRequest({ body: { calcId, baseVersionId, artifactHtml, manifest } }),
+        context
+      );
+      expect(rejected.status).toBe(400);
+      expect(body(rejected).code).toBe("INVALID_REQUEST");
+    }
+    const fresh = await saveCalc(
+      buildRequest({ body: { baseVersionId: root.versionId, artifactHtml, manifest } }),
+      context
+    );
+    expect(fresh.status).toBe(400);
+
+    const labeled = await labelVersion(
+      buildRequest({ params: { calcId, versionId: metric.versionId as string }, body: { label: " v2 metric units " } }),
+      context
+    );
+    expect(labeled.status).toBe(200);
+    expect(body(labeled)).toMatchObject({ label: "v2 metric units" });
+    const invalid = await labelVersion(
+      buildRequest({ params: { calcId, versionId: metric.versionId as string }, body: { label: "a\nb" } }),
+      context
+    );
+    expect(invalid.status).toBe(400);
+
+    const lineage = await getCalcLineage(buildRequest({ params: { calcId } }), context);
+    expect(lineage.status).toBe(200);
+    expect(body(lineage)).toMatchObject({
+      currentVersionId: split.versionId,
+      versionCount: 3,
+      roots: [{ versionId: root.versionId, current: false }],
+    });
+    // Both children may share a createdAt millisecond, so their order is not asserted here.
+    const [lineageRoot] = body(lineage).roots as Array<{ children: unknown[] }>;
+    expect(lineageRoot.children).toHaveLength(2);
+    expect(lineageRoot.children).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          versionId: metric.versionId,
+          label: "v2 metric units",
+          prompt: "Use metric units.",
+          current: false,
+        }),
+        expect.objectContaining({ versionId: split.versionId, prompt: "Split the bill.", current: true }),
+      ])
+    );
+
+    const restored = await promoteVersion(
+      buildRequest({ params: { calcId, versionId: metric.versionId as string } }),
+      context
+    );
+    expect(restored.status).toBe(200);
+    const after = body(await getCalcLineage(buildRequest({ params: { calcId } }), context));
+    expect(after.currentVersionId).toBe(metric.versionId);
+  });
+
+  it("moves deleted calculators to the trash until they are restored or purged", async () => {
+    const saved = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+    const calcId = saved.calcId as string;
+
+    const deleted = await deleteCalc(buildRequest({ params: { calcId } }), context);
+    expect(deleted.status).toBe(200);
+    expect(body(deleted).purgeAfter).toBeTruthy();
+    expect((await getCalc(buildRequest({ params: { calcId } }), context)).status).toBe(404);
+    const resave = await saveCalc(buildRequest({ body: { calcId, artifactHtml, manifest } }), context);
+    expect(resave.status).toBe(404);
+
+    const trash = body(await listTrash(buildRequest(), context));
+    expect(trash.items).toEqual([expect.objectContaining({ calcId, title: "Tip", versionCount: 1 })]);
+
+    const restored = await restoreCalc(buildRequest({ params: { calcId } }), context);
+    expect(restored.status).toBe(200);
+    expect(body(await listCalcs(buildRequest(), context)).items).toEqual([expect.objectContaining({ calcId })]);
+    expect((await restoreCalc(buildRequest({ params: { calcId } }), context)).status).toBe(409);
+    expect((await purgeCalc(buildRequest({ params: { calcId } }), context)).status).toBe(409);
+
+    await deleteCalc(buildRequest({ params: { calcId } }), context);
+    const purged = await purgeCalc(buildRequest({ params: { calcId } }), context);
+    expect(purged.status).toBe(200);
+    expect(body(await listTrash(buildRequest(), context)).items).toEqual([]);
+    expect((await restoreCalc(buildRequest({ params: { calcId } }), context)).status).toBe(404);
+  });
+
+  it("purges trashed calculators once their retention window ends", async () => {
+    const kept = body(await saveCalc(buildRequest({ body: { title: "Kept", artifactHtml, manifest } }), context));
+    const trashed = body(await saveCalc(buildRequest({ body: { title: "Old", artifactHtml, manifest } }), context));
+    await deleteCalc(buildRequest({ params: { calcId: trashed.calcId as string } }), context);
+
+    expect((await purgeExpiredTrash("trace", new Date())).purged).toEqual([]);
+
+    const report = await purgeExpiredTrash("trace", new Date(Date.now() + 31 * 24 * 60 * 60 * 1000));
+    expect(report).toMatchObject({ scanned: 2, purged: [trashed.calcId], failed: [] });
+    expect(body(await listTrash(buildRequest(), context)).items).toEqual([]);
+    expect(body(await listCalcs(buildRequest(), context)).items).toEqual([
+      expect.objectContaining({ calcId: kept.calcId }),
+    ]);
+  });
+
+  it("deletes non-current versions and reports storage usage", async () => {
+    const first = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+    const calcId = first.calcId as string;
+    const second = body(await saveCalc(buildRequest({ body: { calcId, artifactHtml, manifest } }), context));
+
+    const listed = body(await listCalcs(buildRequest(), context));
+    const usage = listed.usage as { storageBytes: number };
+    expect(usage).toMatchObject({ calculatorCount: 1, versionCount: 2, unmeasuredVersionCount: 0 });
+    expect(usage.storageBytes).toBeGreaterThan(2 * artifactHtml.length);
+
+    const current = await deleteVersion(
+      buildRequest({ params: { calcId, versionId: second.versionId as string } }),
+      context
+    );
+    expect(current.status).toBe(409);
+    expect(body(current).code).toBe("VERSION_IS_CURRENT");
+
+    const deleted = await deleteVersion(
+      buildRequest({ params: { calcId, versionId: first.versionId as string } }),
+      context
+    );
+    expect(deleted.status).toBe(200);
+    const detail = body(await getCalc(buildRequest({ params: { calcId } }), context));
+    expect(detail.etag).toBe(body(deleted).etag);
+    expect(detail.versions).toEqual([expect.objectContaining({ versionId: second.versionId })]);
+    expect((body(await listCalcs(buildRequest(), context)).usage as { storageBytes: number }).storageBytes).toBe(
+      usage.storageBytes / 2
+    );
+    const missing = await getVersion(
+      buildRequest({ params: { calcId, versionId: first.versionId as string } }),
+      context
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it("prunes versions past the retention policy but keeps labeled and current ones", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2026-10-19T01:00:00.000Z"));
+      const saved = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+      const calcId = saved.calcId as string;
+      const versionIds = [saved.versionId as string];
+      for (const hour of [2, 3, 4]) {
+        vi.setSystemTime(new Date(`2026-10-19T0${hour}:00:00.000Z`));
+        versionIds.push(
+          body(await saveCalc(buildRequest({ body: { calcId, artifactHtml, manifest } }), context)).versionId as string
+        );
+      }
+      await labelVersion(
+        buildRequest({ params: { calcId, versionId: versionIds[0] }, body: { label: "launch" } }),
+        context
+      );
+
+      const invalid = await setCalcRetention(buildRequest({ params: { calcId }, body: { keepLast: 0 } }), context);
+      expect(invalid.status).toBe(400);
+      const updated = await setCalcRetention(buildRequest({ params: { calcId }, body: { keepLast: 2 } }), context);
+      expect(updated.status).toBe(200);
+      expect(body(updated)).toMatchObject({ retention: { keepLast: 2, source: "calculator" }, pendingPruneCount: 1 });
+
+      const report = await enforceVersionRetention("trace", {});
+      expect(report).toMatchObject({ scanned: 1, prunedVersions: 1, failed: [] });
+      const detail = body(await getCalc(buildRequest({ params: { calcId } }), context));
+      expect((detail.versions as Array<{ versionId: string }>).map((entry) => entry.versionId)).toEqual([
+        versionIds[3],
+        versionIds[2],
+        versionIds[0],
+      ]);
+      expect(detail).toMatchObject({ retention: { keepLast: 2, source: "calculator" } });
+
+      await setCalcRetention(buildRequest({ params: { calcId }, body: { keepLast: null } }), context);
+      expect((await enforceVersionRetention("trace", {})).prunedVersions).toBe(0);
+      const global = await enforceVersionRetention("trace", { PROMPTCALC_VERSION_RETENTION_KEEP_LAST: "1" });
+      expect(global.prunedVersions).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("round-trips a calculator through a signed export bundle and rejects altered bundles", async () => {
+    const originalKey = process.env.PROMPTCALC_BUNDLE_SIGNING_KEY;
+    process.env.PROMPTCALC_BUNDLE_SIGNING_KEY = "bundle-test-key";
+    try {
+      const first = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+      const calcId = first.calcId as string;
+      await saveCalc(buildRequest({ body: { calcId, artifactHtml, manifest } }), context);
+      await labelVersion(
+        buildRequest({ params: { calcId, versionId: first.versionId as string }, body: { label: "launch" } }),
+        context
+      );
+
+      const exported = await exportCalc(buildRequest({ params: { calcId } }), context);
+      expect(exported.status).toBe(200);
+      expect(exported.headers).toMatchObject({ "content-disposition": 'attachment; filename="tip.promptcalc.json"' });
+      const bundle = body(exported) as { versions: Array<Record<string, unknown>>; signature?: unknown };
+      expect(bundle.versions).toHaveLength(2);
+      expect(bundle.signature).toBeDefined();
+
+      const imported = await importCalc(buildRequest({ body: bundle }), context);
+      expect(imported.status).toBe(200);
+      const result = body(imported) as { calcId: string; signature: string; versions: Array<{ versionId: string }> };
+      expect(result.signature).toBe("verified");
+      expect(result.calcId).not.toBe(calcId);
+      const lineage = body(await getCalcLineage(buildRequest({ params: { calcId: result.calcId } }), context));
+      expect(lineage.roots).toEqual([
+        expect.objectContaining({
+          versionId: result.versions[0].versionId,
+          label: "launch",
+          children: [expect.objectContaining({ versionId: result.versions[1].versionId, current: true })],
+        }),
+      ]);
+
+      const tampered = structuredClone(bundle);
+      tampered.versions[1].prompt = "changed after export";
+      const invalid = await importCalc(buildRequest({ body: tampered }), context);
+      expect(invalid.status).toBe(400);
+      expect(body(invalid).code).toBe("BUNDLE_SIGNATURE_INVALID");
+
+      const unsafeHtml = artifactHtml.replace("</body>", "<script>fetch('https://example.com')</script></body>");
+      const unsafe = structuredClone(bundle);
+      delete unsafe.signature;
+      unsafe.versions[1].artifactHtml = unsafeHtml;
+      unsafe.versions[1].artifactHash = computeArtifactHash(unsafeHtml);
+      unsafe.versions[1].manifest = { ...manifest, hash: computeArtifactHash(unsafeHtml) };
+      const rejected = await importCalc(buildRequest({ body: unsafe }), context);
+      expect(rejected.status).toBe(422);
+      expect(body(rejected)).toMatchObject({
+        code: "IMPORT_REJECTED",
+        rejected: [expect.objectContaining({ code: "POLICY_SCAN_FAILED" })],
+      });
+      expect(body(await listCalcs(buildRequest(), context)).items).toHaveLength(2);
+    } finally {
+      if (originalKey === undefined) {
+        delete process.env.PROMPTCALC_BUNDLE_SIGNING_KEY;
+      } else {
+        process.env.PROMPTCALC_BUNDLE_SIGNING_KEY = originalKey;
+      }
+    }
+  });
+
+  it("rejects an import whose self-tests run past the shared time budget", async () => {
+    const testedManifest = {
+      ...manifest,
+      testVectors: [{ name: "shows a total", inputs: [], expected: [{ id: "total", value: 0 }] }],
+    };
+    const first = body(
+      await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest: testedManifest } }), context)
+    );
+    expect(first.selfTest).toMatchObject({ status: "passed" });
+    const calcId = first.calcId as string;
+    await saveCalc(buildRequest({ body: { calcId, artifactHtml, manifest: testedManifest } }), context);
+    const bundle = body(await exportCalc(buildRequest({ params: { calcId } }), context));
+
+    // Every clock read jumps past the import budget, so each self-test finds the shared deadline spent.
+    let clock = Date.now();
+    const now = vi.spyOn(Date, "now").mockImplementation(() => (clock += 10_000));
+    try {
+      const imported = await importCalc(buildRequest({ body: bundle }), context);
+      expect(imported.status).toBe(422);
+      expect(body(imported)).toMatchObject({
+        code: "IMPORT_REJECTED",
+        rejected: [
+          expect.objectContaining({ code: "SELF_TEST_BUDGET_EXCEEDED" }),
+          expect.objectContaining({ code: "SELF_TEST_BUDGET_EXCEEDED" }),
+        ],
+      });
+    } finally {
+      now.mockRestore();
+    }
+    expect(body(await listCalcs(buildRequest(), context)).items).toHaveLength(1);
+  });
+
+  it("serves share links publicly until they are revoked, expire, or the calculator is trashed", async () => {
+    const first = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+    const calcId = first.calcId as string;
+    const second = body(await saveCalc(buildRequest({ body: { calcId, artifactHtml, manifest } }), context));
+
+    const pinned = await createShareLink(
+      buildRequest({ params: { calcId }, body: { versionId: first.versionId } }),
+      context
+    );
+    expect(pinned.status).toBe(200);
+    const { token: pinnedToken, id: pinnedId } = body(pinned).share as { token: string; id: string };
+    const current = body(await createShareLink(buildRequest({ params: { calcId }, body: {} }), context));
+    const currentToken = (current.share as { token: string }).token;
+    const listed = body(await listShareLinks(buildRequest({ params: { calcId } }), context)).items as Array<
+      Record<string, unknown>
+    >;
+    expect(listed).toHaveLength(2);
+    expect(listed.map((link) => link.id)).toContain(pinnedId);
+    expect(listed.every((link) => !("token" in link))).toBe(true);
+
+    const shared = await getSharedCalc(buildRequest({ params: { token: pinnedToken } }), context);
+    expect(shared.status).toBe(200);
+    expect(shared.headers).toMatchObject({ "cache-control": "no-store" });
+    expect(body(shared)).toMatchObject({ title: "Tip", versionId: first.versionId, followsCurrent: false });
+    expect(body(shared).artifactHtml).toContain("Generated calculator (offline)");
+    expect(body(shared)).not.toHaveProperty("userId");
+    expect(body(shared)).not.toHaveProperty("prompt");
+    const following = body(await getSharedCalc(buildRequest({ params: { token: currentToken } }), context));
+    expect(following).toMatchObject({ versionId: second.versionId, followsCurrent: true });
+
+    const invalid = await createShareLink(
+      buildRequest({ params: { calcId }, body: { expiresAt: "2000-01-01T00:00:00.000Z" } }),
+      context
+    );
+    expect(body(invalid).code).toBe("INVALID_SHARE_LINK");
+    expect((await getSharedCalc(buildRequest({ params: { token: "not-a-token" } }), context)).status).toBe(404);
+
+    expect((await revokeShareLink(buildRequest({ params: { calcId, shareId: pinnedToken } }), context)).status).toBe(
+      404
+    );
+    const revoked = await revokeShareLink(buildRequest({ params: { calcId, shareId: pinnedId } }), context);
+    expect(revoked.status).toBe(200);
+    expect((await getSharedCalc(buildRequest({ params: { token: pinnedToken } }), context)).status).toBe(404);
+
+    const expiring = body(
+      await createShareLink(
+        buildRequest({ params: { calcId }, body: { expiresAt: new Date(Date.now() + 60_000).toISOString() } }),
+        context
+      )
+    );
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(Date.now() + 120_000);
+      const token = (expiring.share as { token: string }).token;
+      const expired = await getSharedCalc(buildRequest({ params: { token } }), context);
+      expect(expired.status).toBe(410);
+      expect(body(expired).code).toBe("SHARE_LINK_EXPIRED");
+    } finally {
+      vi.useRealTimers();
+    }
+
+    await deleteCalc(buildRequest({ params: { calcId } }), context);
+    expect((await getSharedCalc(buildRequest({ params: { token: currentToken } }), context)).status).toBe(404);
+    await purgeCalc(buildRequest({ params: { calcId } }), context);
+    expect(await getCalcRepository().listShareLinks("dev-user", calcId)).toEqual([]);
+  });
+
+  it("drops share links when a reviewer deletes a calculator's last version", async () => {
+    const originalAdmins = process.env.PROMPTCALC_ADMIN_USER_IDS;
+    process.env.PROMPTCALC_ADMIN_USER_IDS = "reviewer";
+    try {
+      const saved = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+      const params = { calcId: saved.calcId as string, versionId: saved.versionId as string };
+      const share = body(await createShareLink(buildRequest({ params, body: {} }), context)).share as {
+        token: string;
+      };
+      for (const loadId of ["load-1", "load-2", "load-3"]) {
+        await reportVersionFailure(buildRequest({ params, body: { code: "WATCHDOG_TIMEOUT", loadId } }), context);
+      }
+
+      process.env.DEV_USER_ID = "reviewer";
+      const deleted = await deleteQuarantinedVersion(
+        buildRequest({ params: { ownerId: "dev-user", ...params } }),
+        context
+      );
+      expect(deleted.status).toBe(200);
+      expect(await getCalcRepository().getCalculator("dev-user", params.calcId)).toBeNull();
+      expect(await getCalcRepository().listShareLinks("dev-user", params.calcId)).toEqual([]);
+      expect((await getSharedCalc(buildRequest({ params: { token: share.token } }), context)).status).toBe(404);
+    } finally {
+      if (originalAdmins === undefined) {
+        delete process.env.PROMPTCALC_ADMIN_USER_IDS;
+      } else {
+        process.env.PROMPTCALC_ADMIN_USER_IDS = originalAdmins;
+      }
+    }
+  });
+
+  it("records viewer failures from the owner or an allow-listed admin only", async () => {
+    const originalAdmins = process.env.PROMPTCALC_ADMIN_USER_IDS;
+    process.env.PROMPTCALC_ADMIN_USER_IDS = "reviewer";
+    try {
+      const saved = body(await saveCalc(buildRequest({ body: { title: "Tip", artifactHtml, manifest } }), context));
+      const params = { calcId: saved.calcId as string, versionId: saved.versionId as string };
+      const report = (loadId: string, query?: Record<string, string>) =>
+        reportVersionFailure(buildRequest({ params, query, body: { code: "WATCHDOG_TIMEOUT", loadId } }), context);
+
+      const byOwner = await report("load-1");
+      expect(byOwner.status).toBe(200);
+      expect(body(byOwner)).toMatchObject({ loadFailureCount: 1, quarantined: false });
+      expect(body(await report("load-1"))).toMatchObject({ loadFailureCount: 1, duplicate: true });
+
+      process.env.DEV_USER_ID = "someone-else";
+      expect((await report("load-2")).status).toBe(404);
+      expect((await report("load-2", { ownerId: "dev-user" })).status).toBe(403);
+
+      process.env.DEV_USER_ID = "reviewer";
+      const byAdmin = await report("load-2", { ownerId: "dev-user" });
+      expect(byAdmin.status).toBe(200);
+      expect(body(byAdmin)).toMatchObject({ loadFailureCount: 2, quarantined: false });
+
+      process.env.DEV_USER_ID = "dev-user";
+      expect(body(await report("load-3"))).toMatchObject({
+        loadFailureCount: 3,
+        quarantined: true,
+        status: "quarantined",
+      });
+    } finally {
+      if (originalAdmins === undefined) {
+        delete process.env.PROMPTCALC_ADMIN_USER_IDS;
+      } else {
+        process.env.PROMPTCALC_ADMIN_USER_IDS = originalAdmins;
+      }
+    }
+  });
+});
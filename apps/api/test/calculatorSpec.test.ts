@@ -0,0 +1,175 @@
+/**
+ * Purpose: Verify calculator spec validation and manifest derivation for spec render mode.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildManifestFromSpec,
+  isCalculatorSpecCandidate,
+  validateCalculatorSpec,
+} from "../src/generation/calculatorSpec";
+import { getManifestValidationIssue } from "../src/generation/manifest";
+
+const buildTipSpec = (): Record<string, unknown> => ({
+  specVersion: "1.0",
+  title: "Tip Calculator",
+  description: "Splits a bill with tip.",
+  inputs: [
+    { id: "bill", label: "Bill", type: "number", unit: "$", min: 0, max: null, step: 0.01, default: 50 },
+    { id: "tipPct", label: "Tip", type: "number", unit: "%", min: 0, max: 100, step: 1, default: 18 },
+  ],
+  outputs: [
+    {
+      id: "tip",
+      label: "Tip amount",
+      unit: "$",
+      precision: 2,
+      formula: {
+        kind: "binary",
+        op: "*",
+        left: { kind: "ref", id: "bill" },
+        right: {
+          kind: "binary",
+          op: "/",
+          left: { kind: "ref", id: "tipPct" },
+          right: { kind: "number", value: 100 },
+        },
+      },
+    },
+    {
+      id: "total",
+      label: "Total",
+      unit: "$",
+      precision: 2,
+      formula: {
+        kind: "binary",
+        op: "+",
+        left: { kind: "ref", id: "bill" },
+        right: { kind: "ref", id: "tip" },
+      },
+    },
+  ],
+  layout: [
+    { id: "in", title: "Inputs", fields: ["bill", "tipPct"] },
+    { id: "out", title: "Results", fields: ["tip", "total"] },
+  ],
+});
+
+describe("calculator spec validation", () => {
+  it("accepts a well-formed spec and drops null optionals", () => {
+    const result = validateCalculatorSpec(buildTipSpec());
+
+    expect(result.errors).toEqual([]);
+    expect(result.spec?.inputs[0]).toEqual({
+      id: "bill",
+      label: "Bill",
+      type: "number",
+      unit: "$",
+      min: 0,
+      step: 0.01,
+      default: 50,
+    });
+    expect(result.spec?.outputs).toHaveLength(2);
+  });
+
+  it("rejects references to unknown or later fields", () => {
+    const spec = buildTipSpec();
+    const outputs = spec.outputs as Array<Record<string, unknown>>;
+    outputs[0].formula = { kind: "ref", id: "total" };
+
+    const result = validateCalculatorSpec(spec);
+
+    expect(result.spec).toBeUndefined();
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({
+        code: "spec.formula_ref_unknown",
+        path: "$.outputs[0].formula",
+      })
+    );
+  });
+
+  it("rejects unsupported operators and functions", () => {
+    const spec = buildTipSpec();
+    const outputs = spec.outputs as Array<Record<string, unknown>>;
+    outputs[0].formula = {
+      kind: "call",
+      fn: "eval",
+      args: [{ kind: "number", value: 1 }],
+    };
+    outputs[1].formula = {
+      kind: "binary",
+      op: "**",
+      left: { kind: "number", value: 1 },
+      right: { kind: "number", value: 2 },
+    };
+
+    const codes = validateCalculatorSpec(spec).errors.map((error) => error.code);
+
+    expect(codes).toContain("spec.formula_function_invalid");
+    expect(codes).toContain("spec.formula_operator_invalid");
+  });
+
+  it("requires every field to be placed in the layout exactly once", () => {
+    const spec = buildTipSpec();
+    spec.layout = [{ id: "in", title: "Inputs", fields: ["bill", "tipPct", "bill"] }];
+
+    const codes = validateCalculatorSpec(spec).errors.map((error) => error.code);
+
+    expect(codes).toContain("spec.layout_field_invalid");
+    expect(codes).toContain("spec.layout_field_unplaced");
+  });
+
+  it("rejects formulas that fail sample evaluation", () => {
+    const spec = buildTipSpec();
+    const outputs = spec.outputs as Array<Record<string, unknown>>;
+    outputs[0].formula = {
+      kind: "call",
+      fn: "sqrt",
+      args: [
+        { kind: "ref", id: "bill" },
+        { kind: "ref", id: "tipPct" },
+      ],
+    };
+
+    const result = validateCalculatorSpec(spec);
+
+    expect(result.errors).toContainEqual(
+      expect.objectContaining({
+        code: "spec.sample_evaluation_failed",
+        path: "$.outputs[0].formula",
+      })
+    );
+  });
+
+  it("recognizes refusal and spec candidates", () => {
+    expect(isCalculatorSpecCandidate({ error: "REFUSE" })).toBe(true);
+    expect(isCalculatorSpecCandidate(buildTipSpec())).toBe(true);
+    expect(isCalculatorSpecCandidate({ artifactHtml: "<html></html>" })).toBe(false);
+  });
+
+  it("derives a form manifest without capabilities", () => {
+    const { spec } = validateCalculatorSpec(buildTipSpec());
+    const manifest = buildManifestFromSpec(spec!, "abc123");
+
+    expect(manifest).toMatchObject({
+      specVersion: "1.2",
+      title: "Tip Calculator",
+      executionModel: "form",
+      capabilities: { network: false, storage: false, dynamicCode: false },
+      outputs: [
+        { id: "tip", label: "Tip amount", unit: "$", precision: 2 },
+        { id: "total", label: "Total", unit: "$", precision: 2 },
+      ],
+      hash: "abc123",
+    });
+    expect((manifest.inputs as Array<Record<string, unknown>>)[0]).toMatchObject({
+      id: "bill",
+      label: "Bill",
+      type: "number",
+    });
+    expect(getManifestValidationIssue(manifest)).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Purpose: Verify schema-driven manifest validation, generated-manifest normalization, and the legacy 1.1 reader.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { MANIFEST_SCHEMA } from "@promptcalc/manifest";
+
+import {
+  getManifestValidationIssue,
+  normalizeGeneratedManifest,
+  readManifest,
+  validateManifest,
+} from "../src/generation/manifest";
+
+const buildManifest = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  specVersion: "1.2",
+  title: "Loan Payment",
+  description: "Monthly payment for a fixed-rate loan.",
+  executionModel: "form",
+  capabilities: { network: false, storage: false, dynamicCode: false },
+  inputs: [
+    { id: "principal", label: "Principal", type: "number", unit: "USD", min: 0, step: 100, default: 10000 },
+    { id: "fixed", label: "Fixed rate", type: "checkbox", default: true },
+  ],
+  outputs: [{ id: "payment", label: "Monthly payment", unit: "USD", precision: 2 }],
+  limitations: [],
+  safetyNotes: [],
+  hash: "abc",
+  ...overrides,
+});
+
+describe("manifest validation", () => {
+  it("accepts a complete 1.2 manifest", () => {
+    expect(getManifestValidationIssue(buildManifest())).toBeNull();
+  });
+
+  it("rejects unknown fields and enabled capabilities", () => {
+    expect(getManifestValidationIssue(buildManifest({ extra: true }))).toBe("manifest.unknown_field");
+    expect(
+      getManifestValidationIssue(
+        buildManifest({ capabilities: { network: true, storage: false, dynamicCode: false } })
+      )
+    ).toBe("manifest.capabilities.network_invalid");
+    expect(
+      getManifestValidationIssue(
+        buildManifest({ capabilities: { network: false, storage: false, dynamicCode: false, gpu: false } })
+      )
+    ).toBe("manifest.capabilities.unknown_field");
+  });
+
+  it("checks typed input and output descriptors", () => {
+    const issueFor = (overrides: Record<string, unknown>) =>
+      getManifestValidationIssue(buildManifest(overrides));
+
+    expect(issueFor({ inputs: ["Principal"] })).toBe("manifest.inputs_invalid");
+    expect(issueFor({ inputs: [{ id: "a", label: "A", type: "slider" }] })).toBe("manifest.inputs.type_invalid");
+    expect(issueFor({ inputs: [{ id: "a", label: "A", type: "number", min: 5, max: 1 }] })).toBe(
+      "manifest.inputs.max_invalid"
+    );
+    expect(issueFor({ inputs: [{ id: "a", label: "A", type: "number", default: "5" }] })).toBe(
+      "manifest.inputs.default_invalid"
+    );
+    expect(
+      issueFor({
+        inputs: [
+          { id: "a", label: "A", type: "number" },
+          { id: "a", label: "B", type: "number" },
+        ],
+      })
+    ).toBe("manifest.inputs.id_duplicate");
+    expect(issueFor({ outputs: [{ id: "p", label: "P", precision: 1.5 }] })).toBe(
+      "manifest.outputs.precision_invalid"
+    );
+  });
+
+  it("reports every error with its path", () => {
+    const errors = validateManifest(
+      buildManifest({
+        title: " ",
+        inputs: [{ id: "1bad", label: "A", type: "number", colour: "red" }],
+      })
+    );
+
+    expect(errors).toEqual([
+      expect.objectContaining({ kind: "schema_error", code: "manifest.title_invalid", path: "$.title" }),
+      expect.objectContaining({ code: "manifest.inputs.unknown_field", path: "$.inputs[0].colour" }),
+      expect.objectContaining({ code: "manifest.inputs.id_invalid", path: "$.inputs[0].id" }),
+    ]);
+  });
+
+  it("compiles the canonical spec/manifest.schema.json", () => {
+    const canonical = JSON.parse(
+      readFileSync(resolve(__dirname, "../../../spec/manifest.schema.json"), "utf8")
+    ) as unknown;
+
+    expect(MANIFEST_SCHEMA).toEqual(canonical);
+  });
+
+  it("requires a hash unless validating pre-hash model output", () => {
+    const manifest = buildManifest({ hash: undefined });
+    delete manifest.hash;
+
+    expect(getManifestValidationIssue(manifest)).toBe("manifest.hash_missing");
+    expect(getManifestValidationIssue(manifest, { requireHash: false })).toBeNull();
+  });
+
+  it("drops strict-schema null placeholders from generated manifests", () => {
+    const normalized = normalizeGeneratedManifest(
+      buildManifest({
+        inputs: [
+          { id: "rate", label: "Rate", type: "number", unit: null, min: null, max: null, step: null, default: null },
+        ],
+        outputs: [{ id: "payment", label: "Payment", unit: null, precision: null }],
+      })
+    );
+
+    expect(normalized.inputs).toEqual([{ id: "rate", label: "Rate", type: "number" }]);
+    expect(normalized.outputs).toEqual([{ id: "payment", label: "Payment" }]);
+    expect(getManifestValidationIssue(normalized)).toBeNull();
+  });
+});
+
+describe("legacy manifest reader", () => {
+  it("upgrades 1.1 manifests with string descriptors and array capabilities", () => {
+    const upgraded = readManifest({
+      specVersion: "1.1",
+      title: "Tip Calculator",
+      executionModel: "form",
+      capabilities: [],
+      inputs: ["Bill amount", "Tip %", "Bill amount"],
+      outputs: ["Total"],
+      hash: "abc",
+    });
+
+    expect(upgraded).toEqual({
+      specVersion: "1.2",
+      title: "Tip Calculator",
+      description: "Tip Calculator",
+      executionModel: "form",
+      capabilities: { network: false, storage: false, dynamicCode: false },
+      inputs: [
+        { id: "billAmount", label: "Bill amount", type: "number" },
+        { id: "tip", label: "Tip %", type: "number" },
+        { id: "billAmount3", label: "Bill amount", type: "number" },
+      ],
+      outputs: [{ id: "total", label: "Total" }],
+      limitations: [],
+      safetyNotes: [],
+      hash: "abc",
+    });
+    expect(getManifestValidationIssue(upgraded)).toBeNull();
+  });
+
+  it("keeps declared legacy capabilities so validation still rejects them", () => {
+    const upgraded = readManifest({
+      specVersion: "1.1",
+      title: "Fetcher",
+      executionModel: "form",
+      capabilities: { network: true, storage: false, dynamicCode: false },
+      hash: "abc",
+    });
+
+    expect(getManifestValidationIssue(upgraded)).toBe("manifest.capabilities.network_invalid");
+  });
+
+  it("passes 1.2 manifests through unchanged", () => {
+    const manifest = buildManifest();
+    expect(readManifest(manifest)).toBe(manifest);
+  });
+});
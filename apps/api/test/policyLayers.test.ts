@@ -0,0 +1,140 @@
+/**
+ * Purpose: Verify base/environment/tenant policy layering, overlay validation, and the effective policy hash.
+ * Persists: Writes temporary policy directories under the OS temp dir.
+ * Security Risks: None.
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  applyPolicyOverlay,
+  loadEffectivePromptCalcPolicy,
+  parsePolicyOverlay,
+  PolicyLoadError,
+  type PromptCalcPolicy,
+} from "../src/policy/policy";
+
+const basePolicy: PromptCalcPolicy = {
+  specVersion: "1.1",
+  maxArtifactBytes: 200_000,
+  requiredBannerText: "Generated calculator (offline). Do not enter passwords.",
+  requiredReadyMarker: "promptcalc-ready",
+  requiredCspDirectives: ["default-src 'none'", "img-src 'none'"],
+  bannedPatterns: [
+    { id: "DISALLOWED_NETWORK", patterns: ["fetch(", "sendBeacon"] },
+    { id: "DISALLOWED_EVAL", patterns: ["eval("] },
+  ],
+  bannedTags: [{ id: "DISALLOWED_EXTERNAL_DEPENDENCY", tags: ["iframe"] }],
+};
+
+const tempDirs: string[] = [];
+
+const writePolicyDir = (files: Record<string, string>): string => {
+  const dir = mkdtempSync(path.join(tmpdir(), "promptcalc-policy-"));
+  tempDirs.push(dir);
+  for (const [name, contents] of Object.entries(files)) {
+    const filePath = path.join(dir, name);
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, contents, "utf8");
+  }
+  return dir;
+};
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe("applyPolicyOverlay", () => {
+  it("removes before adding and merges rules by id", () => {
+    const merged = applyPolicyOverlay(
+      basePolicy,
+      parsePolicyOverlay("test.yaml", {
+        maxArtifactBytes: 100_000,
+        requiredCspDirectives: { remove: ["img-src 'none'"], add: ["object-src 'none'"] },
+        bannedPatterns: {
+          remove: [{ id: "DISALLOWED_NETWORK", patterns: ["sendBeacon"] }, { id: "DISALLOWED_EVAL" }],
+          add: [
+            { id: "DISALLOWED_NETWORK", patterns: ["WebSocket", "fetch("] },
+            { id: "DISALLOWED_STORAGE", patterns: ["localStorage"] },
+          ],
+        },
+      })
+    );
+
+    expect(merged.maxArtifactBytes).toBe(100_000);
+    expect(merged.requiredCspDirectives).toEqual(["default-src 'none'", "object-src 'none'"]);
+    expect(merged.bannedPatterns).toEqual([
+      { id: "DISALLOWED_NETWORK", patterns: ["fetch(", "WebSocket"] },
+      { id: "DISALLOWED_STORAGE", patterns: ["localStorage"] },
+    ]);
+    expect(merged.bannedTags).toEqual(basePolicy.bannedTags);
+  });
+
+  it("rejects unknown keys and malformed lists", () => {
+    expect(() => parsePolicyOverlay("bad.yaml", { specVersion: "2" })).toThrow(PolicyLoadError);
+    expect(() => parsePolicyOverlay("bad.yaml", { bannedPatterns: [{ id: "X" }] })).toThrow(/add\/remove/);
+    expect(() => parsePolicyOverlay("bad.yaml", { bannedTags: { replace: [] } })).toThrow(/add or remove/);
+    expect(() => parsePolicyOverlay("bad.yaml", { bannedTags: { add: [{ tags: ["embed"] }] } })).toThrow(/id/);
+  });
+});
+
+describe("loadEffectivePromptCalcPolicy", () => {
+  const baseYaml = [
+    "specVersion: \"1.1\"",
+    "bannedPatterns:",
+    "  - id: DISALLOWED_NETWORK",
+    "    patterns: [\"fetch(\"]",
+    "bannedTags:",
+    "  - id: DISALLOWED_EXTERNAL_DEPENDENCY",
+    "    tags: [\"iframe\"]",
+  ].join("\n");
+
+  it("applies environment then tenant overlays and hashes the result", async () => {
+    const dir = writePolicyDir({
+      "policy.yaml": baseYaml,
+      "policies/staging.yaml": "bannedTags:\n  add:\n    - id: DISALLOWED_EXTERNAL_DEPENDENCY\n      tags: [\"embed\"]\n",
+      "policies/tenants/acme.yaml": "bannedTags:\n  remove:\n    - id: DISALLOWED_EXTERNAL_DEPENDENCY\n      tags: [\"iframe\"]\n",
+    });
+
+    const baseOnly = await loadEffectivePromptCalcPolicy({ PROMPTCALC_POLICY_DIR: dir });
+    const layered = await loadEffectivePromptCalcPolicy({
+      PROMPTCALC_POLICY_DIR: dir,
+      PROMPTCALC_POLICY_ENV: "staging",
+      PROMPTCALC_POLICY_TENANT: "acme",
+    });
+
+    expect(baseOnly.layers.map((layer) => layer.name)).toEqual(["base"]);
+    expect(layered.layers).toEqual([
+      { name: "base", source: "policy.yaml" },
+      { name: "environment", source: "policies/staging.yaml" },
+      { name: "tenant", source: "policies/tenants/acme.yaml" },
+    ]);
+    expect(layered.policy.bannedTags).toEqual([{ id: "DISALLOWED_EXTERNAL_DEPENDENCY", tags: ["embed"] }]);
+    expect(layered.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(layered.hash).not.toBe(baseOnly.hash);
+    expect((await loadEffectivePromptCalcPolicy({ PROMPTCALC_POLICY_DIR: dir })).hash).toBe(baseOnly.hash);
+  });
+
+  it("skips missing overlays but fails closed on invalid ones", async () => {
+    const dir = writePolicyDir({
+      "policy.yaml": baseYaml,
+      "policies/broken.yaml": "bannedPatterns:\n  add: fetch(\n",
+    });
+
+    const missing = await loadEffectivePromptCalcPolicy({ PROMPTCALC_POLICY_DIR: dir, PROMPTCALC_POLICY_ENV: "prod" });
+    expect(missing.layers).toHaveLength(1);
+
+    await expect(
+      loadEffectivePromptCalcPolicy({ PROMPTCALC_POLICY_DIR: dir, PROMPTCALC_POLICY_ENV: "broken" })
+    ).rejects.toThrow(PolicyLoadError);
+    await expect(
+      loadEffectivePromptCalcPolicy({ PROMPTCALC_POLICY_DIR: dir, PROMPTCALC_POLICY_TENANT: "../policy" })
+    ).rejects.toThrow(PolicyLoadError);
+  });
+});
@@ -1,13 +1,13 @@
 /**
- * Purpose: Validate deterministic policy scanning for banned patterns and tags.
+ * Purpose: Validate deterministic policy scanning for banned patterns and tags, including obfuscated forms.
  * Persists: None.
  * Security Risks: None.
  */
 
 import { describe, expect, it } from "vitest";
 
-import { getPromptCalcPolicy } from "../src/policy/policy";
-import { scanArtifactHtml } from "../src/policy/scanner";
+import { getPromptCalcPolicy, type PromptCalcPolicy } from "../src/policy/policy";
+import { scanArtifactHtml, scanArtifactHtmlAll } from "../src/policy/scanner";
 
 const baseHtml = (body: string) =>
   `<!doctype html><html><head><meta http-equiv="Content-Security-Policy" content="default-src 'none'; connect-src 'none'; img-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'; object-src 'none'"></head><body>Generated calculator (offline). Do not enter passwords.${body}</body></html>`;
@@ -40,3 +40,127 @@ describe("scanArtifactHtml", () => {
     }
   });
 });
+
+const canonicalPolicy: PromptCalcPolicy = {
+  specVersion: "1.1",
+  maxArtifactBytes: 200_000,
+  requiredBannerText: "Generated calculator (offline). Do not enter passwords.",
+  requiredReadyMarker: "promptcalc-ready",
+  requiredCspDirectives: ["default-src 'none'", "connect-src 'none'", "script-src 'unsafe-inline'"],
+  bannedPatterns: [
+    { id: "DISALLOWED_NETWORK", patterns: ["fetch(", "XMLHttpRequest", "sendBeacon", "top.location", "document.location="] },
+    { id: "DISALLOWED_EVAL", patterns: ["eval(", "new Function", "Function(", "import("] },
+    { id: "DISALLOWED_EXTERNAL_DEPENDENCY", patterns: ["<script src=", "<link rel=", "@import", "url("] },
+    { id: "DISALLOWED_CREDENTIAL_UI", patterns: ["type=\"password\""] },
+  ],
+  bannedTags: [{ id: "DISALLOWED_EXTERNAL_DEPENDENCY", tags: ["iframe", "object"] }],
+};
+
+const readyHtml = (body: string) =>
+  baseHtml(`<script id="promptcalc-ready">window.parent.postMessage({type:"ready"},"*");</script>${body}`);
+
+const codesFor = (html: string) => {
+  const result = scanArtifactHtml(html, canonicalPolicy);
+  return result.ok ? [] : result.findings.map((finding) => finding.code);
+};
+
+describe("scanArtifactHtml tokenization", () => {
+  it("catches obfuscated script access", () => {
+    const evasions = [
+      "<script>fetch ('x')</script>",
+      "<script>window['fe' + 'tch']('x')</script>",
+      "<script>self[`fetch`]('x')</script>",
+      "<script>globalThis[String.fromCharCode(102,101,116,99,104)]('x')</script>",
+      "<script>\\u0066etch('x')</script>",
+      "<script>const f = window.fetch; f('x');</script>",
+      "<script>window.top\n  .location = 'x'</script>",
+      "<button onclick=\"fe&#116;ch('x')\">Go</button>",
+      "<a href=\" java&#x09;script:fetch('x')\">Go</a>",
+    ];
+
+    for (const html of evasions) {
+      expect(codesFor(readyHtml(html)), html).toContain("DISALLOWED_NETWORK");
+    }
+  });
+
+  it("catches case, whitespace, and entity tricks in markup", () => {
+    expect(codesFor(readyHtml("<IFRAME\nsrc=x></IFRAME>"))).toContain("DISALLOWED_EXTERNAL_DEPENDENCY");
+    expect(codesFor(readyHtml("<SCRIPT\n SRC = 'https://cdn'></SCRIPT>"))).toContain("DISALLOWED_EXTERNAL_DEPENDENCY");
+    expect(codesFor(readyHtml("<input TYPE=' Password '>"))).toContain("DISALLOWED_CREDENTIAL_UI");
+    expect(codesFor(readyHtml("<div style=\"background: u\\72l (x)\"></div>"))).toContain(
+      "DISALLOWED_EXTERNAL_DEPENDENCY"
+    );
+  });
+
+  it("ignores banned words in visible text, strings, comments, and identifiers", () => {
+    const html = readyHtml(
+      [
+        "<p>Use fetch( and eval( responsibly; see <code>&lt;iframe&gt;</code>.</p>",
+        "<script>",
+        "  // fetch('x') is not allowed",
+        "  const label = 'eval(';",
+        "  const evaluate = (value) => value; evaluate(1);",
+        "  const options = { fetch: 1 };",
+        "  const ratio = total / count / 2;",
+        "</script>",
+        "<script type=\"application/json\">{\"note\":\"XMLHttpRequest\"}</script>",
+      ].join("\n")
+    );
+
+    expect(scanArtifactHtml(html, canonicalPolicy)).toEqual({ ok: true });
+  });
+
+  it("reports every finding with line and column, then missing requirements", () => {
+    const html = [
+      "<html><head></head><body>",
+      "<script>",
+      "  eval('1');",
+      "  fetch('x');",
+      "</script>",
+      "<iframe></iframe>",
+      "</body></html>",
+    ].join("\n");
+    const result = scanArtifactHtml(html, canonicalPolicy);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) {
+      return;
+    }
+    expect(result).toMatchObject({ code: "DISALLOWED_EVAL", ruleId: "eval(", line: 3, column: 3 });
+    expect(
+      result.findings.map(({ code, line, column }) => [code, line, column])
+    ).toEqual([
+      ["DISALLOWED_EVAL", 3, 3],
+      ["DISALLOWED_NETWORK", 4, 3],
+      ["DISALLOWED_EXTERNAL_DEPENDENCY", 6, 1],
+      ["MISSING_CSP", undefined, undefined],
+      ["MISSING_CSP", undefined, undefined],
+      ["MISSING_READY_BOOTSTRAP", undefined, undefined],
+    ]);
+  });
+});
+
+describe("scanArtifactHtmlAll", () => {
+  it("returns every finding with rule id, code, position, snippet, and severity", () => {
+    const report = scanArtifactHtmlAll(
+      readyHtml("<script>fetch('x'); eval('1');</script><object></object>"),
+      canonicalPolicy
+    );
+
+    expect(report.ok).toBe(false);
+    expect(report.findings).toHaveLength(3);
+    expect(report.findings.map(({ code, ruleId, severity }) => [code, ruleId, severity])).toEqual([
+      ["DISALLOWED_NETWORK", "fetch(", "block"],
+      ["DISALLOWED_EVAL", "eval(", "block"],
+      ["DISALLOWED_EXTERNAL_DEPENDENCY", "object", "block"],
+    ]);
+    for (const finding of report.findings) {
+      expect(finding.matchIndex).toBeGreaterThan(0);
+      expect(finding.contextSnippet).toBeTruthy();
+    }
+  });
+
+  it("reports a clean artifact as ok with no findings", () => {
+    expect(scanArtifactHtmlAll(readyHtml("<p>Total</p>"), canonicalPolicy)).toEqual({ ok: true, findings: [] });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Purpose: Verify viewer failure report parsing, the load-failure quarantine threshold, and release/fallback helpers.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  applyLoadFailureReport,
+  buildQuarantineRelease,
+  DEFAULT_LOAD_FAILURE_THRESHOLD,
+  getLoadFailureThreshold,
+  MAX_RECENT_LOAD_FAILURE_IDS,
+  parseViewerFailureReport,
+  pickFallbackVersionId,
+} from "../src/policy/quarantine";
+
+describe("parseViewerFailureReport", () => {
+  it("accepts known viewer failure codes and trims the load id", () => {
+    expect(parseViewerFailureReport({ code: "WATCHDOG_TIMEOUT", loadId: "abc" })).toEqual({
+      code: "WATCHDOG_TIMEOUT",
+      loadId: "abc",
+    });
+    expect(parseViewerFailureReport({ code: "INTEGRITY_MISMATCH", loadId: "x".repeat(500) })?.loadId).toHaveLength(128);
+  });
+
+  it("rejects browser-side limitations and malformed bodies", () => {
+    expect(parseViewerFailureReport({ code: "INTEGRITY_UNAVAILABLE" })).toBeNull();
+    expect(parseViewerFailureReport({ code: "WATCHDOG_TIMEOUT", loadId: 7 })).toBeNull();
+    expect(parseViewerFailureReport(["WATCHDOG_TIMEOUT"])).toBeNull();
+    expect(parseViewerFailureReport(null)).toBeNull();
+  });
+});
+
+describe("applyLoadFailureReport", () => {
+  const report = { code: "WATCHDOG_TIMEOUT" as const };
+
+  it("quarantines an ok version on the report that reaches the threshold", () => {
+    const first = applyLoadFailureReport({ status: "ok" }, report, "t1", 2);
+    expect(first).toEqual({
+      fields: { loadFailureCount: 1, lastLoadFailureCode: "WATCHDOG_TIMEOUT", lastLoadFailureAt: "t1" },
+      quarantined: false,
+    });
+
+    const second = applyLoadFailureReport({ status: "ok", loadFailureCount: 1 }, report, "t2", 2);
+    expect(second?.quarantined).toBe(true);
+    expect(second?.fields).toMatchObject({ status: "quarantined", quarantineReason: "load_failures" });
+  });
+
+  it("counts each load id once and remembers only the latest ones", () => {
+    const first = applyLoadFailureReport({ status: "ok" }, { ...report, loadId: "load-1" }, "t1", 2);
+    expect(first?.fields).toMatchObject({ loadFailureCount: 1, recentLoadFailureIds: '["load-1"]' });
+
+    const state = { status: "ok" as const, ...first?.fields };
+    expect(applyLoadFailureReport(state, { ...report, loadId: "load-1" }, "t2", 2)).toBeNull();
+    expect(applyLoadFailureReport(state, { ...report, loadId: "load-2" }, "t2", 2)).toMatchObject({
+      fields: { loadFailureCount: 2, recentLoadFailureIds: '["load-1","load-2"]' },
+      quarantined: true,
+    });
+
+    const full = JSON.stringify(Array.from({ length: MAX_RECENT_LOAD_FAILURE_IDS }, (_, index) => `load-${index}`));
+    const next = applyLoadFailureReport(
+      { status: "ok", recentLoadFailureIds: full },
+      { ...report, loadId: "new" },
+      "t",
+      99
+    );
+    const kept = JSON.parse(next?.fields.recentLoadFailureIds ?? "[]") as string[];
+    expect(kept).toHaveLength(MAX_RECENT_LOAD_FAILURE_IDS);
+    expect(kept).toEqual([...JSON.parse(full).slice(1), "new"]);
+  });
+
+  it("keeps counting without re-quarantining versions that are not ok", () => {
+    const update = applyLoadFailureReport({ status: "quarantined", loadFailureCount: 5 }, report, "t", 2);
+    expect(update?.quarantined).toBe(false);
+    expect(update?.fields).not.toHaveProperty("status");
+    expect(update?.fields.loadFailureCount).toBe(6);
+  });
+
+  it("reads the threshold from the environment", () => {
+    expect(getLoadFailureThreshold({})).toBe(DEFAULT_LOAD_FAILURE_THRESHOLD);
+    expect(getLoadFailureThreshold({ PROMPTCALC_QUARANTINE_THRESHOLD: "5" })).toBe(5);
+    expect(getLoadFailureThreshold({ PROMPTCALC_QUARANTINE_THRESHOLD: "0" })).toBe(DEFAULT_LOAD_FAILURE_THRESHOLD);
+  });
+});
+
+describe("quarantine release and fallback", () => {
+  it("clears the quarantine markers and records the reviewer", () => {
+    expect(buildQuarantineRelease("reviewer", "t")).toEqual({
+      status: "ok",
+      quarantineReason: "",
+      loadFailureCount: 0,
+      lastLoadFailureCode: "",
+      lastLoadFailureAt: "",
+      releasedBy: "reviewer",
+      releasedAt: "t",
+    });
+  });
+
+  it("picks the newest ok version other than the excluded one", () => {
+    const versions = [
+      { versionId: "v1", createdAt: "2026-01-01", status: "ok" },
+      { versionId: "v2", createdAt: "2026-01-02", status: "ok" },
+      { versionId: "v3", createdAt: "2026-01-03", status: "quarantined" },
+      { versionId: "v4", createdAt: "2026-01-04", status: "ok" },
+    ];
+    expect(pickFallbackVersionId(versions, "v4")).toBe("v2");
+    expect(pickFallbackVersionId(versions.slice(2), "v4")).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Purpose: Verify storage reconciliation finds and removes orphan blobs and dangling version rows.
+ * Persists: None (in-memory backend).
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { getBlobPath, reconcileStorage } from "../src/storage";
+import { buildCalcPartition, buildCalcRow, buildVersionPartition, buildVersionRow } from "../src/storage/keys";
+import { createMemoryStorage } from "../src/storage/memory";
+import type { CalculatorVersionEntity, StorageBackend } from "../src/storage/types";
+
+const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+const OLD = "2026-10-19T10:00:00.000Z";
+const FRESH = "2026-10-19T11:59:00.000Z";
+
+const saveCalculator = (backend: StorageBackend, userId: string, calcId: string, currentVersionId: string) =>
+  backend.repository.saveCalculator({
+    partitionKey: buildCalcPartition(userId),
+    rowKey: buildCalcRow(calcId),
+    entityType: "Calculator",
+    calcId,
+    userId,
+    title: "Tip",
+    createdAt: OLD,
+    updatedAt: OLD,
+    currentVersionId,
+  });
+
+/** Stores a version row and, unless `blobs` is false, its artifact and manifest blobs. */
+const saveVersion = async (
+  backend: StorageBackend,
+  userId: string,
+  calcId: string,
+  versionId: string,
+  overrides: Partial<CalculatorVersionEntity> & { blobs?: boolean } = {}
+) => {
+  const { blobs = true, ...fields } = overrides;
+  const blobPath = getBlobPath(userId, calcId, versionId);
+  await backend.repository.saveVersion({
+    partitionKey: buildVersionPartition(userId, calcId),
+    rowKey: buildVersionRow(versionId),
+    entityType: "CalculatorVersion",
+    calcId,
+    versionId,
+    userId,
+    createdAt: OLD,
+    status: "ok",
+    manifestBlobPath: blobPath.manifest,
+    artifactBlobPath: blobPath.artifact,
+    artifactHash: "hash",
+    ...fields,
+  });
+  if (blobs) {
+    await backend.artifacts.write(blobPath.artifact, "<p></p>", "text/html");
+    await backend.artifacts.write(blobPath.manifest, "{}", "application/json");
+  }
+};
+
+const seed = async (): Promise<StorageBackend> => {
+  const backend = createMemoryStorage();
+  await saveCalculator(backend, "u1", "c1", "v2");
+  await saveVersion(backend, "u1", "c1", "v1");
+  // Current version whose artifact blob went missing.
+  await saveVersion(backend, "u1", "c1", "v2", { blobs: false, createdAt: "2026-10-19T10:30:00.000Z" });
+  await backend.artifacts.write(getBlobPath("u1", "c1", "v2").manifest, "{}", "application/json");
+  // Interrupted write from long ago, and one that may still be in flight.
+  await saveVersion(backend, "u1", "c1", "v3", { writeState: "pending" });
+  await saveVersion(backend, "u1", "c1", "v4", { writeState: "pending", createdAt: FRESH, blobs: false });
+  // Version whose calculator row was never written.
+  await saveVersion(backend, "u2", "c2", "v5");
+  // Blob with no row at all.
+  await backend.artifacts.write("users/u1/calcs/c9/versions/v9/artifact.html", "<p></p>", "text/html");
+  return backend;
+};
+
+describe("reconcileStorage", () => {
+  it("reports orphan blobs and dangling versions without changing anything on a dry run", async () => {
+    const backend = await seed();
+
+    const report = await reconcileStorage(backend, { dryRun: true, now: NOW });
+
+    expect(report.danglingVersions.map(({ versionId, reason }) => [versionId, reason]).sort()).toEqual([
+      ["v2", "blobs_missing"],
+      ["v3", "pending_expired"],
+      ["v5", "calculator_missing"],
+    ]);
+    expect(report.orphanBlobs.sort()).toEqual(
+      [
+        getBlobPath("u1", "c1", "v2").manifest,
+        getBlobPath("u1", "c1", "v3").artifact,
+        getBlobPath("u1", "c1", "v3").manifest,
+        getBlobPath("u2", "c2", "v5").artifact,
+        getBlobPath("u2", "c2", "v5").manifest,
+        "users/u1/calcs/c9/versions/v9/artifact.html",
+      ].sort()
+    );
+    expect(report.pendingVersions).toBe(1);
+    expect(report.removedBlobs + report.removedVersions).toBe(0);
+    expect(await backend.repository.getVersion("u1", "c1", "v3")).not.toBeNull();
+  });
+
+  it("removes what it reports and moves the calculator off a broken current version", async () => {
+    const backend = await seed();
+
+    const report = await reconcileStorage(backend, { now: NOW });
+
+    expect(report).toMatchObject({ removedVersions: 3, removedBlobs: 6, repointedCalculators: 1 });
+    expect((await backend.repository.listVersions("u1", "c1")).map((entity) => entity.versionId).sort()).toEqual([
+      "v1",
+      "v4",
+    ]);
+    expect(await backend.repository.getCalculator("u1", "c1")).toMatchObject({ currentVersionId: "v1" });
+    expect(await backend.artifacts.list("users/")).toEqual(
+      expect.arrayContaining([getBlobPath("u1", "c1", "v1").artifact, getBlobPath("u1", "c1", "v1").manifest])
+    );
+    expect(await backend.artifacts.list("users/")).toHaveLength(2);
+
+    const again = await reconcileStorage(backend, { dryRun: true, now: NOW });
+    expect(again.orphanBlobs).toEqual([]);
+    expect(again.danglingVersions).toEqual([]);
+  });
+
+  it("limits a pass to one user's calculators", async () => {
+    const backend = await seed();
+
+    const report = await reconcileStorage(backend, { dryRun: true, now: NOW, userId: "u2" });
+
+    expect(report.danglingVersions).toEqual([{ userId: "u2", calcId: "c2", versionId: "v5", reason: "calculator_missing" }]);
+    expect(report.orphanBlobs.every((blobPath) => blobPath.startsWith("users/u2/calcs/"))).toBe(true);
+  });
+});
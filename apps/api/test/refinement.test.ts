@@ -0,0 +1,62 @@
+/**
+ * Purpose: Verify refinement context lines carry the base manifest, artifact, and prompt history.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildArtifactRefinementLines,
+  buildSpecRefinementLines,
+  MAX_BASE_ARTIFACT_CHARS,
+  type RefinementBase,
+} from "../src/generation/refinement";
+
+const baseVersion = (overrides: Partial<RefinementBase> = {}): RefinementBase => ({
+  calcId: "calc-1",
+  versionId: "ver-2",
+  promptHistory: ["tip calculator", "add tax"],
+  manifest: { specVersion: "1.1", title: "Tip Calculator", inputs: ["Bill"] },
+  artifactHtml: "<!doctype html><html><body><input id=\"bill\"></body></html>",
+  ...overrides,
+});
+
+describe("refinement context", () => {
+  it("includes prompt history, manifest, and previous artifact HTML", () => {
+    const text = buildArtifactRefinementLines(baseVersion()).join("\n");
+
+    expect(text).toContain("1. tip calculator\n2. add tax");
+    expect(text).toContain("\"title\":\"Tip Calculator\"");
+    expect(text).toContain("<input id=\"bill\">");
+    expect(text).toContain("Regenerate the full artifact");
+  });
+
+  it("omits oversized artifacts instead of truncating them", () => {
+    const artifactHtml = `<html>${"x".repeat(MAX_BASE_ARTIFACT_CHARS)}</html>`;
+    const text = buildArtifactRefinementLines(baseVersion({ artifactHtml })).join("\n");
+
+    expect(text).toContain("was omitted");
+    expect(text).not.toContain("xxxx");
+  });
+
+  it("includes the previous spec for spec refinements", () => {
+    const text = buildSpecRefinementLines(
+      baseVersion({
+        artifactHtml: undefined,
+        promptHistory: [],
+        spec: {
+          specVersion: "1.0",
+          title: "Tip Calculator",
+          description: "",
+          inputs: [{ id: "bill", label: "Bill", type: "number" }],
+          outputs: [{ id: "total", label: "Total", formula: { kind: "ref", id: "bill" } }],
+          layout: [{ id: "main", title: "Main", fields: ["bill", "total"] }],
+        },
+      })
+    ).join("\n");
+
+    expect(text).toContain("Previous prompts: (none recorded)");
+    expect(text).toContain("Previous spec:\n{\"specVersion\":\"1.0\"");
+  });
+});
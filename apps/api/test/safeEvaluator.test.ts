@@ -0,0 +1,111 @@
+/**
+ * Purpose: Verify the shared SafeEvaluator operators, functions, variables, units, and limits.
+ * Persists: None.
+ * Security Risks: Runs the prompt evaluator snippet in an isolated vm context for parity checks.
+ */
+
+import vm from "node:vm";
+
+import { describe, expect, it } from "vitest";
+
+import { evaluateExpression, evaluateNode, parseExpression } from "@promptcalc/evaluator";
+
+import { SAFE_EXPRESSION_EVALUATOR_SNIPPET } from "../src/templates/safeExpressionEvaluator";
+
+const valueOf = (source: string, variables?: Record<string, number>) => {
+  const result = evaluateExpression(source, { variables });
+  if (!result.ok) {
+    throw new Error(`${result.error.code}: ${result.error.message}`);
+  }
+  return result.value;
+};
+
+const errorCodeOf = (source: string) => {
+  const result = evaluateExpression(source);
+  return result.ok ? null : result.error.code;
+};
+
+describe("SafeEvaluator", () => {
+  it("applies precedence, exponentiation, and modulo", () => {
+    expect(valueOf("1 + 2 * 3")).toBe(7);
+    expect(valueOf("(1 + 2) * 3")).toBe(9);
+    expect(valueOf("2 ^ 3 ^ 2")).toBe(512);
+    expect(valueOf("2 ** 10")).toBe(1024);
+    expect(valueOf("-2 ^ 2")).toBe(-4);
+    expect(valueOf("17 % 5")).toBe(2);
+    expect(valueOf("7 % (-3)")).toBe(1);
+    expect(valueOf("7 % (+3)")).toBe(1);
+    expect(valueOf("1.5e3 / 3")).toBe(500);
+  });
+
+  it("treats trailing percent as a fraction", () => {
+    expect(valueOf("50%")).toBe(0.5);
+    expect(valueOf("200 * 15%")).toBe(30);
+    expect(valueOf("100 * 15% + 2")).toBe(17);
+    expect(valueOf("50% - 10")).toBe(-9.5);
+    expect(valueOf("10 % + 5")).toBe(5.1);
+  });
+
+  it("resolves variables and constants", () => {
+    expect(valueOf("principal * rate", { principal: 1000, rate: 0.05 })).toBe(50);
+    expect(valueOf("round(pi, 2)")).toBe(3.14);
+    expect(errorCodeOf("missing + 1")).toBe("UNKNOWN_VARIABLE");
+  });
+
+  it("supports the whitelisted math library", () => {
+    expect(valueOf("sqrt(16) + log(1000) + ln(1)")).toBe(7);
+    expect(valueOf("min(4, 2, 8) + max(1, 3)")).toBe(5);
+    expect(valueOf("round(sin(0)) + floor(2.7) + ceil(2.1)")).toBe(5);
+    expect(errorCodeOf("eval(1)")).toBe("UNKNOWN_FUNCTION");
+    expect(errorCodeOf("sqrt(1, 2)")).toBe("ARITY_ERROR");
+  });
+
+  it("converts units implicitly and explicitly", () => {
+    expect(evaluateExpression("1 m + 20 cm")).toMatchObject({ ok: true, value: 1.2, unit: "m" });
+    expect(evaluateExpression("2 mi to km")).toMatchObject({ ok: true, unit: "km" });
+    expect(valueOf("2 mi to km")).toBeCloseTo(3.218688, 6);
+    expect(valueOf("90 min / 1 h")).toBe(1.5);
+    expect(valueOf("min(1, 2) + 0")).toBe(1);
+    expect(errorCodeOf("1 kg + 1 m")).toBe("UNIT_MISMATCH");
+    expect(errorCodeOf("1 m + 1")).toBe("UNIT_MISMATCH");
+    expect(errorCodeOf("3 to ft")).toBe("UNIT_MISMATCH");
+  });
+
+  it("reports syntax and arithmetic errors with positions", () => {
+    expect(evaluateExpression("1 + * 2")).toMatchObject({
+      ok: false,
+      error: { code: "SYNTAX_ERROR", position: 4 },
+    });
+    expect(errorCodeOf("alert`1`")).toBe("SYNTAX_ERROR");
+    expect(errorCodeOf("1 / 0")).toBe("DIVISION_BY_ZERO");
+    expect(errorCodeOf("sqrt(-1)")).toBe("NON_FINITE_RESULT");
+  });
+
+  it("enforces length, depth, and step limits", () => {
+    expect(evaluateExpression("1+1", { limits: { maxLength: 2 } })).toMatchObject({
+      ok: false,
+      error: { code: "INPUT_TOO_LONG" },
+    });
+    expect(errorCodeOf(`${"(".repeat(200)}1${")".repeat(200)}`)).toBe("DEPTH_LIMIT_EXCEEDED");
+    expect(errorCodeOf(`${"-".repeat(100)}1`)).toBe("DEPTH_LIMIT_EXCEEDED");
+    const node = parseExpression(Array.from({ length: 50 }, () => "1").join("+"));
+    expect(() => evaluateNode(node, { limits: { maxSteps: 10 } })).toThrow(/exceeded 10 steps/);
+  });
+
+  it("counts nesting toward the depth limit but not flat chains or precedence levels", () => {
+    expect(valueOf(Array.from({ length: 200 }, () => "1").join(" + "))).toBe(200);
+    expect(valueOf(Array.from({ length: 100 }, (_, index) => `2 * ${index}`).join(" - "))).toBe(-9900);
+    expect(valueOf(`${"(".repeat(20)}1 + 2 * 3${")".repeat(20)}`)).toBe(7);
+    expect(valueOf(`${"(1 + ".repeat(20)}1${")".repeat(20)}`)).toBe(21);
+    expect(valueOf(`${"max(1, ".repeat(20)}2${")".repeat(20)}`)).toBe(2);
+  });
+
+  it("agrees with the prompt evaluator snippet on basic arithmetic", () => {
+    const context = vm.createContext({});
+    vm.runInContext(SAFE_EXPRESSION_EVALUATOR_SNIPPET, context);
+    for (const expression of ["1+2*3", "(4-6)/8", "-3*-(2+1)", "10/4-0.5"]) {
+      const snippetValue = vm.runInContext(`computeExpr(${JSON.stringify(expression)})`, context);
+      expect(valueOf(expression)).toBe(snippetValue);
+    }
+  });
+});
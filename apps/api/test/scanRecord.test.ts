@@ -0,0 +1,85 @@
+/**
+ * Purpose: Verify the per-version policy/scan record and the rescan decision under a changed policy.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { hashPromptCalcPolicy, type EffectivePromptCalcPolicy, type PromptCalcPolicy } from "../src/policy/policy";
+import { buildVersionScanRecord, parseRecordedScanFindings, rescanArtifact } from "../src/policy/scanRecord";
+import { scanArtifactHtmlAll } from "../src/policy/scanner";
+
+const basePolicy: PromptCalcPolicy = {
+  specVersion: "1.1",
+  maxArtifactBytes: 200_000,
+  requiredBannerText: "Generated calculator (offline). Do not enter passwords.",
+  requiredReadyMarker: "promptcalc-ready",
+  requiredCspDirectives: ["default-src 'none'"],
+  bannedPatterns: [{ id: "DISALLOWED_EVAL", patterns: ["eval("] }],
+  bannedTags: [],
+};
+
+const effective = (policy: PromptCalcPolicy): EffectivePromptCalcPolicy => ({
+  policy,
+  hash: hashPromptCalcPolicy(policy),
+  layers: [{ name: "base", source: "policy.yaml" }],
+});
+
+const artifactHtml = [
+  "<html><head><meta http-equiv=\"Content-Security-Policy\" content=\"default-src 'none'\"></head>",
+  "<body>Generated calculator (offline). Do not enter passwords.",
+  "<script id=\"promptcalc-ready\">localStorage.setItem('x', '1');</script>",
+  "</body></html>",
+].join("\n");
+
+describe("buildVersionScanRecord", () => {
+  it("records the policy hash, spec version, findings, and AI scan outcome", () => {
+    const policy = effective(basePolicy);
+    const record = buildVersionScanRecord({
+      policy,
+      report: scanArtifactHtmlAll(artifactHtml, basePolicy),
+      scannedAt: "2026-10-19T00:00:00.000Z",
+      aiScan: { decision: "allow", model: "gpt-4.1" },
+    });
+
+    expect(record).toEqual({
+      policyHash: policy.hash,
+      policySpecVersion: "1.1",
+      scanStatus: "passed",
+      scannedAt: "2026-10-19T00:00:00.000Z",
+      aiScanDecision: "allow",
+      aiScanModel: "gpt-4.1",
+    });
+  });
+
+  it("marks versions without a deterministic scan as skipped", () => {
+    const record = buildVersionScanRecord({ policy: effective(basePolicy), report: null, scannedAt: "t" });
+    expect(record.scanStatus).toBe("skipped");
+    expect(record).not.toHaveProperty("aiScanDecision");
+  });
+});
+
+describe("rescanArtifact", () => {
+  it("fails artifacts that the current policy now bans and encodes the findings", () => {
+    const stricter = effective({
+      ...basePolicy,
+      bannedPatterns: [...basePolicy.bannedPatterns, { id: "DISALLOWED_STORAGE", patterns: ["localStorage"] }],
+    });
+
+    expect(rescanArtifact(artifactHtml, effective(basePolicy), "t").shouldQuarantine).toBe(false);
+
+    const rescan = rescanArtifact(artifactHtml, stricter, "t");
+    expect(rescan.shouldQuarantine).toBe(true);
+    expect(rescan.record).toMatchObject({ policyHash: stricter.hash, scanStatus: "failed" });
+    expect(parseRecordedScanFindings(rescan.record.scanFindings)).toEqual([
+      expect.objectContaining({ code: "DISALLOWED_STORAGE", ruleId: "localStorage", line: 3 }),
+    ]);
+  });
+
+  it("tolerates missing or malformed recorded findings", () => {
+    expect(parseRecordedScanFindings(undefined)).toEqual([]);
+    expect(parseRecordedScanFindings("")).toEqual([]);
+    expect(parseRecordedScanFindings("{not json")).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Purpose: Verify the self-test sandbox runs manifest test vectors and contains hostile artifacts.
+ * Persists: None.
+ * Security Risks: Executes sample artifact scripts inside the isolated vm sandbox.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  normalizeTestVectors,
+  parseDisplayedNumber,
+  runArtifactSelfTest,
+  summarizeSelfTest,
+} from "../src/sandbox/selfTest";
+
+const buildArtifact = (script: string) => `<!doctype html>
+<html>
+  <head><title>Tip</title></head>
+  <body>
+    <label for="bill">Bill</label><input id="bill" type="number" value="0">
+    <label for="tip">Tip %</label><input id="tip" type="number" value="15">
+    <button id="calc" type="button">Calculate</button>
+    <div class="result">Total: <span id="total">-</span></div>
+    <output id="tipAmount"></output>
+    <script type="application/json" id="promptcalc-manifest">{"title":"Tip"}</script>
+    <script>${script}</script>
+  </body>
+</html>`;
+
+const tipScript = `
+  function computeTotal() {
+    var bill = Number(document.getElementById("bill").value);
+    var tip = Number(document.querySelector("#tip").value);
+    var tipAmount = bill * tip / 100;
+    document.querySelector(".result > span").textContent = "$" + (bill + tipAmount).toFixed(2);
+    document.getElementById("tipAmount").value = tipAmount.toFixed(2);
+  }
+  document.addEventListener("DOMContentLoaded", function () {
+    document.getElementById("calc").addEventListener("click", computeTotal);
+  });
+`;
+
+const tipVector = {
+  name: "bill 100 at 20%",
+  inputs: [
+    { id: "bill", value: 100 },
+    { id: "tip", value: "20" },
+  ],
+  action: "calc",
+  expected: [
+    { id: "total", value: 120 },
+    { id: "tipAmount", value: 20, tolerance: 0.001 },
+  ],
+};
+
+describe("artifact self-test sandbox", () => {
+  it("passes when displayed outputs match the vectors", () => {
+    const report = runArtifactSelfTest(buildArtifact(tipScript), [tipVector]);
+
+    expect(report).toEqual({
+      status: "passed",
+      vectors: [{ name: "bill 100 at 20%", passed: true, failures: [] }],
+    });
+  });
+
+  it("fails vectors whose outputs fall outside tolerance", () => {
+    const report = runArtifactSelfTest(buildArtifact(tipScript), [
+      { ...tipVector, expected: [{ id: "total", value: 125, tolerance: 1 }] },
+    ]);
+
+    expect(report.status).toBe("failed");
+    expect(summarizeSelfTest(report).failures).toEqual([
+      "bill 100 at 20%: output \"total\" was 120, expected 125 ± 1",
+    ]);
+  });
+
+  it("reports missing elements", () => {
+    const report = runArtifactSelfTest(buildArtifact(tipScript), [
+      { ...tipVector, action: "missing-button" },
+    ]);
+
+    expect(report.vectors[0].failures).toContain("element \"missing-button\" not found");
+  });
+
+  it("skips artifacts without vectors", () => {
+    expect(runArtifactSelfTest(buildArtifact(tipScript), []).status).toBe("skipped");
+  });
+
+  it("stops runaway scripts with the timeout and step budget", () => {
+    const busy = runArtifactSelfTest(buildArtifact("while (true) {}"), [tipVector], {
+      timeoutMs: 50,
+    });
+    const chatty = runArtifactSelfTest(
+      buildArtifact("for (;;) { document.getElementById('bill'); }"),
+      [tipVector],
+      { timeoutMs: 5000, maxSteps: 1000 }
+    );
+
+    expect(busy.error).toBe("artifact script failed: execution exceeded 50ms");
+    expect(chatty.error).toBe("artifact script failed: step budget exceeded");
+  });
+
+  it("caps the whole run with a total time budget and a shared deadline", () => {
+    const slowScript = "var started = Date.now(); while (Date.now() - started < 40) {}";
+    const slowScripts = Array.from({ length: 5 }, () => slowScript).join("</script><script>");
+    const slow = runArtifactSelfTest(buildArtifact(slowScripts), [tipVector], {
+      timeoutMs: 100,
+      totalTimeoutMs: 100,
+    });
+    const late = runArtifactSelfTest(buildArtifact(tipScript), [tipVector], { deadline: Date.now() - 1 });
+
+    expect(slow.error).toBe("artifact script failed: time budget exceeded");
+    expect(slow.sharedDeadlineExceeded).toBeUndefined();
+    expect(late).toMatchObject({
+      status: "failed",
+      error: "sandbox setup failed: time budget exceeded",
+      sharedDeadlineExceeded: true,
+    });
+  });
+
+  it("exposes no network, host globals, or string code generation", () => {
+    const probes = [
+      "fetch('https://example.com')",
+      "new XMLHttpRequest()",
+      "require('fs')",
+      "process.exit(1)",
+      "eval('1')",
+      "this.constructor.constructor('return process')()",
+    ];
+
+    for (const probe of probes) {
+      const report = runArtifactSelfTest(buildArtifact(probe), [tipVector]);
+      expect(report.status, probe).toBe("failed");
+      expect(report.error, probe).toMatch(/^artifact script failed: /);
+    }
+  });
+});
+
+describe("test vector normalization", () => {
+  it("drops nullable optionals from the strict generation schema", () => {
+    expect(
+      normalizeTestVectors([
+        {
+          name: "basic",
+          inputs: [{ id: "a", value: 1 }],
+          action: null,
+          expected: [{ id: "b", value: 2, tolerance: null }],
+        },
+      ])
+    ).toEqual({
+      vectors: [{ name: "basic", inputs: [{ id: "a", value: 1 }], expected: [{ id: "b", value: 2 }] }],
+      issue: null,
+    });
+  });
+
+  it("rejects malformed vectors", () => {
+    expect(normalizeTestVectors(undefined).issue).toBeNull();
+    expect(normalizeTestVectors("nope").issue).toBe("manifest.testVectors_invalid");
+    expect(normalizeTestVectors([{ name: "x", inputs: [], expected: [] }]).issue).toBe(
+      "manifest.testVectors_invalid"
+    );
+    expect(
+      normalizeTestVectors([{ name: "x", inputs: [], expected: [{ id: "y", value: "2" }] }]).issue
+    ).toBe("manifest.testVectors_invalid");
+  });
+
+  it("parses the first number from displayed text", () => {
+    expect(parseDisplayedNumber("Total: $1,234.50")).toBe(1234.5);
+    expect(parseDisplayedNumber("-3e2 kg")).toBe(-300);
+    expect(parseDisplayedNumber("n/a")).toBeNull();
+  });
+});
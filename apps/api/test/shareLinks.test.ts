@@ -0,0 +1,81 @@
+/**
+ * Purpose: Validate share link requests, tokens, expiry, and the owner-facing description of a link.
+ * Persists: None.
+ * Security Risks: Confirms tokens are unguessable-length hex and are redacted before logging.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildShareLinkEntity,
+  describeShareLink,
+  generateShareToken,
+  hashShareToken,
+  InvalidShareLinkError,
+  isShareLinkExpired,
+  isValidShareToken,
+  MAX_SHARE_LINK_DAYS,
+  parseShareLinkRequest,
+  redactShareToken,
+} from "../src/storage/shareLinks";
+
+const now = new Date("2026-03-01T00:00:00.000Z");
+
+describe("share links", () => {
+  it("generates distinct 64-character tokens and redacts them for logs", () => {
+    const token = generateShareToken();
+
+    expect(isValidShareToken(token)).toBe(true);
+    expect(generateShareToken()).not.toBe(token);
+    expect(isValidShareToken("../SHARE_x")).toBe(false);
+    expect(redactShareToken(token)).toBe(`${token.slice(0, 8)}...`);
+  });
+
+  it("parses pinned and current links with an optional bounded expiry", () => {
+    expect(parseShareLinkRequest({}, now)).toEqual({ versionId: null, expiresAt: "" });
+    expect(parseShareLinkRequest({ versionId: " v1 ", expiresAt: "2026-03-08T00:00:00Z" }, now)).toEqual({
+      versionId: "v1",
+      expiresAt: "2026-03-08T00:00:00.000Z",
+    });
+
+    expect(() => parseShareLinkRequest(null, now)).toThrow(InvalidShareLinkError);
+    expect(() => parseShareLinkRequest({ versionId: "" }, now)).toThrow(/versionId/);
+    expect(() => parseShareLinkRequest({ expiresAt: "next week" }, now)).toThrow(/ISO 8601/);
+    expect(() => parseShareLinkRequest({ expiresAt: "2026-02-28T00:00:00Z" }, now)).toThrow(/future/);
+    expect(() => parseShareLinkRequest({ expiresAt: "2027-03-02T00:00:00Z" }, now)).toThrow(
+      `within ${MAX_SHARE_LINK_DAYS} days`
+    );
+  });
+
+  it("stores only the token's hash and describes links by that id", () => {
+    const token = generateShareToken();
+    const link = buildShareLinkEntity("u1", "c1", { versionId: null, expiresAt: "" }, now, token);
+
+    expect(link.tokenHash).toBe(hashShareToken(token));
+    expect(isValidShareToken(link.tokenHash)).toBe(true);
+    expect(link.partitionKey).not.toContain(token);
+    expect(JSON.stringify(link)).not.toContain(token);
+    expect(describeShareLink(link, now)).not.toHaveProperty("token");
+  });
+
+  it("expires links at their expiry and describes them for the owner", () => {
+    const link = buildShareLinkEntity(
+      "u1",
+      "c1",
+      { versionId: null, expiresAt: "2026-03-02T00:00:00.000Z" },
+      now,
+      generateShareToken()
+    );
+
+    expect(isShareLinkExpired(link, now)).toBe(false);
+    expect(isShareLinkExpired(link, new Date("2026-03-02T00:00:00.000Z"))).toBe(true);
+    expect(isShareLinkExpired({ expiresAt: "" }, new Date("2099-01-01T00:00:00.000Z"))).toBe(false);
+    expect(describeShareLink(link, now)).toEqual({
+      id: link.tokenHash,
+      versionId: null,
+      createdAt: now.toISOString(),
+      expiresAt: "2026-03-02T00:00:00.000Z",
+      expired: false,
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Purpose: Verify the in-memory and filesystem storage backends share CalcRepository/ArtifactStore semantics.
+ * Persists: Writes temporary storage directories under the OS temp dir.
+ * Security Risks: None.
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createStorageBackend, resolveStorageBackendName } from "../src/storage";
+import { createFileSystemStorage } from "../src/storage/filesystem";
+import { buildCalcPartition, buildCalcRow, buildVersionPartition, buildVersionRow } from "../src/storage/keys";
+import { createMemoryStorage } from "../src/storage/memory";
+import { buildShareLinkEntity, generateShareToken } from "../src/storage/shareLinks";
+import type { CalculatorEntity, CalculatorVersionEntity, StorageBackend } from "../src/storage/types";
+
+const tempDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+const createTempFileSystemStorage = (): StorageBackend => {
+  const dir = mkdtempSync(path.join(tmpdir(), "promptcalc-storage-"));
+  tempDirs.push(dir);
+  return createFileSystemStorage(dir);
+};
+
+const buildCalculator = (userId: string, calcId: string): CalculatorEntity => ({
+  partitionKey: buildCalcPartition(userId),
+  rowKey: buildCalcRow(calcId),
+  entityType: "Calculator",
+  calcId,
+  userId,
+  title: "Tip",
+  createdAt: "2026-10-19T00:00:00.000Z",
+  updatedAt: "2026-10-19T00:00:00.000Z",
+  currentVersionId: "v1",
+});
+
+const buildVersion = (
+  userId: string,
+  calcId: string,
+  versionId: string,
+  overrides: Partial<CalculatorVersionEntity> = {}
+): CalculatorVersionEntity => ({
+  partitionKey: buildVersionPartition(userId, calcId),
+  rowKey: buildVersionRow(versionId),
+  entityType: "CalculatorVersion",
+  calcId,
+  versionId,
+  userId,
+  createdAt: `2026-10-19T00:00:0${versionId.slice(1)}.000Z`,
+  status: "ok",
+  manifestBlobPath: `users/${userId}/calcs/${calcId}/versions/${versionId}/manifest.json`,
+  artifactBlobPath: `users/${userId}/calcs/${calcId}/versions/${versionId}/artifact.html`,
+  artifactHash: "hash",
+  ...overrides,
+});
+
+describe.each([
+  ["memory", createMemoryStorage],
+  ["filesystem", createTempFileSystemStorage],
+])("%s storage backend", (_name, createBackend) => {
+  it("merges calculator and version updates like Azure Tables", async () => {
+    const { repository } = createBackend();
+    await repository.saveCalculator(buildCalculator("u1", "c1"));
+    await repository.saveCalculator({ ...buildCalculator("u1", "c1"), currentVersionId: "v2" });
+    await repository.saveVersion(buildVersion("u1", "c1", "v1", { quarantineReason: "self_test" }));
+    await repository.updateVersion("u1", "c1", "v1", { status: "quarantined", loadFailureCount: undefined });
+
+    expect(await repository.getCalculator("u1", "c1")).toMatchObject({ title: "Tip", currentVersionId: "v2" });
+    expect(await repository.getVersion("u1", "c1", "v1")).toMatchObject({
+      status: "quarantined",
+      quarantineReason: "self_test",
+    });
+    expect(await repository.getCalculator("u1", "missing")).toBeNull();
+    await expect(repository.updateVersion("u1", "c1", "missing", { status: "ok" })).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it("rejects calculator writes whose If-Match etag is stale", async () => {
+    const { repository } = createBackend();
+    const firstEtag = await repository.saveCalculator(buildCalculator("u1", "c1"));
+    expect((await repository.getCalculator("u1", "c1"))?.etag).toBe(firstEtag);
+
+    const secondEtag = await repository.saveCalculator(
+      { ...buildCalculator("u1", "c1"), currentVersionId: "v2" },
+      { ifMatch: firstEtag }
+    );
+    expect(secondEtag).not.toBe(firstEtag);
+
+    await expect(
+      repository.saveCalculator({ ...buildCalculator("u1", "c1"), currentVersionId: "v3" }, { ifMatch: firstEtag })
+    ).rejects.toMatchObject({ statusCode: 412 });
+    await expect(
+      repository.saveCalculator(buildCalculator("u1", "missing"), { ifMatch: firstEtag })
+    ).rejects.toMatchObject({ statusCode: 412 });
+    expect(await repository.getCalculator("u1", "c1")).toMatchObject({ currentVersionId: "v2", etag: secondEtag });
+  });
+
+  it("lists per user and scans across users with a status filter", async () => {
+    const { repository } = createBackend();
+    await repository.saveCalculator(buildCalculator("u1", "c1"));
+    await repository.saveCalculator(buildCalculator("u2", "c2"));
+    await repository.saveVersion(buildVersion("u1", "c1", "v1"));
+    await repository.saveVersion(buildVersion("u1", "c1", "v2", { status: "quarantined" }));
+    await repository.saveVersion(buildVersion("u2", "c2", "v3", { status: "quarantined" }));
+
+    expect((await repository.listCalculators("u1")).map((entity) => entity.calcId)).toEqual(["c1"]);
+    expect((await repository.listVersions("u1", "c1")).map((entity) => entity.versionId).sort()).toEqual([
+      "v1",
+      "v2",
+    ]);
+
+    const quarantined: string[] = [];
+    for await (const entity of repository.scanVersions({ status: "quarantined" })) {
+      quarantined.push(entity.versionId);
+    }
+    expect(quarantined.sort()).toEqual(["v2", "v3"]);
+
+    const calculators: string[] = [];
+    for await (const entity of repository.scanCalculators()) {
+      calculators.push(entity.calcId);
+    }
+    expect(calculators.sort()).toEqual(["c1", "c2"]);
+  });
+
+  it("deletes a calculator with its versions and blobs by prefix", async () => {
+    const { repository, artifacts } = createBackend();
+    await repository.saveCalculator(buildCalculator("u1", "c1"));
+    await repository.saveVersion(buildVersion("u1", "c1", "v1"));
+    await artifacts.write("users/u1/calcs/c1/versions/v1/artifact.html", "<p>1</p>", "text/html");
+    await artifacts.write("users/u1/calcs/c10/versions/v1/artifact.html", "<p>10</p>", "text/html");
+
+    expect(await artifacts.read("users/u1/calcs/c1/versions/v1/artifact.html")).toBe("<p>1</p>");
+
+    await repository.deleteCalculator("u1", "c1");
+    expect(await artifacts.deletePrefix("users/u1/calcs/c1/")).toBe(1);
+
+    expect(await repository.getCalculator("u1", "c1")).toBeNull();
+    expect(await repository.listVersions("u1", "c1")).toEqual([]);
+    await expect(artifacts.read("users/u1/calcs/c1/versions/v1/artifact.html")).rejects.toThrow(/not found/);
+    expect(await artifacts.read("users/u1/calcs/c10/versions/v1/artifact.html")).toBe("<p>10</p>");
+  });
+
+  it("stores share links by token hash and lists them per calculator", async () => {
+    const { repository } = createBackend();
+    const now = new Date("2026-03-01T00:00:00.000Z");
+    const build = (calcId: string, versionId: string | null) =>
+      buildShareLinkEntity("u1", calcId, { versionId, expiresAt: "" }, now, generateShareToken());
+    const pinned = build("c1", "v1");
+    const current = build("c1", null);
+    await repository.saveShareLink(pinned);
+    await repository.saveShareLink(current);
+    await repository.saveShareLink(build("c2", null));
+
+    expect(await repository.getShareLink(pinned.tokenHash)).toMatchObject({ calcId: "c1", versionId: "v1" });
+    expect((await repository.listShareLinks("u1", "c1")).map((link) => link.tokenHash).sort()).toEqual(
+      [pinned.tokenHash, current.tokenHash].sort()
+    );
+
+    await repository.deleteShareLink(pinned.tokenHash);
+    await repository.deleteShareLink(pinned.tokenHash);
+    expect(await repository.getShareLink(pinned.tokenHash)).toBeNull();
+    expect(await repository.listShareLinks("u1", "c1")).toEqual([
+      expect.objectContaining({ tokenHash: current.tokenHash }),
+    ]);
+  });
+});
+
+describe("storage backend selection", () => {
+  it("defaults to Azure and rejects unknown backends", () => {
+    expect(resolveStorageBackendName({})).toBe("azure");
+    expect(resolveStorageBackendName({ PROMPTCALC_STORAGE_BACKEND: "Memory" })).toBe("memory");
+    expect(() => resolveStorageBackendName({ PROMPTCALC_STORAGE_BACKEND: "s3" })).toThrow(/Unknown/);
+    expect(createStorageBackend({ PROMPTCALC_STORAGE_BACKEND: "memory" }).name).toBe("memory");
+  });
+
+  it("keeps filesystem blobs inside the storage root", async () => {
+    const { artifacts } = createTempFileSystemStorage();
+    await expect(artifacts.write("users/../../escape.html", "x", "text/html")).rejects.toThrow(/Invalid blob path/);
+  });
+});
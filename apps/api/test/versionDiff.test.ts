@@ -0,0 +1,131 @@
+/**
+ * Purpose: Verify version diffs of manifests, normalized artifact text, and recorded scan findings.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildVersionDiff,
+  diffManifests,
+  diffTexts,
+  normalizeArtifactText,
+  type TextDiff,
+  type VersionDiffSide,
+} from "../src/generation/versionDiff";
+import type { ScanFinding } from "../src/policy/scanner";
+
+const manifest = {
+  specVersion: "1.2",
+  title: "Feed rate",
+  executionModel: "form",
+  inputs: [
+    { id: "rpm", label: "Spindle RPM", type: "number" },
+    { id: "teeth", label: "Teeth", type: "number" },
+  ],
+  outputs: [{ id: "feed", label: "Feed" }],
+  limitations: ["Metric only"],
+  safetyNotes: [],
+};
+
+const finding = (ruleId: string, contextSnippet: string, line = 1): ScanFinding => ({
+  code: "DISALLOWED_PATTERN",
+  message: ruleId,
+  severity: "error",
+  ruleId,
+  contextSnippet,
+  line,
+});
+
+const side = (overrides: Partial<VersionDiffSide>): VersionDiffSide => ({
+  versionId: "v1",
+  manifest,
+  artifactHtml: "<html><body><p>a</p></body></html>",
+  findings: [],
+  ...overrides,
+});
+
+/** Added and removed lines across all hunks, without context. */
+const changedLines = (diff: TextDiff) => diff.hunks.flatMap((hunk) => hunk.lines).filter((line) => line.op !== "equal");
+
+describe("diffManifests", () => {
+  it("reports changed fields and added, removed, and changed entries", () => {
+    const diff = diffManifests(manifest, {
+      ...manifest,
+      title: "Feed rate (metric)",
+      inputs: [
+        { type: "number", label: "Spindle speed", id: "rpm" },
+        { id: "chipLoad", label: "Chip load", type: "number" },
+      ],
+      limitations: ["Metric only", "Carbide tools"],
+    });
+
+    expect(diff.fields).toEqual([{ field: "title", from: "Feed rate", to: "Feed rate (metric)" }]);
+    expect(diff.inputs).toEqual({
+      added: [{ id: "chipLoad", label: "Chip load" }],
+      removed: [{ id: "teeth", label: "Teeth" }],
+      changed: [{ id: "rpm", label: "Spindle speed", fields: ["label"] }],
+    });
+    expect(diff.outputs).toEqual({ added: [], removed: [], changed: [] });
+    expect(diff.limitations).toEqual({ added: ["Carbide tools"], removed: [] });
+  });
+});
+
+describe("diffTexts", () => {
+  it("ignores formatting and the embedded manifest", () => {
+    const compact =
+      '<html><body><script type="application/json" id="promptcalc-manifest">{"a":1}</script>' +
+      "<p>a</p></body></html>";
+    const pretty = '<html>\n  <body>\n\n    <p>a</p>\n  </body>\n</html>\n';
+    expect(normalizeArtifactText(compact)).toEqual(normalizeArtifactText(pretty));
+  });
+
+  it("produces a minimal diff with context hunks and line numbers", () => {
+    const a = Array.from({ length: 30 }, (_, index) => `line ${index}`);
+    const b = [...a];
+    b.splice(5, 1, "changed 5");
+    b.splice(25, 0, "inserted");
+
+    const diff = diffTexts(a, b);
+
+    expect(diff).toMatchObject({ identical: false, added: 2, removed: 1, truncated: false });
+    expect(diff.hunks).toHaveLength(2);
+    expect(changedLines(diff)).toEqual([
+      { op: "remove", text: "line 5", fromLine: 6 },
+      { op: "add", text: "changed 5", toLine: 6 },
+      { op: "add", text: "inserted", toLine: 26 },
+    ]);
+    expect(diff.hunks[0].lines[0]).toEqual({ op: "equal", text: "line 2", fromLine: 3, toLine: 3 });
+    expect(diffTexts(a, a)).toMatchObject({ identical: true, hunks: [] });
+  });
+
+  it("keeps every line of b across arbitrary edits", () => {
+    const a = "abcabbacbcaacb".split("");
+    const b = "cbabacbbcacabbac".split("");
+    const diff = diffTexts(a, b);
+    const kept = diff.hunks.flatMap((hunk) => hunk.lines).filter((line) => line.op !== "remove");
+    for (const line of kept) {
+      expect(b[(line.toLine as number) - 1]).toBe(line.text);
+    }
+    expect(a.length - diff.removed + diff.added).toBe(b.length);
+  });
+});
+
+describe("buildVersionDiff", () => {
+  it("matches scan findings by rule and snippet regardless of position", () => {
+    const diff = buildVersionDiff(
+      side({ scanStatus: "failed", findings: [finding("no-eval", "eval(x)", 3), finding("no-fetch", "fetch(u)")] }),
+      side({
+        versionId: "v2",
+        scanStatus: "failed",
+        findings: [finding("no-eval", "eval(x)", 9), finding("no-storage", "localStorage")],
+      })
+    );
+
+    expect(diff.scan.unchanged).toBe(1);
+    expect(diff.scan.added.map((item) => item.ruleId)).toEqual(["no-storage"]);
+    expect(diff.scan.removed.map((item) => item.ruleId)).toEqual(["no-fetch"]);
+    expect(diff.text.identical).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Purpose: Validate version lineage tree building and version label parsing.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  buildVersionLineage,
+  InvalidVersionLabelError,
+  MAX_VERSION_LABEL_LENGTH,
+  parseVersionLabel,
+} from "../src/storage/versionLineage";
+
+const version = (versionId: string, createdAt: string, parentVersionId?: string) => ({
+  versionId,
+  createdAt,
+  status: "ok" as const,
+  ...(parentVersionId ? { parentVersionId } : {}),
+});
+
+describe("buildVersionLineage", () => {
+  it("nests branches under their parents, oldest first", () => {
+    const lineage = buildVersionLineage(
+      [
+        version("c", "2026-01-03T00:00:00Z", "a"),
+        version("a", "2026-01-01T00:00:00Z"),
+        version("b", "2026-01-02T00:00:00Z", "a"),
+        version("d", "2026-01-04T00:00:00Z", "b"),
+      ],
+      "d"
+    );
+
+    expect(lineage.versionCount).toBe(4);
+    expect(lineage.roots).toHaveLength(1);
+    const [root] = lineage.roots;
+    expect(root.children.map((child) => child.versionId)).toEqual(["b", "c"]);
+    expect(root.children[0].children[0]).toMatchObject({ versionId: "d", current: true });
+  });
+
+  it("chains versions stored without parent pointers by creation order", () => {
+    const lineage = buildVersionLineage(
+      [version("a", "2026-01-01T00:00:00Z"), version("b", "2026-01-02T00:00:00Z")],
+      "b"
+    );
+
+    expect(lineage.roots[0].children[0]).toMatchObject({
+      versionId: "b",
+      parentVersionId: "a",
+      inferredParent: true,
+    });
+  });
+
+  it("orders versions saved in the same millisecond parents first and the current version last", () => {
+    const createdAt = "2026-01-01T00:00:00.000Z";
+    const lineage = buildVersionLineage(
+      [version("x", createdAt, "z"), version("y", createdAt, "z"), version("z", createdAt)],
+      "x"
+    );
+
+    expect(lineage.roots.map((root) => root.versionId)).toEqual(["z"]);
+    expect(lineage.roots[0].children.map((child) => child.versionId)).toEqual(["y", "x"]);
+  });
+
+  it("keeps versions whose parent is missing or out of order as roots", () => {
+    const lineage = buildVersionLineage(
+      [
+        version("a", "2026-01-01T00:00:00Z", "b"),
+        version("b", "2026-01-02T00:00:00Z", "a"),
+        version("c", "2026-01-03T00:00:00Z", "deleted"),
+      ],
+      "a"
+    );
+
+    expect(lineage.roots.map((root) => root.versionId)).toEqual(["a", "c"]);
+    expect(lineage.roots[0].children.map((child) => child.versionId)).toEqual(["b"]);
+  });
+});
+
+describe("parseVersionLabel", () => {
+  it("trims labels and clears them with null or an empty string", () => {
+    expect(parseVersionLabel({ label: "  v2 metric units " })).toBe("v2 metric units");
+    expect(parseVersionLabel({ label: null })).toBe("");
+    expect(parseVersionLabel({ label: "" })).toBe("");
+  });
+
+  it("rejects missing, oversize, and multi-line labels", () => {
+    expect(() => parseVersionLabel({})).toThrow(InvalidVersionLabelError);
+    expect(() => parseVersionLabel({ label: "x".repeat(MAX_VERSION_LABEL_LENGTH + 1) })).toThrow(
+      InvalidVersionLabelError
+    );
+    expect(() => parseVersionLabel({ label: "a\nb" })).toThrow(InvalidVersionLabelError);
+    expect(() => parseVersionLabel([])).toThrow(InvalidVersionLabelError);
+  });
+});
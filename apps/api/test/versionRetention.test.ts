@@ -0,0 +1,82 @@
+/**
+ * Purpose: Validate version retention settings, the prune selection rules, and per-user storage usage totals.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  getGlobalVersionRetention,
+  InvalidVersionRetentionError,
+  parseVersionRetention,
+  resolveVersionRetention,
+  selectVersionsToPrune,
+  summarizeStorageUsage,
+} from "../src/storage/versionRetention";
+import type { CalculatorVersionStatus } from "../src/storage/types";
+
+const version = (
+  versionId: string,
+  hour: number,
+  extra: { status?: CalculatorVersionStatus; label?: string } = {}
+) => ({
+  versionId,
+  createdAt: `2026-10-19T${String(hour).padStart(2, "0")}:00:00.000Z`,
+  status: extra.status ?? ("ok" as CalculatorVersionStatus),
+  ...(extra.label ? { label: extra.label } : {}),
+});
+
+describe("version retention", () => {
+  it("parses keepLast and treats null as inheriting the default", () => {
+    expect(parseVersionRetention({ keepLast: 5 })).toBe(5);
+    expect(parseVersionRetention({ keepLast: null })).toBe(0);
+    expect(() => parseVersionRetention({ keepLast: 0 })).toThrow(InvalidVersionRetentionError);
+    expect(() => parseVersionRetention({ keepLast: 2.5 })).toThrow(InvalidVersionRetentionError);
+    expect(() => parseVersionRetention({ keepLast: "5" })).toThrow(InvalidVersionRetentionError);
+    expect(() => parseVersionRetention([])).toThrow(InvalidVersionRetentionError);
+  });
+
+  it("reads the global default and lets a calculator policy override it", () => {
+    expect(getGlobalVersionRetention({})).toBeNull();
+    expect(getGlobalVersionRetention({ PROMPTCALC_VERSION_RETENTION_KEEP_LAST: "20" })).toBe(20);
+    expect(getGlobalVersionRetention({ PROMPTCALC_VERSION_RETENTION_KEEP_LAST: "0" })).toBeNull();
+
+    expect(resolveVersionRetention({}, null)).toEqual({ keepLast: null, source: "none" });
+    expect(resolveVersionRetention({ retentionKeepLast: 0 }, 20)).toEqual({ keepLast: 20, source: "global" });
+    expect(resolveVersionRetention({ retentionKeepLast: 3 }, 20)).toEqual({ keepLast: 3, source: "calculator" });
+  });
+
+  it("prunes versions past keepLast but keeps current, labeled, and quarantined ones", () => {
+    const versions = [
+      version("v1", 1, { label: "launch" }),
+      version("v2", 2),
+      version("v3", 3, { status: "quarantined" }),
+      version("v4", 4),
+      version("v5", 5),
+      version("v6", 6),
+    ];
+
+    expect(selectVersionsToPrune(versions, "v2", 2).map((entry) => entry.versionId)).toEqual(["v4"]);
+    expect(selectVersionsToPrune(versions, "v6", 1).map((entry) => entry.versionId)).toEqual(["v2", "v4", "v5"]);
+    expect(selectVersionsToPrune(versions, "v6", null)).toEqual([]);
+    expect(selectVersionsToPrune(versions, "v6", 10)).toEqual([]);
+  });
+
+  it("sums storage across calculators including the trash", () => {
+    expect(
+      summarizeStorageUsage([
+        { versionCount: 3, storageBytes: 3000, unmeasuredVersionCount: 1 },
+        { versionCount: 2, storageBytes: 500, unmeasuredVersionCount: 0, deletedAt: "2026-10-19T00:00:00.000Z" },
+        { versionCount: 4 },
+        { versionCount: 1, storageBytes: 100, unmeasuredVersionCount: 0, deletedAt: "" },
+      ])
+    ).toEqual({
+      calculatorCount: 4,
+      trashedCalculatorCount: 1,
+      versionCount: 10,
+      storageBytes: 3600,
+      unmeasuredVersionCount: 5,
+    });
+  });
+});
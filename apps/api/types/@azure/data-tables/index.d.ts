@@ -7,8 +7,9 @@
 export class TableClient {
   static fromConnectionString(connectionString: string, tableName: string): TableClient;
   createTable(): Promise<void>;
-  upsertEntity(entity: unknown, mode?: string): Promise<void>;
+  upsertEntity(entity: unknown, mode?: string): Promise<{ etag?: string }>;
   getEntity<T extends Record<string, unknown>>(partitionKey: string, rowKey: string): Promise<T>;
+  updateEntity(entity: unknown, mode?: string, options?: { etag?: string }): Promise<{ etag?: string }>;
   deleteEntity(partitionKey: string, rowKey: string): Promise<void>;
   listEntities<T extends Record<string, unknown>>(
     options?: { queryOptions?: { filter?: string } }
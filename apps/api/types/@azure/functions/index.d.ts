@@ -7,7 +7,7 @@
 export type HttpRequest = {
   json: () => Promise<unknown>;
   headers: { get: (name: string) => string | null };
-  query: Record<string, string | undefined>;
+  query: { get: (name: string) => string | null };
   params: Record<string, string | undefined>;
   method?: string;
   url?: string;
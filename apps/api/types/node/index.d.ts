@@ -17,6 +17,7 @@ declare const __dirname: string;
 declare class Buffer {
   static byteLength(value: string, encoding?: string): number;
   static from(value: string, encoding?: string): Buffer;
+  readonly length: number;
   toString(encoding?: string): string;
 }
 
@@ -27,7 +28,19 @@ export function createHash(algorithm: string): {
       digest(encoding: string): string;
     };
   };
+  export function createHmac(algorithm: string, key: string): {
+    update(data: string, encoding?: string): {
+      digest(encoding: string): string;
+    };
+  };
   export function randomUUID(): string;
+  export function timingSafeEqual(a: Buffer, b: Buffer): boolean;
+}
+
+declare module "fs" {
+  export function existsSync(path: string): boolean;
+  export function readFileSync(path: string, encoding: string): string;
+  export function watch(filename: string, listener: (eventType: string) => void): { close(): void };
 }
 
 declare module "fs/promises" {
@@ -35,9 +48,31 @@ declare module "fs/promises" {
   export function writeFile(path: string | URL, data: string, encoding?: string): Promise<void>;
   export function mkdir(path: string | URL, options?: { recursive?: boolean }): Promise<void>;
   export function appendFile(path: string | URL, data: string, encoding?: string): Promise<void>;
+  export function readdir(path: string | URL): Promise<string[]>;
+  export function rename(oldPath: string | URL, newPath: string | URL): Promise<void>;
+  export function rm(path: string | URL, options?: { recursive?: boolean; force?: boolean }): Promise<void>;
+  export function stat(path: string | URL): Promise<{ isDirectory(): boolean; size: number }>;
 }
 
 declare module "path" {
   export function resolve(...paths: string[]): string;
   export function join(...paths: string[]): string;
+  export function dirname(path: string): string;
+}
+
+declare module "vm" {
+  export type Context = Record<string, unknown>;
+  export function createContext(
+    contextObject?: object,
+    options?: {
+      name?: string;
+      codeGeneration?: { strings?: boolean; wasm?: boolean };
+      microtaskMode?: "afterEvaluate";
+    }
+  ): Context;
+  export function runInContext(
+    code: string,
+    context: Context,
+    options?: { timeout?: number; filename?: string }
+  ): unknown;
 }
@@ -6,10 +6,17 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 
+import { ARTIFACT_HASH_SCHEME, validateManifest } from "@promptcalc/manifest";
 import { defaultProfile, normalizeProfile, profileId } from "@promptcalc/types";
-import type { RedTeamDebugProfile } from "@promptcalc/types";
-
-import { CalculatorViewer } from "./components/CalculatorViewer";
+import type { CalculatorSpec, RedTeamDebugProfile, RenderMode } from "@promptcalc/types";
+
+import { CalculatorRenderer } from "./components/CalculatorRenderer";
+import { CalculatorViewer, type ViewerLoadFailure } from "./components/CalculatorViewer";
+import { ShareLinks } from "./components/ShareLinks";
+import { VersionCompare } from "./components/VersionCompare";
+import { formatStorageBytes, VersionHistory, type VersionLineage } from "./components/VersionHistory";
+import { computeArtifactHash as computeCanonicalArtifactHash } from "./policy/artifactHtml";
+import { buildStandaloneFileName, buildStandaloneHtml, DEFAULT_REQUIRED_BANNER_TEXT } from "./policy/standaloneHtml";
 import { BAD_CALC_HTML } from "./samples/badCalcInfiniteLoop";
 import { GOOD_CALC_HTML } from "./samples/goodCalc";
 
@@ -31,6 +38,8 @@ interface SaveCalcResponse {
   versionId: string;
   status: string;
   currentVersionId: string;
+  etag?: string;
+  artifactHash?: string;
 }
 
 interface CalculatorSummary {
@@ -38,11 +47,128 @@ interface CalculatorSummary {
   title: string;
   updatedAt: string;
   currentVersionId: string;
+  etag?: string;
+  description?: string;
+  executionModel?: string;
+  versionCount?: number;
+  lastVersionStatus?: string;
+  tags?: string[];
+  folder?: string;
+  favorite?: boolean;
+}
+
+interface TrashedCalculator {
+  calcId: string;
+  title: string;
+  updatedAt: string;
+  deletedAt: string;
+  purgeAfter: string;
+  versionCount?: number;
+  etag?: string;
+}
+
+interface TrashListResponse {
+  items: TrashedCalculator[];
+  retentionDays: number;
+}
+
+// How long the "moved to trash" toast offers an undo.
+const UNDO_DELETE_MS = 10_000;
+
+interface CalculatorOrganizationUpdate {
+  tags?: string[];
+  folder?: string | null;
+  favorite?: boolean;
+}
+
+interface CalculatorFacets {
+  folders: Array<{ name: string; count: number }>;
+  tags: Array<{ name: string; count: number }>;
+  favorites: number;
+}
+
+// Totals over every calculator the user has, trash included; sent with the first page only.
+interface StorageUsage {
+  calculatorCount: number;
+  trashedCalculatorCount: number;
+  versionCount: number;
+  storageBytes: number;
+  unmeasuredVersionCount: number;
+}
+
+interface CalculatorListResponse {
+  items: CalculatorSummary[];
+  continuationToken?: string;
+  usage?: StorageUsage;
+}
+
+interface CalculatorListQuery {
+  q: string;
+  sort: "updatedAt" | "createdAt" | "title";
+  executionModel: "" | "form" | "expression";
+  folder: string;
+  tag: string;
+  favoritesOnly: boolean;
+}
+
+// The etag of the calculator head the user last saw; sent as If-Match when refining it.
+interface CalculatorEtag {
+  calcId: string;
+  etag: string;
+}
+
+interface VersionConflictResponse {
+  code: "VERSION_CONFLICT";
+  calcId: string;
+  current: { currentVersionId: string; title: string; updatedAt: string; etag: string } | null;
+  // Present when the new version was stored but could not be made current.
+  versionId?: string;
+}
+
+interface PromoteVersionResponse {
+  calcId: string;
+  currentVersionId: string;
+  etag?: string;
+}
+
+interface CalculatorMetadata {
+  calcId: string;
+  title: string;
+  description?: string;
+  notes?: string;
+  tags?: string[];
+  metadataUpdatedBy?: string;
+  metadataUpdatedAt?: string;
+  etag?: string;
+  retention?: { keepLast: number | null; source: "calculator" | "global" | "none" };
+  storageBytes?: number;
+  versions?: Array<{ versionId: string; createdAt: string; status: string; label?: string }>;
+}
+
+interface CalculatorMetadataPatch {
+  title?: string;
+  description?: string;
+  notes?: string;
+  tags?: string[];
 }
 
 interface CalculatorVersionResponse {
+  renderMode?: RenderMode;
   manifest: Record<string, unknown>;
   artifactHtml: string;
+  artifactHash?: string;
+  artifactHashScheme?: string;
+  spec?: CalculatorSpec;
+}
+
+interface VersionQuarantinedResponse {
+  code?: string;
+  quarantineReason?: string;
+}
+
+interface VersionFailureReportResponse {
+  quarantined?: boolean;
+  loadFailureCount?: number;
 }
 
 interface GenerateRefusalReason {
@@ -58,6 +184,11 @@ interface GenerateRefusalDetail {
   message?: string;
   summary?: string;
   evidence?: string;
+  // Deterministic scanner findings also carry the rule and its position in the artifact.
+  ruleId?: string;
+  line?: number;
+  column?: number;
+  contextSnippet?: string;
 }
 
 interface BuildStamp {
@@ -100,10 +231,16 @@ type GenerateCalcResponse =
       build?: BuildStamp;
       calcId: string;
       versionId: string;
+      renderMode?: RenderMode;
       manifest: Record<string, unknown>;
       artifactHtml: string;
+      spec?: CalculatorSpec;
+      parentVersionId?: string;
+      etag?: string;
       scanOutcome: "allow" | "deny" | "skipped";
       overrideUsed: boolean;
+      versionStatus?: "ok" | "quarantined";
+      selfTest?: { status: "passed" | "failed" | "skipped"; failures: string[] };
     }
   | {
       kind: "scan_block";
@@ -151,21 +288,32 @@ interface CurrentArtifact {
   versionId: string | null;
   artifactHtml: string;
   manifest?: Record<string, unknown>;
+  spec?: CalculatorSpec;
   artifactHash: string;
+  /** Canonical manifest hash the viewer must verify before rendering; null for samples and older versions. */
+  expectedHash: string | null;
   status: ArtifactStatus;
 }
 
 const buildSampleManifest = (sample: "good" | "bad") => ({
-  specVersion: "1.1",
+  specVersion: "1.2",
   title: sample === "good" ? "Offline Add Calculator" : "Broken Sample Calc",
+  description:
+    sample === "good" ? "Adds two numbers offline." : "Intentionally broken sample for watchdog testing.",
   executionModel: "form",
   capabilities: {
     network: false,
     storage: false,
     dynamicCode: false,
   },
-  inputs: [],
-  outputs: [],
+  inputs:
+    sample === "good"
+      ? [
+          { id: "left", label: "First number", type: "number" },
+          { id: "right", label: "Second number", type: "number" },
+        ]
+      : [],
+  outputs: sample === "good" ? [{ id: "result", label: "Result" }] : [],
   limitations: [],
   safetyNotes: [],
 });
@@ -183,22 +331,31 @@ const buildCurrentArtifact = ({
   calcId = null,
   versionId = null,
   manifest,
+  spec,
+  expectedHash = null,
   status,
 }: {
   artifactHtml: string;
   calcId?: string | null;
   versionId?: string | null;
   manifest?: Record<string, unknown>;
+  spec?: CalculatorSpec;
+  expectedHash?: string | null;
   status: ArtifactStatus;
 }): CurrentArtifact => ({
   artifactHtml,
   calcId,
   versionId,
   manifest,
-  artifactHash: computeArtifactHash(artifactHtml),
+  spec,
+  artifactHash: computeArtifactHash(spec ? JSON.stringify(spec) : artifactHtml),
+  expectedHash,
   status,
 });
 
+const getManifestHash = (manifest: Record<string, unknown>): string | null =>
+  typeof manifest.hash === "string" && manifest.hash.length > 0 ? manifest.hash : null;
+
 const RED_TEAM_PROFILE_SESSION_KEY = "promptcalc.redteam.profile";
 
 const formatRefusalDetail = (detail: GenerateRefusalDetail): string => {
@@ -211,6 +368,9 @@ const formatRefusalDetail = (detail: GenerateRefusalDetail): string => {
   if (detail.severity) {
     suffixParts.push(`severity: ${detail.severity}`);
   }
+  if (detail.line !== undefined) {
+    suffixParts.push(`line ${detail.line}, column ${detail.column ?? 1}`);
+  }
   return suffixParts.length > 0 ? `${base} (${suffixParts.join(", ")})` : base;
 };
 
@@ -228,6 +388,40 @@ const App = () => {
   );
   const [calcs, setCalcs] = useState<CalculatorSummary[]>([]);
   const [calcsError, setCalcsError] = useState<string | null>(null);
+  const [calcsQuery, setCalcsQuery] = useState<CalculatorListQuery>({
+    q: "",
+    sort: "updatedAt",
+    executionModel: "",
+    folder: "",
+    tag: "",
+    favoritesOnly: false,
+  });
+  const [calcFacets, setCalcFacets] = useState<CalculatorFacets>({ folders: [], tags: [], favorites: 0 });
+  const [calcsView, setCalcsView] = useState<"active" | "trash">("active");
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [trash, setTrash] = useState<TrashListResponse | null>(null);
+  const [undoDelete, setUndoDelete] = useState<{ calcId: string; title: string } | null>(null);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [organizingCalc, setOrganizingCalc] = useState<{ calcId: string; folder: string; tags: string } | null>(
+    null
+  );
+  const [calcsContinuation, setCalcsContinuation] = useState<string | null>(null);
+  const [calcEtag, setCalcEtag] = useState<CalculatorEtag | null>(null);
+  const [renamingCalc, setRenamingCalc] = useState<{ calcId: string; title: string } | null>(null);
+  const [calcMetadata, setCalcMetadata] = useState<CalculatorMetadata | null>(null);
+  const [metadataDraft, setMetadataDraft] = useState<{
+    title: string;
+    description: string;
+    notes: string;
+    tags: string;
+  } | null>(null);
+  const [metadataStatus, setMetadataStatus] = useState<string | null>(null);
+  const [retentionDraft, setRetentionDraft] = useState<string | null>(null);
+  const [compareDraft, setCompareDraft] = useState<{ from: string; to: string }>({ from: "", to: "" });
+  const [compareVersions, setCompareVersions] = useState<{ calcId: string; from: string; to: string } | null>(null);
+  const [calcLineage, setCalcLineage] = useState<VersionLineage | null>(null);
+  const [lineageStatus, setLineageStatus] = useState<string | null>(null);
+  const [versionConflict, setVersionConflict] = useState<VersionConflictResponse | null>(null);
   const [saveStatus, setSaveStatus] = useState<string | null>(null);
   const [loadingCalcs, setLoadingCalcs] = useState(false);
   const [authState, setAuthState] = useState<AuthState>({ mode: "unknown" });
@@ -243,6 +437,8 @@ const App = () => {
   const [generateBuild, setGenerateBuild] = useState<BuildStamp | null>(null);
   const [effectiveProfileSummary, setEffectiveProfileSummary] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [generateRenderMode, setGenerateRenderMode] = useState<RenderMode>("artifact");
+  const [refineCurrent, setRefineCurrent] = useState(true);
   const [redTeamProfile, setRedTeamProfile] = useState<RedTeamDebugProfile>(() => defaultProfile());
   const redTeamProfileHash = useMemo(() => profileId(redTeamProfile), [redTeamProfile]);
   const [scanBanner, setScanBanner] = useState<"warn" | "off" | null>(null);
@@ -253,8 +449,11 @@ const App = () => {
   >(null);
   const [outputTab, setOutputTab] = useState<"output" | "logs" | "html">("output");
   const [historyDrawerOpen, setHistoryDrawerOpen] = useState(false);
+  const [downloadStatus, setDownloadStatus] = useState<string | null>(null);
   const previousArtifactRef = useRef<CurrentArtifact | null>(null);
   const viewerKey = `${currentArtifact.artifactHash}`;
+  const canRefineCurrent =
+    currentArtifact.status === "saved" && Boolean(currentArtifact.calcId && currentArtifact.versionId);
   const manifestExecutionModel =
     typeof currentArtifact.manifest?.executionModel === "string"
       ? currentArtifact.manifest.executionModel
@@ -263,6 +462,16 @@ const App = () => {
     typeof currentArtifact.manifest?.specVersion === "string"
       ? currentArtifact.manifest.specVersion
       : "unknown";
+  // Samples are never hashed; saved versions must carry the hash the API embedded.
+  const manifestErrors = useMemo(
+    () =>
+      currentArtifact.manifest
+        ? validateManifest(currentArtifact.manifest, {
+            requireHash: currentArtifact.status === "saved",
+          })
+        : [],
+    [currentArtifact.manifest, currentArtifact.status]
+  );
 
   const sampleArtifactHtml = useMemo(
     () => (sample === "good" ? GOOD_CALC_HTML : BAD_CALC_HTML),
@@ -290,6 +499,10 @@ const App = () => {
     }
   }, [currentArtifact.status, sampleArtifactHtml, sampleManifest]);
 
+  useEffect(() => {
+    setDownloadStatus(null);
+  }, [viewerKey]);
+
   useEffect(() => {
     if (!isDev) {
       previousArtifactRef.current = currentArtifact;
@@ -312,7 +525,7 @@ const App = () => {
       });
     }
 
-    if (currentArtifact.artifactHtml.length === 0) {
+    if (currentArtifact.artifactHtml.length === 0 && !currentArtifact.spec) {
       console.warn("App current artifact cleared unexpectedly", {
         calcId: currentArtifact.calcId,
         versionId: currentArtifact.versionId,
@@ -348,16 +561,42 @@ const App = () => {
     }
   };
 
-  const loadCalcs = async () => {
+  // `continuationToken` appends the next page; otherwise the list restarts from the first page.
+  const loadCalcs = async (continuationToken?: string) => {
     setLoadingCalcs(true);
     setCalcsError(null);
     try {
-      const response = await fetch("/api/calcs");
+      const params = new URLSearchParams({ sort: calcsQuery.sort });
+      if (calcsQuery.q.trim()) {
+        params.set("q", calcsQuery.q.trim());
+      }
+      if (calcsQuery.executionModel) {
+        params.set("executionModel", calcsQuery.executionModel);
+      }
+      if (calcsQuery.folder) {
+        params.set("folder", calcsQuery.folder);
+      }
+      if (calcsQuery.tag) {
+        params.set("tag", calcsQuery.tag);
+      }
+      if (calcsQuery.favoritesOnly) {
+        params.set("favorite", "true");
+      }
+      if (continuationToken) {
+        params.set("continuationToken", continuationToken);
+      }
+      const response = await fetch(`/api/calcs?${params.toString()}`);
       if (!response.ok) {
         throw new Error(`List failed (${response.status})`);
       }
-      const data = (await response.json()) as CalculatorSummary[];
-      setCalcs(data ?? []);
+      const data = (await response.json()) as CalculatorListResponse;
+      const items = data.items ?? [];
+      setCalcs((previous) => (continuationToken ? [...previous, ...items] : items));
+      setCalcsContinuation(data.continuationToken ?? null);
+      if (!continuationToken) {
+        setStorageUsage(data.usage ?? null);
+        void loadCalcFacets();
+      }
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
       setCalcsError(message);
@@ -366,6 +605,235 @@ const App = () => {
     }
   };
 
+  // Folder and tag filter options span every calculator, not just the loaded page.
+  const loadCalcFacets = async () => {
+    try {
+      const response = await fetch("/api/calcs/facets");
+      if (!response.ok) {
+        return;
+      }
+      const data = (await response.json()) as Partial<CalculatorFacets>;
+      setCalcFacets({ folders: data.folders ?? [], tags: data.tags ?? [], favorites: data.favorites ?? 0 });
+    } catch {
+      // Filters fall back to what the user types; the list itself still loads.
+    }
+  };
+
+  const organizeCalculator = async (calc: CalculatorSummary, update: CalculatorOrganizationUpdate) => {
+    setCalcsError(null);
+    try {
+      const response = await fetch(`/api/calcs/${calc.calcId}/organization`, {
+        method: "PUT",
+        headers: {
+          "content-type": "application/json",
+          ...(calc.etag ? { "if-match": calc.etag } : {}),
+        },
+        body: JSON.stringify(update),
+      });
+      if (response.status === 409) {
+        setCalcsError(`${calc.title} changed elsewhere; the list was refreshed, try again.`);
+        await loadCalcs();
+        return;
+      }
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as { message?: string } | null;
+        throw new Error(data?.message ?? `Organize failed (${response.status})`);
+      }
+      setOrganizingCalc(null);
+      await loadCalcs();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setCalcsError(message);
+    }
+  };
+
+  const loadTrash = async () => {
+    setCalcsError(null);
+    try {
+      const response = await fetch("/api/calcs/trash");
+      if (!response.ok) {
+        throw new Error(`Trash failed (${response.status})`);
+      }
+      setTrash((await response.json()) as TrashListResponse);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setCalcsError(message);
+    }
+  };
+
+  // Deleting only moves the calculator to the trash; the toast offers an undo for a few seconds.
+  const deleteCalculator = async (calc: CalculatorSummary) => {
+    setCalcsError(null);
+    try {
+      const response = await fetch(`/api/calcs/${calc.calcId}`, {
+        method: "DELETE",
+        headers: calc.etag ? { "if-match": calc.etag } : {},
+      });
+      if (response.status === 409) {
+        setCalcsError(`${calc.title} changed elsewhere; the list was refreshed, try again.`);
+        await loadCalcs();
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Delete failed (${response.status})`);
+      }
+      setUndoDelete({ calcId: calc.calcId, title: calc.title });
+      await loadCalcs();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setCalcsError(message);
+    }
+  };
+
+  const restoreCalculator = async (calcId: string) => {
+    setCalcsError(null);
+    setUndoDelete(null);
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/restore`, { method: "POST" });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as { message?: string } | null;
+        throw new Error(data?.message ?? `Restore failed (${response.status})`);
+      }
+      await loadCalcs();
+      if (calcsView === "trash") {
+        await loadTrash();
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setCalcsError(message);
+    }
+  };
+
+  const purgeCalculator = async (calc: TrashedCalculator) => {
+    if (!window.confirm(`Delete "${calc.title}" and all of its versions forever? This cannot be undone.`)) {
+      return;
+    }
+    setCalcsError(null);
+    try {
+      const response = await fetch(`/api/calcs/trash/${calc.calcId}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as { message?: string } | null;
+        throw new Error(data?.message ?? `Delete failed (${response.status})`);
+      }
+      await loadTrash();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setCalcsError(message);
+    }
+  };
+
+  // Packages only content that passes the same integrity check the viewer runs before rendering.
+  const downloadStandalone = async () => {
+    const { artifactHtml, manifest, expectedHash, versionId } = currentArtifact;
+    if (!manifest || currentArtifact.spec) {
+      return;
+    }
+    setDownloadStatus(null);
+    const integrityHash = await computeCanonicalArtifactHash(artifactHtml).catch(() => null);
+    if (!integrityHash) {
+      setDownloadStatus("This browser cannot compute the integrity hash, so the download is unavailable.");
+      return;
+    }
+    if (expectedHash && integrityHash !== expectedHash) {
+      setDownloadStatus("Calculator content failed integrity verification and was not downloaded.");
+      return;
+    }
+    let bannerText = DEFAULT_REQUIRED_BANNER_TEXT;
+    try {
+      const response = await fetch("/api/policy");
+      if (response.ok) {
+        const data = (await response.json()) as { policy?: { requiredBannerText?: unknown } };
+        if (typeof data.policy?.requiredBannerText === "string" && data.policy.requiredBannerText.trim()) {
+          bannerText = data.policy.requiredBannerText;
+        }
+      }
+    } catch {
+      // The default banner still satisfies the default policy.
+    }
+    const fileName = buildStandaloneFileName(
+      typeof manifest.title === "string" ? manifest.title : "calculator",
+      versionId
+    );
+    const url = URL.createObjectURL(
+      new Blob([buildStandaloneHtml({ artifactHtml, manifest, integrityHash, bannerText })], { type: "text/html" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    setDownloadStatus(`Downloaded ${fileName}. Integrity (${ARTIFACT_HASH_SCHEME}): ${integrityHash}`);
+  };
+
+  const exportCalculator = async (calcId: string) => {
+    setMetadataStatus(null);
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/export`);
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as { message?: string } | null;
+        throw new Error(data?.message ?? `Export failed (${response.status})`);
+      }
+      const disposition = response.headers.get("content-disposition") ?? "";
+      const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "calculator.promptcalc.json";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setMetadataStatus(message);
+    }
+  };
+
+  // The server re-validates and re-scans every version; one rejected version rejects the whole bundle.
+  const importCalculator = async (file: File) => {
+    setCalcsError(null);
+    setImportStatus(null);
+    try {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a calculator bundle.`);
+      }
+      const response = await fetch("/api/calcs/import", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(bundle),
+      });
+      const data = (await response.json().catch(() => null)) as {
+        message?: string;
+        rejected?: Array<{ versionId: string; message: string }>;
+        signature?: "verified" | "unverified";
+        versions?: unknown[];
+      } | null;
+      if (!response.ok) {
+        const rejected = (data?.rejected ?? []).map((entry) => `v${entry.versionId}: ${entry.message}`);
+        throw new Error([data?.message ?? `Import failed (${response.status})`, ...rejected].join(" "));
+      }
+      const count = data?.versions?.length ?? 0;
+      setImportStatus(
+        `Imported ${count} version${count === 1 ? "" : "s"}${
+          data?.signature === "verified" ? " (signature verified)" : " (unsigned or from another deployment)"
+        }.`
+      );
+      await loadCalcs();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setCalcsError(message);
+    }
+  };
+
+  useEffect(() => {
+    if (!undoDelete) {
+      return;
+    }
+    const timer = window.setTimeout(() => setUndoDelete(null), UNDO_DELETE_MS);
+    return () => window.clearTimeout(timer);
+  }, [undoDelete]);
+
   useEffect(() => {
     void loadCalcs();
     void loadAuthState();
@@ -440,6 +908,7 @@ const App = () => {
 
       const data = (await response.json()) as SaveCalcResponse;
       setSaveStatus(`Saved ${data.calcId} v${data.versionId}`);
+      setCalcEtag(data.etag ? { calcId: data.calcId, etag: data.etag } : null);
       setCurrentArtifact((prev) =>
         buildCurrentArtifact({
           artifactHtml: prev.artifactHtml,
@@ -467,13 +936,31 @@ const App = () => {
     setCalcsError(null);
     setIsGenerating(true);
     try {
-      const payload: { prompt: string; redTeamProfile: RedTeamDebugProfile; proceedOverride?: boolean } = {
+      const payload: {
+        prompt: string;
+        renderMode: RenderMode;
+        baseCalcId?: string;
+        baseVersionId?: string;
+        redTeamProfile: RedTeamDebugProfile;
+        proceedOverride?: boolean;
+      } = {
         prompt: generatePrompt,
+        renderMode: generateRenderMode,
         redTeamProfile: normalizeProfile({
           ...redTeamProfile,
           enabled: redTeamProfile.enabled,
         }),
       };
+      const headers: Record<string, string> = {
+        "content-type": "application/json",
+      };
+      if (canRefineCurrent && refineCurrent) {
+        payload.baseCalcId = currentArtifact.calcId ?? undefined;
+        payload.baseVersionId = currentArtifact.versionId ?? undefined;
+        if (calcEtag && calcEtag.calcId === currentArtifact.calcId) {
+          headers["if-match"] = calcEtag.etag;
+        }
+      }
       if (proceedOverride) {
         payload.proceedOverride = true;
       }
@@ -492,9 +979,7 @@ const App = () => {
 
       const response = await fetch("/api/calcs/generate", {
         method: "POST",
-        headers: {
-          "content-type": "application/json",
-        },
+        headers,
         body: requestBody,
       });
 
@@ -518,6 +1003,11 @@ const App = () => {
           setGenerateStatus("Model output was invalid JSON (likely truncated). See dump folder.");
           return;
         }
+        if (errorCode === "VERSION_CONFLICT") {
+          setVersionConflict(data as unknown as VersionConflictResponse);
+          setGenerateStatus("Someone else changed this calculator.");
+          return;
+        }
         throw new Error(errorResponse.error?.message ?? `Generate failed (${response.status})`);
       }
 
@@ -550,11 +1040,14 @@ const App = () => {
         buildCurrentArtifact({
           artifactHtml: successData.artifactHtml,
           manifest: successData.manifest,
+          spec: successData.renderMode === "spec" ? successData.spec : undefined,
+          expectedHash: successData.renderMode === "spec" ? null : getManifestHash(successData.manifest),
           status: "saved",
           calcId: successData.calcId,
           versionId: successData.versionId,
         })
       );
+      setCalcEtag(successData.etag ? { calcId: successData.calcId, etag: successData.etag } : null);
       if (successData.scanOutcome === "deny" && successData.overrideUsed) {
         setScanBanner("warn");
       } else if (successData.scanOutcome === "skipped") {
@@ -563,7 +1056,16 @@ const App = () => {
         setScanBanner(null);
       }
       setPendingInterstitial(null);
-      setGenerateStatus(`Generated ${successData.calcId} v${successData.versionId}`);
+      const generatedLabel = successData.parentVersionId
+        ? `Refined ${successData.calcId} v${successData.parentVersionId} -> v${successData.versionId}`
+        : `Generated ${successData.calcId} v${successData.versionId}`;
+      setGenerateStatus(
+        successData.versionStatus === "quarantined"
+          ? `${generatedLabel} (quarantined: self-test failed${
+              successData.selfTest?.failures[0] ? ` - ${successData.selfTest.failures[0]}` : ""
+            })`
+          : generatedLabel
+      );
       await loadCalcs();
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
@@ -573,13 +1075,24 @@ const App = () => {
     }
   };
 
-  const loadVersion = async (calcId: string, versionId: string) => {
+  const loadVersion = async (calcId: string, versionId: string, etag?: string) => {
+    if (etag) {
+      setCalcEtag({ calcId, etag });
+    }
     if (currentArtifact.calcId === calcId && currentArtifact.versionId === versionId) {
       return;
     }
     setCalcsError(null);
     try {
       const response = await fetch(`/api/calcs/${calcId}/versions/${versionId}`);
+      if (response.status === 423) {
+        const data = (await response.json().catch(() => ({}))) as VersionQuarantinedResponse;
+        throw new Error(
+          `This version is quarantined pending review${
+            data.quarantineReason ? ` (${data.quarantineReason})` : ""
+          }.`
+        );
+      }
       if (!response.ok) {
         throw new Error(`Load failed (${response.status})`);
       }
@@ -589,6 +1102,12 @@ const App = () => {
         buildCurrentArtifact({
           artifactHtml: data.artifactHtml,
           manifest: data.manifest,
+          spec: data.renderMode === "spec" ? data.spec : undefined,
+          // Versions hashed before the canonical scheme carry a manifest hash the viewer cannot recompute.
+          expectedHash:
+            data.renderMode !== "spec" && data.artifactHashScheme === ARTIFACT_HASH_SCHEME
+              ? getManifestHash(data.manifest)
+              : null,
           status: "saved",
           calcId,
           versionId,
@@ -600,6 +1119,336 @@ const App = () => {
     }
   };
 
+  const loadCalcMetadata = async (calcId: string) => {
+    try {
+      const response = await fetch(`/api/calcs/${calcId}`);
+      if (!response.ok) {
+        throw new Error(`Details failed (${response.status})`);
+      }
+      const data = (await response.json()) as CalculatorMetadata;
+      setCalcMetadata(data);
+      if (data.etag) {
+        setCalcEtag({ calcId, etag: data.etag });
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setMetadataStatus(message);
+    }
+  };
+
+  useEffect(() => {
+    setCalcMetadata(null);
+    setMetadataDraft(null);
+    setMetadataStatus(null);
+    setRetentionDraft(null);
+    setCompareVersions(null);
+    setCompareDraft({ from: "", to: "" });
+    if (currentArtifact.status === "saved" && currentArtifact.calcId) {
+      void loadCalcMetadata(currentArtifact.calcId);
+    }
+  }, [currentArtifact.calcId, currentArtifact.status]);
+
+  const loadCalcLineage = async (calcId: string) => {
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/lineage`);
+      if (!response.ok) {
+        throw new Error(`History failed (${response.status})`);
+      }
+      setCalcLineage((await response.json()) as VersionLineage);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setLineageStatus(message);
+    }
+  };
+
+  // Refinements and restores add or move versions without changing the calculator, so the tree follows the version.
+  useEffect(() => {
+    setLineageStatus(null);
+    if (currentArtifact.status === "saved" && currentArtifact.calcId) {
+      void loadCalcLineage(currentArtifact.calcId);
+    } else {
+      setCalcLineage(null);
+    }
+  }, [currentArtifact.calcId, currentArtifact.versionId, currentArtifact.status]);
+
+  // Loads an older version and refines from it; the next generate stores a sibling branch under it.
+  const branchFromVersion = async (calcId: string, versionId: string) => {
+    await loadVersion(calcId, versionId);
+    setRefineCurrent(true);
+    setGenerateStatus(`Branching from ${calcId} v${versionId}: describe the change and generate.`);
+  };
+
+  const restoreVersion = async (calcId: string, versionId: string) => {
+    setLineageStatus(null);
+    const etag = calcEtag?.calcId === calcId ? calcEtag.etag : calcLineage?.etag;
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/versions/${versionId}/promote`, {
+        method: "POST",
+        headers: etag ? { "if-match": etag } : {},
+      });
+      if (response.status === 409) {
+        setVersionConflict((await response.json()) as VersionConflictResponse);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Restore failed (${response.status})`);
+      }
+      const data = (await response.json()) as PromoteVersionResponse;
+      await loadVersion(calcId, versionId, data.etag);
+      setLineageStatus(`Restored v${versionId} as the current version.`);
+      await loadCalcLineage(calcId);
+      await loadCalcs();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setLineageStatus(message);
+    }
+  };
+
+  const labelVersion = async (calcId: string, versionId: string, label: string): Promise<boolean> => {
+    setLineageStatus(null);
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/versions/${versionId}/label`, {
+        method: "PUT",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ label }),
+      });
+      const data = (await response.json().catch(() => null)) as { message?: string } | null;
+      if (!response.ok) {
+        throw new Error(data?.message ?? `Label failed (${response.status})`);
+      }
+      await loadCalcLineage(calcId);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setLineageStatus(message);
+      return false;
+    }
+  };
+
+  const deleteVersion = async (calcId: string, versionId: string) => {
+    if (!window.confirm(`Delete v${versionId} and its stored artifact? This cannot be undone.`)) {
+      return;
+    }
+    setLineageStatus(null);
+    const etag = calcEtag?.calcId === calcId ? calcEtag.etag : calcLineage?.etag;
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/versions/${versionId}`, {
+        method: "DELETE",
+        headers: etag ? { "if-match": etag } : {},
+      });
+      const data = (await response.json().catch(() => null)) as
+        | (Partial<VersionConflictResponse> & { code?: string; message?: string; etag?: string })
+        | null;
+      if (response.status === 409 && data?.code === "VERSION_CONFLICT") {
+        setVersionConflict(data as VersionConflictResponse);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data?.message ?? `Delete failed (${response.status})`);
+      }
+      if (data?.etag) {
+        setCalcEtag({ calcId, etag: data.etag });
+      }
+      setLineageStatus(`Deleted v${versionId}.`);
+      await loadCalcLineage(calcId);
+      await loadCalcMetadata(calcId);
+      await loadCalcs();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setLineageStatus(message);
+    }
+  };
+
+  // An empty draft clears the calculator's own policy so the global default applies again.
+  const saveRetentionDraft = async () => {
+    if (!calcMetadata || retentionDraft === null) {
+      return;
+    }
+    setMetadataStatus(null);
+    const calcId = calcMetadata.calcId;
+    const etag = calcEtag?.calcId === calcId ? calcEtag.etag : calcMetadata.etag;
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/retention`, {
+        method: "PUT",
+        headers: {
+          "content-type": "application/json",
+          ...(etag ? { "if-match": etag } : {}),
+        },
+        body: JSON.stringify({ keepLast: retentionDraft.trim() ? Number(retentionDraft) : null }),
+      });
+      if (response.status === 409) {
+        setMetadataStatus("Someone else changed this calculator; reload it and try again.");
+        return;
+      }
+      const data = (await response.json().catch(() => null)) as {
+        pendingPruneCount?: number;
+        etag?: string;
+        message?: string;
+      } | null;
+      if (!response.ok) {
+        throw new Error(data?.message ?? `Retention update failed (${response.status})`);
+      }
+      if (data?.etag) {
+        setCalcEtag({ calcId, etag: data.etag });
+      }
+      setRetentionDraft(null);
+      await loadCalcMetadata(calcId);
+      const pending = data?.pendingPruneCount ?? 0;
+      setMetadataStatus(
+        pending > 0
+          ? `Retention saved; ${pending} older version${pending === 1 ? "" : "s"} will be removed at the next cleanup.`
+          : "Retention saved."
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setMetadataStatus(message);
+    }
+  };
+
+  // Returns the updated metadata, or null after reporting the failure through `onError`.
+  const patchCalculatorMetadata = async (
+    calcId: string,
+    etag: string | undefined,
+    patch: CalculatorMetadataPatch,
+    onError: (message: string) => void
+  ): Promise<CalculatorMetadata | null> => {
+    try {
+      const response = await fetch(`/api/calcs/${calcId}`, {
+        method: "PATCH",
+        headers: {
+          "content-type": "application/json",
+          ...(etag ? { "if-match": etag } : {}),
+        },
+        body: JSON.stringify(patch),
+      });
+      if (response.status === 409) {
+        onError("Someone else changed this calculator; reload it and try again.");
+        await loadCalcs();
+        return null;
+      }
+      const data = (await response.json().catch(() => null)) as (CalculatorMetadata & { message?: string }) | null;
+      if (!response.ok || !data) {
+        throw new Error(data?.message ?? `Update failed (${response.status})`);
+      }
+      if (data.etag) {
+        setCalcEtag({ calcId, etag: data.etag });
+      }
+      if (calcMetadata?.calcId === calcId) {
+        setCalcMetadata(data);
+      }
+      await loadCalcs();
+      return data;
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Unknown error");
+      return null;
+    }
+  };
+
+  const renameCalculator = async (calc: CalculatorSummary, title: string) => {
+    setCalcsError(null);
+    if (title.trim() === calc.title) {
+      setRenamingCalc(null);
+      return;
+    }
+    const updated = await patchCalculatorMetadata(calc.calcId, calc.etag, { title }, setCalcsError);
+    if (updated) {
+      setRenamingCalc(null);
+    }
+  };
+
+  const saveMetadataDraft = async () => {
+    if (!calcMetadata || !metadataDraft) {
+      return;
+    }
+    setMetadataStatus(null);
+    const etag = calcEtag?.calcId === calcMetadata.calcId ? calcEtag.etag : calcMetadata.etag;
+    const updated = await patchCalculatorMetadata(
+      calcMetadata.calcId,
+      etag,
+      {
+        title: metadataDraft.title,
+        description: metadataDraft.description,
+        notes: metadataDraft.notes,
+        tags: metadataDraft.tags
+          .split(",")
+          .map((tag) => tag.trim())
+          .filter(Boolean),
+      },
+      setMetadataStatus
+    );
+    if (updated) {
+      setMetadataDraft(null);
+      setMetadataStatus("Details saved.");
+    }
+  };
+
+  // Best-effort: the API quarantines a stored version after repeated viewer failures.
+  const reportViewerFailure = async (failure: ViewerLoadFailure) => {
+    const { calcId, versionId } = currentArtifact;
+    if (!calcId || !versionId) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/calcs/${calcId}/versions/${versionId}/report`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+        },
+        body: JSON.stringify(failure),
+      });
+      if (!response.ok) {
+        return;
+      }
+      const data = (await response.json()) as VersionFailureReportResponse;
+      if (data.quarantined) {
+        setCalcsError("This version failed to load repeatedly and was quarantined for review.");
+        void loadCalcs();
+      }
+    } catch {
+      // Reporting must never disturb the viewer.
+    }
+  };
+
+  const loadLatestAfterConflict = async () => {
+    const conflict = versionConflict;
+    setVersionConflict(null);
+    if (conflict?.current) {
+      await loadVersion(conflict.calcId, conflict.current.currentVersionId, conflict.current.etag);
+    }
+    await loadCalcs();
+  };
+
+  // Makes the version stored during the conflicting request current, on top of the head the API reported.
+  const keepMyVersionAfterConflict = async () => {
+    const conflict = versionConflict;
+    setVersionConflict(null);
+    if (!conflict?.current || !conflict.versionId) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/calcs/${conflict.calcId}/versions/${conflict.versionId}/promote`, {
+        method: "POST",
+        headers: {
+          "if-match": conflict.current.etag,
+        },
+      });
+      if (response.status === 409) {
+        setVersionConflict((await response.json()) as VersionConflictResponse);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`Promote failed (${response.status})`);
+      }
+      const data = (await response.json()) as PromoteVersionResponse;
+      setCalcEtag(data.etag ? { calcId: data.calcId, etag: data.etag } : null);
+      setGenerateStatus(`Kept ${data.calcId} v${data.currentVersionId} as the current version.`);
+      await loadCalcs();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setCalcsError(message);
+    }
+  };
+
   const handleSignIn = () => {
     window.location.assign("/.auth/login/aad");
   };
@@ -673,6 +1522,25 @@ const App = () => {
                 value={generatePrompt}
                 onChange={(event) => setGeneratePrompt(event.target.value)}
               />
+              <label htmlFor="generate-render-mode">Render mode</label>
+              <select
+                id="generate-render-mode"
+                value={generateRenderMode}
+                onChange={(event) => setGenerateRenderMode(event.target.value as RenderMode)}
+              >
+                <option value="artifact">Sandboxed HTML artifact</option>
+                <option value="spec">Declarative spec (trusted renderer)</option>
+              </select>
+              {canRefineCurrent && (
+                <label className="refine-toggle">
+                  <input
+                    type="checkbox"
+                    checked={refineCurrent}
+                    onChange={(event) => setRefineCurrent(event.target.checked)}
+                  />
+                  Refine loaded calculator ({currentArtifact.calcId} v{currentArtifact.versionId})
+                </label>
+              )}
               <div className="actions">
                 <button type="button" onClick={() => void generateCalc(false)} disabled={isGenerating}>
                   {isGenerating ? "Generating..." : "Generate calculator"}
@@ -805,6 +1673,224 @@ const App = () => {
             </details>
           )}
 
+          {calcMetadata && (
+            <details open className="collapsible-section">
+              <summary>Calculator details</summary>
+              <div className="calc-details">
+                {metadataDraft ? (
+                  <form
+                    className="generate"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      void saveMetadataDraft();
+                    }}
+                  >
+                    <label htmlFor="calc-details-title">Title</label>
+                    <input
+                      id="calc-details-title"
+                      value={metadataDraft.title}
+                      onChange={(event) => setMetadataDraft({ ...metadataDraft, title: event.target.value })}
+                    />
+                    <label htmlFor="calc-details-description">Description</label>
+                    <input
+                      id="calc-details-description"
+                      value={metadataDraft.description}
+                      onChange={(event) => setMetadataDraft({ ...metadataDraft, description: event.target.value })}
+                    />
+                    <label htmlFor="calc-details-tags">Tags (comma separated)</label>
+                    <input
+                      id="calc-details-tags"
+                      value={metadataDraft.tags}
+                      onChange={(event) => setMetadataDraft({ ...metadataDraft, tags: event.target.value })}
+                    />
+                    <label htmlFor="calc-details-notes">Notes</label>
+                    <textarea
+                      id="calc-details-notes"
+                      rows={3}
+                      value={metadataDraft.notes}
+                      onChange={(event) => setMetadataDraft({ ...metadataDraft, notes: event.target.value })}
+                    />
+                    <div className="actions">
+                      <button type="submit">Save details</button>
+                      <button type="button" className="secondary" onClick={() => setMetadataDraft(null)}>
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <>
+                    <dl>
+                      <div>
+                        <dt>Title</dt>
+                        <dd>{calcMetadata.title}</dd>
+                      </div>
+                      {calcMetadata.description && (
+                        <div>
+                          <dt>Description</dt>
+                          <dd>{calcMetadata.description}</dd>
+                        </div>
+                      )}
+                      {(calcMetadata.tags?.length ?? 0) > 0 && (
+                        <div>
+                          <dt>Tags</dt>
+                          <dd>{calcMetadata.tags?.join(", ")}</dd>
+                        </div>
+                      )}
+                      {calcMetadata.metadataUpdatedAt && (
+                        <div>
+                          <dt>Edited</dt>
+                          <dd>
+                            {new Date(calcMetadata.metadataUpdatedAt).toLocaleString()}
+                            {calcMetadata.metadataUpdatedBy ? ` by ${calcMetadata.metadataUpdatedBy}` : ""}
+                          </dd>
+                        </div>
+                      )}
+                    </dl>
+                    {calcMetadata.notes && <p className="calc-notes">{calcMetadata.notes}</p>}
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() =>
+                        setMetadataDraft({
+                          title: calcMetadata.title,
+                          description: calcMetadata.description ?? "",
+                          notes: calcMetadata.notes ?? "",
+                          tags: (calcMetadata.tags ?? []).join(", "),
+                        })
+                      }
+                    >
+                      Edit details
+                    </button>
+                  </>
+                )}
+                {retentionDraft !== null ? (
+                  <form
+                    className="generate"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      void saveRetentionDraft();
+                    }}
+                  >
+                    <label htmlFor="calc-retention-keep-last">Versions to keep (empty uses the default)</label>
+                    <input
+                      id="calc-retention-keep-last"
+                      type="number"
+                      min={1}
+                      max={1000}
+                      step={1}
+                      value={retentionDraft}
+                      onChange={(event) => setRetentionDraft(event.target.value)}
+                    />
+                    <p className="calc-meta">Current, labeled, and quarantined versions are always kept.</p>
+                    <div className="actions">
+                      <button type="submit">Save retention</button>
+                      <button type="button" className="secondary" onClick={() => setRetentionDraft(null)}>
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <p className="calc-meta">
+                    {calcMetadata.retention?.keepLast
+                      ? `Keeps the newest ${calcMetadata.retention.keepLast} versions${
+                          calcMetadata.retention.source === "global" ? " (default)" : ""
+                        }`
+                      : "Keeps every version"}
+                    {calcMetadata.storageBytes !== undefined
+                      ? ` | ${formatStorageBytes(calcMetadata.storageBytes)} stored`
+                      : ""}{" "}
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() =>
+                        setRetentionDraft(
+                          calcMetadata.retention?.source === "calculator"
+                            ? String(calcMetadata.retention.keepLast)
+                            : ""
+                        )
+                      }
+                    >
+                      Change retention
+                    </button>
+                  </p>
+                )}
+                <p className="calc-meta">
+                  <button
+                    type="button"
+                    className="secondary"
+                    onClick={() => void exportCalculator(calcMetadata.calcId)}
+                  >
+                    Export bundle
+                  </button>{" "}
+                  Quarantined versions are left out.
+                </p>
+                <details className="collapsible-section">
+                  <summary>Share links</summary>
+                  <ShareLinks calcId={calcMetadata.calcId} versions={calcMetadata.versions ?? []} />
+                </details>
+                {(calcMetadata.versions?.length ?? 0) > 1 && (
+                  <form
+                    className="generate"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      if (compareDraft.from && compareDraft.to) {
+                        setCompareVersions({ calcId: calcMetadata.calcId, ...compareDraft });
+                        setOutputTab("output");
+                      }
+                    }}
+                  >
+                    <label htmlFor="compare-from">Compare version</label>
+                    <select
+                      id="compare-from"
+                      value={compareDraft.from}
+                      onChange={(event) => setCompareDraft({ ...compareDraft, from: event.target.value })}
+                    >
+                      <option value="">Select...</option>
+                      {calcMetadata.versions?.map((version) => (
+                        <option key={version.versionId} value={version.versionId}>
+                          {version.versionId} ({new Date(version.createdAt).toLocaleString()})
+                        </option>
+                      ))}
+                    </select>
+                    <label htmlFor="compare-to">with version</label>
+                    <select
+                      id="compare-to"
+                      value={compareDraft.to}
+                      onChange={(event) => setCompareDraft({ ...compareDraft, to: event.target.value })}
+                    >
+                      <option value="">Select...</option>
+                      {calcMetadata.versions?.map((version) => (
+                        <option key={version.versionId} value={version.versionId}>
+                          {version.versionId} ({new Date(version.createdAt).toLocaleString()})
+                        </option>
+                      ))}
+                    </select>
+                    <button type="submit" disabled={!compareDraft.from || !compareDraft.to}>
+                      Compare
+                    </button>
+                  </form>
+                )}
+                {metadataStatus && <p className="status">{metadataStatus}</p>}
+              </div>
+            </details>
+          )}
+
+          {calcLineage && (
+            <details open className="collapsible-section">
+              <summary>Version history</summary>
+              <VersionHistory
+                lineage={calcLineage}
+                openVersionId={currentArtifact.calcId === calcLineage.calcId ? currentArtifact.versionId : null}
+                onOpen={(versionId) => void loadVersion(calcLineage.calcId, versionId)}
+                onBranch={(versionId) => void branchFromVersion(calcLineage.calcId, versionId)}
+                onRestore={(versionId) => void restoreVersion(calcLineage.calcId, versionId)}
+                onLabel={(versionId, label) => labelVersion(calcLineage.calcId, versionId, label)}
+                onDelete={(versionId) => void deleteVersion(calcLineage.calcId, versionId)}
+              />
+              {lineageStatus && <p className="status">{lineageStatus}</p>}
+            </details>
+          )}
+
           {currentArtifact.manifest && (
             <details className="collapsible-section">
               <summary>Manifest / metadata</summary>
@@ -818,11 +1904,28 @@ const App = () => {
                     <dt>Execution model</dt>
                     <dd>{manifestExecutionModel}</dd>
                   </div>
+                  <div>
+                    <dt>Schema</dt>
+                    <dd>
+                      {manifestErrors.length === 0
+                        ? "valid"
+                        : `${manifestErrors.length} issue${manifestErrors.length === 1 ? "" : "s"}`}
+                    </dd>
+                  </div>
                   <div>
                     <dt>Profile ID</dt>
                     <dd>{redTeamProfileHash}</dd>
                   </div>
                 </dl>
+                {manifestErrors.length > 0 && (
+                  <ul className="manifest-errors">
+                    {manifestErrors.map((error) => (
+                      <li key={`${error.path}-${error.code}`}>
+                        <code>{error.path}</code> {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </details>
           )}
@@ -842,12 +1945,25 @@ const App = () => {
           {scanBanner === "off" && <div className="scan-banner off">Scan disabled (red team mode).</div>}
 
           <div className="tab-content">
-            {outputTab === "output" && (
+            {outputTab === "output" && compareVersions && (
+              <VersionCompare
+                calcId={compareVersions.calcId}
+                fromVersionId={compareVersions.from}
+                toVersionId={compareVersions.to}
+                onClose={() => setCompareVersions(null)}
+              />
+            )}
+            {outputTab === "output" && !compareVersions && currentArtifact.spec && (
+              <CalculatorRenderer key={viewerKey} spec={currentArtifact.spec} />
+            )}
+            {outputTab === "output" && !compareVersions && !currentArtifact.spec && (
               <CalculatorViewer
                 key={viewerKey}
                 artifactHtml={currentArtifact.artifactHtml}
                 calcId={currentArtifact.calcId}
                 versionId={currentArtifact.versionId}
+                expectedHash={currentArtifact.expectedHash}
+                onLoadFailure={(failure) => void reportViewerFailure(failure)}
               />
             )}
             {outputTab === "logs" && (
@@ -861,6 +1977,7 @@ const App = () => {
                         {generateRefusal.details.map((detail, index) => (
                           <li key={`${detail.code ?? "issue"}-${index}`}>
                             {formatRefusalDetail(detail)}
+                            {detail.contextSnippet && <pre className="refusal-snippet">{detail.contextSnippet}</pre>}
                           </li>
                         ))}
                       </ul>
@@ -892,6 +2009,14 @@ const App = () => {
               Loaded {currentArtifact.calcId} v{currentArtifact.versionId}
             </p>
           )}
+          {currentArtifact.manifest && !currentArtifact.spec && (
+            <div className="actions">
+              <button type="button" className="secondary" onClick={() => void downloadStandalone()}>
+                Download offline HTML
+              </button>
+              {downloadStatus && <span className="status integrity-hash">{downloadStatus}</span>}
+            </div>
+          )}
         </section>
       </main>
 
@@ -904,36 +2029,323 @@ const App = () => {
         {historyDrawerOpen && (
           <div className="bottom-drawer-content">
             <section className="panel">
-              <h2>My calculators</h2>
+              <h2>{calcsView === "trash" ? "Trash" : "My calculators"}</h2>
               <div className="actions">
-                <button type="button" onClick={loadCalcs} disabled={loadingCalcs}>
-                  {loadingCalcs ? "Loading..." : "Refresh list"}
-                </button>
+                {calcsView === "active" ? (
+                  <>
+                    <button type="button" onClick={() => void loadCalcs()} disabled={loadingCalcs}>
+                      {loadingCalcs ? "Loading..." : "Refresh list"}
+                    </button>
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => {
+                        setCalcsView("trash");
+                        void loadTrash();
+                      }}
+                    >
+                      Trash
+                    </button>
+                    <label className="secondary file-button">
+                      Import bundle
+                      <input
+                        type="file"
+                        accept=".json,application/json"
+                        hidden
+                        onChange={(event) => {
+                          const file = event.target.files?.[0];
+                          event.target.value = "";
+                          if (file) {
+                            void importCalculator(file);
+                          }
+                        }}
+                      />
+                    </label>
+                  </>
+                ) : (
+                  <button type="button" className="secondary" onClick={() => setCalcsView("active")}>
+                    Back to calculators
+                  </button>
+                )}
                 {calcsError && <span className="error">Error: {calcsError}</span>}
+                {importStatus && <span className="status">{importStatus}</span>}
               </div>
-              {calcs.length === 0 && !loadingCalcs && <p>No calculators saved yet.</p>}
-              {calcs.length > 0 && (
-                <ul className="calc-list">
-                  {calcs.map((calc) => (
-                    <li key={calc.calcId} className="calc-item">
-                      <div>
-                        <strong>{calc.title}</strong>
-                        <div className="calc-meta">
-                          Updated {new Date(calc.updatedAt).toLocaleString()}
-                        </div>
-                        <div className="calc-meta">ID {calc.calcId}</div>
-                      </div>
-                      <button
-                        type="button"
-                        onClick={() =>
-                          void loadVersion(calc.calcId, calc.currentVersionId)
+              {calcsView === "active" && storageUsage && (
+                <p className="calc-meta">
+                  Storage: {formatStorageBytes(storageUsage.storageBytes)} across {storageUsage.versionCount} versions
+                  of {storageUsage.calculatorCount} calculators
+                  {storageUsage.trashedCalculatorCount > 0 ? ` (${storageUsage.trashedCalculatorCount} in trash)` : ""}
+                  {storageUsage.unmeasuredVersionCount > 0
+                    ? `; ${storageUsage.unmeasuredVersionCount} older versions not measured`
+                    : ""}
+                </p>
+              )}
+              {calcsView === "trash" && trash && (
+                <>
+                  <p className="calc-meta">
+                    Deleted calculators are removed for good {trash.retentionDays} days after deletion.
+                  </p>
+                  {trash.items.length === 0 && <p>The trash is empty.</p>}
+                  {trash.items.length > 0 && (
+                    <ul className="calc-list">
+                      {trash.items.map((calc) => (
+                        <li key={calc.calcId} className="calc-item">
+                          <div>
+                            <strong>{calc.title}</strong>
+                            <div className="calc-meta">
+                              Deleted {new Date(calc.deletedAt).toLocaleString()} | removed after{" "}
+                              {new Date(calc.purgeAfter).toLocaleString()}
+                              {calc.versionCount !== undefined ? ` | ${calc.versionCount} versions` : ""}
+                            </div>
+                          </div>
+                          <div className="actions">
+                            <button type="button" onClick={() => void restoreCalculator(calc.calcId)}>
+                              Restore
+                            </button>
+                            <button type="button" className="secondary" onClick={() => void purgeCalculator(calc)}>
+                              Delete forever
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+              {calcsView === "active" && (
+                <>
+                  <form
+                    className="actions calc-filters"
+                    onSubmit={(event) => {
+                      event.preventDefault();
+                      void loadCalcs();
+                    }}
+                  >
+                    <input
+                      type="search"
+                      aria-label="Search calculators"
+                      placeholder="Search title or description"
+                      value={calcsQuery.q}
+                      onChange={(event) => setCalcsQuery((previous) => ({ ...previous, q: event.target.value }))}
+                    />
+                    <select
+                      aria-label="Sort calculators"
+                      value={calcsQuery.sort}
+                      onChange={(event) =>
+                        setCalcsQuery((previous) => ({
+                          ...previous,
+                          sort: event.target.value as CalculatorListQuery["sort"],
+                        }))
+                      }
+                    >
+                      <option value="updatedAt">Recently updated</option>
+                      <option value="createdAt">Recently created</option>
+                      <option value="title">Title</option>
+                    </select>
+                    <select
+                      aria-label="Filter by execution model"
+                      value={calcsQuery.executionModel}
+                      onChange={(event) =>
+                        setCalcsQuery((previous) => ({
+                          ...previous,
+                          executionModel: event.target.value as CalculatorListQuery["executionModel"],
+                        }))
+                      }
+                    >
+                      <option value="">Any model</option>
+                      <option value="form">Form</option>
+                      <option value="expression">Expression</option>
+                    </select>
+                    <select
+                      aria-label="Filter by folder"
+                      value={calcsQuery.folder}
+                      onChange={(event) => setCalcsQuery((previous) => ({ ...previous, folder: event.target.value }))}
+                    >
+                      <option value="">All folders</option>
+                      {calcFacets.folders.map((folder) => (
+                        <option key={folder.name} value={folder.name}>
+                          {folder.name} ({folder.count})
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Filter by tag"
+                      value={calcsQuery.tag}
+                      onChange={(event) => setCalcsQuery((previous) => ({ ...previous, tag: event.target.value }))}
+                    >
+                      <option value="">All tags</option>
+                      {calcFacets.tags.map((tag) => (
+                        <option key={tag.name} value={tag.name}>
+                          {tag.name} ({tag.count})
+                        </option>
+                      ))}
+                    </select>
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={calcsQuery.favoritesOnly}
+                        onChange={(event) =>
+                          setCalcsQuery((previous) => ({ ...previous, favoritesOnly: event.target.checked }))
                         }
-                      >
-                        Load
-                      </button>
-                    </li>
-                  ))}
-                </ul>
+                      />{" "}
+                      Favorites ({calcFacets.favorites})
+                    </label>
+                    <button type="submit" disabled={loadingCalcs}>
+                      Apply
+                    </button>
+                  </form>
+                  {calcs.length === 0 && !loadingCalcs && <p>No calculators saved yet.</p>}
+                  {calcs.length > 0 && (
+                    <ul className="calc-list">
+                      {calcs.map((calc) => (
+                        <li key={calc.calcId} className="calc-item">
+                          <div>
+                            {renamingCalc?.calcId === calc.calcId ? (
+                              <input
+                                aria-label={`Rename ${calc.title}`}
+                                value={renamingCalc.title}
+                                autoFocus
+                                onChange={(event) =>
+                                  setRenamingCalc({ calcId: calc.calcId, title: event.target.value })
+                                }
+                                onKeyDown={(event) => {
+                                  if (event.key === "Enter") {
+                                    event.preventDefault();
+                                    void renameCalculator(calc, renamingCalc.title);
+                                  } else if (event.key === "Escape") {
+                                    setRenamingCalc(null);
+                                  }
+                                }}
+                                onBlur={() => setRenamingCalc(null)}
+                              />
+                            ) : (
+                              <strong
+                                title="Double-click to rename"
+                                onDoubleClick={() => setRenamingCalc({ calcId: calc.calcId, title: calc.title })}
+                              >
+                                {calc.title}
+                              </strong>
+                            )}
+                            {calc.description && <div className="calc-meta">{calc.description}</div>}
+                            {(calc.folder || (calc.tags?.length ?? 0) > 0) && (
+                              <div className="calc-meta">
+                                {calc.folder ? `Folder: ${calc.folder}` : ""}
+                                {calc.folder && calc.tags?.length ? " | " : ""}
+                                {calc.tags?.length ? `Tags: ${calc.tags.join(", ")}` : ""}
+                              </div>
+                            )}
+                            <div className="calc-meta">
+                              Updated {new Date(calc.updatedAt).toLocaleString()}
+                              {calc.versionCount !== undefined ? ` | ${calc.versionCount} versions` : ""}
+                              {calc.executionModel ? ` | ${calc.executionModel}` : ""}
+                              {calc.lastVersionStatus && calc.lastVersionStatus !== "ok"
+                                ? ` | latest ${calc.lastVersionStatus}`
+                                : ""}
+                            </div>
+                            <div className="calc-meta">ID {calc.calcId}</div>
+                            {organizingCalc?.calcId === calc.calcId && (
+                              <form
+                                className="actions calc-organize"
+                                onSubmit={(event) => {
+                                  event.preventDefault();
+                                  void organizeCalculator(calc, {
+                                    folder: organizingCalc.folder.trim() || null,
+                                    tags: organizingCalc.tags
+                                      .split(",")
+                                      .map((tag) => tag.trim())
+                                      .filter(Boolean),
+                                  });
+                                }}
+                              >
+                                <input
+                                  aria-label="Folder"
+                                  placeholder="Folder"
+                                  value={organizingCalc.folder}
+                                  onChange={(event) =>
+                                    setOrganizingCalc((previous) =>
+                                      previous ? { ...previous, folder: event.target.value } : previous
+                                    )
+                                  }
+                                />
+                                <input
+                                  aria-label="Tags"
+                                  placeholder="Tags, comma separated"
+                                  value={organizingCalc.tags}
+                                  onChange={(event) =>
+                                    setOrganizingCalc((previous) =>
+                                      previous ? { ...previous, tags: event.target.value } : previous
+                                    )
+                                  }
+                                />
+                                <button type="submit">Save</button>
+                                <button type="button" className="secondary" onClick={() => setOrganizingCalc(null)}>
+                                  Cancel
+                                </button>
+                              </form>
+                            )}
+                          </div>
+                          <div className="actions">
+                            <button
+                              type="button"
+                              className="secondary"
+                              aria-label={calc.favorite ? `Unfavorite ${calc.title}` : `Favorite ${calc.title}`}
+                              aria-pressed={calc.favorite === true}
+                              onClick={() => void organizeCalculator(calc, { favorite: !calc.favorite })}
+                            >
+                              {calc.favorite ? "\u2605" : "\u2606"}
+                            </button>
+                            <button
+                              type="button"
+                              className="secondary"
+                              onClick={() => setRenamingCalc({ calcId: calc.calcId, title: calc.title })}
+                            >
+                              Rename
+                            </button>
+                            <button
+                              type="button"
+                              className="secondary"
+                              onClick={() =>
+                                setOrganizingCalc({
+                                  calcId: calc.calcId,
+                                  folder: calc.folder ?? "",
+                                  tags: (calc.tags ?? []).join(", "),
+                                })
+                              }
+                            >
+                              Organize
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                void loadVersion(calc.calcId, calc.currentVersionId, calc.etag)
+                              }
+                            >
+                              Load
+                            </button>
+                            <button
+                              type="button"
+                              className="secondary"
+                              aria-label={`Delete ${calc.title}`}
+                              onClick={() => void deleteCalculator(calc)}
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {calcsContinuation && (
+                    <button
+                      type="button"
+                      className="secondary"
+                      onClick={() => void loadCalcs(calcsContinuation)}
+                      disabled={loadingCalcs}
+                    >
+                      Load more
+                    </button>
+                  )}
+                </>
               )}
             </section>
 
@@ -967,6 +2379,17 @@ const App = () => {
           </div>
         )}
       </section>
+      {undoDelete && (
+        <div className="toast" role="status">
+          <span>Moved "{undoDelete.title}" to the trash.</span>
+          <button type="button" onClick={() => void restoreCalculator(undoDelete.calcId)}>
+            Undo
+          </button>
+          <button type="button" className="secondary" aria-label="Dismiss" onClick={() => setUndoDelete(null)}>
+            {"\u00d7"}
+          </button>
+        </div>
+      )}
       {pendingInterstitial && (
         <div className="interstitial-overlay" role="dialog" aria-modal="true">
           <div className="interstitial">
@@ -1004,6 +2427,44 @@ const App = () => {
           </div>
         </div>
       )}
+      {versionConflict && (
+        <div className="interstitial-overlay" role="dialog" aria-modal="true">
+          <div className="interstitial">
+            <h3>Someone else changed this calculator</h3>
+            {versionConflict.current ? (
+              <p>
+                It now points at v{versionConflict.current.currentVersionId}, updated{" "}
+                {new Date(versionConflict.current.updatedAt).toLocaleString()}.
+                {versionConflict.versionId
+                  ? ` Your version v${versionConflict.versionId} was saved but is not current.`
+                  : " Nothing was generated."}
+              </p>
+            ) : (
+              <p>The calculator no longer exists.</p>
+            )}
+            <div className="actions">
+              <button
+                type="button"
+                className="secondary"
+                autoFocus
+                onClick={() => setVersionConflict(null)}
+              >
+                Cancel
+              </button>
+              {versionConflict.current && (
+                <button type="button" onClick={() => void loadLatestAfterConflict()}>
+                  Load latest
+                </button>
+              )}
+              {versionConflict.current && versionConflict.versionId && (
+                <button type="button" onClick={() => void keepMyVersionAfterConflict()}>
+                  Keep my version
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,112 @@
+/**
+ * Purpose: Validate CalculatorRenderer layout rendering and formula evaluation for spec calculators.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+
+import type { CalculatorSpec } from "@promptcalc/types";
+
+import { CalculatorRenderer } from "./CalculatorRenderer";
+
+const TIP_SPEC: CalculatorSpec = {
+  specVersion: "1.0",
+  title: "Tip Calculator",
+  description: "Splits a bill with tip.",
+  inputs: [
+    { id: "bill", label: "Bill", type: "number", unit: "$", min: 0, default: 50 },
+    { id: "tipPct", label: "Tip", type: "number", unit: "%", min: 0, max: 100, default: 20 },
+  ],
+  outputs: [
+    {
+      id: "tip",
+      label: "Tip amount",
+      precision: 2,
+      formula: {
+        kind: "binary",
+        op: "*",
+        left: { kind: "ref", id: "bill" },
+        right: {
+          kind: "binary",
+          op: "/",
+          left: { kind: "ref", id: "tipPct" },
+          right: { kind: "number", value: 100 },
+        },
+      },
+    },
+    {
+      id: "total",
+      label: "Total",
+      unit: "$",
+      precision: 2,
+      formula: {
+        kind: "binary",
+        op: "+",
+        left: { kind: "ref", id: "bill" },
+        right: { kind: "ref", id: "tip" },
+      },
+    },
+  ],
+  layout: [
+    { id: "in", title: "Inputs", fields: ["bill", "tipPct"] },
+    { id: "out", title: "Results", fields: ["tip", "total"] },
+  ],
+};
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("CalculatorRenderer", () => {
+  it("renders layout groups and computes outputs from defaults", () => {
+    render(<CalculatorRenderer spec={TIP_SPEC} />);
+
+    expect(screen.getByText("Inputs")).toBeTruthy();
+    expect(screen.getByText("Results")).toBeTruthy();
+    expect(screen.getByTestId("spec-output-tip").textContent).toBe("10.00");
+    expect(screen.getByTestId("spec-output-total").textContent).toBe("60.00 $");
+  });
+
+  it("recomputes outputs when inputs change", () => {
+    render(<CalculatorRenderer spec={TIP_SPEC} />);
+
+    fireEvent.change(screen.getByLabelText("Bill ($)"), { target: { value: "100" } });
+
+    expect(screen.getByTestId("spec-output-total").textContent).toBe("120.00 $");
+  });
+
+  it("reports invalid inputs instead of computing", () => {
+    render(<CalculatorRenderer spec={TIP_SPEC} />);
+
+    fireEvent.change(screen.getByLabelText("Tip (%)"), { target: { value: "150" } });
+
+    expect(screen.getByTestId("spec-output-tip").textContent).toBe("Enter valid inputs.");
+  });
+
+  it("reports non-finite results", () => {
+    const spec: CalculatorSpec = {
+      ...TIP_SPEC,
+      outputs: [
+        {
+          id: "ratio",
+          label: "Ratio",
+          formula: {
+            kind: "binary",
+            op: "/",
+            left: { kind: "ref", id: "bill" },
+            right: { kind: "number", value: 0 },
+          },
+        },
+      ],
+      layout: [{ id: "all", title: "All", fields: ["bill", "tipPct", "ratio"] }],
+    };
+
+    render(<CalculatorRenderer spec={spec} />);
+
+    expect(screen.getByTestId("spec-output-ratio").textContent).toBe("Division by zero");
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Purpose: Render declarative calculator specs with trusted React inputs and formula evaluation.
+ * Persists: None.
+ * Security Risks: Evaluates model-authored formula ASTs through the shared SafeEvaluator only.
+ */
+
+import { useMemo, useState } from "react";
+
+import { evaluateNode, SafeEvaluatorError } from "@promptcalc/evaluator";
+import type { CalculatorSpec, CalculatorSpecInput, CalculatorSpecOutput } from "@promptcalc/types";
+
+interface CalculatorRendererProps {
+  spec: CalculatorSpec;
+}
+
+type OutputValue = { ok: true; value: number } | { ok: false; message: string };
+
+const initialValues = (inputs: CalculatorSpecInput[]): Record<string, string> =>
+  Object.fromEntries(
+    inputs.map((input) => [input.id, input.default !== undefined ? String(input.default) : ""])
+  );
+
+const computeOutputs = (
+  spec: CalculatorSpec,
+  rawValues: Record<string, string>
+): Record<string, OutputValue> => {
+  const variables: Record<string, number> = {};
+  const invalidInputs = new Set<string>();
+  for (const input of spec.inputs) {
+    const raw = rawValues[input.id]?.trim() ?? "";
+    const value = raw.length > 0 ? Number(raw) : Number.NaN;
+    if (
+      !Number.isFinite(value) ||
+      (input.min !== undefined && value < input.min) ||
+      (input.max !== undefined && value > input.max)
+    ) {
+      invalidInputs.add(input.id);
+      continue;
+    }
+    variables[input.id] = value;
+  }
+
+  const results: Record<string, OutputValue> = {};
+  for (const output of spec.outputs) {
+    if (invalidInputs.size > 0) {
+      results[output.id] = { ok: false, message: "Enter valid inputs." };
+      continue;
+    }
+    try {
+      const { value } = evaluateNode(output.formula, { variables });
+      variables[output.id] = value;
+      results[output.id] = { ok: true, value };
+    } catch (err) {
+      results[output.id] = {
+        ok: false,
+        message: err instanceof SafeEvaluatorError ? err.message : "Unable to compute",
+      };
+    }
+  }
+  return results;
+};
+
+const formatOutput = (output: CalculatorSpecOutput, result: OutputValue): string => {
+  if (!result.ok) {
+    return result.message;
+  }
+  const formatted =
+    output.precision !== undefined ? result.value.toFixed(output.precision) : String(result.value);
+  return output.unit ? `${formatted} ${output.unit}` : formatted;
+};
+
+export const CalculatorRenderer = ({ spec }: CalculatorRendererProps) => {
+  const [values, setValues] = useState<Record<string, string>>(() => initialValues(spec.inputs));
+
+  const inputsById = useMemo(
+    () => new Map(spec.inputs.map((input) => [input.id, input])),
+    [spec.inputs]
+  );
+  const outputsById = useMemo(
+    () => new Map(spec.outputs.map((output) => [output.id, output])),
+    [spec.outputs]
+  );
+  const results = useMemo(() => computeOutputs(spec, values), [spec, values]);
+
+  return (
+    <div className="spec-renderer" data-testid="calculator-renderer">
+      <h3>{spec.title}</h3>
+      {spec.description && <p className="status">{spec.description}</p>}
+      {spec.layout.map((group) => (
+        <fieldset key={group.id} className="spec-group">
+          <legend>{group.title}</legend>
+          {group.fields.map((fieldId) => {
+            const input = inputsById.get(fieldId);
+            if (input) {
+              const inputId = `spec-input-${input.id}`;
+              return (
+                <div key={fieldId} className="spec-field">
+                  <label htmlFor={inputId}>
+                    {input.label}
+                    {input.unit ? ` (${input.unit})` : ""}
+                  </label>
+                  <input
+                    id={inputId}
+                    type="number"
+                    inputMode="decimal"
+                    min={input.min}
+                    max={input.max}
+                    step={input.step ?? "any"}
+                    value={values[input.id] ?? ""}
+                    onChange={(event) =>
+                      setValues((previous) => ({ ...previous, [input.id]: event.target.value }))
+                    }
+                  />
+                </div>
+              );
+            }
+            const output = outputsById.get(fieldId);
+            if (output) {
+              const result = results[output.id];
+              return (
+                <div key={fieldId} className="spec-field">
+                  <span>{output.label}</span>
+                  <output
+                    data-testid={`spec-output-${output.id}`}
+                    className={result?.ok ? "spec-output" : "spec-output error"}
+                  >
+                    {result ? formatOutput(output, result) : ""}
+                  </output>
+                </div>
+              );
+            }
+            return null;
+          })}
+        </fieldset>
+      ))}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 /**
- * Purpose: Validate CalculatorViewer watchdog readiness handling for sandboxed artifacts.
+ * Purpose: Validate CalculatorViewer watchdog readiness handling and integrity checks for sandboxed artifacts.
  * Persists: None.
  * Security Risks: Exercises message handling for untrusted iframe content.
  */
@@ -7,11 +7,17 @@
 // @vitest-environment jsdom
 
 import { describe, expect, it, vi } from "vitest";
-import { render } from "@testing-library/react";
+import { render, waitFor } from "@testing-library/react";
 
 import { CalculatorViewer } from "./CalculatorViewer";
 
 const MINIMAL_HTML = "<!doctype html><html><head></head><body>calc</body></html>";
+// SHA-256 of MINIMAL_HTML; the embedded manifest below is excluded from the canonical hash.
+const MINIMAL_HTML_HASH = "71b40b72716a05ed360a17ae5eba3281d532f3e02b3ade2e72167c3e401530f1";
+const MANIFEST_HTML = MINIMAL_HTML.replace(
+  "</body>",
+  `<script type="application/json" id="promptcalc-manifest">{"hash":"${MINIMAL_HTML_HASH}"}</script></body>`
+);
 const stubHandshakeToken = (tokens: string[]) => {
   const originalCrypto = globalThis.crypto;
   const mockCrypto = {
@@ -218,15 +224,45 @@ describe("CalculatorViewer", () => {
     vi.useRealTimers();
   });
 
-  it("times out when no READY message arrives", async () => {
+  it("assigns srcDoc only after the canonical hash matches", async () => {
+    const { container } = render(
+      <CalculatorViewer artifactHtml={MANIFEST_HTML} expectedHash={MINIMAL_HTML_HASH} timeoutMs={5000} />
+    );
+    const iframe = container.querySelector("iframe") as HTMLIFrameElement;
+
+    expect(iframe.getAttribute("srcdoc") ?? "").toBe("");
+    await waitFor(() => expect(iframe.getAttribute("srcdoc")).toContain("promptcalc-manifest"));
+  });
+
+  it("refuses to render artifacts whose hash does not match", async () => {
+    const { container } = render(
+      <CalculatorViewer
+        artifactHtml={MANIFEST_HTML.replace("calc", "tampered")}
+        expectedHash={MINIMAL_HTML_HASH}
+        timeoutMs={5000}
+      />
+    );
+
+    await waitFor(() =>
+      expect(container.querySelector(".viewer-status")?.textContent ?? "").toContain("INTEGRITY_MISMATCH")
+    );
+    expect(container.querySelector("iframe")?.getAttribute("srcdoc") ?? "").toBe("");
+  });
+
+  it("times out when no READY message arrives and reports the failure once", async () => {
     vi.useFakeTimers();
+    const onLoadFailure = vi.fn();
 
-    const { container } = render(<CalculatorViewer artifactHtml={MINIMAL_HTML} timeoutMs={20} />);
+    const { container } = render(
+      <CalculatorViewer artifactHtml={MINIMAL_HTML} timeoutMs={20} onLoadFailure={onLoadFailure} />
+    );
 
     await vi.advanceTimersByTimeAsync(40);
 
     const statusText = container.querySelector(".viewer-status")?.textContent ?? "";
     expect(statusText).toContain("WATCHDOG_TIMEOUT");
+    expect(onLoadFailure).toHaveBeenCalledTimes(1);
+    expect(onLoadFailure).toHaveBeenCalledWith(expect.objectContaining({ code: "WATCHDOG_TIMEOUT" }));
 
     vi.useRealTimers();
   });
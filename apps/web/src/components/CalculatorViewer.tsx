@@ -6,75 +6,32 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
+import { computeArtifactHash, normalizeArtifactHtml } from "../policy/artifactHtml";
 import { getCspTemplate } from "../policy/csp";
 
 type ViewerStatus = "loading" | "ready" | "error";
 
-type ViewerErrorCode = "WATCHDOG_TIMEOUT";
+export type ViewerErrorCode = "WATCHDOG_TIMEOUT" | "INTEGRITY_MISMATCH" | "INTEGRITY_UNAVAILABLE";
+
+/** Failures caused by the artifact itself; INTEGRITY_UNAVAILABLE is a browser limitation and is not reported. */
+export type ViewerLoadFailure = {
+  code: Exclude<ViewerErrorCode, "INTEGRITY_UNAVAILABLE">;
+  loadId: string;
+};
 
 interface CalculatorViewerProps {
   artifactHtml: string;
   calcId?: string | null;
   versionId?: string | null;
+  /** Canonical SHA-256 from the manifest; when set, the artifact is only rendered if it matches. */
+  expectedHash?: string | null;
   timeoutMs?: number;
+  /** Called once per load that fails; the caller reports it so repeat offenders get quarantined. */
+  onLoadFailure?: (failure: ViewerLoadFailure) => void;
 }
 
 const DEFAULT_TIMEOUT_MS = 4000;
 
-const READY_BOOTSTRAP_ID = "promptcalc-ready";
-const READY_BOOTSTRAP_SCRIPT =
-  "<script id=\"promptcalc-ready\">(function(){try{const safePost=(payload)=>{try{window.parent.postMessage(payload,\"*\");}catch{}};const state={loadId:null,token:null,ready:false,domReady:document.readyState!==\"loading\"};const sendReady=()=>{if(state.ready||!state.loadId||!state.token){return;}state.ready=true;safePost({type:\"PROMPTCALC_READY\",v:\"1\",ts:Date.now(),loadId:state.loadId,token:state.token});};const handlePing=(event)=>{try{const data=event&&event.data;if(!data||data.type!==\"PING\"){return;}if(typeof data.loadId!==\"string\"||typeof data.token!==\"string\"){return;}state.loadId=data.loadId;state.token=data.token;sendReady();if(!state.domReady){document.addEventListener(\"DOMContentLoaded\",()=>{state.domReady=true;sendReady();},{once:true});}}catch{}};if(document.readyState===\"loading\"){document.addEventListener(\"DOMContentLoaded\",()=>{state.domReady=true;sendReady();},{once:true});}window.addEventListener(\"message\",handlePing);}catch{}})();</script>";
-const READY_BOOTSTRAP_REGEX = new RegExp(
-  `<script[^>]*id=["']${READY_BOOTSTRAP_ID}["'][^>]*>`,
-  "i"
-);
-
-const ensureReadyBootstrap = (artifactHtml: string, cspMetaRegex: RegExp): string => {
-  if (READY_BOOTSTRAP_REGEX.test(artifactHtml)) {
-    return artifactHtml;
-  }
-
-  if (cspMetaRegex.test(artifactHtml)) {
-    return artifactHtml.replace(
-      cspMetaRegex,
-      (match) => `${match}${READY_BOOTSTRAP_SCRIPT}`
-    );
-  }
-
-  if (/<head[^>]*>/i.test(artifactHtml)) {
-    return artifactHtml.replace(
-      /<head[^>]*>/i,
-      (match) => `${match}${READY_BOOTSTRAP_SCRIPT}`
-    );
-  }
-
-  if (/<body[^>]*>/i.test(artifactHtml)) {
-    return artifactHtml.replace(
-      /<body[^>]*>/i,
-      (match) => `${match}${READY_BOOTSTRAP_SCRIPT}`
-    );
-  }
-
-  return `${READY_BOOTSTRAP_SCRIPT}${artifactHtml}`;
-};
-
-const normalizeArtifactHtml = (artifactHtml: string, csp: string): string => {
-  const cspMeta = `<meta http-equiv="Content-Security-Policy" content="${csp}">`;
-  const cspMetaRegex = /<meta[^>]+http-equiv=["']Content-Security-Policy["'][^>]*>/i;
-
-  let html = artifactHtml;
-
-  if (cspMetaRegex.test(html)) {
-    html = html.replace(cspMetaRegex, cspMeta);
-  } else if (/<head[^>]*>/i.test(html)) {
-    html = html.replace(/<head[^>]*>/i, (match) => `${match}${cspMeta}`);
-  } else {
-    html = `${cspMeta}${html}`;
-  }
-
-  return ensureReadyBootstrap(html, cspMetaRegex);
-};
-
 const isHandshakeMessage = (
   data: unknown
 ): data is {
@@ -120,19 +77,13 @@ const generateHandshakeToken = (): string => {
   return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 };
 
-const computeArtifactHash = (artifactHtml: string) => {
-  let hash = 0;
-  for (let i = 0; i < artifactHtml.length; i += 1) {
-    hash = (hash * 31 + artifactHtml.charCodeAt(i)) | 0;
-  }
-  return Math.abs(hash).toString(16);
-};
-
 export const CalculatorViewer = ({
   artifactHtml,
   calcId,
   versionId,
+  expectedHash,
   timeoutMs = DEFAULT_TIMEOUT_MS,
+  onLoadFailure,
 }: CalculatorViewerProps) => {
   const cspTemplate = useMemo(() => getCspTemplate(), []);
   const iframeRef = useRef<HTMLIFrameElement | null>(null);
@@ -143,6 +94,9 @@ export const CalculatorViewer = ({
   const handshakeTokenRef = useRef<string>("");
   const iframeLoadRef = useRef(false);
   const loadIdRef = useRef<string>("");
+  // Kept in a ref so a new callback identity does not restart the load.
+  const onLoadFailureRef = useRef(onLoadFailure);
+  onLoadFailureRef.current = onLoadFailure;
   const [status, setStatus] = useState<ViewerStatus>("loading");
   const [errorCode, setErrorCode] = useState<ViewerErrorCode | null>(null);
   const [traceId, setTraceId] = useState<string | null>(null);
@@ -288,6 +242,7 @@ export const CalculatorViewer = ({
 
   useEffect(() => {
     stopWatchdog("reload");
+    let cancelled = false;
 
     const nextLoadId = generateHandshakeToken();
     const nextToken = generateHandshakeToken();
@@ -295,25 +250,9 @@ export const CalculatorViewer = ({
     handshakeTokenRef.current = nextToken;
     setLoadId(nextLoadId);
 
-    const artifactHash = computeArtifactHash(normalizedArtifactHtml);
-    if (isDev) {
-      console.warn("CalculatorViewer load.start", {
-        loadId: nextLoadId,
-        artifactHash,
-        len: normalizedArtifactHtml.length,
-      });
-    }
-
     setStatus("loading");
     setErrorCode(null);
     setTraceId(null);
-    setSrcDoc(normalizedArtifactHtml);
-    if (isDev) {
-      console.warn("CalculatorViewer srcdoc.assigned", {
-        loadId: nextLoadId,
-        len: normalizedArtifactHtml.length,
-      });
-    }
     pingSentRef.current = false;
     iframeLoadRef.current = false;
     if (isDev) {
@@ -323,30 +262,80 @@ export const CalculatorViewer = ({
       setLastMsgOrigin(null);
     }
 
-    const timeoutLoadId = nextLoadId;
-    watchdogLoadIdRef.current = timeoutLoadId;
-    timerRef.current = window.setTimeout(() => {
-      if (loadIdRef.current !== timeoutLoadId) {
-        return;
+    const startLoad = (artifactHash: string | null) => {
+      if (isDev) {
+        console.warn("CalculatorViewer load.start", {
+          loadId: nextLoadId,
+          artifactHash,
+          len: normalizedArtifactHtml.length,
+        });
       }
-      console.warn("CalculatorViewer watchdog.timeout", {
-        loadId: timeoutLoadId,
-      });
-      setStatus("error");
-      setErrorCode("WATCHDOG_TIMEOUT");
-    }, timeoutMs);
-    if (isDev) {
-      console.warn("CalculatorViewer watchdog started", {
-        loadId: nextLoadId,
-        timeoutMs,
-      });
+
+      setSrcDoc(normalizedArtifactHtml);
+      if (isDev) {
+        console.warn("CalculatorViewer srcdoc.assigned", {
+          loadId: nextLoadId,
+          len: normalizedArtifactHtml.length,
+        });
+      }
+
+      const timeoutLoadId = nextLoadId;
+      watchdogLoadIdRef.current = timeoutLoadId;
+      timerRef.current = window.setTimeout(() => {
+        if (loadIdRef.current !== timeoutLoadId) {
+          return;
+        }
+        console.warn("CalculatorViewer watchdog.timeout", {
+          loadId: timeoutLoadId,
+        });
+        setStatus("error");
+        setErrorCode("WATCHDOG_TIMEOUT");
+        onLoadFailureRef.current?.({ code: "WATCHDOG_TIMEOUT", loadId: timeoutLoadId });
+      }, timeoutMs);
+      if (isDev) {
+        console.warn("CalculatorViewer watchdog started", {
+          loadId: nextLoadId,
+          timeoutMs,
+        });
+      }
+    };
+
+    if (!expectedHash) {
+      startLoad(null);
+    } else {
+      // Never hand unverified content to the iframe: clear srcDoc until the hash matches.
+      setSrcDoc("");
+      void computeArtifactHash(artifactHtml)
+        .catch(() => null)
+        .then((artifactHash) => {
+          if (cancelled || loadIdRef.current !== nextLoadId) {
+            return;
+          }
+          if (artifactHash !== expectedHash) {
+            console.warn("CalculatorViewer integrity.failed", {
+              loadId: nextLoadId,
+              expectedHash,
+              artifactHash,
+            });
+            setStatus("error");
+            setErrorCode(artifactHash === null ? "INTEGRITY_UNAVAILABLE" : "INTEGRITY_MISMATCH");
+            if (artifactHash !== null) {
+              onLoadFailureRef.current?.({ code: "INTEGRITY_MISMATCH", loadId: nextLoadId });
+            }
+            return;
+          }
+          startLoad(artifactHash);
+        });
     }
 
     return () => {
+      cancelled = true;
       stopWatchdog("cleanup");
     };
   }, [
+    artifactHtml,
     normalizedArtifactHtml,
+    expectedHash,
     timeoutMs,
     reloadToken,
     calcId,
@@ -437,7 +426,11 @@ export const CalculatorViewer = ({
       </div>
       {status === "error" && (
         <div className="viewer-error" role="alert">
-          <p>Viewer failed to load the calculator content.</p>
+          <p>
+            {errorCode === "INTEGRITY_MISMATCH" || errorCode === "INTEGRITY_UNAVAILABLE"
+              ? "Calculator content failed integrity verification and was not loaded."
+              : "Viewer failed to load the calculator content."}
+          </p>
           <button type="button" onClick={handleRetry}>
             Retry
           </button>
@@ -0,0 +1,79 @@
+/**
+ * Purpose: Validate ShareLinks lists, creates, and revokes a calculator's share links.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+
+import { buildShareUrl, ShareLinks } from "./ShareLinks";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const LINK = {
+  id: "a".repeat(64),
+  versionId: "v1",
+  createdAt: "2026-03-01T00:00:00.000Z",
+  expiresAt: null,
+  expired: false,
+};
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("ShareLinks", () => {
+  it("creates a pinned link and revokes an existing one", async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.method === "POST") {
+        return jsonResponse({ share: { ...LINK, id: "c".repeat(64), token: "b".repeat(64) } });
+      }
+      if (init?.method === "DELETE") {
+        return jsonResponse({ ok: true });
+      }
+      return jsonResponse({ items: [LINK] });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+
+    render(
+      <ShareLinks
+        calcId="calc-1"
+        versions={[
+          { versionId: "v1", createdAt: LINK.createdAt, status: "ok", label: "launch" },
+          { versionId: "v2", createdAt: LINK.createdAt, status: "quarantined" },
+        ]}
+      />
+    );
+
+    expect(await screen.findByText(/never expires/)).toBeTruthy();
+    expect(screen.queryByRole("option", { name: "v2" })).toBeNull();
+
+    fireEvent.change(screen.getByLabelText("Share"), { target: { value: "v1" } });
+    fireEvent.click(screen.getByText("Create share link"));
+    const createdUrl = buildShareUrl("b".repeat(64));
+    expect(
+      await screen.findByText(`Share link created: ${createdUrl}. Copy it now; it is not shown again.`)
+    ).toBeTruthy();
+    const writeText = vi.fn(async () => undefined);
+    vi.stubGlobal("navigator", { clipboard: { writeText } });
+    fireEvent.click(screen.getByText("Copy link"));
+    await waitFor(() => expect(writeText).toHaveBeenCalledWith(createdUrl));
+    expect(fetchMock).toHaveBeenCalledWith(
+      "/api/calcs/calc-1/shares",
+      expect.objectContaining({ method: "POST", body: JSON.stringify({ versionId: "v1" }) })
+    );
+
+    fireEvent.click(screen.getByText("Revoke"));
+    await waitFor(() =>
+      expect(fetchMock).toHaveBeenCalledWith(`/api/calcs/calc-1/shares/${LINK.id}`, { method: "DELETE" })
+    );
+    expect(await screen.findByText("Share link revoked.")).toBeTruthy();
+  });
+});
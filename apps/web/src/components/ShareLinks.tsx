@@ -0,0 +1,183 @@
+/**
+ * Purpose: Let a calculator's owner create, copy, and revoke read-only share links.
+ * Persists: None (links are stored by the API).
+ * Security Risks: Each link grants anyone holding it read access to the shared version; the API stores only a hash,
+ * so the link is shown once, when it is created, and revoking one takes effect immediately.
+ */
+
+import { useEffect, useState } from "react";
+
+export interface ShareLinkSummary {
+  /** Hash of the token; identifies the link for revoking but cannot be used to open it. */
+  id: string;
+  /** Null for links that follow the current version. */
+  versionId: string | null;
+  createdAt: string;
+  expiresAt: string | null;
+  expired: boolean;
+}
+
+interface ShareLinksProps {
+  calcId: string;
+  versions: Array<{ versionId: string; createdAt: string; status: string; label?: string }>;
+}
+
+const CURRENT_VERSION = "";
+
+export const buildShareUrl = (token: string, origin: string = window.location.origin): string =>
+  `${origin}/?share=${encodeURIComponent(token)}`;
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  const data = (await response.json().catch(() => null)) as { message?: string } | null;
+  return data?.message ?? `${fallback} (${response.status})`;
+};
+
+export const ShareLinks = ({ calcId, versions }: ShareLinksProps) => {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [draft, setDraft] = useState<{ versionId: string; expiresOn: string }>({
+    versionId: CURRENT_VERSION,
+    expiresOn: "",
+  });
+  const [status, setStatus] = useState<string | null>(null);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const base = `/api/calcs/${encodeURIComponent(calcId)}/shares`;
+
+  const loadLinks = async () => {
+    try {
+      const response = await fetch(base);
+      if (!response.ok) {
+        throw new Error(await readError(response, "Share links failed"));
+      }
+      const data = (await response.json()) as { items: ShareLinkSummary[] };
+      setLinks(data.items);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  useEffect(() => {
+    setLinks([]);
+    setStatus(null);
+    setCreatedToken(null);
+    setDraft({ versionId: CURRENT_VERSION, expiresOn: "" });
+    void loadLinks();
+  }, [calcId]);
+
+  const createLink = async () => {
+    setStatus(null);
+    setCreatedToken(null);
+    try {
+      const response = await fetch(base, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          versionId: draft.versionId || null,
+          // The link stops working at the end of the chosen day, local time.
+          ...(draft.expiresOn ? { expiresAt: new Date(`${draft.expiresOn}T23:59:59`).toISOString() } : {}),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Share failed"));
+      }
+      const data = (await response.json()) as { share: ShareLinkSummary & { token: string } };
+      setCreatedToken(data.share.token);
+      setStatus(`Share link created: ${buildShareUrl(data.share.token)}. Copy it now; it is not shown again.`);
+      await loadLinks();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(token));
+      setStatus("Link copied.");
+    } catch {
+      setStatus(`Copy this link: ${buildShareUrl(token)}`);
+    }
+  };
+
+  const revokeLink = async (id: string) => {
+    if (!window.confirm("Revoke this share link? Anyone using it will lose access.")) {
+      return;
+    }
+    setStatus(null);
+    setCreatedToken(null);
+    try {
+      const response = await fetch(`${base}/${encodeURIComponent(id)}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(await readError(response, "Revoke failed"));
+      }
+      setStatus("Share link revoked.");
+      await loadLinks();
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  return (
+    <div className="share-links">
+      <form
+        className="generate"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void createLink();
+        }}
+      >
+        <label htmlFor="share-version">Share</label>
+        <select
+          id="share-version"
+          value={draft.versionId}
+          onChange={(event) => setDraft({ ...draft, versionId: event.target.value })}
+        >
+          <option value={CURRENT_VERSION}>Current version (follows promotions)</option>
+          {versions
+            .filter((version) => version.status !== "quarantined")
+            .map((version) => (
+              <option key={version.versionId} value={version.versionId}>
+                {version.label ? `${version.label} (v${version.versionId})` : `v${version.versionId}`}
+              </option>
+            ))}
+        </select>
+        <label htmlFor="share-expires">Expires (optional)</label>
+        <input
+          id="share-expires"
+          type="date"
+          value={draft.expiresOn}
+          onChange={(event) => setDraft({ ...draft, expiresOn: event.target.value })}
+        />
+        <button type="submit">Create share link</button>
+      </form>
+      {links.length === 0 ? (
+        <p className="calc-meta">No share links.</p>
+      ) : (
+        <ul className="share-link-list">
+          {links.map((link) => (
+            <li key={link.id}>
+              <span className="calc-meta">
+                {link.versionId ? `v${link.versionId}` : "Current version"}
+                {" - created "}
+                {new Date(link.createdAt).toLocaleString()}
+                {link.expiresAt
+                  ? ` - ${link.expired ? "expired" : "expires"} ${new Date(link.expiresAt).toLocaleString()}`
+                  : " - never expires"}
+              </span>
+              <div className="actions">
+                <button type="button" className="secondary" onClick={() => void revokeLink(link.id)}>
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {status && <p className="status">{status}</p>}
+      {createdToken && (
+        <button type="button" className="secondary" onClick={() => void copyLink(createdToken)}>
+          Copy link
+        </button>
+      )}
+    </div>
+  );
+};
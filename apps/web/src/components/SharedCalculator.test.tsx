@@ -0,0 +1,71 @@
+/**
+ * Purpose: Validate SharedCalculator renders a shared version read-only and explains revoked or expired links.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, render, screen } from "@testing-library/react";
+
+vi.mock("./CalculatorViewer", () => ({
+  CalculatorViewer: ({ artifactHtml, expectedHash }: { artifactHtml: string; expectedHash: string | null }) => (
+    <div data-testid="viewer" data-hash={expectedHash ?? ""}>
+      {artifactHtml}
+    </div>
+  ),
+}));
+
+import { SharedCalculator } from "./SharedCalculator";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe("SharedCalculator", () => {
+  it("renders the shared artifact with its stored hash", async () => {
+    const fetchMock = vi.fn(async () =>
+      jsonResponse({
+        title: "Tip",
+        versionId: "v2",
+        followsCurrent: true,
+        expiresAt: null,
+        renderMode: "artifact",
+        manifest: { hash: "abc123" },
+        artifactHtml: "<p>shared</p>",
+        artifactHashScheme: "sha256-canonical-v1",
+      })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    render(<SharedCalculator token="tok en" />);
+
+    expect((await screen.findByTestId("viewer")).textContent).toBe("<p>shared</p>");
+    expect(screen.getByTestId("viewer").getAttribute("data-hash")).toBe("abc123");
+    expect(screen.getByText("Tip")).toBeTruthy();
+    expect(screen.getByText(/the owner's current version/)).toBeTruthy();
+    expect(fetchMock).toHaveBeenCalledWith("/api/shared/tok%20en");
+  });
+
+  it("explains expired and revoked links", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => jsonResponse({ code: "SHARE_LINK_EXPIRED" }, 410))
+    );
+    render(<SharedCalculator token="expired" />);
+    expect(await screen.findByText("Error: This share link has expired.")).toBeTruthy();
+    cleanup();
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => jsonResponse({ code: "NOT_FOUND" }, 404))
+    );
+    render(<SharedCalculator token="revoked" />);
+    expect(await screen.findByText("Error: This share link does not exist or was revoked.")).toBeTruthy();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Purpose: Show a calculator opened from a read-only share link, without the editor or any owner data.
+ * Persists: None.
+ * Security Risks: The shared artifact is untrusted and renders only through the sandboxed CalculatorViewer with its
+ * stored hash verified; the share token is read from the URL and sent only to the API.
+ */
+
+import { useEffect, useState } from "react";
+
+import { ARTIFACT_HASH_SCHEME } from "@promptcalc/manifest";
+import type { CalculatorSpec, RenderMode } from "@promptcalc/types";
+
+import { CalculatorRenderer } from "./CalculatorRenderer";
+import { CalculatorViewer } from "./CalculatorViewer";
+
+interface SharedCalculatorProps {
+  token: string;
+}
+
+interface SharedCalculatorResponse {
+  title: string;
+  versionId: string;
+  followsCurrent: boolean;
+  expiresAt: string | null;
+  renderMode?: RenderMode;
+  manifest: Record<string, unknown>;
+  artifactHtml: string;
+  artifactHashScheme?: string;
+  spec?: CalculatorSpec;
+}
+
+type SharedState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; shared: SharedCalculatorResponse };
+
+// Revoked and unknown links both come back as 404 and read the same here.
+const SHARE_ERROR_MESSAGES: Record<number, string> = {
+  404: "This share link does not exist or was revoked.",
+  410: "This share link has expired.",
+  423: "This calculator version is quarantined pending review.",
+};
+
+export const SharedCalculator = ({ token }: SharedCalculatorProps) => {
+  const [state, setState] = useState<SharedState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    fetch(`/api/shared/${encodeURIComponent(token)}`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(SHARE_ERROR_MESSAGES[response.status] ?? `Shared calculator failed (${response.status})`);
+        }
+        return (await response.json()) as SharedCalculatorResponse;
+      })
+      .then((shared) => {
+        if (!cancelled) {
+          setState({ status: "ready", shared });
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setState({ status: "error", message: err instanceof Error ? err.message : "Unknown error" });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <main className="shared-calculator">
+      {state.status === "loading" && <p className="status">Loading shared calculator...</p>}
+      {state.status === "error" && <p className="error">Error: {state.message}</p>}
+      {state.status === "ready" && (
+        <>
+          <h1>{state.shared.title}</h1>
+          <p className="calc-meta">
+            Shared read-only copy, v{state.shared.versionId}
+            {state.shared.followsCurrent ? " (the owner's current version)" : ""}
+            {state.shared.expiresAt ? `; link expires ${new Date(state.shared.expiresAt).toLocaleString()}` : ""}
+          </p>
+          {state.shared.renderMode === "spec" && state.shared.spec ? (
+            <CalculatorRenderer spec={state.shared.spec} />
+          ) : (
+            <CalculatorViewer
+              artifactHtml={state.shared.artifactHtml}
+              expectedHash={
+                state.shared.artifactHashScheme === ARTIFACT_HASH_SCHEME &&
+                typeof state.shared.manifest.hash === "string"
+                  ? state.shared.manifest.hash
+                  : null
+              }
+            />
+          )}
+        </>
+      )}
+    </main>
+  );
+};
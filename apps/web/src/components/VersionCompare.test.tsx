@@ -0,0 +1,95 @@
+/**
+ * Purpose: Validate VersionCompare loads both versions and renders the manifest, scan, and text diff.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen } from "@testing-library/react";
+
+vi.mock("./CalculatorViewer", () => ({
+  CalculatorViewer: ({ artifactHtml }: { artifactHtml: string }) => <div data-testid="viewer">{artifactHtml}</div>,
+}));
+
+import { VersionCompare } from "./VersionCompare";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const DIFF = {
+  manifest: {
+    fields: [{ field: "title", from: "Tip", to: "Tip v2" }],
+    inputs: { added: [{ id: "people", label: "People" }], removed: [], changed: [] },
+    outputs: { added: [], removed: [], changed: [] },
+    limitations: { added: [], removed: [] },
+    safetyNotes: { added: [], removed: [] },
+  },
+  text: {
+    kind: "html",
+    identical: false,
+    added: 1,
+    removed: 1,
+    hunks: [
+      {
+        lines: [
+          { op: "remove", text: "<p>one</p>", fromLine: 1 },
+          { op: "add", text: "<p>two</p>", toLine: 1 },
+        ],
+      },
+    ],
+    truncated: false,
+  },
+  scan: {
+    from: { status: "clean" },
+    to: { status: "flagged" },
+    added: [{ code: "NETWORK", message: "fetch call", ruleId: "net.fetch" }],
+    removed: [],
+    unchanged: 0,
+  },
+};
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe("VersionCompare", () => {
+  it("renders both versions and the diff", async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.includes("/diff?")) {
+        return jsonResponse(DIFF);
+      }
+      const versionId = url.endsWith("/v1") ? "v1" : "v2";
+      return jsonResponse({ manifest: {}, artifactHtml: `html-${versionId}` });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const onClose = vi.fn();
+
+    render(<VersionCompare calcId="calc-1" fromVersionId="v1" toVersionId="v2" onClose={onClose} />);
+
+    expect(await screen.findByText("html-v1")).toBeTruthy();
+    expect(screen.getByText("html-v2")).toBeTruthy();
+    expect(screen.getByText('~ title: "Tip" -> "Tip v2"')).toBeTruthy();
+    expect(screen.getByText("+ input People (people)")).toBeTruthy();
+    expect(screen.getByText("+ net.fetch: fetch call")).toBeTruthy();
+    expect(document.querySelector(".diff-line.add")?.textContent).toBe("+ <p>two</p>");
+    expect(document.querySelector(".diff-line.remove")?.textContent).toBe("- <p>one</p>");
+    expect(fetchMock).toHaveBeenCalledWith("/api/calcs/calc-1/diff?from=v1&to=v2");
+
+    fireEvent.click(screen.getByText("Close compare"));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("shows the API error message", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => jsonResponse({ message: "Version not found." }, 404))
+    );
+
+    render(<VersionCompare calcId="calc-1" fromVersionId="v1" toVersionId="v9" onClose={() => undefined} />);
+
+    expect(await screen.findByText("Error: Version not found.")).toBeTruthy();
+  });
+});
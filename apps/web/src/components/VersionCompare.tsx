@@ -0,0 +1,234 @@
+/**
+ * Purpose: Show two stored calculator versions side by side with their manifest, text, and scan-findings diff.
+ * Persists: None.
+ * Security Risks: Both artifacts are untrusted and render only through the sandboxed CalculatorViewer; diff lines are
+ * rendered as text.
+ */
+
+import { useEffect, useState } from "react";
+
+import { ARTIFACT_HASH_SCHEME } from "@promptcalc/manifest";
+import type { CalculatorSpec, RenderMode } from "@promptcalc/types";
+
+import { CalculatorRenderer } from "./CalculatorRenderer";
+import { CalculatorViewer } from "./CalculatorViewer";
+
+interface VersionCompareProps {
+  calcId: string;
+  fromVersionId: string;
+  toVersionId: string;
+  onClose: () => void;
+}
+
+interface ComparedVersion {
+  renderMode?: RenderMode;
+  manifest: Record<string, unknown>;
+  artifactHtml: string;
+  artifactHashScheme?: string;
+  spec?: CalculatorSpec;
+}
+
+interface ManifestEntryRef {
+  id: string;
+  label?: string;
+}
+
+interface ManifestEntriesDiff {
+  added: ManifestEntryRef[];
+  removed: ManifestEntryRef[];
+  changed: Array<ManifestEntryRef & { fields: string[] }>;
+}
+
+interface TextDiffLine {
+  op: "equal" | "add" | "remove";
+  text: string;
+  fromLine?: number;
+  toLine?: number;
+}
+
+interface ScanFindingSummary {
+  code: string;
+  message: string;
+  ruleId?: string;
+  line?: number;
+}
+
+interface VersionDiffResponse {
+  manifest: {
+    fields: Array<{ field: string; from?: unknown; to?: unknown }>;
+    inputs: ManifestEntriesDiff;
+    outputs: ManifestEntriesDiff;
+    limitations: { added: string[]; removed: string[] };
+    safetyNotes: { added: string[]; removed: string[] };
+  };
+  text: {
+    kind: "html" | "spec";
+    identical: boolean;
+    added: number;
+    removed: number;
+    hunks: Array<{ lines: TextDiffLine[] }>;
+    truncated: boolean;
+  };
+  scan: {
+    from: { status?: string };
+    to: { status?: string };
+    added: ScanFindingSummary[];
+    removed: ScanFindingSummary[];
+    unchanged: number;
+  };
+}
+
+type CompareState =
+  | { status: "loading" }
+  | { status: "error"; message: string }
+  | { status: "ready"; from: ComparedVersion; to: ComparedVersion; diff: VersionDiffResponse };
+
+const fetchJson = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    const data = (await response.json().catch(() => null)) as { message?: string } | null;
+    throw new Error(data?.message ?? `Request failed (${response.status})`);
+  }
+  return (await response.json()) as T;
+};
+
+const formatEntry = (entry: ManifestEntryRef): string => (entry.label ? `${entry.label} (${entry.id})` : entry.id);
+
+const formatValue = (value: unknown): string => (value === undefined ? "(none)" : JSON.stringify(value));
+
+const describeEntries = (name: string, diff: ManifestEntriesDiff): string[] => [
+  ...diff.added.map((entry) => `+ ${name} ${formatEntry(entry)}`),
+  ...diff.removed.map((entry) => `- ${name} ${formatEntry(entry)}`),
+  ...diff.changed.map((entry) => `~ ${name} ${formatEntry(entry)}: ${entry.fields.join(", ")}`),
+];
+
+const describeManifestDiff = (manifest: VersionDiffResponse["manifest"]): string[] => [
+  ...manifest.fields.map((change) => `~ ${change.field}: ${formatValue(change.from)} -> ${formatValue(change.to)}`),
+  ...describeEntries("input", manifest.inputs),
+  ...describeEntries("output", manifest.outputs),
+  ...manifest.limitations.added.map((item) => `+ limitation: ${item}`),
+  ...manifest.limitations.removed.map((item) => `- limitation: ${item}`),
+  ...manifest.safetyNotes.added.map((item) => `+ safety note: ${item}`),
+  ...manifest.safetyNotes.removed.map((item) => `- safety note: ${item}`),
+];
+
+const formatFinding = (finding: ScanFindingSummary): string =>
+  `${finding.ruleId ?? finding.code}${finding.line ? ` (line ${finding.line})` : ""}: ${finding.message}`;
+
+const DIFF_LINE_PREFIX: Record<TextDiffLine["op"], string> = { equal: " ", add: "+", remove: "-" };
+
+const VersionPane = ({ label, version }: { label: string; version: ComparedVersion }) => (
+  <div className="compare-pane">
+    <h3>{label}</h3>
+    {version.renderMode === "spec" && version.spec ? (
+      <CalculatorRenderer spec={version.spec} />
+    ) : (
+      <CalculatorViewer
+        artifactHtml={version.artifactHtml}
+        expectedHash={
+          version.artifactHashScheme === ARTIFACT_HASH_SCHEME && typeof version.manifest.hash === "string"
+            ? version.manifest.hash
+            : null
+        }
+      />
+    )}
+  </div>
+);
+
+export const VersionCompare = ({ calcId, fromVersionId, toVersionId, onClose }: VersionCompareProps) => {
+  const [state, setState] = useState<CompareState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: "loading" });
+    const base = `/api/calcs/${encodeURIComponent(calcId)}`;
+    const query = new URLSearchParams({ from: fromVersionId, to: toVersionId });
+    Promise.all([
+      fetchJson<ComparedVersion>(`${base}/versions/${encodeURIComponent(fromVersionId)}`),
+      fetchJson<ComparedVersion>(`${base}/versions/${encodeURIComponent(toVersionId)}`),
+      fetchJson<VersionDiffResponse>(`${base}/diff?${query.toString()}`),
+    ])
+      .then(([from, to, diff]) => {
+        if (!cancelled) {
+          setState({ status: "ready", from, to, diff });
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          setState({ status: "error", message: err instanceof Error ? err.message : "Unknown error" });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [calcId, fromVersionId, toVersionId]);
+
+  const manifestChanges = state.status === "ready" ? describeManifestDiff(state.diff.manifest) : [];
+
+  return (
+    <section className="version-compare" aria-label="Version comparison">
+      <div className="actions">
+        <strong>
+          Comparing v{fromVersionId} with v{toVersionId}
+        </strong>
+        <button type="button" className="secondary" onClick={onClose}>
+          Close compare
+        </button>
+      </div>
+      {state.status === "loading" && <p className="status">Loading versions...</p>}
+      {state.status === "error" && <p className="error">Error: {state.message}</p>}
+      {state.status === "ready" && (
+        <>
+          <div className="compare-viewers">
+            <VersionPane label={`From v${fromVersionId}`} version={state.from} />
+            <VersionPane label={`To v${toVersionId}`} version={state.to} />
+          </div>
+          <div className="diff-panel">
+            <h3>Manifest</h3>
+            {manifestChanges.length === 0 ? (
+              <p className="status">No manifest changes.</p>
+            ) : (
+              <ul className="diff-list">
+                {manifestChanges.map((change) => (
+                  <li key={change}>{change}</li>
+                ))}
+              </ul>
+            )}
+            <h3>Scan findings</h3>
+            <p className="status">
+              {state.diff.scan.from.status ?? "not recorded"} -&gt; {state.diff.scan.to.status ?? "not recorded"};{" "}
+              {state.diff.scan.unchanged} unchanged
+            </p>
+            {(state.diff.scan.added.length > 0 || state.diff.scan.removed.length > 0) && (
+              <ul className="diff-list">
+                {state.diff.scan.added.map((finding, index) => (
+                  <li key={`added-${index}`}>+ {formatFinding(finding)}</li>
+                ))}
+                {state.diff.scan.removed.map((finding, index) => (
+                  <li key={`removed-${index}`}>- {formatFinding(finding)}</li>
+                ))}
+              </ul>
+            )}
+            <h3>{state.diff.text.kind === "spec" ? "Spec" : "HTML"}</h3>
+            <p className="status">
+              {state.diff.text.identical
+                ? "No text changes."
+                : `${state.diff.text.added} added, ${state.diff.text.removed} removed${
+                    state.diff.text.truncated ? " (diff truncated)" : ""
+                  }`}
+            </p>
+            {state.diff.text.hunks.map((hunk, hunkIndex) => (
+              <pre key={hunkIndex} className="diff-hunk">
+                {hunk.lines.map((line, lineIndex) => (
+                  <div key={lineIndex} className={`diff-line ${line.op}`}>
+                    {DIFF_LINE_PREFIX[line.op]} {line.text}
+                  </div>
+                ))}
+              </pre>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,110 @@
+/**
+ * Purpose: Validate VersionHistory renders the lineage tree and delegates open, branch, restore, label, and delete
+ * actions.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+
+import { VersionHistory, type VersionLineage } from "./VersionHistory";
+
+const LINEAGE: VersionLineage = {
+  calcId: "calc-1",
+  currentVersionId: "3",
+  versionCount: 3,
+  roots: [
+    {
+      versionId: "1",
+      createdAt: "2026-01-01T00:00:00Z",
+      status: "ok",
+      prompt: "Tip calculator",
+      current: false,
+      children: [
+        {
+          versionId: "2",
+          createdAt: "2026-01-02T00:00:00Z",
+          status: "ok",
+          parentVersionId: "1",
+          label: "v2 metric units",
+          prompt: "Use metric units.",
+          storedBytes: 2048,
+          current: false,
+          children: [],
+        },
+        {
+          versionId: "3",
+          createdAt: "2026-01-03T00:00:00Z",
+          status: "ok",
+          parentVersionId: "1",
+          prompt: "Split the bill.",
+          current: true,
+          children: [],
+        },
+      ],
+    },
+  ],
+};
+
+const renderHistory = (overrides: Partial<Parameters<typeof VersionHistory>[0]> = {}) => {
+  const props = {
+    lineage: LINEAGE,
+    onOpen: vi.fn(),
+    onBranch: vi.fn(),
+    onRestore: vi.fn(),
+    onLabel: vi.fn(async () => true),
+    ...overrides,
+  };
+  render(<VersionHistory {...props} />);
+  return props;
+};
+
+const nodeFor = (title: string) => screen.getByText(title).closest(".lineage-node") as HTMLElement;
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("VersionHistory", () => {
+  it("nests branches and offers restore only for non-current versions", () => {
+    const props = renderHistory();
+
+    expect(screen.getByText("Use metric units.")).toBeTruthy();
+    const metric = nodeFor("v2 metric units (v2)");
+    expect(metric.closest("ul")?.parentElement?.textContent).toContain("Tip calculator");
+    expect(within(nodeFor("v3")).queryByText("Restore")).toBeNull();
+
+    fireEvent.click(within(metric).getByText("Restore"));
+    fireEvent.click(within(metric).getByText("Branch"));
+    fireEvent.click(within(nodeFor("v1")).getByText("Open"));
+    expect(props.onRestore).toHaveBeenCalledWith("2");
+    expect(props.onBranch).toHaveBeenCalledWith("2");
+    expect(props.onOpen).toHaveBeenCalledWith("1");
+  });
+
+  it("offers delete only for non-current versions and shows stored sizes", () => {
+    const onDelete = vi.fn();
+    renderHistory({ onDelete });
+
+    expect(within(nodeFor("v3")).queryByText("Delete")).toBeNull();
+    const metric = nodeFor("v2 metric units (v2)");
+    expect(metric.textContent).toContain("2.0 KB");
+    fireEvent.click(within(metric).getByText("Delete"));
+    expect(onDelete).toHaveBeenCalledWith("2");
+  });
+
+  it("edits a label inline", async () => {
+    const props = renderHistory();
+
+    fireEvent.click(within(nodeFor("v1")).getByText("Label"));
+    const input = screen.getByLabelText("Label for v1");
+    fireEvent.change(input, { target: { value: "original" } });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(props.onLabel).toHaveBeenCalledWith("1", "original");
+    await waitFor(() => expect(screen.queryByLabelText("Label for v1")).toBeNull());
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Purpose: Show a calculator's version lineage as a tree with open, branch, restore, label, and delete actions.
+ * Persists: None (actions are delegated to the caller).
+ * Security Risks: Labels and prompts are user text rendered as text only.
+ */
+
+import { useState } from "react";
+
+export interface VersionLineageNode {
+  versionId: string;
+  createdAt: string;
+  status: string;
+  parentVersionId?: string;
+  inferredParent?: boolean;
+  label?: string;
+  prompt?: string;
+  storedBytes?: number;
+  current: boolean;
+  children: VersionLineageNode[];
+}
+
+export interface VersionLineage {
+  calcId: string;
+  currentVersionId: string;
+  versionCount: number;
+  roots: VersionLineageNode[];
+  etag?: string;
+}
+
+interface VersionHistoryProps {
+  lineage: VersionLineage;
+  /** The version shown in the viewer, if it belongs to this calculator. */
+  openVersionId?: string | null;
+  onOpen: (versionId: string) => void;
+  onBranch: (versionId: string) => void;
+  onRestore: (versionId: string) => void;
+  /** Resolves to true once the label is stored. */
+  onLabel: (versionId: string, label: string) => Promise<boolean>;
+  /** Offered for non-current versions that are not quarantined; the caller confirms. */
+  onDelete?: (versionId: string) => void;
+}
+
+const PROMPT_PREVIEW_LENGTH = 120;
+// Matches MAX_VERSION_LABEL_LENGTH in the API.
+const LABEL_MAX_LENGTH = 60;
+
+const previewPrompt = (prompt: string): string =>
+  prompt.length > PROMPT_PREVIEW_LENGTH ? `${prompt.slice(0, PROMPT_PREVIEW_LENGTH)}...` : prompt;
+
+export const formatStorageBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const VersionHistory = ({
+  lineage,
+  openVersionId,
+  onOpen,
+  onBranch,
+  onRestore,
+  onLabel,
+  onDelete,
+}: VersionHistoryProps) => {
+  const [labeling, setLabeling] = useState<{ versionId: string; label: string } | null>(null);
+
+  const renderNode = (node: VersionLineageNode) => (
+    <li key={node.versionId}>
+      <div className={`lineage-node${node.current ? " current" : ""}`}>
+        {labeling?.versionId === node.versionId ? (
+          <form
+            className="lineage-label-form"
+            onSubmit={(event) => {
+              event.preventDefault();
+              void onLabel(node.versionId, labeling.label).then((stored) => {
+                if (stored) {
+                  setLabeling(null);
+                }
+              });
+            }}
+          >
+            <input
+              aria-label={`Label for v${node.versionId}`}
+              value={labeling.label}
+              maxLength={LABEL_MAX_LENGTH}
+              autoFocus
+              onChange={(event) => setLabeling({ versionId: node.versionId, label: event.target.value })}
+              onKeyDown={(event) => {
+                if (event.key === "Escape") {
+                  setLabeling(null);
+                }
+              }}
+            />
+            <button type="submit">Save</button>
+          </form>
+        ) : (
+          <strong>{node.label ? `${node.label} (v${node.versionId})` : `v${node.versionId}`}</strong>
+        )}
+        <span className="calc-meta">
+          {new Date(node.createdAt).toLocaleString()}
+          {node.status !== "ok" ? ` - ${node.status}` : ""}
+          {node.current ? " - current" : ""}
+          {node.versionId === openVersionId ? " - open" : ""}
+          {node.storedBytes !== undefined ? ` - ${formatStorageBytes(node.storedBytes)}` : ""}
+        </span>
+        {node.prompt && <span className="lineage-prompt">{previewPrompt(node.prompt)}</span>}
+        <div className="actions">
+          <button
+            type="button"
+            className="secondary"
+            disabled={node.status === "quarantined"}
+            onClick={() => onOpen(node.versionId)}
+          >
+            Open
+          </button>
+          <button
+            type="button"
+            className="secondary"
+            disabled={node.status !== "ok"}
+            onClick={() => onBranch(node.versionId)}
+          >
+            Branch
+          </button>
+          {!node.current && (
+            <button
+              type="button"
+              className="secondary"
+              disabled={node.status === "quarantined"}
+              onClick={() => onRestore(node.versionId)}
+            >
+              Restore
+            </button>
+          )}
+          <button
+            type="button"
+            className="secondary"
+            onClick={() => setLabeling({ versionId: node.versionId, label: node.label ?? "" })}
+          >
+            Label
+          </button>
+          {onDelete && !node.current && node.status !== "quarantined" && (
+            <button type="button" className="secondary" onClick={() => onDelete(node.versionId)}>
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+      {node.children.length > 0 && <ul className="lineage-tree">{node.children.map(renderNode)}</ul>}
+    </li>
+  );
+
+  return (
+    <div className="version-history">
+      <p className="calc-meta">
+        {lineage.versionCount} version{lineage.versionCount === 1 ? "" : "s"}; current v{lineage.currentVersionId}
+      </p>
+      <ul className="lineage-tree">{lineage.roots.map(renderNode)}</ul>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 /**
- * Purpose: Bootstrap the PromptCalc React application.
+ * Purpose: Bootstrap the PromptCalc React application, or the read-only shared view for `?share=<token>` links.
  * Persists: None.
  * Security Risks: None.
  */
@@ -7,10 +7,11 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { SharedCalculator } from "./components/SharedCalculator";
 import "./index.css";
 
+const shareToken = new URLSearchParams(window.location.search).get("share");
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
+  <React.StrictMode>{shareToken ? <SharedCalculator token={shareToken} /> : <App />}</React.StrictMode>
 );
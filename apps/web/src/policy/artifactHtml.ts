@@ -0,0 +1,75 @@
+/**
+ * Purpose: Prepare untrusted artifact HTML for rendering (platform CSP meta, ready bootstrap) and hash it canonically.
+ * Persists: None.
+ * Security Risks: Replaces the artifact's own CSP with the platform CSP; hashes must match the API's canonical rule.
+ */
+
+import { canonicalizeArtifactHtml } from "@promptcalc/manifest";
+
+export const READY_BOOTSTRAP_ID = "promptcalc-ready";
+// Answers the viewer's PING with PROMPTCALC_READY; does nothing when the page is opened without a parent frame.
+const READY_BOOTSTRAP_SCRIPT =
+  "<script id=\"promptcalc-ready\">(function(){try{if(window.parent===window){return;}const safePost=(payload)=>{try{window.parent.postMessage(payload,\"*\");}catch{}};const state={loadId:null,token:null,ready:false,domReady:document.readyState!==\"loading\"};const sendReady=()=>{if(state.ready||!state.loadId||!state.token){return;}state.ready=true;safePost({type:\"PROMPTCALC_READY\",v:\"1\",ts:Date.now(),loadId:state.loadId,token:state.token});};const handlePing=(event)=>{try{const data=event&&event.data;if(!data||data.type!==\"PING\"){return;}if(typeof data.loadId!==\"string\"||typeof data.token!==\"string\"){return;}state.loadId=data.loadId;state.token=data.token;sendReady();if(!state.domReady){document.addEventListener(\"DOMContentLoaded\",()=>{state.domReady=true;sendReady();},{once:true});}}catch{}};if(document.readyState===\"loading\"){document.addEventListener(\"DOMContentLoaded\",()=>{state.domReady=true;sendReady();},{once:true});}window.addEventListener(\"message\",handlePing);}catch{}})();</script>";
+const READY_BOOTSTRAP_REGEX = new RegExp(
+  `<script[^>]*id=["']${READY_BOOTSTRAP_ID}["'][^>]*>`,
+  "i"
+);
+
+const ensureReadyBootstrap = (artifactHtml: string, cspMetaRegex: RegExp): string => {
+  if (READY_BOOTSTRAP_REGEX.test(artifactHtml)) {
+    return artifactHtml;
+  }
+
+  if (cspMetaRegex.test(artifactHtml)) {
+    return artifactHtml.replace(
+      cspMetaRegex,
+      (match) => `${match}${READY_BOOTSTRAP_SCRIPT}`
+    );
+  }
+
+  if (/<head[^>]*>/i.test(artifactHtml)) {
+    return artifactHtml.replace(
+      /<head[^>]*>/i,
+      (match) => `${match}${READY_BOOTSTRAP_SCRIPT}`
+    );
+  }
+
+  if (/<body[^>]*>/i.test(artifactHtml)) {
+    return artifactHtml.replace(
+      /<body[^>]*>/i,
+      (match) => `${match}${READY_BOOTSTRAP_SCRIPT}`
+    );
+  }
+
+  return `${READY_BOOTSTRAP_SCRIPT}${artifactHtml}`;
+};
+
+/** Applies the platform CSP meta and the ready bootstrap the viewer's watchdog waits for. */
+export const normalizeArtifactHtml = (artifactHtml: string, csp: string): string => {
+  const cspMeta = `<meta http-equiv="Content-Security-Policy" content="${csp}">`;
+  const cspMetaRegex = /<meta[^>]+http-equiv=["']Content-Security-Policy["'][^>]*>/i;
+
+  let html = artifactHtml;
+
+  if (cspMetaRegex.test(html)) {
+    html = html.replace(cspMetaRegex, cspMeta);
+  } else if (/<head[^>]*>/i.test(html)) {
+    html = html.replace(/<head[^>]*>/i, (match) => `${match}${cspMeta}`);
+  } else {
+    html = `${cspMeta}${html}`;
+  }
+
+  return ensureReadyBootstrap(html, cspMetaRegex);
+};
+
+// Hashes the artifact as delivered (before CSP/bootstrap injection), matching the API's canonical rule.
+export const computeArtifactHash = async (artifactHtml: string): Promise<string | null> => {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    return null;
+  }
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonicalizeArtifactHtml(artifactHtml))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
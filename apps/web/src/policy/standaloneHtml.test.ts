@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+/**
+ * Purpose: Verify standalone downloads carry the platform CSP, banner, integrity hash, and manifest.
+ * Persists: None.
+ * Security Risks: Confirms the stored artifact's own CSP and ready bootstrap are replaced.
+ */
+
+import { describe, expect, it, vi } from "vitest";
+
+import { getCspTemplate } from "./csp";
+import { buildStandaloneFileName, buildStandaloneHtml, STANDALONE_BANNER_ID } from "./standaloneHtml";
+
+const storedHtml = [
+  "<!doctype html><html><head>",
+  "<meta http-equiv=\"Content-Security-Policy\" content=\"default-src 'none'; script-src 'unsafe-inline'\">",
+  "<script id=\"promptcalc-ready\">window.parent.postMessage({type:\"ready\"},\"*\");</script>",
+  "</head><body><p>Generated calculator (offline). Do not enter passwords.</p>",
+  "<script type=\"application/json\" id=\"promptcalc-manifest\">{\"title\":\"old\"}</script>",
+  "</body></html>",
+].join("");
+
+const build = () =>
+  buildStandaloneHtml({
+    artifactHtml: storedHtml,
+    manifest: { title: "Tip </script>", hash: "abc123" },
+    integrityHash: "abc123",
+    bannerText: "Offline <only>.",
+    savedAt: new Date("2026-10-19T00:00:00.000Z"),
+  });
+
+describe("buildStandaloneHtml", () => {
+  it("puts the platform CSP first in the head and drops the artifact's own", () => {
+    const html = build();
+
+    const cspMeta = `<meta http-equiv="Content-Security-Policy" content="${getCspTemplate()}">`;
+    expect(html.startsWith(`<!doctype html><html><head>${cspMeta}<meta charset="utf-8">`)).toBe(true);
+    expect(html.match(/Content-Security-Policy/g)).toHaveLength(1);
+  });
+
+  it("drops anything placed before <head> so no script runs ahead of the CSP", () => {
+    const cspMeta = `<meta http-equiv="Content-Security-Policy" content="${getCspTemplate()}">`;
+    const options = { manifest: {}, integrityHash: "abc123" };
+    const early = buildStandaloneHtml({
+      ...options,
+      artifactHtml: "<!doctype html><script>fetch('https://x')</script><html lang=en><head></head><body></body></html>",
+    });
+    expect(early.startsWith(`<!doctype html><html><head>${cspMeta}`)).toBe(true);
+    expect(early).not.toContain("fetch(");
+
+    const headless = buildStandaloneHtml({ ...options, artifactHtml: "<!doctype html><body><p>x</p></body>" });
+    expect(headless.startsWith(`<!doctype html>${cspMeta}`)).toBe(true);
+    expect(headless.match(/<!doctype/gi)).toHaveLength(1);
+  });
+
+  it("embeds the banner with the integrity hash and a single escaped manifest", () => {
+    const document = new DOMParser().parseFromString(build(), "text/html");
+
+    const banner = document.getElementById(STANDALONE_BANNER_ID);
+    expect(banner?.textContent).toContain("Offline <only>.");
+    expect(banner?.textContent).toContain("Integrity (sha256-canonical-v1): abc123");
+    expect(document.querySelectorAll("#promptcalc-manifest")).toHaveLength(1);
+    expect(JSON.parse(document.getElementById("promptcalc-manifest")?.textContent ?? "")).toEqual({
+      title: "Tip </script>",
+      hash: "abc123",
+    });
+  });
+
+  it("replaces the stored ready bootstrap with one that stays silent without a parent frame", () => {
+    const document = new DOMParser().parseFromString(build(), "text/html");
+    const scripts = document.querySelectorAll("#promptcalc-ready");
+    expect(scripts).toHaveLength(1);
+
+    const postMessage = vi.spyOn(window, "postMessage");
+    new Function(scripts[0].textContent ?? "")();
+    window.dispatchEvent(new MessageEvent("message", { data: { type: "PING", loadId: "l", token: "t" } }));
+    expect(postMessage).not.toHaveBeenCalled();
+    postMessage.mockRestore();
+  });
+
+  it("names the file after the title and version", () => {
+    expect(buildStandaloneFileName("Tip & Tax!", "1234567890ab")).toBe("tip-tax-v12345678.html");
+    expect(buildStandaloneFileName("???")).toBe("calculator.html");
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Purpose: Build a single self-contained HTML file of a calculator for offline use outside the app.
+ * Persists: None (the caller hands the file to the browser as a download).
+ * Security Risks: The file runs untrusted HTML top-level with no sandbox iframe; only the platform CSP meta, which
+ * blocks every network fetch, stands between it and the machine it is opened on.
+ */
+
+import { ARTIFACT_HASH_SCHEME, createEmbeddedManifestRegex, EMBEDDED_MANIFEST_ID } from "@promptcalc/manifest";
+
+import { normalizeArtifactHtml, READY_BOOTSTRAP_ID } from "./artifactHtml";
+import { getCspTemplate } from "./csp";
+
+/** Matches the API's default policy; the effective policy's banner is used when it can be read. */
+export const DEFAULT_REQUIRED_BANNER_TEXT = "Generated calculator (offline). Do not enter passwords.";
+
+export const STANDALONE_BANNER_ID = "promptcalc-offline-banner";
+
+export interface StandaloneHtmlOptions {
+  artifactHtml: string;
+  manifest: Record<string, unknown>;
+  /** Canonical SHA-256 of `artifactHtml`, verified by the caller. */
+  integrityHash: string;
+  bannerText?: string;
+  savedAt?: Date;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const createReadyBootstrapElementRegex = (): RegExp =>
+  new RegExp(`<script\\b[^>]*\\bid\\s*=\\s*["']${READY_BOOTSTRAP_ID}["'][^>]*>[\\s\\S]*?<\\/script\\s*>`, "gi");
+
+const BANNER_ELEMENT_REGEX = new RegExp(
+  `<div\\b[^>]*\\bid=["']${STANDALONE_BANNER_ID}["'][^>]*>[\\s\\S]*?<\\/div>`,
+  "i"
+);
+
+const CSP_META_ELEMENT_REGEX = /<meta[^>]+http-equiv=["']Content-Security-Policy["'][^>]*>/gi;
+const CSP_META_ELEMENT_REGEX_ONCE = /<meta[^>]+http-equiv=["']Content-Security-Policy["'][^>]*>/i;
+
+const insertAfterTag = (html: string, tag: RegExp, insert: string): string | null =>
+  tag.test(html) ? html.replace(tag, (match) => `${match}${insert}`) : null;
+
+const buildBanner = (bannerText: string, integrityHash: string, savedAt: Date): string =>
+  `<div id="${STANDALONE_BANNER_ID}" role="note" style="font:14px/1.4 system-ui,sans-serif;padding:8px 12px;` +
+  `background:#fff7ed;border-bottom:1px solid #fdba74;color:#9a3412;word-break:break-all">` +
+  `<strong>${escapeHtml(bannerText)}</strong><br>` +
+  `Integrity (${ARTIFACT_HASH_SCHEME}): <code>${escapeHtml(integrityHash)}</code><br>` +
+  `Saved for offline use ${escapeHtml(savedAt.toISOString())}. This file cannot make network requests.</div>`;
+
+/**
+ * Wraps a stored artifact for opening straight from disk: the platform CSP meta replaces the artifact's own and is
+ * the first element of the document, any stored ready bootstrap is swapped for one that stays silent without a parent
+ * frame, and the banner with the integrity hash and the manifest are embedded. The hash shown is that of the artifact
+ * as stored, not of this file.
+ */
+export const buildStandaloneHtml = ({
+  artifactHtml,
+  manifest,
+  integrityHash,
+  bannerText = DEFAULT_REQUIRED_BANNER_TEXT,
+  savedAt = new Date(),
+}: StandaloneHtmlOptions): string => {
+  let html = artifactHtml
+    .replace(/^\s*<!doctype[^>]*>/i, "")
+    .replace(createReadyBootstrapElementRegex(), "")
+    .replace(createEmbeddedManifestRegex("gi"), "")
+    .replace(BANNER_ELEMENT_REGEX, "")
+    // Dropping the artifact's CSP puts the platform one first in <head>, ahead of any artifact script.
+    .replace(CSP_META_ELEMENT_REGEX, "");
+  // Nothing may precede the CSP meta: a script ahead of <head> would run before the policy applies, so everything
+  // before <head> except a bare <html> tag is dropped. Without a <head>, the meta is prepended to the whole document.
+  const headTag = /<head\b[^>]*>/i.exec(html);
+  if (headTag) {
+    html = `<html>${html.slice(headTag.index)}`;
+  }
+  html = normalizeArtifactHtml(html, getCspTemplate());
+
+  if (!/<meta\s+charset=/i.test(html)) {
+    html = insertAfterTag(html, CSP_META_ELEMENT_REGEX_ONCE, '<meta charset="utf-8">') ?? html;
+  }
+
+  const banner = buildBanner(bannerText, integrityHash, savedAt);
+  html = insertAfterTag(html, /<body\b[^>]*>/i, banner) ?? `${html}${banner}`;
+
+  // Escaping "<" keeps manifest strings from closing the script element early.
+  const manifestJson = JSON.stringify(manifest, null, 2).replace(/</g, "\\u003c");
+  const manifestScript = `<script type="application/json" id="${EMBEDDED_MANIFEST_ID}">${manifestJson}</script>`;
+  html = html.includes("</body>")
+    ? html.replace("</body>", () => `${manifestScript}</body>`)
+    : `${html}${manifestScript}`;
+
+  return `<!doctype html>${html}`;
+};
+
+export const buildStandaloneFileName = (title: string, versionId?: string | null): string => {
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "calculator";
+  return `${slug}${versionId ? `-v${versionId.slice(0, 8)}` : ""}.html`;
+};
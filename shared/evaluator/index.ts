@@ -0,0 +1,8 @@
+/**
+ * Purpose: Export the shared SafeEvaluator entry point for API and web consumers.
+ * Persists: None.
+ * Security Risks: Evaluates untrusted expressions through whitelisted operations only.
+ */
+
+export * from "./safeEvaluator";
+export * from "./units";
@@ -0,0 +1,631 @@
+/**
+ * Purpose: Parse and evaluate calculator expressions with whitelisted operators, functions, variables, and units.
+ * Persists: None.
+ * Security Risks: Evaluates untrusted input; never uses eval/Function and enforces length, depth, and step limits.
+ */
+
+import { areUnitsCompatible, convertUnit, isKnownUnit } from "./units";
+
+export const EXPRESSION_BINARY_OPERATORS = ["+", "-", "*", "/", "%", "^"] as const;
+export const EXPRESSION_FUNCTIONS = [
+  "abs",
+  "sqrt",
+  "cbrt",
+  "exp",
+  "ln",
+  "log",
+  "sin",
+  "cos",
+  "tan",
+  "asin",
+  "acos",
+  "atan",
+  "round",
+  "floor",
+  "ceil",
+  "trunc",
+  "min",
+  "max",
+] as const;
+
+export type ExpressionBinaryOperator = (typeof EXPRESSION_BINARY_OPERATORS)[number];
+export type ExpressionFunction = (typeof EXPRESSION_FUNCTIONS)[number];
+
+export type ExpressionNode =
+  | { kind: "number"; value: number }
+  | { kind: "ref"; id: string }
+  | { kind: "unary"; op: "-" | "+"; arg: ExpressionNode }
+  | { kind: "binary"; op: ExpressionBinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "call"; fn: string; args: ExpressionNode[] }
+  | { kind: "percent"; arg: ExpressionNode }
+  | { kind: "unit"; unit: string; arg: ExpressionNode }
+  | { kind: "convert"; unit: string; arg: ExpressionNode };
+
+export interface Quantity {
+  value: number;
+  unit?: string;
+}
+
+export type EvaluatorVariables = Record<string, number | Quantity>;
+
+export interface EvaluatorLimits {
+  maxLength: number;
+  maxDepth: number;
+  maxSteps: number;
+}
+
+export interface EvaluateOptions {
+  variables?: EvaluatorVariables;
+  limits?: Partial<EvaluatorLimits>;
+}
+
+export type SafeEvaluatorErrorCode =
+  | "SYNTAX_ERROR"
+  | "UNKNOWN_VARIABLE"
+  | "UNKNOWN_FUNCTION"
+  | "UNKNOWN_UNIT"
+  | "ARITY_ERROR"
+  | "UNIT_MISMATCH"
+  | "DIVISION_BY_ZERO"
+  | "NON_FINITE_RESULT"
+  | "INPUT_TOO_LONG"
+  | "DEPTH_LIMIT_EXCEEDED"
+  | "STEP_LIMIT_EXCEEDED";
+
+export class SafeEvaluatorError extends Error {
+  readonly code: SafeEvaluatorErrorCode;
+  readonly position?: number;
+
+  constructor(code: SafeEvaluatorErrorCode, message: string, position?: number) {
+    super(message);
+    this.name = "SafeEvaluatorError";
+    this.code = code;
+    this.position = position;
+  }
+}
+
+export type EvaluationResult =
+  | { ok: true; value: number; unit?: string; steps: number }
+  | { ok: false; error: { code: SafeEvaluatorErrorCode; message: string; position?: number } };
+
+export const DEFAULT_EVALUATOR_LIMITS: Readonly<EvaluatorLimits> = {
+  maxLength: 2000,
+  maxDepth: 64,
+  maxSteps: 10000,
+};
+
+const CONSTANTS: Readonly<Record<string, number>> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type FunctionSpec = {
+  minArgs: number;
+  maxArgs: number;
+  /** "preserve" functions keep the first argument's unit; "scalar" functions reject units. */
+  units: "scalar" | "preserve";
+  apply: (args: number[]) => number;
+};
+
+const FUNCTION_TABLE: Readonly<Record<ExpressionFunction, FunctionSpec>> = {
+  abs: { minArgs: 1, maxArgs: 1, units: "preserve", apply: ([x]) => Math.abs(x) },
+  sqrt: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.sqrt(x) },
+  cbrt: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.cbrt(x) },
+  exp: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.exp(x) },
+  ln: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.log(x) },
+  log: {
+    minArgs: 1,
+    maxArgs: 2,
+    units: "scalar",
+    apply: ([x, base]) => (base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base)),
+  },
+  sin: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.sin(x) },
+  cos: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.cos(x) },
+  tan: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.tan(x) },
+  asin: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.asin(x) },
+  acos: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.acos(x) },
+  atan: { minArgs: 1, maxArgs: 1, units: "scalar", apply: ([x]) => Math.atan(x) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    units: "preserve",
+    apply: ([x, digits]) => {
+      if (digits === undefined) {
+        return Math.round(x);
+      }
+      if (!Number.isInteger(digits) || digits < 0 || digits > 12) {
+        throw new SafeEvaluatorError("ARITY_ERROR", "round digits must be an integer from 0 to 12.");
+      }
+      const scale = 10 ** digits;
+      return Math.round(x * scale) / scale;
+    },
+  },
+  floor: { minArgs: 1, maxArgs: 1, units: "preserve", apply: ([x]) => Math.floor(x) },
+  ceil: { minArgs: 1, maxArgs: 1, units: "preserve", apply: ([x]) => Math.ceil(x) },
+  trunc: { minArgs: 1, maxArgs: 1, units: "preserve", apply: ([x]) => Math.trunc(x) },
+  min: { minArgs: 1, maxArgs: 64, units: "preserve", apply: (args) => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: 64, units: "preserve", apply: (args) => Math.max(...args) },
+};
+
+export const isSupportedFunction = (name: string): name is ExpressionFunction =>
+  Object.prototype.hasOwnProperty.call(FUNCTION_TABLE, name);
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "ident"; value: string; position: number }
+  | { type: "op"; value: string; position: number }
+  | { type: "end"; position: number };
+
+const resolveLimits = (limits?: Partial<EvaluatorLimits>): EvaluatorLimits => ({
+  ...DEFAULT_EVALUATOR_LIMITS,
+  ...(limits ?? {}),
+});
+
+const isDigit = (ch: string | undefined): boolean => ch !== undefined && ch >= "0" && ch <= "9";
+const isIdentStart = (ch: string | undefined): boolean => ch !== undefined && /[A-Za-z_]/.test(ch);
+const isIdentPart = (ch: string | undefined): boolean => ch !== undefined && /[A-Za-z0-9_]/.test(ch);
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const ch = source[index];
+    if (/\s/.test(ch)) {
+      index += 1;
+      continue;
+    }
+    if (isDigit(ch) || (ch === "." && isDigit(source[index + 1]))) {
+      const start = index;
+      while (isDigit(source[index])) {
+        index += 1;
+      }
+      if (source[index] === ".") {
+        index += 1;
+        while (isDigit(source[index])) {
+          index += 1;
+        }
+      }
+      const exponentSign = source[index + 1] === "+" || source[index + 1] === "-" ? 1 : 0;
+      if ((source[index] === "e" || source[index] === "E") && isDigit(source[index + 1 + exponentSign])) {
+        index += 1 + exponentSign;
+        while (isDigit(source[index])) {
+          index += 1;
+        }
+      }
+      const value = Number(source.slice(start, index));
+      if (!Number.isFinite(value)) {
+        throw new SafeEvaluatorError("SYNTAX_ERROR", "Invalid number.", start);
+      }
+      tokens.push({ type: "number", value, position: start });
+      continue;
+    }
+    if (isIdentStart(ch)) {
+      const start = index;
+      while (isIdentPart(source[index])) {
+        index += 1;
+      }
+      tokens.push({ type: "ident", value: source.slice(start, index), position: start });
+      continue;
+    }
+    if (ch === "*" && source[index + 1] === "*") {
+      tokens.push({ type: "op", value: "^", position: index });
+      index += 2;
+      continue;
+    }
+    if ("+-*/%^(),".includes(ch)) {
+      tokens.push({ type: "op", value: ch, position: index });
+      index += 1;
+      continue;
+    }
+    throw new SafeEvaluatorError("SYNTAX_ERROR", `Unexpected character: ${ch}`, index);
+  }
+  tokens.push({ type: "end", position: source.length });
+  return tokens;
+};
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly maxDepth: number
+  ) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseConversion(0);
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new SafeEvaluatorError("SYNTAX_ERROR", "Unexpected token.", token.position);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index += 1;
+    return token;
+  }
+
+  private isOp(token: Token, value: string): boolean {
+    return token.type === "op" && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (!this.isOp(token, value)) {
+      throw new SafeEvaluatorError("SYNTAX_ERROR", `Expected '${value}'.`, token.position);
+    }
+  }
+
+  /**
+   * Depth counts real nesting only (parentheses, call arguments, unary signs, exponents); left-associative chains and
+   * precedence levels parse at the depth of their enclosing group.
+   */
+  private guardDepth(depth: number): void {
+    if (depth > this.maxDepth) {
+      throw new SafeEvaluatorError("DEPTH_LIMIT_EXCEEDED", "Expression is nested too deeply.", this.peek().position);
+    }
+  }
+
+  // A sign after '%' is read as percent-then-add/subtract ("15% + 2"); a signed modulus needs parentheses: 7 % (-3).
+  private startsOperand(token: Token): boolean {
+    return token.type === "number" || token.type === "ident" || this.isOp(token, "(");
+  }
+
+  private parseConversion(depth: number): ExpressionNode {
+    this.guardDepth(depth);
+    let node = this.parseAdditive(depth);
+    while (this.peek().type === "ident" && (this.peek() as { value: string }).value === "to") {
+      this.next();
+      const unitToken = this.next();
+      if (unitToken.type !== "ident" || !isKnownUnit(unitToken.value)) {
+        throw new SafeEvaluatorError("UNKNOWN_UNIT", "Expected a known unit after 'to'.", unitToken.position);
+      }
+      node = { kind: "convert", unit: unitToken.value, arg: node };
+    }
+    return node;
+  }
+
+  private parseAdditive(depth: number): ExpressionNode {
+    let node = this.parseMultiplicative(depth);
+    while (this.isOp(this.peek(), "+") || this.isOp(this.peek(), "-")) {
+      const op = (this.next() as { value: "+" | "-" }).value;
+      node = { kind: "binary", op, left: node, right: this.parseMultiplicative(depth) };
+    }
+    return node;
+  }
+
+  private parseMultiplicative(depth: number): ExpressionNode {
+    let node = this.parseUnary(depth);
+    while (this.isOp(this.peek(), "*") || this.isOp(this.peek(), "/") || this.isOp(this.peek(), "%")) {
+      const op = (this.next() as { value: "*" | "/" | "%" }).value;
+      node = { kind: "binary", op, left: node, right: this.parseUnary(depth) };
+    }
+    return node;
+  }
+
+  private parseUnary(depth: number): ExpressionNode {
+    this.guardDepth(depth);
+    if (this.isOp(this.peek(), "-") || this.isOp(this.peek(), "+")) {
+      const op = (this.next() as { value: "-" | "+" }).value;
+      return { kind: "unary", op, arg: this.parseUnary(depth + 1) };
+    }
+    return this.parsePower(depth);
+  }
+
+  private parsePower(depth: number): ExpressionNode {
+    const base = this.parsePostfix(depth);
+    if (this.isOp(this.peek(), "^")) {
+      this.next();
+      return { kind: "binary", op: "^", left: base, right: this.parseUnary(depth + 1) };
+    }
+    return base;
+  }
+
+  private parsePostfix(depth: number): ExpressionNode {
+    let node = this.parsePrimary(depth);
+    for (;;) {
+      const token = this.peek();
+      // A '%' followed by another operand is modulo; otherwise it is a postfix percent.
+      if (this.isOp(token, "%") && !this.startsOperand(this.peek(1))) {
+        this.next();
+        node = { kind: "percent", arg: node };
+        continue;
+      }
+      if (token.type === "ident" && isKnownUnit(token.value) && !this.isOp(this.peek(1), "(")) {
+        this.next();
+        node = { kind: "unit", unit: token.value, arg: node };
+        continue;
+      }
+      return node;
+    }
+  }
+
+  private parsePrimary(depth: number): ExpressionNode {
+    const token = this.next();
+    if (token.type === "number") {
+      return { kind: "number", value: token.value };
+    }
+    if (token.type === "ident") {
+      if (this.isOp(this.peek(), "(")) {
+        this.next();
+        const args: ExpressionNode[] = [];
+        if (!this.isOp(this.peek(), ")")) {
+          args.push(this.parseConversion(depth + 1));
+          while (this.isOp(this.peek(), ",")) {
+            this.next();
+            args.push(this.parseConversion(depth + 1));
+          }
+        }
+        this.expectOp(")");
+        return { kind: "call", fn: token.value, args };
+      }
+      return { kind: "ref", id: token.value };
+    }
+    if (this.isOp(token, "(")) {
+      const node = this.parseConversion(depth + 1);
+      this.expectOp(")");
+      return node;
+    }
+    throw new SafeEvaluatorError(
+      "SYNTAX_ERROR",
+      token.type === "end" ? "Unexpected end of expression." : "Unexpected token.",
+      token.position
+    );
+  }
+}
+
+export const parseExpression = (source: string, limits?: Partial<EvaluatorLimits>): ExpressionNode => {
+  const resolved = resolveLimits(limits);
+  const text = String(source ?? "");
+  if (text.length > resolved.maxLength) {
+    throw new SafeEvaluatorError("INPUT_TOO_LONG", `Expression exceeds ${resolved.maxLength} characters.`);
+  }
+  return new Parser(tokenize(text), resolved.maxDepth).parse();
+};
+
+const toQuantity = (value: number | Quantity): Quantity =>
+  typeof value === "number" ? { value } : { value: value.value, unit: value.unit };
+
+const requireScalar = (quantity: Quantity, context: string): number => {
+  if (quantity.unit) {
+    throw new SafeEvaluatorError("UNIT_MISMATCH", `${context} does not accept units (${quantity.unit}).`);
+  }
+  return quantity.value;
+};
+
+/** Converts right into left's unit so both operands share one unit; both must have a unit or neither. */
+const alignUnits = (left: Quantity, right: Quantity, context: string): [number, number, string | undefined] => {
+  if (!left.unit && !right.unit) {
+    return [left.value, right.value, undefined];
+  }
+  if (!left.unit || !right.unit) {
+    throw new SafeEvaluatorError("UNIT_MISMATCH", `${context} needs units on both sides or neither.`);
+  }
+  const converted = convertUnit(right.value, right.unit, left.unit);
+  if (converted === null) {
+    throw new SafeEvaluatorError("UNIT_MISMATCH", `Cannot combine ${left.unit} with ${right.unit}.`);
+  }
+  return [left.value, converted, left.unit];
+};
+
+const finite = (value: number, unit?: string): Quantity => {
+  if (!Number.isFinite(value)) {
+    throw new SafeEvaluatorError("NON_FINITE_RESULT", "Result is not a finite number.");
+  }
+  return unit ? { value, unit } : { value };
+};
+
+const evaluateBinary = (op: ExpressionBinaryOperator, left: Quantity, right: Quantity): Quantity => {
+  switch (op) {
+    case "+":
+    case "-": {
+      const [a, b, unit] = alignUnits(left, right, op === "+" ? "Addition" : "Subtraction");
+      return finite(op === "+" ? a + b : a - b, unit);
+    }
+    case "%": {
+      const [a, b, unit] = alignUnits(left, right, "Modulo");
+      if (b === 0) {
+        throw new SafeEvaluatorError("DIVISION_BY_ZERO", "Modulo by zero");
+      }
+      return finite(a % b, unit);
+    }
+    case "*":
+      if (left.unit && right.unit) {
+        throw new SafeEvaluatorError("UNIT_MISMATCH", "Multiplying two quantities with units is not supported.");
+      }
+      return finite(left.value * right.value, left.unit ?? right.unit);
+    case "/": {
+      if (right.value === 0) {
+        throw new SafeEvaluatorError("DIVISION_BY_ZERO", "Division by zero");
+      }
+      if (right.unit) {
+        if (!left.unit) {
+          throw new SafeEvaluatorError("UNIT_MISMATCH", `Cannot divide a plain number by ${right.unit}.`);
+        }
+        const [a, b] = alignUnits(left, right, "Division");
+        return finite(a / b);
+      }
+      return finite(left.value / right.value, left.unit);
+    }
+    case "^":
+      return finite(requireScalar(left, "Exponent base") ** requireScalar(right, "Exponent"));
+    default:
+      throw new SafeEvaluatorError("SYNTAX_ERROR", "Unsupported operator.");
+  }
+};
+
+const evaluateCall = (fn: string, args: Quantity[]): Quantity => {
+  if (!isSupportedFunction(fn)) {
+    throw new SafeEvaluatorError("UNKNOWN_FUNCTION", `Unsupported function: ${fn}`);
+  }
+  const spec = FUNCTION_TABLE[fn];
+  if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+    throw new SafeEvaluatorError("ARITY_ERROR", `${fn} expects ${spec.minArgs}-${spec.maxArgs} arguments.`);
+  }
+  if (spec.units === "scalar") {
+    return finite(spec.apply(args.map((arg) => requireScalar(arg, fn))));
+  }
+  // round's optional digits argument is always a plain number.
+  const unitArgs = fn === "round" ? args.slice(0, 1) : args;
+  const [first] = unitArgs;
+  const values = unitArgs.map((arg) => alignUnits(first, arg, fn)[1]);
+  if (fn === "round" && args.length === 2) {
+    values.push(requireScalar(args[1], "round digits"));
+  }
+  return finite(spec.apply(values), first.unit);
+};
+
+type EvaluationState = {
+  variables: EvaluatorVariables;
+  maxSteps: number;
+  maxDepth: number;
+  steps: number;
+};
+
+const countStep = (state: EvaluationState): void => {
+  state.steps += 1;
+  if (state.steps > state.maxSteps) {
+    throw new SafeEvaluatorError("STEP_LIMIT_EXCEEDED", `Evaluation exceeded ${state.maxSteps} steps.`);
+  }
+};
+
+const BINARY_PRECEDENCE: Readonly<Record<ExpressionBinaryOperator, number>> = {
+  "+": 1,
+  "-": 1,
+  "*": 2,
+  "/": 2,
+  "%": 2,
+  "^": 3,
+};
+
+/**
+ * Evaluates a left-associative chain such as `a + b - c` in a loop, so a long flat formula costs steps but not depth.
+ * Each right operand is one level deeper; the chain's leftmost operand is too.
+ */
+const evaluateBinaryChain = (
+  node: Extract<ExpressionNode, { kind: "binary" }>,
+  state: EvaluationState,
+  depth: number
+): Quantity => {
+  const chain = [node];
+  let head = node.left;
+  while (
+    head.kind === "binary" &&
+    head.op !== "^" &&
+    BINARY_PRECEDENCE[head.op] === BINARY_PRECEDENCE[node.op]
+  ) {
+    countStep(state);
+    chain.push(head);
+    head = head.left;
+  }
+  let result = evaluateWithState(head, state, depth + 1);
+  for (let index = chain.length - 1; index >= 0; index -= 1) {
+    result = evaluateBinary(chain[index].op, result, evaluateWithState(chain[index].right, state, depth + 1));
+  }
+  return result;
+};
+
+const evaluateWithState = (node: ExpressionNode, state: EvaluationState, depth: number): Quantity => {
+  countStep(state);
+  if (depth > state.maxDepth) {
+    throw new SafeEvaluatorError("DEPTH_LIMIT_EXCEEDED", "Expression is nested too deeply.");
+  }
+
+  switch (node.kind) {
+    case "number":
+      return finite(node.value);
+    case "ref": {
+      if (Object.prototype.hasOwnProperty.call(state.variables, node.id)) {
+        const quantity = toQuantity(state.variables[node.id]);
+        if (quantity.unit && !isKnownUnit(quantity.unit)) {
+          throw new SafeEvaluatorError("UNKNOWN_UNIT", `Unknown unit on ${node.id}: ${quantity.unit}`);
+        }
+        return finite(quantity.value, quantity.unit);
+      }
+      if (Object.prototype.hasOwnProperty.call(CONSTANTS, node.id)) {
+        return { value: CONSTANTS[node.id] };
+      }
+      throw new SafeEvaluatorError("UNKNOWN_VARIABLE", `Missing value for ${node.id}`);
+    }
+    case "unary": {
+      const arg = evaluateWithState(node.arg, state, depth + 1);
+      return node.op === "-" ? finite(-arg.value, arg.unit) : arg;
+    }
+    case "percent":
+      return finite(requireScalar(evaluateWithState(node.arg, state, depth + 1), "Percent") / 100);
+    case "unit": {
+      if (!isKnownUnit(node.unit)) {
+        throw new SafeEvaluatorError("UNKNOWN_UNIT", `Unknown unit: ${node.unit}`);
+      }
+      const arg = evaluateWithState(node.arg, state, depth + 1);
+      return finite(requireScalar(arg, "Unit suffix"), node.unit);
+    }
+    case "convert": {
+      const arg = evaluateWithState(node.arg, state, depth + 1);
+      if (!arg.unit || !areUnitsCompatible(arg.unit, node.unit)) {
+        throw new SafeEvaluatorError(
+          "UNIT_MISMATCH",
+          `Cannot convert ${arg.unit ?? "a plain number"} to ${node.unit}.`
+        );
+      }
+      return finite(convertUnit(arg.value, arg.unit, node.unit) as number, node.unit);
+    }
+    case "binary":
+      return evaluateBinaryChain(node, state, depth);
+    case "call":
+      return evaluateCall(
+        node.fn,
+        node.args.map((arg) => evaluateWithState(arg, state, depth + 1))
+      );
+    default:
+      throw new SafeEvaluatorError("SYNTAX_ERROR", "Unsupported expression node.");
+  }
+};
+
+/** Evaluates a parsed (or spec-authored) expression tree; throws SafeEvaluatorError on failure. */
+export const evaluateNode = (node: ExpressionNode, options: EvaluateOptions = {}): Quantity => {
+  const limits = resolveLimits(options.limits);
+  return evaluateWithState(
+    node,
+    { variables: options.variables ?? {}, maxSteps: limits.maxSteps, maxDepth: limits.maxDepth, steps: 0 },
+    0
+  );
+};
+
+/** Parses and evaluates an expression string without throwing. */
+export const evaluateExpression = (source: string, options: EvaluateOptions = {}): EvaluationResult => {
+  try {
+    const limits = resolveLimits(options.limits);
+    const node = parseExpression(source, limits);
+    const state: EvaluationState = {
+      variables: options.variables ?? {},
+      maxSteps: limits.maxSteps,
+      maxDepth: limits.maxDepth,
+      steps: 0,
+    };
+    const result = evaluateWithState(node, state, 0);
+    return {
+      ok: true,
+      value: result.value,
+      ...(result.unit ? { unit: result.unit } : {}),
+      steps: state.steps,
+    };
+  } catch (error) {
+    if (error instanceof SafeEvaluatorError) {
+      return {
+        ok: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          ...(error.position !== undefined ? { position: error.position } : {}),
+        },
+      };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,66 @@
+/**
+ * Purpose: Define the unit table and linear conversions supported by the SafeEvaluator.
+ * Persists: None.
+ * Security Risks: None.
+ */
+
+export type UnitDimension = "length" | "mass" | "time" | "volume" | "area";
+
+export interface UnitDefinition {
+  dimension: UnitDimension;
+  /** Multiplier that converts one of this unit into the dimension's base unit. */
+  factor: number;
+}
+
+export const UNIT_DEFINITIONS: Readonly<Record<string, UnitDefinition>> = {
+  mm: { dimension: "length", factor: 0.001 },
+  cm: { dimension: "length", factor: 0.01 },
+  m: { dimension: "length", factor: 1 },
+  km: { dimension: "length", factor: 1000 },
+  in: { dimension: "length", factor: 0.0254 },
+  ft: { dimension: "length", factor: 0.3048 },
+  yd: { dimension: "length", factor: 0.9144 },
+  mi: { dimension: "length", factor: 1609.344 },
+  mg: { dimension: "mass", factor: 0.001 },
+  g: { dimension: "mass", factor: 1 },
+  kg: { dimension: "mass", factor: 1000 },
+  oz: { dimension: "mass", factor: 28.349523125 },
+  lb: { dimension: "mass", factor: 453.59237 },
+  ms: { dimension: "time", factor: 0.001 },
+  s: { dimension: "time", factor: 1 },
+  min: { dimension: "time", factor: 60 },
+  h: { dimension: "time", factor: 3600 },
+  day: { dimension: "time", factor: 86400 },
+  ml: { dimension: "volume", factor: 0.001 },
+  l: { dimension: "volume", factor: 1 },
+  gal: { dimension: "volume", factor: 3.785411784 },
+  m2: { dimension: "area", factor: 1 },
+  ft2: { dimension: "area", factor: 0.09290304 },
+  acre: { dimension: "area", factor: 4046.8564224 },
+  ha: { dimension: "area", factor: 10000 },
+};
+
+export const isKnownUnit = (unit: string): boolean =>
+  Object.prototype.hasOwnProperty.call(UNIT_DEFINITIONS, unit);
+
+export const getUnitDefinition = (unit: string): UnitDefinition | undefined =>
+  isKnownUnit(unit) ? UNIT_DEFINITIONS[unit] : undefined;
+
+export const areUnitsCompatible = (from: string, to: string): boolean => {
+  const source = getUnitDefinition(from);
+  const target = getUnitDefinition(to);
+  return Boolean(source && target && source.dimension === target.dimension);
+};
+
+/** Converts a value between two units of the same dimension; returns null when incompatible. */
+export const convertUnit = (value: number, from: string, to: string): number | null => {
+  const source = getUnitDefinition(from);
+  const target = getUnitDefinition(to);
+  if (!source || !target || source.dimension !== target.dimension) {
+    return null;
+  }
+  if (from === to) {
+    return value;
+  }
+  return (value * source.factor) / target.factor;
+};
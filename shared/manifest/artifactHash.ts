@@ -0,0 +1,35 @@
+/**
+ * Purpose: Define the canonical artifact content that manifest `hash` values are computed over.
+ * Persists: None.
+ * Security Risks: API and web must canonicalize identically or integrity checks fail open or closed.
+ */
+
+/** Stored on version entities whose `artifactHash` and manifest `hash` follow this rule. */
+export const ARTIFACT_HASH_SCHEME = "sha256-canonical-v1";
+
+export const EMBEDDED_MANIFEST_ID = "promptcalc-manifest";
+
+// One whole attribute, so the lookaheads below only match real attributes and never text inside a quoted value.
+const ATTRIBUTE = `\\s+[^\\s"'>/=]+(?:\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s"'>]+))?`;
+const NON_TYPE_ATTRIBUTE = `\\s+(?!type\\s*(?:=|\\s|>))[^\\s"'>/=]+(?:\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s"'>]+))?`;
+
+// Only a non-executable JSON block counts as the manifest: the first `type` attribute (the one browsers honour)
+// must be application/json. A script with the manifest id and any other type stays in the hash input.
+const EMBEDDED_MANIFEST_PATTERN =
+  `<script(?=(?:${ATTRIBUTE})*?\\s+id\\s*=\\s*["']${EMBEDDED_MANIFEST_ID}["'])` +
+  `(?=(?:${NON_TYPE_ATTRIBUTE})*\\s+type\\s*=\\s*["']application/json["'])` +
+  `(?:${ATTRIBUTE})*\\s*>[\\s\\S]*?<\\/script\\s*>`;
+
+/** Matches the first embedded JSON manifest block; a new RegExp per call avoids shared `lastIndex` state. */
+export const createEmbeddedManifestRegex = (flags = "i"): RegExp =>
+  new RegExp(EMBEDDED_MANIFEST_PATTERN, flags);
+
+/**
+ * Canonical hash input: the artifact HTML exactly as stored, minus the first
+ * embedded `application/json` manifest block. The manifest carries the hash,
+ * so it cannot be part of what is hashed; any further block, or an executable
+ * script reusing the manifest id, is hashed like the rest of the document.
+ * The result is hashed as UTF-8 with SHA-256 (hex).
+ */
+export const canonicalizeArtifactHtml = (artifactHtml: string): string =>
+  artifactHtml.replace(createEmbeddedManifestRegex("i"), "");
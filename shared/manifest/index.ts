@@ -0,0 +1,9 @@
+/**
+ * Purpose: Export the shared manifest validator and artifact hashing rule for API and web consumers.
+ * Persists: None.
+ * Security Risks: Validates untrusted manifests against the canonical schema.
+ */
+
+export * from "./artifactHash";
+export * from "./jsonSchema";
+export * from "./manifestValidator";
@@ -0,0 +1,344 @@
+/**
+ * Purpose: Compile the draft-07 JSON Schema subset used by PromptCalc schemas into a path-reporting validator.
+ * Persists: None.
+ * Security Risks: Validates untrusted JSON; compilation fails loudly on keywords it cannot enforce so schemas cannot silently loosen.
+ */
+
+export type JsonSchema = {
+  [keyword: string]: unknown;
+};
+
+export type JsonSchemaKeyword =
+  | "type"
+  | "const"
+  | "enum"
+  | "minLength"
+  | "pattern"
+  | "minimum"
+  | "maximum"
+  | "exclusiveMinimum"
+  | "minItems"
+  | "maxItems"
+  | "required"
+  | "additionalProperties";
+
+export type JsonSchemaIssue = {
+  keyword: JsonSchemaKeyword;
+  /** JSONPath-style location, e.g. `$.inputs[0].type`. */
+  path: string;
+  message: string;
+  expected?: string;
+  actual?: string;
+};
+
+export type CompiledJsonSchema = (value: unknown) => JsonSchemaIssue[];
+
+export class JsonSchemaCompileError extends Error {
+  readonly schemaPath: string;
+
+  constructor(message: string, schemaPath: string) {
+    super(`${message} at ${schemaPath}`);
+    this.name = "JsonSchemaCompileError";
+    this.schemaPath = schemaPath;
+  }
+}
+
+type Check = (value: unknown, path: string, issues: JsonSchemaIssue[]) => void;
+
+const ANNOTATION_KEYWORDS = new Set(["$schema", "$comment", "$id", "title", "description", "examples"]);
+const JSON_TYPES = new Set(["object", "array", "string", "number", "integer", "boolean", "null"]);
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return "integer";
+  }
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+};
+
+const jsonEquals = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left) === JSON.stringify(right);
+
+const childPath = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const requireNumber = (schema: JsonSchema, keyword: string, schemaPath: string): number => {
+  const value = schema[keyword];
+  if (typeof value !== "number") {
+    throw new JsonSchemaCompileError(`"${keyword}" must be a number`, schemaPath);
+  }
+  return value;
+};
+
+const compileNode = (schema: unknown, schemaPath: string): Check => {
+  if (!isPlainObject(schema)) {
+    throw new JsonSchemaCompileError("schema must be an object", schemaPath);
+  }
+  const checks: Check[] = [];
+
+  for (const keyword of Object.keys(schema)) {
+    if (ANNOTATION_KEYWORDS.has(keyword)) {
+      continue;
+    }
+    const keywordPath = `${schemaPath}/${keyword}`;
+    switch (keyword) {
+      case "type": {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (types.length === 0 || !types.every((type) => typeof type === "string" && JSON_TYPES.has(type))) {
+          throw new JsonSchemaCompileError("unsupported type", keywordPath);
+        }
+        const expected = (types as string[]).join(" | ");
+        // Type runs first so later keywords only ever see values of the declared type.
+        checks.unshift((value, path, issues) => {
+          if (!(types as string[]).some((type) => matchesType(value, type))) {
+            issues.push({
+              keyword: "type",
+              path,
+              message: `Expected ${expected}.`,
+              expected,
+              actual: describeType(value),
+            });
+          }
+        });
+        break;
+      }
+      case "const": {
+        const expected = schema.const;
+        checks.push((value, path, issues) => {
+          if (!jsonEquals(value, expected)) {
+            issues.push({
+              keyword: "const",
+              path,
+              message: `Must equal ${JSON.stringify(expected)}.`,
+              expected: JSON.stringify(expected),
+              actual: JSON.stringify(value) ?? "undefined",
+            });
+          }
+        });
+        break;
+      }
+      case "enum": {
+        if (!Array.isArray(schema.enum) || schema.enum.length === 0) {
+          throw new JsonSchemaCompileError("\"enum\" must be a non-empty array", keywordPath);
+        }
+        const allowed = schema.enum as unknown[];
+        checks.push((value, path, issues) => {
+          if (!allowed.some((entry) => jsonEquals(entry, value))) {
+            issues.push({
+              keyword: "enum",
+              path,
+              message: `Must be one of ${allowed.map((entry) => JSON.stringify(entry)).join(", ")}.`,
+              expected: allowed.map((entry) => JSON.stringify(entry)).join(" | "),
+              actual: JSON.stringify(value) ?? "undefined",
+            });
+          }
+        });
+        break;
+      }
+      case "minLength": {
+        // Stricter than draft-07: surrounding whitespace does not count toward the length.
+        const minLength = requireNumber(schema, keyword, keywordPath);
+        checks.push((value, path, issues) => {
+          if (typeof value === "string" && value.trim().length < minLength) {
+            issues.push({
+              keyword: "minLength",
+              path,
+              message: `Must contain at least ${minLength} non-whitespace character(s).`,
+              expected: `length >= ${minLength}`,
+              actual: `length ${value.trim().length}`,
+            });
+          }
+        });
+        break;
+      }
+      case "pattern": {
+        if (typeof schema.pattern !== "string") {
+          throw new JsonSchemaCompileError("\"pattern\" must be a string", keywordPath);
+        }
+        const pattern = new RegExp(schema.pattern, "u");
+        checks.push((value, path, issues) => {
+          if (typeof value === "string" && !pattern.test(value)) {
+            issues.push({
+              keyword: "pattern",
+              path,
+              message: `Must match ${pattern.source}.`,
+              expected: pattern.source,
+              actual: JSON.stringify(value),
+            });
+          }
+        });
+        break;
+      }
+      case "minimum":
+      case "maximum":
+      case "exclusiveMinimum": {
+        const bound = requireNumber(schema, keyword, keywordPath);
+        const fails = (value: number) =>
+          keyword === "minimum" ? value < bound : keyword === "maximum" ? value > bound : value <= bound;
+        const expected = `${keyword === "minimum" ? ">=" : keyword === "maximum" ? "<=" : ">"} ${bound}`;
+        checks.push((value, path, issues) => {
+          if (typeof value === "number" && fails(value)) {
+            issues.push({
+              keyword,
+              path,
+              message: `Must be ${expected}.`,
+              expected,
+              actual: String(value),
+            });
+          }
+        });
+        break;
+      }
+      case "minItems":
+      case "maxItems": {
+        const bound = requireNumber(schema, keyword, keywordPath);
+        checks.push((value, path, issues) => {
+          if (!Array.isArray(value)) {
+            return;
+          }
+          if (keyword === "minItems" ? value.length < bound : value.length > bound) {
+            const expected = `${keyword === "minItems" ? "at least" : "at most"} ${bound} item(s)`;
+            issues.push({
+              keyword,
+              path,
+              message: `Must contain ${expected}.`,
+              expected,
+              actual: `${value.length} item(s)`,
+            });
+          }
+        });
+        break;
+      }
+      case "required": {
+        if (!Array.isArray(schema.required) || !schema.required.every((key) => typeof key === "string")) {
+          throw new JsonSchemaCompileError("\"required\" must be an array of strings", keywordPath);
+        }
+        const required = schema.required as string[];
+        checks.push((value, path, issues) => {
+          if (!isPlainObject(value)) {
+            return;
+          }
+          for (const key of required) {
+            if (value[key] === undefined) {
+              issues.push({
+                keyword: "required",
+                path: childPath(path, key),
+                message: `${key} is required.`,
+                expected: "present",
+                actual: "missing",
+              });
+            }
+          }
+        });
+        break;
+      }
+      case "properties": {
+        if (!isPlainObject(schema.properties)) {
+          throw new JsonSchemaCompileError("\"properties\" must be an object", keywordPath);
+        }
+        const properties = Object.entries(schema.properties).map(
+          ([key, propertySchema]) => [key, compileNode(propertySchema, `${keywordPath}/${key}`)] as const
+        );
+        checks.push((value, path, issues) => {
+          if (!isPlainObject(value)) {
+            return;
+          }
+          for (const [key, check] of properties) {
+            if (value[key] !== undefined) {
+              check(value[key], childPath(path, key), issues);
+            }
+          }
+        });
+        break;
+      }
+      case "additionalProperties": {
+        const known = new Set(isPlainObject(schema.properties) ? Object.keys(schema.properties) : []);
+        const additional = schema.additionalProperties;
+        if (additional === true) {
+          break;
+        }
+        const check = additional === false ? null : compileNode(additional, keywordPath);
+        checks.push((value, path, issues) => {
+          if (!isPlainObject(value)) {
+            return;
+          }
+          for (const key of Object.keys(value)) {
+            if (known.has(key)) {
+              continue;
+            }
+            if (check) {
+              check(value[key], childPath(path, key), issues);
+            } else {
+              issues.push({
+                keyword: "additionalProperties",
+                path: childPath(path, key),
+                message: `${key} is not allowed.`,
+                expected: "no additional properties",
+                actual: key,
+              });
+            }
+          }
+        });
+        break;
+      }
+      case "items": {
+        const check = compileNode(schema.items, keywordPath);
+        checks.push((value, path, issues) => {
+          if (!Array.isArray(value)) {
+            return;
+          }
+          value.forEach((entry, index) => check(entry, `${path}[${index}]`, issues));
+        });
+        break;
+      }
+      default:
+        throw new JsonSchemaCompileError(`unsupported keyword "${keyword}"`, keywordPath);
+    }
+  }
+
+  return (value, path, issues) => {
+    const before = issues.length;
+    for (const check of checks) {
+      check(value, path, issues);
+      // A type mismatch makes the remaining keyword checks meaningless for this node.
+      if (issues.length > before && issues[issues.length - 1].keyword === "type") {
+        return;
+      }
+    }
+  };
+};
+
+/** Compiles a schema once; the returned function reports every issue with its path. */
+export const compileJsonSchema = (schema: JsonSchema): CompiledJsonSchema => {
+  const check = compileNode(schema, "#");
+  return (value) => {
+    const issues: JsonSchemaIssue[] = [];
+    check(value, "$", issues);
+    return issues;
+  };
+};
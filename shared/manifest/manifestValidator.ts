@@ -0,0 +1,146 @@
+/**
+ * Purpose: Validate PromptCalc manifests against the canonical spec/manifest.schema.json plus cross-field rules.
+ * Persists: None.
+ * Security Risks: Gates untrusted manifests; the schema rejects unknown fields and any enabled capability.
+ */
+
+import { compileJsonSchema, type JsonSchema, type JsonSchemaIssue } from "./jsonSchema";
+import manifestSchemaJson from "./manifest.schema.json";
+
+/** Same shape as the API's ArtifactValidationError so generation can report both together. */
+export type ManifestValidationError = {
+  kind: "schema_error";
+  /** Derived from the path, e.g. `manifest.inputs.type_invalid` or `manifest.title_missing`. */
+  code: string;
+  path: string;
+  message: string;
+  expected?: string;
+  actual?: string;
+};
+
+export type ManifestValidationOptions = {
+  /** Model output is validated before the hash is computed and embedded. */
+  requireHash?: boolean;
+};
+
+export const MANIFEST_SCHEMA: JsonSchema = manifestSchemaJson;
+
+const validateAgainstSchema = compileJsonSchema(MANIFEST_SCHEMA);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const pathToCode = (path: string): string =>
+  `manifest${path
+    .replace(/^\$/, "")
+    .replace(/\[\d+\]/g, "")
+    .replace(/\["((?:[^"\\]|\\.)*)"\]/g, ".$1")}`;
+
+const parentPath = (path: string): string => path.replace(/(\.[^.[\]]+|\[[^\]]+\])$/, "");
+
+const toValidationError = (issue: JsonSchemaIssue): ManifestValidationError => {
+  let code: string;
+  if (issue.keyword === "additionalProperties") {
+    code = `${pathToCode(parentPath(issue.path))}.unknown_field`;
+  } else if (issue.keyword === "required") {
+    code = `${pathToCode(issue.path)}_missing`;
+  } else {
+    code = `${pathToCode(issue.path)}_invalid`;
+  }
+  return {
+    kind: "schema_error",
+    code,
+    path: issue.path,
+    message: issue.message,
+    ...(issue.expected !== undefined ? { expected: issue.expected } : {}),
+    ...(issue.actual !== undefined ? { actual: issue.actual } : {}),
+  };
+};
+
+const checkDescriptorIds = (
+  list: unknown,
+  listName: "inputs" | "outputs",
+  errors: ManifestValidationError[]
+) => {
+  if (!Array.isArray(list)) {
+    return;
+  }
+  const seen = new Set<string>();
+  list.forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.id !== "string") {
+      return;
+    }
+    if (seen.has(entry.id)) {
+      errors.push({
+        kind: "schema_error",
+        code: `manifest.${listName}.id_duplicate`,
+        path: `$.${listName}[${index}].id`,
+        message: `Duplicate ${listName} id "${entry.id}".`,
+        expected: "unique id",
+        actual: entry.id,
+      });
+    }
+    seen.add(entry.id);
+  });
+};
+
+// Rules JSON Schema draft-07 cannot express (cross-field comparisons and uniqueness by key).
+const checkCrossFieldRules = (manifest: Record<string, unknown>): ManifestValidationError[] => {
+  const errors: ManifestValidationError[] = [];
+  checkDescriptorIds(manifest.inputs, "inputs", errors);
+  checkDescriptorIds(manifest.outputs, "outputs", errors);
+  if (!Array.isArray(manifest.inputs)) {
+    return errors;
+  }
+  manifest.inputs.forEach((input, index) => {
+    if (!isRecord(input)) {
+      return;
+    }
+    const path = `$.inputs[${index}]`;
+    if (typeof input.min === "number" && typeof input.max === "number" && input.min > input.max) {
+      errors.push({
+        kind: "schema_error",
+        code: "manifest.inputs.max_invalid",
+        path: `${path}.max`,
+        message: "max must be greater than or equal to min.",
+        expected: `>= ${input.min}`,
+        actual: String(input.max),
+      });
+    }
+    if (input.default === undefined) {
+      return;
+    }
+    const expectedType =
+      input.type === "number" ? "number" : input.type === "checkbox" ? "boolean" : "string";
+    if (typeof input.default !== expectedType) {
+      errors.push({
+        kind: "schema_error",
+        code: "manifest.inputs.default_invalid",
+        path: `${path}.default`,
+        message: `default must be a ${expectedType} for ${String(input.type)} inputs.`,
+        expected: expectedType,
+        actual: typeof input.default,
+      });
+    }
+  });
+  return errors;
+};
+
+/** Returns every schema and cross-field error for a manifest; an empty array means valid. */
+export const validateManifest = (
+  manifest: unknown,
+  options: ManifestValidationOptions = {}
+): ManifestValidationError[] => {
+  const issues = validateAgainstSchema(manifest).filter(
+    (issue) =>
+      options.requireHash !== false || !(issue.keyword === "required" && issue.path === "$.hash")
+  );
+  const errors = issues.map(toValidationError);
+  return isRecord(manifest) ? [...errors, ...checkCrossFieldRules(manifest)] : errors;
+};
+
+/** First error code, or null when the manifest is valid. */
+export const getManifestValidationIssue = (
+  manifest: unknown,
+  options: ManifestValidationOptions = {}
+): string | null => validateManifest(manifest, options)[0]?.code ?? null;
@@ -0,0 +1,56 @@
+/**
+ * Purpose: Define the declarative calculator spec rendered by the trusted CalculatorRenderer.
+ * Persists: None.
+ * Security Risks: Describes model-generated data only; specs never carry executable code.
+ */
+
+export const CALCULATOR_SPEC_VERSION = "1.0";
+
+export type RenderMode = "artifact" | "spec";
+
+export const FORMULA_BINARY_OPERATORS = ["+", "-", "*", "/"] as const;
+export const FORMULA_FUNCTIONS = ["abs", "min", "max", "round", "floor", "ceil", "sqrt"] as const;
+
+export type FormulaBinaryOperator = (typeof FORMULA_BINARY_OPERATORS)[number];
+export type FormulaFunction = (typeof FORMULA_FUNCTIONS)[number];
+
+export type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "ref"; id: string }
+  | { kind: "unary"; op: "-"; arg: FormulaNode }
+  | { kind: "binary"; op: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; fn: FormulaFunction; args: FormulaNode[] };
+
+export interface CalculatorSpecInput {
+  id: string;
+  label: string;
+  type: "number";
+  unit?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  default?: number;
+}
+
+export interface CalculatorSpecOutput {
+  id: string;
+  label: string;
+  unit?: string;
+  precision?: number;
+  formula: FormulaNode;
+}
+
+export interface CalculatorSpecLayoutGroup {
+  id: string;
+  title: string;
+  fields: string[];
+}
+
+export interface CalculatorSpec {
+  specVersion: typeof CALCULATOR_SPEC_VERSION;
+  title: string;
+  description: string;
+  inputs: CalculatorSpecInput[];
+  outputs: CalculatorSpecOutput[];
+  layout: CalculatorSpecLayoutGroup[];
+}
@@ -4,6 +4,7 @@
  * Security Risks: None.
  */
 
+export * from "./calculatorSpec";
 export * from "./manifest";
 export { defaultProfile, normalizeProfile, profileId } from "./redteam";
 export type { RedTeamDebugProfile, ScanMode } from "./redteam";
@@ -1,20 +1,88 @@
 /**
- * Purpose: Define the minimal PromptCalc manifest shape from the schema.
+ * Purpose: Define the PromptCalc manifest shape (spec 1.2) from the schema, plus the legacy 1.1 shape.
  * Persists: None.
  * Security Risks: None.
  */
 
+export const MANIFEST_SPEC_VERSION = "1.2";
+export const LEGACY_MANIFEST_SPEC_VERSION = "1.1";
+
 export type ExecutionModel = "form" | "expression";
 
+export const MANIFEST_INPUT_TYPES = ["number", "text", "select", "checkbox"] as const;
+
+export type ManifestInputType = (typeof MANIFEST_INPUT_TYPES)[number];
+
+export interface ManifestInputDescriptor {
+  id: string;
+  label: string;
+  type: ManifestInputType;
+  unit?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  default?: number | string | boolean;
+}
+
+export interface ManifestOutputDescriptor {
+  id: string;
+  label: string;
+  unit?: string;
+  /** Decimal places shown for the output. */
+  precision?: number;
+}
+
+/** Artifacts are offline-only; every capability must be false. */
+export interface ManifestCapabilities {
+  network: false;
+  storage: false;
+  dynamicCode: false;
+}
+
+export interface ManifestTestVectorInput {
+  id: string;
+  value: string | number | boolean;
+}
+
+export interface ManifestTestVectorExpectation {
+  id: string;
+  value: number;
+  tolerance?: number;
+}
+
+export interface ManifestTestVector {
+  name: string;
+  inputs: ManifestTestVectorInput[];
+  /** Element id to click before reading outputs; omitted when outputs update on input. */
+  action?: string;
+  expected: ManifestTestVectorExpectation[];
+}
+
 export interface PromptCalcManifest {
-  specVersion: "1.1";
+  specVersion: typeof MANIFEST_SPEC_VERSION;
   title: string;
   description: string;
   executionModel: ExecutionModel;
-  capabilities: string[];
-  inputs: string[];
-  outputs: string[];
+  capabilities: ManifestCapabilities;
+  inputs: ManifestInputDescriptor[];
+  outputs: ManifestOutputDescriptor[];
   limitations: string[];
   safetyNotes: string[];
+  testVectors?: ManifestTestVector[];
   hash: string;
 }
+
+/** Manifests stored before 1.2; read through the API's legacy upgrade path. */
+export interface PromptCalcManifestV1_1 {
+  specVersion: typeof LEGACY_MANIFEST_SPEC_VERSION;
+  title: string;
+  description?: string;
+  executionModel: ExecutionModel;
+  capabilities: string[] | Record<string, boolean>;
+  inputs?: string[];
+  outputs?: string[];
+  limitations?: string[];
+  safetyNotes?: string[];
+  testVectors?: ManifestTestVector[];
+  hash?: string;
+}